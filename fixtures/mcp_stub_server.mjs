@@ -0,0 +1,46 @@
+#!/usr/bin/env node
+// Minimal MCP stdio server for tests: newline-delimited JSON-RPC with two tools.
+//   echo { text }  -> text content
+//   fail { text }  -> isError result
+// MCP_STUB_PREFIX (env) is prepended to echo output, so tests can check that server env is passed through.
+import readline from "node:readline";
+
+const tools = [
+  { name: "echo", description: "Echo text", inputSchema: { type: "object", properties: { text: { type: "string" } } } },
+  { name: "fail", description: "Always fails", inputSchema: { type: "object" } },
+];
+
+function reply(id, result, error) {
+  process.stdout.write(`${JSON.stringify({ jsonrpc: "2.0", id, ...(error ? { error } : { result }) })}\n`);
+}
+
+const rl = readline.createInterface({ input: process.stdin, crlfDelay: Infinity });
+rl.on("line", (line) => {
+  if (!line.trim()) return;
+  const msg = JSON.parse(line);
+  if (msg.id === undefined) return; // notification
+
+  if (msg.method === "initialize") {
+    reply(msg.id, {
+      protocolVersion: msg.params?.protocolVersion ?? "2025-03-26",
+      capabilities: { tools: {} },
+      serverInfo: { name: "mcp-stub", version: "0.0.0" },
+    });
+    return;
+  }
+  if (msg.method === "tools/list") {
+    // Two pages, to exercise cursors.
+    if (msg.params?.cursor === "2") reply(msg.id, { tools: tools.slice(1) });
+    else reply(msg.id, { tools: tools.slice(0, 1), nextCursor: "2" });
+    return;
+  }
+  if (msg.method === "tools/call") {
+    const { name, arguments: args } = msg.params ?? {};
+    const text = String(args?.text ?? "");
+    if (name === "echo") reply(msg.id, { content: [{ type: "text", text: `${process.env.MCP_STUB_PREFIX ?? ""}${text}` }] });
+    else if (name === "fail") reply(msg.id, { content: [{ type: "text", text: `failed: ${text}` }], isError: true });
+    else reply(msg.id, undefined, { code: -32602, message: `Unknown tool: ${name}` });
+    return;
+  }
+  reply(msg.id, undefined, { code: -32601, message: `Method not found: ${msg.method}` });
+});
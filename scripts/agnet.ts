@@ -5,10 +5,21 @@ import readline from "node:readline";
 import { fileURLToPath, pathToFileURL } from "node:url";
 import { spawnSync } from "node:child_process";
 
-import { Cerebellum, type CerebellumToolRequest, executeGh, executeMcpCall } from "../src/agnet/cerebellum.ts";
-import { runSelfCheck } from "../src/agnet/self-check.ts";
+import {
+  Cerebellum,
+  type CerebellumToolRequest,
+  createCerebellumToolRegistry,
+  executeGh,
+  executeMcpCall,
+} from "../src/agnet/cerebellum.ts";
+import { ToolCassette, recordToolCassette, type ToolCassetteMatch } from "../src/agnet/cassette.ts";
+import { RunJournal, findRunJournal, listRunJournals, readRunJournal } from "../src/agnet/run-journal.ts";
+import { Workflow, type WorkflowCheckpoint } from "../src/agnet/workflow.ts";
+import { checkAgentRequirements, createStartupDryRunExecutor } from "../src/agnet/requirements.ts";
+import { runSelfCheck, type SelfCheckReport } from "../src/agnet/self-check.ts";
 import { CollectionFactory } from "../src/stc/light/collection.ts";
 import { InMemoryChat } from "../src/stc/light/chat.ts";
+import type { AgentDefinition, McpServersConfig } from "../src/md-parser/types.ts";
 import type { STC } from "../src/types/light/stc.js";
 
 type OutputMode = "text" | "json";
@@ -62,6 +73,8 @@ function mainHelpText(): string {
   const text = `
 agnet.ts --templates <path> doctor
 agnet.ts --templates <path> run --world
+agnet.ts runs list
+agnet.ts runs show <id>
 agnet.ts interactive
 agnet.ts tools
 agnet.ts selfcheck
@@ -70,6 +83,9 @@ Global flags:
   --templates <path>   Agent template file (.agent.md) or directory (loads **/*.agent.md)
   --json               JSON output
 
+doctor parses the templates and checks required.env (set in the environment) and required.startup
+(the startup tool succeeds in a dry run; shell commands are recorded, not executed). Exits 1 on failure.
+
 Examples:
   node scripts/agnet.ts --templates agents/repoboss.agent.md doctor
   node scripts/agnet.ts --templates agents/repoboss.agent.md run --world
@@ -87,6 +103,10 @@ Tier 1 tools:
   agnet.ts tools gh "<command...>"
     - Fixture mode: set AGNET_GH_FIXTURE_CMD=<path> to print canned stdout.
   agnet.ts tools mcp call <method> --args <json> --spec <openapi.yml>
+  agnet.ts --templates <path> tools mcp call <method> --args <json> --server <name>
+    - <method> is a tool name (tools/call) or a protocol method such as tools/list.
+    - --spec serves the OpenAPI spec with the OpenAPI MCP server (base URL: spec servers or AGNET_MCP_API_BASE_URL,
+      headers: AGNET_MCP_HEADERS); --server uses an mcpServers entry of the templates.
     - Fixture mode: set AGNET_MCP_FIXTURE_PATH=<path> to print canned response.
 `.trim();
   return text;
@@ -98,6 +118,27 @@ agnet.ts --templates <path> run --world
 
 Flags:
   --world   Build STC.World snapshot (GitHub issue comments)
+
+Cassettes (JSONL, one { request, result } per tool call):
+  AGNET_CASSETTE_RECORD=<path>   Record every executed tool call of the run.
+  AGNET_CASSETTE_REPLAY=<path>   Answer tool calls from a recorded cassette; unmatched calls fail the run.
+  AGNET_CASSETTE_MATCH=fuzzy     Match replayed calls by tool, method and leading args (default: strict).
+
+A failed /myagent resolve is retried by the next runs; after AGNET_WORKFLOW_MAX_ATTEMPTS failures of the same step
+(default: 3) the command is marked as processed.
+
+Every run is journaled to .agnet/runs/<runId>.jsonl (AGNET_RUNS_DIR=<dir> to change); see agnet.ts runs.
+`.trim();
+  return text;
+}
+
+function runsHelpText(): string {
+  const text = `
+agnet.ts runs list
+agnet.ts runs show <id>
+
+Journals of agnet.ts run (.agnet/runs/<runId>.jsonl, or AGNET_RUNS_DIR): the world snapshot, dispatched events,
+hook decisions, tool requests/results, logs and the exit code. <id> may be a unique prefix of the run id.
 `.trim();
   return text;
 }
@@ -373,10 +414,18 @@ type IdempotencyRecord = { id: string; seenAt: string };
 async function loadIdempotencyStore(cwd: string): Promise<{
   path: string;
   seen: { has(key: string): boolean; upsert(record: IdempotencyRecord, key?: string): unknown; list(): IdempotencyRecord[] };
+  /** Completed workflow steps (see `Workflow`), so a failed run resumes where it stopped. */
+  checkpoints: {
+    get(key: string): WorkflowCheckpoint | undefined;
+    upsert(record: WorkflowCheckpoint, key?: string): unknown;
+    list(): WorkflowCheckpoint[];
+  };
   source: "file" | "empty";
 }> {
   const p = readEnv("AGNET_IDEMPOTENCY_PATH") ?? path.join(cwd, ".agnet", "cache.json");
-  const seen = new CollectionFactory().create<IdempotencyRecord, string>({ name: "gh.commentIdempotency", keyField: "id" });
+  const collections = new CollectionFactory();
+  const seen = collections.create<IdempotencyRecord, string>({ name: "gh.commentIdempotency", keyField: "id" });
+  const checkpoints = collections.create<WorkflowCheckpoint, string>({ name: "workflow.checkpoints", keyField: "id" });
 
   try {
     const data = await readJsonFile<any>(p);
@@ -387,15 +436,23 @@ async function loadIdempotencyStore(cwd: string): Promise<{
       if (!id || !seenAt) continue;
       seen.upsert({ id, seenAt }, id);
     }
-    return { path: p, seen, source: "file" };
+    for (const r of Array.isArray(data?.checkpoints) ? data.checkpoints : []) {
+      if (typeof r?.id !== "string" || typeof r?.step !== "string") continue;
+      checkpoints.upsert(r as WorkflowCheckpoint, r.id);
+    }
+    return { path: p, seen, checkpoints, source: "file" };
   } catch {
-    return { path: p, seen, source: "empty" };
+    return { path: p, seen, checkpoints, source: "empty" };
   }
 }
 
-async function persistIdempotencyStore(store: { path: string; seen: { list(): IdempotencyRecord[] } }): Promise<void> {
+async function persistIdempotencyStore(store: {
+  path: string;
+  seen: { list(): IdempotencyRecord[] };
+  checkpoints: { list(): WorkflowCheckpoint[] };
+}): Promise<void> {
   await ensureDir(path.dirname(store.path));
-  const data = { version: 1, seen: store.seen.list() };
+  const data = { version: 1, seen: store.seen.list(), checkpoints: store.checkpoints.list() };
   await fs.writeFile(store.path, `${JSON.stringify(data, null, 2)}\n`, "utf8");
 }
 
@@ -444,7 +501,7 @@ async function transpileTsToJsFile(opts: { inPath: string; outPath: string }): P
 
 async function ensureAgentParserBuilt(cwd: string): Promise<string> {
   // We cannot import from /src directly because Node's TS runtime does not
-  // resolve `./types.js` -> `./types.ts`. Instead, we transpile just the needed
+  // resolve `./types.js` -> `./types.ts`. Instead, we transpile the parser
   // modules into a small cache and import the JS output.
   const cacheRoot = path.join(cwd, ".cache", "agnet-ts-runtime");
   const candidates: Array<{ name: string; srcRoot: string }> = [
@@ -454,11 +511,9 @@ async function ensureAgentParserBuilt(cwd: string): Promise<string> {
 
   const resolved = await (async () => {
     for (const c of candidates) {
-      const typesIn = path.join(c.srcRoot, "types.ts");
-      const parserIn = path.join(c.srcRoot, "parse-agent-md.ts");
-      const typesInStat = await statSafe(typesIn);
-      const parserInStat = await statSafe(parserIn);
-      if (typesInStat && parserInStat) return { ...c, typesIn, parserIn, typesInStat, parserInStat };
+      const typesInStat = await statSafe(path.join(c.srcRoot, "types.ts"));
+      const parserInStat = await statSafe(path.join(c.srcRoot, "parse-agent-md.ts"));
+      if (typesInStat && parserInStat) return c;
     }
     return null;
   })();
@@ -468,19 +523,20 @@ async function ensureAgentParserBuilt(cwd: string): Promise<string> {
   }
 
   const outRoot = path.join(cacheRoot, resolved.name);
-  const typesOut = path.join(outRoot, "types.js");
-  const parserOut = path.join(outRoot, "parse-agent-md.js");
-
-  const typesOutStat = await statSafe(typesOut);
-  const parserOutStat = await statSafe(parserOut);
-
-  const needsTypes = !typesOutStat || typesOutStat.mtimeMs < resolved.typesInStat.mtimeMs;
-  const needsParser = !parserOutStat || parserOutStat.mtimeMs < resolved.parserInStat.mtimeMs;
-
-  if (needsTypes) await transpileTsToJsFile({ inPath: resolved.typesIn, outPath: typesOut });
-  if (needsParser) await transpileTsToJsFile({ inPath: resolved.parserIn, outPath: parserOut });
+  // The parser imports sibling modules (diagnostics, schema, ...); transpile all of them.
+  const sources = (await fs.readdir(resolved.srcRoot)).filter((f) => f.endsWith(".ts") && !f.endsWith(".d.ts"));
+  for (const f of sources) {
+    const inPath = path.join(resolved.srcRoot, f);
+    const outPath = path.join(outRoot, f.replace(/\.ts$/, ".js"));
+    const inStat = await statSafe(inPath);
+    const outStat = await statSafe(outPath);
+    if (!inStat) continue;
+    if (!outStat || outStat.mtimeMs < inStat.mtimeMs) {
+      await transpileTsToJsFile({ inPath, outPath });
+    }
+  }
 
-  return parserOut;
+  return path.join(outRoot, "parse-agent-md.js");
 }
 
 async function loadAgentParser(cwd: string): Promise<{ parseAgentMd: (p: string) => Promise<unknown> }> {
@@ -545,39 +601,60 @@ async function loadTemplates(opts: { templates: string[]; cwd: string }): Promis
   return { files };
 }
 
+/** `mcpServers` of all templates (a later template wins for the same server name). */
+async function loadMcpServers(files: string[], cwd: string): Promise<McpServersConfig> {
+  const { parseAgentMd } = await loadAgentParser(cwd);
+  const servers: McpServersConfig = {};
+  for (const f of files) Object.assign(servers, ((await parseAgentMd(f)) as AgentDefinition).mcpServers ?? {});
+  return servers;
+}
+
 async function cmdDoctor(opts: { templates: string[]; cwd: string; mode: OutputMode }): Promise<number> {
   const { files } = await loadTemplates(opts);
   const { parseAgentMd } = await loadAgentParser(opts.cwd);
 
-  // Parse to validate.
-  for (const f of files) await parseAgentMd(f);
+  // Parse to validate, then preflight `required` (env vars + startup dry run).
+  const requirements: Array<{ template: string } & SelfCheckReport> = [];
+  for (const f of files) {
+    const def = (await parseAgentMd(f)) as AgentDefinition;
+    const report = await checkAgentRequirements(def, process.env, {
+      startup: createStartupDryRunExecutor({ cwd: opts.cwd }),
+    });
+    requirements.push({ template: toRelPath(f, opts.cwd), ...report });
+  }
+  const ok = requirements.every((r) => r.ok);
 
   if (opts.mode === "json") {
     // eslint-disable-next-line no-console
     console.log(
       JSON.stringify(
         {
-          ok: true,
+          ok,
           command: "doctor",
           templatesLoaded: files.length,
           templates: files.map((f) => toRelPath(f, opts.cwd)),
+          requirements,
         },
         null,
         2
       )
     );
-    return 0;
+    return ok ? 0 : 1;
   }
 
   // eslint-disable-next-line no-console
   console.log("Doctor");
   // eslint-disable-next-line no-console
   console.log(`Templates loaded: ${files.length}`);
-  for (const f of files) {
+  for (const r of requirements) {
     // eslint-disable-next-line no-console
-    console.log(`- ${toRelPath(f, opts.cwd)}`);
+    console.log(`- ${r.template}`);
+    for (const c of r.checks) {
+      // eslint-disable-next-line no-console
+      console.log(c.ok ? `  - ok: ${c.name}` : `  - fail: ${c.name} — ${c.error.message}`);
+    }
   }
-  return 0;
+  return ok ? 0 : 1;
 }
 
 async function cmdRun(opts: {
@@ -598,14 +675,28 @@ async function cmdRun(opts: {
   }
 
   const { files } = await loadTemplates({ templates: opts.templates, cwd: opts.cwd });
-  const { parseAgentMd } = await loadAgentParser(opts.cwd);
-
-  // Parse to validate.
-  for (const f of files) await parseAgentMd(f);
+  // Parse to validate; the templates' mcpServers are what `mcp` requests can name.
+  const mcpServers = await loadMcpServers(files, opts.cwd);
 
   const store = await loadIdempotencyStore(opts.cwd);
   const world = await buildWorldSnapshot(opts.cwd);
 
+  let tools = createCerebellumToolRegistry({ mcpServers });
+  const replayPath = readEnv("AGNET_CASSETTE_REPLAY");
+  if (replayPath) {
+    const match = readEnv("AGNET_CASSETTE_MATCH") ?? "strict";
+    if (match !== "strict" && match !== "fuzzy") {
+      throw new Error(`Invalid AGNET_CASSETTE_MATCH '${match}': expected strict or fuzzy.`);
+    }
+    const cassette = await ToolCassette.load(replayPath, { match: match as ToolCassetteMatch, cwd: opts.cwd });
+    tools = cassette.replay(tools);
+  }
+  const maxAttemptsRaw = readEnv("AGNET_WORKFLOW_MAX_ATTEMPTS") ?? "3";
+  const maxAttempts = Number(maxAttemptsRaw);
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+    throw new Error(`Invalid AGNET_WORKFLOW_MAX_ATTEMPTS '${maxAttemptsRaw}': expected a positive integer.`);
+  }
+
   const logs: string[] = [];
   const toolEvents: ToolEvent[] = [];
   const cerebellum = new Cerebellum<{
@@ -614,7 +705,13 @@ async function cmdRun(opts: {
     logs: string[];
     toolEvents: ToolEvent[];
     cerebellum: Cerebellum<any>;
-  }>();
+  }>({ tools });
+
+  const recordPath = readEnv("AGNET_CASSETTE_RECORD");
+  if (recordPath) recordToolCassette(cerebellum, recordPath, { cwd: opts.cwd });
+
+  const journal = RunJournal.create({ dir: runsDir(opts.cwd), templates: files.map((f) => toRelPath(f, opts.cwd)) });
+  journal.attach(cerebellum);
 
   // Collect channel logs into ctx.logs for deterministic CLI output.
   cerebellum.channel.subscribe((evt: any) => {
@@ -684,7 +781,7 @@ async function cmdRun(opts: {
       ...evt,
       meta: { ...(evt.meta ?? {}), command: found },
     };
-  });
+  }, { name: "detect-slash-command" });
 
   // Safety hook: block agent gh tool calls unless an intention is explicitly provided.
   cerebellum.on("tool.request", (evt, ctx) => {
@@ -696,12 +793,7 @@ async function cmdRun(opts: {
       cerebellum.log(`Blocked gh tool call (missing intention).`);
       return null;
     }
-  });
-
-  const wake = await cerebellum.dispatch({ type: "wake", payload: { world } }, ctx);
-
-  const cmd = (wake?.meta as any)?.command as SlashCommand | undefined;
-  const message = cmd ? `Found command: ${cmd.name}` : "Nothing to do";
+  }, { name: "require-intention" });
 
   async function markProcessed(commentItemId: string): Promise<void> {
     ctx.idempotency.seen.upsert({ id: commentItemId, seenAt: ctx.world.ts }, commentItemId);
@@ -751,64 +843,115 @@ async function cmdRun(opts: {
     return { ok: true, jobId };
   }
 
+  // ack comment -> Cursor job -> summary comment. Completed steps are checkpointed per command comment, so a rerun
+  // after a failure continues with the failed step instead of acknowledging again.
+  const resolveWorkflow = new Workflow<SlashCommand>({
+    name: "resolve",
+    steps: [
+      {
+        name: "ack",
+        run: async (cmd) => {
+          const ackBody = "Acknowledged, working…";
+          cerebellum.log(ackBody);
+          const ackOk = await postIssueComment({
+            repo: cmd.repo,
+            issueNumber: cmd.issueNumber,
+            body: ackBody,
+            intention: "Acknowledge /myagent resolve command",
+          });
+          return ackOk ? { ok: true } : { ok: false, error: "Failed to post acknowledgement." };
+        },
+      },
+      {
+        name: "start-job",
+        run: async (cmd) => {
+          const started = await startCursorJob(cmd);
+          if (!started.ok) return { ok: false, error: started.message };
+          cerebellum.log(`Cursor job started: ${started.jobId}`);
+          return { ok: true, value: { jobId: started.jobId } };
+        },
+      },
+      {
+        name: "summary",
+        run: async (cmd, results) => {
+          const { jobId } = results["start-job"] as { jobId: string };
+          const summaryBody = [
+            "Final summary",
+            "",
+            `- Command: ${cmd.raw}`,
+            `- Cursor job: ${jobId}`,
+            `- Source: ${cmd.url}`,
+          ].join("\n");
+          const summaryOk = await postIssueComment({
+            repo: cmd.repo,
+            issueNumber: cmd.issueNumber,
+            body: summaryBody,
+            intention: "Post final summary for /myagent resolve",
+          });
+          if (!summaryOk) return { ok: false, error: "Failed to post final summary." };
+          cerebellum.log("Posted final summary");
+          return { ok: true };
+        },
+      },
+    ],
+  });
+
   async function handleResolve(cmd: SlashCommand): Promise<number> {
-    const ackBody = "Acknowledged, working…";
-    cerebellum.log(ackBody);
-    const ackOk = await postIssueComment({
-      repo: cmd.repo,
-      issueNumber: cmd.issueNumber,
-      body: ackBody,
-      intention: "Acknowledge /myagent resolve command",
+    const run = await resolveWorkflow.run({
+      runId: cmd.itemId,
+      ctx: cmd,
+      cerebellum,
+      store: store.checkpoints,
+      persist: () => persistIdempotencyStore(store),
+      maxAttempts,
     });
-    if (!ackOk) return 1;
+    if (run.ok) return 0;
 
-    const started = await startCursorJob(cmd);
-    if (!started.ok) {
-      cerebellum.log(`Failed to start Cursor job: ${started.message}`, "error");
-      const failBody = `Failed: ${started.message}`;
+    // Reruns retry the step; only the first failure is reported on the issue.
+    if (run.step === "start-job" && run.attempts === 1) {
+      cerebellum.log(`Failed to start Cursor job: ${run.error}`, "error");
       await postIssueComment({
         repo: cmd.repo,
         issueNumber: cmd.issueNumber,
-        body: failBody,
+        body: `Failed: ${run.error}`,
         intention: "Report /myagent resolve failure",
       });
-      return 1;
+    } else if (run.step === "start-job") {
+      cerebellum.log(`Failed to start Cursor job (attempt ${run.attempts}): ${run.error}`, "error");
     }
-
-    cerebellum.log(`Cursor job started: ${started.jobId}`);
-
-    const summaryBody = [
-      "Final summary",
-      "",
-      `- Command: ${cmd.raw}`,
-      `- Cursor job: ${started.jobId}`,
-      `- Source: ${cmd.url}`,
-    ].join("\n");
-    const summaryOk = await postIssueComment({
-      repo: cmd.repo,
-      issueNumber: cmd.issueNumber,
-      body: summaryBody,
-      intention: "Post final summary for /myagent resolve",
-    });
-    if (!summaryOk) return 1;
-
-    cerebellum.log("Posted final summary");
-    return 0;
+    if (run.exhausted) {
+      // Give up so the commands after this one are not blocked by it forever.
+      cerebellum.log(`Giving up on ${cmd.itemId} after ${run.attempts} failed attempts at '${run.step}'`, "error");
+      await markProcessed(cmd.itemId);
+    }
+    return 1;
   }
 
+  let cmd: SlashCommand | undefined;
   let exitCode = 0;
-  if (cmd) {
-    if (cmd.name === "resolve") {
-      exitCode = await handleResolve(cmd);
+  try {
+    const wake = await cerebellum.dispatch({ type: "wake", payload: { world } }, ctx);
+    cmd = (wake?.meta as any)?.command as SlashCommand | undefined;
+    if (cmd) {
+      if (cmd.name === "resolve") {
+        exitCode = await handleResolve(cmd);
+      } else {
+        cerebellum.log(`Unsupported command: ${cmd.name}`, "warn");
+        exitCode = 0;
+      }
+      // A failed command stays unprocessed (until it runs out of attempts): the next run resumes its workflow.
+      if (exitCode === 0) await markProcessed(cmd.itemId);
+      else await persistIdempotencyStore(store);
     } else {
-      cerebellum.log(`Unsupported command: ${cmd.name}`, "warn");
-      exitCode = 0;
+      // Persist store for deterministic fixture tests (even if empty).
+      await persistIdempotencyStore(store);
     }
-    await markProcessed(cmd.itemId);
-  } else {
-    // Persist store for deterministic fixture tests (even if empty).
-    await persistIdempotencyStore(store);
+  } catch (err) {
+    journal.end(1, err instanceof Error ? err.message : String(err));
+    throw err;
   }
+  journal.end(exitCode);
+  const message = cmd ? `Found command: ${cmd.name}` : "Nothing to do";
 
   if (opts.mode === "json") {
     // eslint-disable-next-line no-console
@@ -823,6 +966,7 @@ async function cmdRun(opts: {
           logs,
           toolEvents,
           exitCode,
+          runId: journal.runId,
         },
         null,
         2
@@ -840,6 +984,103 @@ async function cmdRun(opts: {
   return exitCode;
 }
 
+function runsDir(cwd: string): string {
+  return readEnv("AGNET_RUNS_DIR") ?? path.join(cwd, ".agnet", "runs");
+}
+
+async function cmdRuns(opts: { argv: string[]; cwd: string; mode: OutputMode }): Promise<number> {
+  const rest = stripGlobalFlags(opts.argv);
+  const sub = rest[1]; // [ "runs", ... ]
+  const dir = runsDir(opts.cwd);
+
+  if (sub === undefined || sub === "help") {
+    if (opts.mode === "json") {
+      printHelp(opts.mode, { command: "runs", text: runsHelpText() });
+      return 0;
+    }
+    // eslint-disable-next-line no-console
+    console.log(runsHelpText());
+    return 0;
+  }
+
+  if (sub === "list") {
+    const runs = await listRunJournals(dir);
+    if (opts.mode === "json") {
+      const listed = runs.map((r) => ({ ...r, file: toRelPath(r.file, opts.cwd) }));
+      // eslint-disable-next-line no-console
+      console.log(JSON.stringify({ ok: true, command: "runs", runs: listed }, null, 2));
+      return 0;
+    }
+    if (!runs.length) {
+      // eslint-disable-next-line no-console
+      console.log(`No runs in ${toRelPath(dir, opts.cwd)}`);
+      return 0;
+    }
+    for (const r of runs) {
+      const status = r.exitCode === undefined ? "unfinished" : `exit ${r.exitCode}`;
+      // eslint-disable-next-line no-console
+      console.log(`${r.runId}  ${status}  ${r.toolCalls} tool call(s)  ${r.templates.join(", ")}`);
+    }
+    return 0;
+  }
+
+  if (sub === "show") {
+    const id = rest[2];
+    if (!id) {
+      printError(opts.mode, { command: "runs", message: "Missing run id.", helpText: runsHelpText() });
+      return 2;
+    }
+    const file = await findRunJournal(dir, id);
+    const records = await readRunJournal(file);
+    if (opts.mode === "json") {
+      // eslint-disable-next-line no-console
+      console.log(JSON.stringify({ ok: true, command: "runs", file: toRelPath(file, opts.cwd), records }, null, 2));
+      return 0;
+    }
+    for (const r of records) {
+      // eslint-disable-next-line no-console
+      console.log(`${String(r.seq).padStart(4)}  ${r.ts}  ${formatJournalRecord(r)}`);
+    }
+    return 0;
+  }
+
+  printError(opts.mode, { command: "runs", message: `Unknown runs command: ${sub}`, helpText: runsHelpText() });
+  return 2;
+}
+
+/** One line of `runs show`: what happened, without the full payload (`--json` has it). */
+function formatJournalRecord(r: Awaited<ReturnType<typeof readRunJournal>>[number]): string {
+  switch (r.type) {
+    case "run.start":
+      return `run.start ${r.payload.runId} (${r.payload.templates.join(", ")})`;
+    case "run.end":
+      return `run.end exit ${r.payload.exitCode}${r.payload.error ? `: ${r.payload.error}` : ""}`;
+    case "world.snapshot": {
+      const items = (r.payload as { items?: unknown[] } | null)?.items;
+      return `world.snapshot ${Array.isArray(items) ? items.length : 0} item(s)`;
+    }
+    case "event.dispatched":
+      return `event.dispatched ${r.payload.event.type} -> ${r.payload.result ? "passed" : "dropped"}`;
+    case "hook.decision":
+      return `hook.decision ${r.payload.event} ${r.payload.hook}: ${r.payload.decision}`;
+    case "tool.request": {
+      const intention = r.payload.intention ? ` (${r.payload.intention})` : "";
+      return `tool.request ${JSON.stringify(r.payload.request)}${intention}`;
+    }
+    case "tool.result": {
+      const res = r.payload.result;
+      const outcome = res.ok ? "ok" : `${res.blocked ? "blocked" : "failed"}: ${res.error.message}`;
+      return `tool.result ${r.payload.request.tool} ${outcome}`;
+    }
+    case "workflow.step":
+      return `workflow.step ${r.payload.workflow} ${r.payload.step}: ${r.payload.status}${
+        r.payload.error ? ` (${r.payload.error})` : ""
+      }`;
+    case "log":
+      return `log ${r.payload.level ?? "info"}: ${r.payload.message}`;
+  }
+}
+
 function splitCliWords(input: string): string[] {
   return input
     .split(/\s+/)
@@ -857,7 +1098,7 @@ function getNamedArg(argv: string[], name: string): string | undefined {
   return undefined;
 }
 
-async function cmdTools(opts: { argv: string[]; mode: OutputMode }): Promise<number> {
+async function cmdTools(opts: { argv: string[]; templates: string[]; cwd: string; mode: OutputMode }): Promise<number> {
   const rest = stripGlobalFlags(opts.argv);
   const sub = rest[1]; // [ "tools", ... ]
 
@@ -905,6 +1146,7 @@ async function cmdTools(opts: { argv: string[]; mode: OutputMode }): Promise<num
     const method = rest[3];
     const rawArgs = getNamedArg(rest, "--args") ?? getNamedArg(opts.argv, "--args");
     const specPath = getNamedArg(rest, "--spec") ?? getNamedArg(opts.argv, "--spec");
+    const server = getNamedArg(rest, "--server") ?? getNamedArg(opts.argv, "--server");
 
     if (!method) {
       printError(opts.mode, { command: "tools", message: "Missing MCP method.", helpText: toolsHelpText() });
@@ -914,8 +1156,12 @@ async function cmdTools(opts: { argv: string[]; mode: OutputMode }): Promise<num
       printError(opts.mode, { command: "tools", message: "Missing required flag: --args <json>", helpText: toolsHelpText() });
       return 2;
     }
-    if (!specPath) {
-      printError(opts.mode, { command: "tools", message: "Missing required flag: --spec <openapi.yml>", helpText: toolsHelpText() });
+    if (!specPath && !server) {
+      printError(opts.mode, {
+        command: "tools",
+        message: "Missing required flag: --spec <openapi.yml> or --server <name>",
+        helpText: toolsHelpText(),
+      });
       return 2;
     }
 
@@ -928,7 +1174,11 @@ async function cmdTools(opts: { argv: string[]; mode: OutputMode }): Promise<num
       return 2;
     }
 
-    const res = await executeMcpCall({ method, args: parsedArgs, specPath }, { cwd: process.cwd() });
+    const mcpServers = server ? await loadMcpServers((await loadTemplates(opts)).files, opts.cwd) : undefined;
+    const res = await executeMcpCall(
+      { method, args: parsedArgs, ...(server ? { server } : { specPath }) },
+      { cwd: process.cwd(), mcpServers }
+    );
     if (!res.ok) {
       printError(opts.mode, { command: "tools", message: res.error.message });
       return 1;
@@ -1115,7 +1365,8 @@ export async function main(argv = process.argv.slice(2)): Promise<number> {
     if (command === "doctor") return await cmdDoctor({ templates, cwd, mode });
     if (command === "run") return await cmdRun({ templates, cwd, argv, mode });
     if (command === "interactive") return await cmdInteractive({ mode });
-    if (command === "tools") return await cmdTools({ argv, mode });
+    if (command === "tools") return await cmdTools({ argv, templates, cwd, mode });
+    if (command === "runs") return await cmdRuns({ argv, cwd, mode });
     if (command === "selfcheck") return await cmdSelfCheck({ mode });
 
     if (mode === "json") {
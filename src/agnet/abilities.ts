@@ -0,0 +1,50 @@
+import { CEREBELLUM_BUILTIN_TOOLS, type CerebellumEvent, type CerebellumHook } from "./cerebellum.ts";
+import type { CerebellumAnyToolRequest, CerebellumToolRegistry } from "./tool-registry.ts";
+import { createAbilityPolicy, type AbilityDecision } from "../md-parser/abilities.ts";
+import type { AgentAbilities } from "../md-parser/types.ts";
+
+/**
+ * The ability a Cerebellum tool request needs, as declared by the tool (`ability`) in `tools` or the built-ins.
+ *
+ * - gh: `sh` with the argv as scope (`sh:gh*`, `sh:gh pr comment*`); it runs without a shell, so quotes,
+ *   separators and backticks in arguments (e.g. a comment `--body`) are plain text
+ * - mcp: `mcp` with the method as scope (`mcp:tools/*`)
+ * - other tools: `tool` with the tool name as scope (`tool:git`), unless the tool declares its own
+ */
+export function abilityForRequest(
+  request: CerebellumAnyToolRequest,
+  tools?: CerebellumToolRegistry,
+): { ability: string; scope: string; argv?: boolean } {
+  const tool = tools?.get(request.tool) ?? CEREBELLUM_BUILTIN_TOOLS.find((t) => t.name === request.tool);
+  return tool?.ability?.(request) ?? { ability: "tool", scope: request.tool };
+}
+
+/**
+ * `tool.request` hook that enforces the abilities of the acting agent.
+ *
+ * Requests pass through when `getAbilities` returns `undefined` (no policy declared); otherwise a request
+ * the policy does not allow is blocked (the hook returns `null`) and `onDeny` receives the decision.
+ */
+export function createAbilitiesHook<Ctx extends Record<string, unknown>>(
+  getAbilities: (ctx: Ctx) => AgentAbilities | undefined,
+  opts?: {
+    onDeny?: (info: { decision: AbilityDecision; request: CerebellumAnyToolRequest }, ctx: Ctx) => void;
+    /** Registry of the Cerebellum the hook is installed on (for the abilities of registered tools). */
+    tools?: CerebellumToolRegistry;
+  },
+): CerebellumHook<CerebellumEvent, Ctx> {
+  return (event, ctx) => {
+    if (event.type !== "tool.request") return undefined;
+    const abilities = getAbilities(ctx);
+    if (!abilities) return undefined;
+
+    const request = (event.payload as { request?: CerebellumAnyToolRequest } | undefined)?.request;
+    if (!request) return undefined;
+
+    const { ability, scope, argv } = abilityForRequest(request, opts?.tools);
+    const decision = createAbilityPolicy(abilities).explain(ability, scope, { argv });
+    if (decision.allowed) return undefined;
+    opts?.onDeny?.({ decision, request }, ctx);
+    return null;
+  };
+}
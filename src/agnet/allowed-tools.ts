@@ -0,0 +1,50 @@
+import { CEREBELLUM_BUILTIN_TOOLS, type CerebellumEvent, type CerebellumHook } from "./cerebellum.ts";
+import type { CerebellumAnyToolRequest, CerebellumToolRegistry } from "./tool-registry.ts";
+import { findToolPermission } from "../md-parser/allowed-tools.ts";
+import type { AgentInlineCommand, AgentToolCall } from "../md-parser/types.ts";
+
+/**
+ * How a Cerebellum tool request is named in `allowed-tools`, as declared by the tool (`toolCalls`) in `tools` or
+ * the built-ins.
+ *
+ * - gh: `gh(pr comment:*)`, or `Bash(gh pr comment:*)` like any other shell command
+ * - mcp: `mcp(<method>)`
+ * - other tools: the bare tool name (`git`), unless the tool declares its own
+ */
+export function toolCallsForRequest(
+  request: CerebellumAnyToolRequest,
+  tools?: CerebellumToolRegistry,
+): AgentToolCall[] {
+  const tool = tools?.get(request.tool) ?? CEREBELLUM_BUILTIN_TOOLS.find((t) => t.name === request.tool);
+  return tool?.toolCalls?.(request) ?? [{ tool: request.tool }];
+}
+
+/**
+ * `tool.request` hook that enforces the `allowed-tools` of the command currently executing.
+ *
+ * Requests pass through when no command is active or the command declares no `allowed-tools`;
+ * otherwise a request that matches none of the entries is blocked (the hook returns `null`).
+ */
+export function createAllowedToolsHook<Ctx extends Record<string, unknown>>(
+  getActiveCommand: (ctx: Ctx) => AgentInlineCommand | undefined,
+  opts?: {
+    onDeny?: (info: { command: AgentInlineCommand; request: CerebellumAnyToolRequest }, ctx: Ctx) => void;
+    /** Registry of the Cerebellum the hook is installed on (for the `allowed-tools` names of registered tools). */
+    tools?: CerebellumToolRegistry;
+  },
+): CerebellumHook<CerebellumEvent, Ctx> {
+  return (event, ctx) => {
+    if (event.type !== "tool.request") return undefined;
+    const command = getActiveCommand(ctx);
+    const permissions = command?.allowedTools;
+    if (!command || !permissions) return undefined;
+
+    const request = (event.payload as { request?: CerebellumAnyToolRequest } | undefined)?.request;
+    if (!request) return undefined;
+
+    const allowed = toolCallsForRequest(request, opts?.tools).some((call) => findToolPermission(permissions, call));
+    if (allowed) return undefined;
+    opts?.onDeny?.({ command, request }, ctx);
+    return null;
+  };
+}
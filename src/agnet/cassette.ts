@@ -0,0 +1,174 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import type { Cerebellum, CerebellumStreamEvent, CerebellumToolResult } from "./cerebellum.ts";
+import { CerebellumToolRegistry, type CerebellumAnyToolRequest } from "./tool-registry.ts";
+
+/** One executed tool call: a line of a cassette file (JSONL). */
+export type ToolCassetteEntry = { request: CerebellumAnyToolRequest; result: CerebellumToolResult };
+
+/**
+ * How replayed requests find their entry:
+ * - `strict`: the whole request (tool and every input field) is equal.
+ * - `fuzzy`: same tool and `method`, and array `args` equal up to the first flag (`gh issue comment 46 --body ...`
+ *   matches any body). An exact match is still preferred.
+ */
+export type ToolCassetteMatch = "strict" | "fuzzy";
+
+export type ToolCassetteErrorCode = "CASSETTE.INVALID" | "CASSETTE.UNMATCHED";
+
+export class ToolCassetteError extends Error {
+  public readonly code: ToolCassetteErrorCode;
+
+  public constructor(code: ToolCassetteErrorCode, message: string) {
+    super(message);
+    this.name = "ToolCassetteError";
+    this.code = code;
+  }
+}
+
+/** JSON with sorted keys and without `undefined` fields, so equal requests compare equal. */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) => {
+    if (!v || typeof v !== "object" || Array.isArray(v)) return v;
+    return Object.fromEntries(Object.entries(v as Record<string, unknown>).sort(([a], [b]) => (a < b ? -1 : 1)));
+  });
+}
+
+/** `tool [method] [leading args]`, e.g. `gh issue comment 46` or `mcp cursor.jobs.create`. */
+function requestLabel(request: CerebellumAnyToolRequest): string {
+  const { tool, method, args } = request as { tool: string; method?: unknown; args?: unknown };
+  const parts = [tool];
+  if (typeof method === "string") parts.push(method);
+  if (Array.isArray(args)) {
+    const flag = args.findIndex((a) => String(a).startsWith("-"));
+    parts.push(...args.slice(0, flag === -1 ? args.length : flag).map(String));
+  }
+  return parts.join(" ");
+}
+
+function isToolCassetteEntry(value: unknown): value is ToolCassetteEntry {
+  const v = value as Partial<ToolCassetteEntry> | null;
+  return !!v && typeof v.request?.tool === "string" && typeof v.result?.ok === "boolean";
+}
+
+/**
+ * Recorded tool calls, replayed in place of the real tools. Every entry answers one request; a request without an
+ * unused matching entry throws `CASSETTE.UNMATCHED`.
+ *
+ * ```ts
+ * const cassette = await ToolCassette.load("fixtures/resolve.cassette.jsonl", { match: "fuzzy" });
+ * const cerebellum = new Cerebellum({ tools: cassette.replay(createCerebellumToolRegistry()) });
+ * ```
+ */
+export class ToolCassette {
+  public readonly entries: readonly ToolCassetteEntry[];
+  public readonly match: ToolCassetteMatch;
+  /** Where the entries come from (for error messages). */
+  public readonly source?: string;
+
+  private readonly used = new Set<number>();
+
+  public constructor(entries: readonly ToolCassetteEntry[], opts?: { match?: ToolCassetteMatch; source?: string }) {
+    this.entries = entries;
+    this.match = opts?.match ?? "strict";
+    this.source = opts?.source;
+  }
+
+  /** Read a JSONL cassette (as written by `recordToolCassette()`). */
+  public static async load(
+    file: string,
+    opts?: { match?: ToolCassetteMatch; cwd?: string }
+  ): Promise<ToolCassette> {
+    const abs = path.resolve(opts?.cwd ?? process.cwd(), file);
+    const lines = (await fs.promises.readFile(abs, "utf8")).split("\n");
+    const entries: ToolCassetteEntry[] = [];
+    lines.forEach((line, i) => {
+      if (!line.trim()) return;
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(line);
+      } catch (e) {
+        const reason = e instanceof Error ? e.message : String(e);
+        throw new ToolCassetteError("CASSETTE.INVALID", `Invalid cassette line ${file}:${i + 1}: ${reason}`);
+      }
+      if (!isToolCassetteEntry(parsed)) {
+        throw new ToolCassetteError(
+          "CASSETTE.INVALID",
+          `Invalid cassette line ${file}:${i + 1}: expected { request: { tool, ... }, result: { ok, ... } }.`
+        );
+      }
+      entries.push(parsed);
+    });
+    return new ToolCassette(entries, { match: opts?.match, source: file });
+  }
+
+  /** Entries no request has used yet. */
+  public unused(): ToolCassetteEntry[] {
+    return this.entries.filter((_e, i) => !this.used.has(i));
+  }
+
+  /** The result recorded for `request`; the entry is used up. */
+  public play(request: CerebellumAnyToolRequest): CerebellumToolResult {
+    const key = canonicalJson(request);
+    let index = this.entries.findIndex((e, i) => !this.used.has(i) && canonicalJson(e.request) === key);
+    if (index === -1 && this.match === "fuzzy") {
+      const label = requestLabel(request);
+      index = this.entries.findIndex((e, i) => !this.used.has(i) && requestLabel(e.request) === label);
+    }
+    if (index === -1) {
+      const unused = this.unused().map((e) => requestLabel(e.request));
+      throw new ToolCassetteError(
+        "CASSETTE.UNMATCHED",
+        `${this.source ? `Cassette ${this.source}: no` : "No"} unused entry matches request ${key} ` +
+          `(${this.match} matching; ${unused.length ? `unused: ${unused.join(", ")}` : "all entries used"}).`
+      );
+    }
+    this.used.add(index);
+    return structuredClone(this.entries[index]!.result);
+  }
+
+  /**
+   * A registry with the tools of `registry` (same input schemas, abilities and `allowed-tools` names) answering from
+   * this cassette instead of running or using fixtures.
+   */
+  public replay(registry: CerebellumToolRegistry): CerebellumToolRegistry {
+    const replayed = new CerebellumToolRegistry();
+    for (const name of registry.names()) {
+      const tool = registry.get(name)!;
+      replayed.register({
+        ...tool,
+        fixture: undefined,
+        execute: async (input) => this.play({ tool: name, ...(input as Record<string, unknown>) }),
+      });
+    }
+    return replayed;
+  }
+}
+
+/**
+ * Write every tool call `cerebellum` executes to `file` (JSONL, one `{ request, result }` per `tool.result`), starting
+ * from an empty file. Requests blocked by hooks never reach a tool and are not recorded.
+ */
+export function recordToolCassette(
+  cerebellum: Cerebellum<any>,
+  file: string,
+  opts?: { cwd?: string }
+): { entries: ToolCassetteEntry[]; stop: () => void } {
+  const abs = path.resolve(opts?.cwd ?? process.cwd(), file);
+  fs.mkdirSync(path.dirname(abs), { recursive: true });
+  fs.writeFileSync(abs, "", "utf8");
+
+  const entries: ToolCassetteEntry[] = [];
+  const stop = cerebellum.channel.subscribe((evt) => {
+    if (evt.kind !== "data") return;
+    const data: CerebellumStreamEvent = evt.data;
+    if (data.type !== "tool.result") return;
+    const { request, result } = data.payload;
+    if (!result.ok && result.blocked) return;
+    const entry: ToolCassetteEntry = { request, result };
+    entries.push(entry);
+    fs.appendFileSync(abs, `${JSON.stringify(entry)}\n`, "utf8");
+  });
+  return { entries, stop };
+}
@@ -2,16 +2,40 @@ import fs from "node:fs/promises";
 import path from "node:path";
 import process from "node:process";
 import { spawnSync } from "node:child_process";
+import YAML from "yaml";
+import { z } from "zod";
 
 import { ChannelFactory, type IChannel } from "../stc/light/channel.js";
+import type { McpServersConfig } from "../md-parser/types.ts";
+import { MCP_PROTOCOL_VERSION, McpStdioClient, openApiMcpServerCommand } from "./mcp-stdio-client.ts";
+import {
+  CerebellumToolRegistry,
+  type CerebellumAnyToolRequest,
+  type CerebellumToolContext,
+  type CerebellumToolDefinition,
+} from "./tool-registry.ts";
 
 export type CerebellumActor = { role: "agent" | "user" | "system"; id?: string };
 
-export type CerebellumToolName = "gh" | "mcp";
+/**
+ * Request inputs of typed tools, by name. Tools registered at runtime can add theirs by declaration merging:
+ * `declare module ".../cerebellum.ts" { interface CerebellumToolInputs { git: { args: string[] } } }`.
+ */
+export interface CerebellumToolInputs {
+  gh: { args: string[] };
+  /**
+   * `method` is a tool name (sent as `tools/call`) or an MCP protocol method with a `/` (`tools/list`), sent as is
+   * with `args` as params. The server is the `server` entry of the agent's `mcpServers`, else an OpenAPI MCP server
+   * for `specPath`.
+   */
+  mcp: { method: string; args: unknown; specPath?: string; server?: string };
+}
+
+export type CerebellumToolName = keyof CerebellumToolInputs;
 
-export type CerebellumToolRequest =
-  | { tool: "gh"; args: string[] }
-  | { tool: "mcp"; method: string; args: unknown; specPath: string };
+export type CerebellumToolRequest<N extends CerebellumToolName = CerebellumToolName> = {
+  [K in N]: { tool: K } & CerebellumToolInputs[K];
+}[N];
 
 export type CerebellumToolResult =
   | { ok: true; stdout: string }
@@ -28,11 +52,23 @@ export type CerebellumHook<
   Ctx extends Record<string, unknown> = Record<string, unknown>,
 > = (event: E, ctx: Ctx) => Promise<E | null | void> | E | null | void;
 
+/** What a hook did with an event: returned it unchanged (or nothing), returned a new event, or returned `null`. */
+export type CerebellumHookDecision = "pass" | "rewrite" | "drop";
+
 export type CerebellumStreamEvent =
   | { type: "log"; payload: { message: string; level?: "info" | "warn" | "error" } }
   | { type: "world.snapshot"; payload: unknown }
-  | { type: "tool.request"; payload: { request: CerebellumToolRequest; actor?: CerebellumActor; intention?: string } }
-  | { type: "tool.result"; payload: { request: CerebellumToolRequest; result: CerebellumToolResult } };
+  | { type: "hook.decision"; payload: { event: string; hook: string; decision: CerebellumHookDecision } }
+  | { type: "event.dispatched"; payload: { event: CerebellumEvent; result: CerebellumEvent | null } }
+  | {
+      type: "workflow.step";
+      payload: { workflow: string; id: string; step: string; status: "restored" | "done" | "failed"; error?: string };
+    }
+  | {
+      type: "tool.request";
+      payload: { request: CerebellumAnyToolRequest; actor?: CerebellumActor; intention?: string };
+    }
+  | { type: "tool.result"; payload: { request: CerebellumAnyToolRequest; result: CerebellumToolResult } };
 
 function readEnv(name: string): string | undefined {
   const v = process.env[name];
@@ -44,14 +80,15 @@ async function readFixtureText(fixturePath: string, cwd: string): Promise<string
   return await fs.readFile(abs, "utf8");
 }
 
-export async function executeGh(args: string[], opts?: { cwd?: string }): Promise<CerebellumToolResult> {
-  const cwd = opts?.cwd ?? process.cwd();
+/** `AGNET_GH_FIXTURE_CMD`: every gh call prints the fixture file. */
+async function ghFixture(cwd: string): Promise<CerebellumToolResult | undefined> {
   const fixturePath = readEnv("AGNET_GH_FIXTURE_CMD");
-  if (fixturePath) {
-    const stdout = await readFixtureText(fixturePath, cwd);
-    return { ok: true, stdout };
-  }
+  if (!fixturePath) return undefined;
+  const stdout = await readFixtureText(fixturePath, cwd);
+  return { ok: true, stdout };
+}
 
+function runGh(args: string[], cwd: string): CerebellumToolResult {
   const r = spawnSync("gh", args, {
     cwd,
     env: { ...process.env, FORCE_COLOR: "0" },
@@ -70,58 +107,262 @@ export async function executeGh(args: string[], opts?: { cwd?: string }): Promis
   return { ok: true, stdout: r.stdout ?? "" };
 }
 
-export async function executeMcpCall(
-  input: { method: string; args: unknown; specPath: string },
-  opts?: { cwd?: string }
-): Promise<CerebellumToolResult> {
+export async function executeGh(args: string[], opts?: { cwd?: string }): Promise<CerebellumToolResult> {
   const cwd = opts?.cwd ?? process.cwd();
+  return (await ghFixture(cwd)) ?? runGh(args, cwd);
+}
+
+/** `AGNET_MCP_FIXTURE_PATH`: every MCP call returns the fixture file. */
+async function mcpFixture(cwd: string): Promise<CerebellumToolResult | undefined> {
   const fixturePath = readEnv("AGNET_MCP_FIXTURE_PATH");
-  if (fixturePath) {
-    const stdout = await readFixtureText(fixturePath, cwd);
-    // Allow fixture-driven failures for deterministic tests.
-    // Convention: if the fixture JSON contains { ok: false, error: { message } }, treat it as a tool failure.
-    try {
-      const parsed = JSON.parse(stdout) as any;
-      if (parsed && typeof parsed === "object" && parsed.ok === false) {
-        const msg =
-          typeof parsed?.error?.message === "string" && parsed.error.message.trim()
-            ? parsed.error.message.trim()
-            : "MCP fixture reported ok=false.";
-        return { ok: false, error: { message: msg } };
+  if (!fixturePath) return undefined;
+  const stdout = await readFixtureText(fixturePath, cwd);
+  // Allow fixture-driven failures for deterministic tests.
+  // Convention: if the fixture JSON contains { ok: false, error: { message } }, treat it as a tool failure.
+  try {
+    const parsed = JSON.parse(stdout) as any;
+    if (parsed && typeof parsed === "object" && parsed.ok === false) {
+      const msg =
+        typeof parsed?.error?.message === "string" && parsed.error.message.trim()
+          ? parsed.error.message.trim()
+          : "MCP fixture reported ok=false.";
+      return { ok: false, error: { message: msg } };
+    }
+  } catch {
+    // Non-JSON fixtures are treated as plain stdout.
+  }
+  return { ok: true, stdout };
+}
+
+/** A process that speaks MCP over stdio. */
+export type McpServerLaunch = { command: string; args: string[]; env?: Record<string, string>; cwd: string };
+
+type McpCallOptions = { cwd: string; mcpServers?: McpServersConfig };
+
+async function openApiServerUrl(specAbs: string): Promise<string | undefined> {
+  const spec = YAML.parse(await fs.readFile(specAbs, "utf8")) as { servers?: Array<{ url?: unknown }> } | null;
+  const url = spec?.servers?.[0]?.url;
+  return typeof url === "string" && url.trim() ? url.trim() : undefined;
+}
+
+const ENV_VAR_REFERENCE_RE = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}|\$([A-Za-z_][A-Za-z0-9_]*)/g;
+
+/** `env` of an `mcpServers` entry with `${VAR}` / `$VAR` replaced from `process.env`. Throws on unset variables. */
+function expandMcpServerEnv(server: string, env: Record<string, string>): Record<string, string> {
+  const expanded: Record<string, string> = {};
+  for (const [key, value] of Object.entries(env)) {
+    expanded[key] = value.replace(ENV_VAR_REFERENCE_RE, (_m, braced: string | undefined, bare: string | undefined) => {
+      const name = (braced ?? bare)!;
+      const resolved = process.env[name];
+      if (resolved === undefined) {
+        throw new Error(`MCP server '${server}': env ${key} references ${name}, which is not set.`);
       }
-    } catch {
-      // Non-JSON fixtures are treated as plain stdout.
+      return resolved;
+    });
+  }
+  return expanded;
+}
+
+/**
+ * The server an MCP call goes to: the `input.server` entry of `mcpServers` (`${VAR}` / `$VAR` in its `env` expanded
+ * from the environment), else the OpenAPI MCP server for
+ * `input.specPath` (base URL from `AGNET_MCP_API_BASE_URL` or the spec's first `servers` entry, request headers from
+ * `AGNET_MCP_HEADERS`). Throws when neither resolves.
+ */
+export async function resolveMcpServerLaunch(
+  input: Pick<CerebellumToolInputs["mcp"], "specPath" | "server">,
+  opts: McpCallOptions
+): Promise<McpServerLaunch> {
+  if (input.server !== undefined) {
+    const config = opts.mcpServers?.[input.server];
+    if (!config) {
+      const known = Object.keys(opts.mcpServers ?? {});
+      const hint = known.length ? `configured: ${known.join(", ")}` : "no mcpServers configured";
+      throw new Error(`Unknown MCP server '${input.server}' (${hint}).`);
+    }
+    return {
+      command: config.command,
+      args: config.args ?? [],
+      ...(config.env ? { env: expandMcpServerEnv(input.server, config.env) } : {}),
+      cwd: config.cwd ? path.resolve(opts.cwd, config.cwd) : opts.cwd,
+    };
+  }
+
+  if (!input.specPath) throw new Error("MCP call needs a 'server' or a 'specPath'.");
+  const specAbs = path.resolve(opts.cwd, input.specPath);
+  const apiBaseUrl = readEnv("AGNET_MCP_API_BASE_URL") ?? (await openApiServerUrl(specAbs));
+  if (!apiBaseUrl) {
+    throw new Error(`No API base URL for ${input.specPath}: add 'servers' to the spec or set AGNET_MCP_API_BASE_URL.`);
+  }
+  const headers = readEnv("AGNET_MCP_HEADERS");
+  const { cmd, argsPrefix } = openApiMcpServerCommand();
+  return {
+    command: cmd,
+    args: [
+      ...argsPrefix,
+      "--transport",
+      "stdio",
+      "--openapi-spec",
+      specAbs,
+      "--api-base-url",
+      apiBaseUrl,
+      ...(headers ? ["--headers", headers] : []),
+    ],
+    cwd: opts.cwd,
+  };
+}
+
+/** `tools/call` result -> tool result: text content is stdout, `isError` makes it a failure. */
+function mcpCallResult(name: string, result: unknown): CerebellumToolResult {
+  const r = (result ?? {}) as { content?: unknown; structuredContent?: unknown; isError?: unknown };
+  const text = (Array.isArray(r.content) ? r.content : [])
+    .filter((c) => c?.type === "text" && typeof c.text === "string")
+    .map((c) => c.text as string)
+    .join("\n");
+  if (r.isError === true) return { ok: false, error: { message: text.trim() || `MCP tool '${name}' failed.` } };
+  if (!text && r.structuredContent !== undefined) return { ok: true, stdout: JSON.stringify(r.structuredContent) };
+  return { ok: true, stdout: text };
+}
+
+function rpcFailure(method: string, error: { code: number; message: string }): CerebellumToolResult {
+  return { ok: false, error: { message: `MCP ${method} failed: ${error.message} (code ${error.code}).` } };
+}
+
+/**
+ * Run one MCP call in a fresh server session: `initialize`, then either the protocol method itself or `tools/list`
+ * (the tool must exist) and `tools/call`. Each request times out after `AGNET_MCP_TIMEOUT_MS` (default 60s).
+ */
+async function runMcpCall(input: CerebellumToolInputs["mcp"], opts: McpCallOptions): Promise<CerebellumToolResult> {
+  let launch: McpServerLaunch;
+  try {
+    launch = await resolveMcpServerLaunch(input, opts);
+  } catch (err) {
+    return { ok: false, error: { message: err instanceof Error ? err.message : String(err) } };
+  }
+
+  const timeoutMs = Number(readEnv("AGNET_MCP_TIMEOUT_MS") ?? 60_000);
+  const client = new McpStdioClient(launch.command, launch.args, { cwd: launch.cwd, env: launch.env });
+  try {
+    const init = await client.request(
+      "initialize",
+      { protocolVersion: MCP_PROTOCOL_VERSION, capabilities: {}, clientInfo: { name: "agnet", version: "0.0.0" } },
+      { timeoutMs }
+    );
+    if (init.error) return rpcFailure("initialize", init.error);
+    client.notify("notifications/initialized", {});
+
+    if (input.method.includes("/")) {
+      const res = await client.request(input.method, input.args ?? {}, { timeoutMs });
+      if (res.error) return rpcFailure(input.method, res.error);
+      return { ok: true, stdout: JSON.stringify(res.result ?? null) };
+    }
+
+    const names: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const list = await client.request("tools/list", cursor ? { cursor } : {}, { timeoutMs });
+      if (list.error) return rpcFailure("tools/list", list.error);
+      const page = (list.result ?? {}) as { tools?: Array<{ name?: unknown }>; nextCursor?: unknown };
+      for (const t of page.tools ?? []) if (typeof t?.name === "string") names.push(t.name);
+      cursor = typeof page.nextCursor === "string" && page.nextCursor ? page.nextCursor : undefined;
+    } while (cursor);
+    if (!names.includes(input.method)) {
+      return {
+        ok: false,
+        error: { message: `MCP server has no tool '${input.method}' (available: ${names.join(", ") || "none"}).` },
+      };
     }
-    return { ok: true, stdout };
+
+    const call = await client.request("tools/call", { name: input.method, arguments: input.args ?? {} }, { timeoutMs });
+    if (call.error) return rpcFailure("tools/call", call.error);
+    return mcpCallResult(input.method, call.result);
+  } catch (err) {
+    return { ok: false, error: { message: err instanceof Error ? err.message : String(err) } };
+  } finally {
+    await client.close().catch(() => {});
   }
+}
+
+export async function executeMcpCall(
+  input: CerebellumToolInputs["mcp"],
+  opts?: { cwd?: string; mcpServers?: McpServersConfig }
+): Promise<CerebellumToolResult> {
+  const cwd = opts?.cwd ?? process.cwd();
+  return (await mcpFixture(cwd)) ?? (await runMcpCall(input, { cwd, mcpServers: opts?.mcpServers }));
+}
 
-  // Tier 1: fixture-driven only. Avoid network/auth requirements in CI.
+const ghTool: CerebellumToolDefinition<CerebellumToolInputs["gh"]> = {
+  name: "gh",
+  description: "GitHub CLI",
+  input: z.object({ args: z.array(z.string()) }),
+  fixture: async (_input, ctx) => await ghFixture(ctx.cwd),
+  execute: async (input, ctx) => runGh(input.args, ctx.cwd),
+  // `sh` with the argv as scope (`sh:gh*`, `sh:gh pr comment*`); `runGh()` passes it to `gh` without a shell.
+  ability: (input) => ({ ability: "sh", scope: ["gh", ...input.args].join(" "), argv: true }),
+  // `gh(pr comment:*)`, or `Bash(gh pr comment:*)` like any other shell command.
+  toolCalls: (input) => [
+    { tool: "gh", input: input.args.join(" ") },
+    { tool: "Bash", input: `gh ${input.args.join(" ")}` },
+  ],
+};
+
+/** The `mcp` tool; `mcpServers` (usually the agent definition's) are the servers requests can name. */
+export function createMcpTool(opts?: { mcpServers?: McpServersConfig }): CerebellumToolDefinition<
+  CerebellumToolInputs["mcp"]
+> {
   return {
-    ok: false,
-    error: {
-      message:
-        "MCP fixture mode is required in Tier 1. Set AGNET_MCP_FIXTURE_PATH to a JSON fixture response.",
-    },
+    name: "mcp",
+    description: "MCP method call",
+    input: z
+      .object({
+        method: z.string().min(1),
+        args: z.unknown(),
+        specPath: z.string().optional(),
+        server: z.string().optional(),
+      })
+      .refine((v) => v.specPath !== undefined || v.server !== undefined, { error: "expected 'specPath' or 'server'." }),
+    fixture: async (_input, ctx) => await mcpFixture(ctx.cwd),
+    execute: async (input, ctx) => await runMcpCall(input, { cwd: ctx.cwd, mcpServers: opts?.mcpServers }),
+    // `mcp` with the method as scope (`mcp:tools/*`); `mcp(<method>)` in allowed-tools.
+    ability: (input) => ({ ability: "mcp", scope: input.method }),
+    toolCalls: (input) => [{ tool: "mcp", input: input.method }],
   };
 }
 
+/** Tools every Cerebellum starts with. */
+export const CEREBELLUM_BUILTIN_TOOLS: readonly CerebellumToolDefinition[] = [ghTool, createMcpTool()];
+
+/**
+ * A registry with the built-in tools (`gh`, `mcp`); register more with `registry.register()`. `mcpServers` are the
+ * servers `mcp` requests can name.
+ */
+export function createCerebellumToolRegistry(opts?: { mcpServers?: McpServersConfig }): CerebellumToolRegistry {
+  return new CerebellumToolRegistry([ghTool, createMcpTool(opts)]);
+}
+
+type NamedHook<Ctx extends Record<string, unknown>> = { hook: CerebellumHook<CerebellumEvent, Ctx>; name: string };
+
 export class Cerebellum<Ctx extends Record<string, unknown> = Record<string, unknown>> {
   public readonly channel: IChannel<CerebellumStreamEvent>;
+  public readonly tools: CerebellumToolRegistry;
 
-  private readonly hooksAll: Array<CerebellumHook<CerebellumEvent, Ctx>> = [];
-  private readonly hooksByType = new Map<string, Array<CerebellumHook<CerebellumEvent, Ctx>>>();
+  private readonly hooksAll: Array<NamedHook<Ctx>> = [];
+  private readonly hooksByType = new Map<string, Array<NamedHook<Ctx>>>();
 
-  public constructor(init?: { channel?: IChannel<CerebellumStreamEvent> }) {
+  public constructor(init?: { channel?: IChannel<CerebellumStreamEvent>; tools?: CerebellumToolRegistry }) {
     this.channel = init?.channel ?? new ChannelFactory().create<CerebellumStreamEvent>({ id: "cerebellum" });
+    this.tools = init?.tools ?? createCerebellumToolRegistry();
   }
 
-  public use(hook: CerebellumHook<CerebellumEvent, Ctx>): void {
-    this.hooksAll.push(hook);
+  /** Run `hook` for every event. `name` labels its `hook.decision`s (default: the function name or `*#<n>`). */
+  public use(hook: CerebellumHook<CerebellumEvent, Ctx>, opts?: { name?: string }): void {
+    this.hooksAll.push({ hook, name: opts?.name || hook.name || `*#${this.hooksAll.length}` });
   }
 
-  public on(type: string, hook: CerebellumHook<CerebellumEvent, Ctx>): void {
+  /** Run `hook` for events of `type`. `name` labels its `hook.decision`s (default: function name or `<type>#<n>`). */
+  public on(type: string, hook: CerebellumHook<CerebellumEvent, Ctx>, opts?: { name?: string }): void {
     const arr = this.hooksByType.get(type) ?? [];
-    arr.push(hook);
+    arr.push({ hook, name: opts?.name || hook.name || `${type}#${arr.length}` });
     this.hooksByType.set(type, arr);
   }
 
@@ -137,25 +378,40 @@ export class Cerebellum<Ctx extends Record<string, unknown> = Record<string, unk
     this.emit({ type: "world.snapshot", payload: snapshot });
   }
 
+  /**
+   * Run `event` through the hooks (`use()` hooks first, then `on(event.type)` hooks). Emits a `hook.decision` per hook
+   * and an `event.dispatched` with the outcome (`null` when a hook dropped the event).
+   */
   public async dispatch(event: CerebellumEvent, ctx: Ctx): Promise<CerebellumEvent | null> {
     const chain = [...this.hooksAll, ...(this.hooksByType.get(event.type) ?? [])];
     let current: CerebellumEvent | null = event;
-    for (const hook of chain) {
+    for (const { hook, name } of chain) {
       if (!current) break;
       const out = await hook(current, ctx);
+      const decision: CerebellumHookDecision =
+        out === null ? "drop" : out === undefined || out === current ? "pass" : "rewrite";
+      this.emit({ type: "hook.decision", payload: { event: event.type, hook: name, decision } });
       if (out === null) {
         current = null;
         break;
       }
       if (out !== undefined) current = out;
     }
+    this.emit({ type: "event.dispatched", payload: { event, result: current } });
     return current;
   }
 
+  /**
+   * Run `request` through the `tool.request` hooks, then execute it with the registered tool.
+   *
+   * Throws `CerebellumToolError` (`TOOL.UNKNOWN` / `TOOL.INVALID_INPUT`) when the request, or the request a hook
+   * rewrote it to, names no registered tool or does not match the tool's input schema.
+   */
   public async executeTool(
-    request: CerebellumToolRequest,
+    request: CerebellumAnyToolRequest,
     meta?: { actor?: CerebellumActor; intention?: string; cwd?: string; ctx: Ctx }
   ): Promise<{ result: CerebellumToolResult; channel: IChannel<CerebellumStreamEvent> }> {
+    this.tools.resolve(request);
     const evt: CerebellumEvent = {
       type: "tool.request",
       payload: { request, actor: meta?.actor, intention: meta?.intention },
@@ -174,16 +430,9 @@ export class Cerebellum<Ctx extends Record<string, unknown> = Record<string, unk
       return { result, channel: this.channel };
     }
 
-    const effective = (passed.payload as any)?.request ?? request;
-    const cwd = meta?.cwd ?? process.cwd();
-
-    const result =
-      effective?.tool === "gh"
-        ? await executeGh((effective as any).args ?? [], { cwd })
-        : await executeMcpCall(
-            { method: (effective as any).method, args: (effective as any).args, specPath: (effective as any).specPath },
-            { cwd }
-          );
+    const effective: CerebellumAnyToolRequest = (passed.payload as any)?.request ?? request;
+    const toolCtx: CerebellumToolContext = { cwd: meta?.cwd ?? process.cwd() };
+    const result = await this.tools.execute(effective, toolCtx);
 
     this.emit({ type: "tool.result", payload: { request: effective, result } });
     return { result, channel: this.channel };
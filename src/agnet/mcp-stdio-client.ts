@@ -27,11 +27,16 @@ function isJsonRpcResponse(v: unknown): v is JsonRpcResponse {
   return isObject(v) && v.jsonrpc === "2.0" && ("result" in v || "error" in v) && "id" in v;
 }
 
+/** Protocol revision sent in `initialize`. */
+export const MCP_PROTOCOL_VERSION = "2025-03-26";
+
 export class McpStdioClient {
   private child: ChildProcessWithoutNullStreams;
   private nextId = 1;
   private pending = new Map<JsonRpcId, { resolve: (v: JsonRpcResponse) => void; reject: (e: Error) => void }>();
   private stderrBuffer = "";
+  /** Set once the server is gone (exited or failed to start); later requests fail with it. */
+  private closedError: Error | undefined;
 
   public constructor(cmd: string, args: string[], opts?: { cwd?: string; env?: NodeJS.ProcessEnv }) {
     this.child = spawn(cmd, args, {
@@ -66,18 +71,30 @@ export class McpStdioClient {
     });
 
     this.child.on("exit", (code, signal) => {
-      const err = new Error(
-        `MCP server exited unexpectedly (code=${code ?? "null"}, signal=${signal ?? "null"}).` +
-          (this.stderrBuffer.trim() ? `\n\nstderr:\n${this.stderrBuffer.trim()}\n` : "")
+      this.fail(
+        new Error(
+          `MCP server exited unexpectedly (code=${code ?? "null"}, signal=${signal ?? "null"}).` +
+            (this.stderrBuffer.trim() ? `\n\nstderr:\n${this.stderrBuffer.trim()}\n` : "")
+        )
       );
-      for (const [, waiter] of this.pending.entries()) waiter.reject(err);
-      this.pending.clear();
     });
+    // Spawn failures (e.g. ENOENT) emit `error` and no `exit`.
+    this.child.on("error", (err) => this.fail(new Error(`Failed to start MCP server '${cmd}': ${err.message}`)));
+    // Writes after the server exited fail with EPIPE; the exit handler already rejected the requests.
+    this.child.stdin.on("error", () => {});
+  }
+
+  private fail(err: Error): void {
+    this.closedError ??= err;
+    for (const [, waiter] of this.pending.entries()) waiter.reject(err);
+    this.pending.clear();
   }
 
   public async close(): Promise<void> {
+    if (this.closedError) return;
+    const exited = new Promise<void>((resolve) => this.child.once("exit", () => resolve()));
     this.child.kill("SIGTERM");
-    await new Promise<void>((resolve) => this.child.once("exit", () => resolve()));
+    await exited;
   }
 
   public notify(method: string, params?: unknown): void {
@@ -85,16 +102,29 @@ export class McpStdioClient {
     this.child.stdin.write(`${JSON.stringify(req)}\n`);
   }
 
-  public async request(method: string, params?: unknown): Promise<JsonRpcResponse> {
+  /** Send a request and wait for its response; rejects when the server exits or after `timeoutMs` (if set). */
+  public async request(method: string, params?: unknown, opts?: { timeoutMs?: number }): Promise<JsonRpcResponse> {
+    if (this.closedError) throw this.closedError;
     const id = this.nextId++;
     const req: JsonRpcRequest = { jsonrpc: "2.0", id, method, ...(params !== undefined ? { params } : {}) };
 
+    let timer: NodeJS.Timeout | undefined;
     const p = new Promise<JsonRpcResponse>((resolve, reject) => {
       this.pending.set(id, { resolve, reject });
+      if (opts?.timeoutMs !== undefined) {
+        timer = setTimeout(() => {
+          this.pending.delete(id);
+          reject(new Error(`MCP request '${method}' timed out after ${opts.timeoutMs} ms.`));
+        }, opts.timeoutMs);
+      }
     });
 
     this.child.stdin.write(`${JSON.stringify(req)}\n`);
-    return await p;
+    try {
+      return await p;
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
   }
 }
 
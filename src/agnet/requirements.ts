@@ -0,0 +1,108 @@
+import type { AgentDefinition } from "../md-parser/types.ts";
+import type { SelfCheckItem, SelfCheckReport } from "./self-check.ts";
+import { createAgentToolHost, type AgentToolHostOptions, type ToolHostEffect } from "./tool-host.ts";
+
+export type StartupDryRunResult =
+  | { ok: true; details?: Record<string, unknown> }
+  | { ok: false; error: { message: string }; details?: Record<string, unknown> };
+
+/**
+ * Invokes the `required.startup` tool without side effects. Injected so callers (and tests) decide what
+ * "dry run" means for their runtime.
+ */
+export type StartupDryRunExecutor = (
+  tool: string,
+  def: Pick<AgentDefinition, "toolsSource" | "abilities">,
+) => Promise<StartupDryRunResult>;
+
+/**
+ * Default dry run: evaluate `## Tools` in the sandboxed tool host in dry-run mode and call the startup tool with
+ * `{ dryRun: true }`. Nothing is executed or written: shell commands are recorded in `details.commands`, `fs`
+ * writes and `fetch` requests in `details.effects`. Abilities are still checked, so a denied effect fails the run.
+ */
+export function createStartupDryRunExecutor(
+  opts?: Omit<AgentToolHostOptions, "exec" | "dryRun" | "onDryRun">,
+): StartupDryRunExecutor {
+  return async (tool, def) => {
+    const commands: string[] = [];
+    const effects: Array<Exclude<ToolHostEffect, { kind: "sh" }>> = [];
+    let host: Awaited<ReturnType<typeof createAgentToolHost>> | undefined;
+    try {
+      host = await createAgentToolHost(def, {
+        ...opts,
+        dryRun: true,
+        onDryRun: (effect) => {
+          if (effect.kind === "sh") commands.push(effect.command);
+          else effects.push(effect);
+        },
+      });
+      await host.call(tool, { dryRun: true });
+      return { ok: true, details: { dryRun: true, commands, effects } };
+    } catch (err) {
+      return {
+        ok: false,
+        error: { message: err instanceof Error ? err.message : String(err) },
+        details: { dryRun: true, commands, effects },
+      };
+    } finally {
+      await host?.close();
+    }
+  };
+}
+
+/**
+ * Preflight for `required`: every `required.env` variable must be set (non-blank) in `env`, and the
+ * `required.startup` tool must be declared in `## Tools` and succeed in a dry run.
+ *
+ * Returns the same `{ ok, checks }` shape as `runSelfCheck()`; all checks are required.
+ */
+export async function checkAgentRequirements(
+  def: Pick<AgentDefinition, "required" | "tools" | "toolsSource" | "abilities">,
+  env: Record<string, string | undefined>,
+  opts?: { startup?: StartupDryRunExecutor },
+): Promise<SelfCheckReport> {
+  const checks: SelfCheckItem[] = [];
+
+  for (const name of def.required.env ?? []) {
+    const value = env[name];
+    checks.push(
+      value !== undefined && value.trim()
+        ? { name: `required.env.${name}`, ok: true, required: true }
+        : {
+            name: `required.env.${name}`,
+            ok: false,
+            required: true,
+            error: { message: `Environment variable '${name}' is not set.` },
+          },
+    );
+  }
+
+  const startup = def.required.startup?.trim();
+  if (startup) {
+    const tool = def.tools?.find((t) => t.name.toLowerCase() === startup.toLowerCase());
+    if (!tool) {
+      checks.push({
+        name: "required.startup",
+        ok: false,
+        required: true,
+        error: { message: `Startup tool '${startup}' is not declared in '## Tools'.` },
+      });
+    } else {
+      const execute = opts?.startup ?? createStartupDryRunExecutor();
+      const res = await execute(tool.name, def);
+      checks.push(
+        res.ok
+          ? { name: "required.startup", ok: true, required: true, details: { tool: tool.name, ...res.details } }
+          : {
+              name: "required.startup",
+              ok: false,
+              required: true,
+              error: res.error,
+              details: { tool: tool.name, ...res.details },
+            },
+      );
+    }
+  }
+
+  return { ok: checks.every((c) => c.ok), checks };
+}
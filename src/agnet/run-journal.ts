@@ -0,0 +1,143 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import type { Cerebellum, CerebellumStreamEvent } from "./cerebellum.ts";
+
+/** What a journal line holds: the run's start and end plus every event Cerebellum streamed in between. */
+export type RunJournalEvent =
+  | { type: "run.start"; payload: { runId: string; templates: string[] } }
+  | CerebellumStreamEvent
+  | { type: "run.end"; payload: { exitCode: number; error?: string } };
+
+/** A line of `.agnet/runs/<runId>.jsonl`. `seq` orders the lines of a run. */
+export type RunJournalRecord = RunJournalEvent & { seq: number; ts: string };
+
+export type RunJournalSummary = {
+  runId: string;
+  file: string;
+  startedAt?: string;
+  endedAt?: string;
+  /** Missing when the run did not finish (crashed or still running). */
+  exitCode?: number;
+  error?: string;
+  templates: string[];
+  toolCalls: number;
+};
+
+/** Sortable run id: UTC start time plus a random suffix, e.g. `20261019T061100Z-3f9a1c`. */
+export function createRunId(now: Date = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, "").replace(/\.\d+Z$/, "Z");
+  return `${stamp}-${Math.random().toString(16).slice(2, 8).padEnd(6, "0")}`;
+}
+
+/**
+ * An append-only JSONL journal of one run. Lines are written as they happen, so a crashed run still leaves
+ * everything up to the crash.
+ *
+ * ```ts
+ * const journal = RunJournal.create({ dir: ".agnet/runs", templates });
+ * journal.attach(cerebellum);
+ * // ...
+ * journal.end(exitCode);
+ * ```
+ */
+export class RunJournal {
+  public readonly runId: string;
+  public readonly file: string;
+
+  private seq = 0;
+  private ended = false;
+
+  private constructor(runId: string, file: string) {
+    this.runId = runId;
+    this.file = file;
+  }
+
+  /** Start `<dir>/<runId>.jsonl` with a `run.start` line. */
+  public static create(opts: { dir: string; templates?: string[]; runId?: string }): RunJournal {
+    const runId = opts.runId ?? createRunId();
+    fs.mkdirSync(opts.dir, { recursive: true });
+    const journal = new RunJournal(runId, path.join(opts.dir, `${runId}.jsonl`));
+    fs.writeFileSync(journal.file, "", "utf8");
+    journal.append({ type: "run.start", payload: { runId, templates: opts.templates ?? [] } });
+    return journal;
+  }
+
+  public append(event: RunJournalEvent): void {
+    if (this.ended) return;
+    const record = { seq: this.seq++, ts: new Date().toISOString(), ...event };
+    fs.appendFileSync(this.file, `${JSON.stringify(record)}\n`, "utf8");
+  }
+
+  /** Journal everything `cerebellum` streams (world snapshots, dispatches, hook decisions, tool calls, logs). */
+  public attach(cerebellum: Cerebellum<any>): () => void {
+    return cerebellum.channel.subscribe((evt) => {
+      if (evt.kind === "data") this.append(evt.data);
+    });
+  }
+
+  /** Write the `run.end` line; later appends are ignored. */
+  public end(exitCode: number, error?: string): void {
+    this.append({ type: "run.end", payload: { exitCode, ...(error ? { error } : {}) } });
+    this.ended = true;
+  }
+}
+
+export async function readRunJournal(file: string): Promise<RunJournalRecord[]> {
+  const raw = await fs.promises.readFile(file, "utf8");
+  return raw
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line, i) => {
+      try {
+        return JSON.parse(line) as RunJournalRecord;
+      } catch (e) {
+        throw new Error(`Invalid run journal line ${file}:${i + 1}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    });
+}
+
+export function summarizeRunJournal(file: string, records: RunJournalRecord[]): RunJournalSummary {
+  const start = records.find((r) => r.type === "run.start");
+  const end = records.find((r) => r.type === "run.end");
+  return {
+    runId: start?.type === "run.start" ? start.payload.runId : path.basename(file, ".jsonl"),
+    file,
+    startedAt: start?.ts,
+    endedAt: end?.ts,
+    exitCode: end?.type === "run.end" ? end.payload.exitCode : undefined,
+    error: end?.type === "run.end" ? end.payload.error : undefined,
+    templates: start?.type === "run.start" ? start.payload.templates : [],
+    toolCalls: records.filter((r) => r.type === "tool.result").length,
+  };
+}
+
+/** Journals in `dir`, newest first. A missing directory has none. */
+export async function listRunJournals(dir: string): Promise<RunJournalSummary[]> {
+  let names: string[];
+  try {
+    names = await fs.promises.readdir(dir);
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw e;
+  }
+  const summaries: RunJournalSummary[] = [];
+  for (const name of names.filter((n) => n.endsWith(".jsonl"))) {
+    const file = path.join(dir, name);
+    summaries.push(summarizeRunJournal(file, await readRunJournal(file)));
+  }
+  return summaries.sort((a, b) => b.runId.localeCompare(a.runId));
+}
+
+/** The journal file of run `id` (or of the only run whose id starts with `id`). */
+export async function findRunJournal(dir: string, id: string): Promise<string> {
+  const runs = await listRunJournals(dir);
+  const exact = runs.find((r) => r.runId === id);
+  if (exact) return exact.file;
+  const matches = runs.filter((r) => r.runId.startsWith(id));
+  if (matches.length === 1) return matches[0]!.file;
+  if (matches.length > 1) {
+    throw new Error(`Run id '${id}' is ambiguous (matches: ${matches.map((r) => r.runId).join(", ")}).`);
+  }
+  throw new Error(`No run '${id}' in ${dir}.`);
+}
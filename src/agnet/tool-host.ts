@@ -0,0 +1,552 @@
+import path from "node:path";
+import process from "node:process";
+import { Worker } from "node:worker_threads";
+import ts from "typescript";
+
+import { createAbilityPolicy, type AbilityPolicy } from "../md-parser/abilities.ts";
+import { defaultShellExecutor, shellQuote, type ShellExecutor } from "../md-parser/shell.ts";
+import { toolsProgramCode } from "../md-parser/tools-manifest.ts";
+import type { AgentAbilities, AgentDefinition } from "../md-parser/types.ts";
+
+/** Abilities the tool host maps to sandbox globals (`fs`, `fetch`, `env`, `sh`). */
+export const TOOL_HOST_ABILITIES = ["fs", "network", "env", "sh"] as const;
+
+export type ToolHostAbility = (typeof TOOL_HOST_ABILITIES)[number];
+
+export type ToolHostErrorCode =
+  | "TOOL.EVAL_FAILED"
+  | "TOOL.UNKNOWN"
+  | "TOOL.FAILED"
+  | "TOOL.CAPABILITY_DENIED"
+  | "TOOL.TIMEOUT"
+  | "TOOL.MEMORY_LIMIT"
+  | "TOOL.CLOSED";
+
+export class ToolHostError extends Error {
+  public readonly code: ToolHostErrorCode;
+  public readonly tool?: string;
+
+  public constructor(code: ToolHostErrorCode, message: string, tool?: string) {
+    super(message);
+    this.name = "ToolHostError";
+    this.code = code;
+    this.tool = tool;
+  }
+}
+
+export type AgentToolHostOptions = {
+  /** Limit for evaluating the tools block and for each call; the worker is restarted after a timeout. Default: 10s. */
+  timeoutMs?: number;
+  /** V8 heap limit of the worker, in MB. Default: 64. */
+  memoryLimitMb?: number;
+  /**
+   * Working directory of `sh` and base of relative `fs` paths. An unscoped `fs` ability is limited to it;
+   * scoped entries (`fs:read:/data/**`) decide by absolute path. Default: `process.cwd()`.
+   */
+  cwd?: string;
+  /** Runs `sh()` calls and string `run` tools. Default: `sh -c`. */
+  exec?: ShellExecutor;
+  /** Environment exposed as `env` (variables allowed by `env` / `env:<glob>`). Default: `process.env`. */
+  env?: Record<string, string | undefined>;
+  /** Receives the sandbox's `console` output. */
+  onLog?: (level: "info" | "warn" | "error", message: string) => void;
+  /**
+   * Record side effects instead of performing them: `sh` commands, `fs` writes (`writeFile`, `mkdir`, `rm`) and
+   * `fetch` are still checked against the abilities, then reported to `onDryRun` and skipped (`sh` returns `""`,
+   * `fetch` an empty `204` response). Reads (`readFile`, `readdir`, `stat`) run as usual.
+   */
+  dryRun?: boolean;
+  onDryRun?: (effect: ToolHostEffect) => void;
+};
+
+/** A side effect a dry run skipped. `path` is absolute. */
+export type ToolHostEffect =
+  | { kind: "sh"; command: string }
+  | { kind: "fs.writeFile" | "fs.mkdir" | "fs.rm"; path: string }
+  | { kind: "fetch"; method: string; url: string };
+
+/** A tool as loaded by the host. `command` tools are descriptor objects whose `run` is a shell template. */
+export type AgentToolInfo = { name: string; description?: string; kind: "function" | "command" };
+
+export type AgentTool = (...args: unknown[]) => Promise<unknown>;
+
+type WireError = { message: string; code?: string };
+
+type WorkerMessage =
+  | { type: "ready"; tools: Array<AgentToolInfo & { run?: string }> }
+  | { type: "eval-error"; error: WireError }
+  | { type: "result"; id: number; ok: true; value: unknown }
+  | { type: "result"; id: number; ok: false; error: WireError }
+  | { type: "sh"; id: number; command: string }
+  | { type: "check"; id: number; ability: string; scope: string }
+  | { type: "effect"; effect: ToolHostEffect }
+  | { type: "log"; level: "info" | "warn" | "error"; message: string };
+
+/**
+ * Worker entry (CommonJS, evaluated with `eval: true`). The tools program runs inside a `node:vm`
+ * context whose globals are limited to timers, URL/encoding helpers, `console` and the granted capabilities.
+ */
+const WORKER_SOURCE = String.raw`
+const { parentPort, workerData } = require("node:worker_threads");
+const fsp = require("node:fs/promises");
+const path = require("node:path");
+const vm = require("node:vm");
+
+const { code, granted, root, env, dryRun } = workerData;
+const waiters = new Map();
+let nextRequestId = 1;
+
+function deniedError(message) {
+  const err = new Error(message);
+  err.code = "TOOL.CAPABILITY_DENIED";
+  return err;
+}
+
+function toWireError(e) {
+  const message = e && typeof e.message === "string" ? e.message : String(e);
+  const code = e && typeof e.code === "string" && e.code.startsWith("TOOL.") ? e.code : undefined;
+  return code ? { message, code } : { message };
+}
+
+// Requests answered by the host thread ("reply" messages): ability checks and shell commands.
+function hostRequest(msg) {
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    waiters.set(id, { resolve, reject });
+    parentPort.postMessage({ ...msg, id });
+  });
+}
+
+async function checked(op, p) {
+  const abs = path.resolve(root, String(p));
+  await hostRequest({ type: "check", ability: "fs", scope: op + ":" + abs });
+  return abs;
+}
+
+// In a dry run, side effects are reported to the host ("effect" messages) instead of performed.
+function skipped(effect) {
+  if (!dryRun) return false;
+  parentPort.postMessage({ type: "effect", effect });
+  return true;
+}
+
+const fsApi = Object.freeze({
+  readFile: async (p, encoding = "utf8") => fsp.readFile(await checked("read", p), encoding),
+  writeFile: async (p, data) => {
+    const abs = await checked("write", p);
+    if (!skipped({ kind: "fs.writeFile", path: abs })) await fsp.writeFile(abs, data);
+  },
+  readdir: async (p = ".") => fsp.readdir(await checked("read", p)),
+  mkdir: async (p) => {
+    const abs = await checked("write", p);
+    if (!skipped({ kind: "fs.mkdir", path: abs })) await fsp.mkdir(abs, { recursive: true });
+  },
+  rm: async (p) => {
+    const abs = await checked("write", p);
+    if (!skipped({ kind: "fs.rm", path: abs })) await fsp.rm(abs, { recursive: true, force: true });
+  },
+  stat: async (p) => {
+    const s = await fsp.stat(await checked("read", p));
+    return { size: s.size, mtimeMs: s.mtimeMs, isFile: s.isFile(), isDirectory: s.isDirectory() };
+  },
+});
+
+async function checkedFetch(input, init) {
+  const url = new URL(typeof input === "object" && input !== null && "url" in input ? input.url : String(input));
+  await hostRequest({ type: "check", ability: "network", scope: url.hostname });
+  const method = String((init && init.method) || (typeof input === "object" && input && input.method) || "GET");
+  if (skipped({ kind: "fetch", method: method.toUpperCase(), url: url.href })) {
+    return new Response(null, { status: 204 });
+  }
+  return fetch(input, init);
+}
+
+const sh = (command) => hostRequest({ type: "sh", command: String(command) });
+
+function format(args) {
+  return args.map((a) => (typeof a === "string" ? a : require("node:util").inspect(a))).join(" ");
+}
+const log = (level) => (...args) => parentPort.postMessage({ type: "log", level, message: format(args) });
+
+const globals = {
+  console: Object.freeze({ log: log("info"), info: log("info"), debug: log("info"), warn: log("warn"), error: log("error") }),
+  setTimeout, clearTimeout, setInterval, clearInterval, queueMicrotask, structuredClone,
+  URL, URLSearchParams, TextEncoder, TextDecoder, AbortController, atob, btoa,
+};
+const capabilities = {
+  fs: ["fs", fsApi],
+  fetch: ["network", checkedFetch],
+  env: ["env", Object.freeze({ ...env })],
+  sh: ["sh", sh],
+};
+for (const [name, [ability, value]] of Object.entries(capabilities)) {
+  if (granted.includes(ability)) globals[name] = value;
+}
+
+const context = vm.createContext(globals, { codeGeneration: { strings: false, wasm: false } });
+// Denied capabilities throw on access. Defined from inside the context: accessors on the contextified
+// object are not consulted for lookups from compiled functions on every Node version.
+const defineDenied = vm.runInContext(
+  "(name, fail) => Object.defineProperty(globalThis, name, { get() { throw fail(); } })",
+  context,
+);
+for (const [name, [ability]] of Object.entries(capabilities)) {
+  if (!granted.includes(ability)) {
+    defineDenied(name, () => deniedError("'" + name + "' requires the '" + ability + "' ability (abilities.allow)."));
+  }
+}
+
+const RUN_MEMBERS = ["run", "execute", "handler"];
+let tools;
+
+async function boot() {
+  const program = new vm.Script("(async () => {\n" + code + "\n})()", { filename: "tools.js", lineOffset: -1 });
+  const returned = await program.runInContext(context);
+  if (returned === null || typeof returned !== "object") {
+    throw new Error("the tools block must return an object (got " + (returned === null ? "null" : typeof returned) + ").");
+  }
+  tools = new Map();
+  const infos = [];
+  for (const [name, value] of Object.entries(returned)) {
+    if (typeof value === "function") {
+      tools.set(name, value.bind(returned));
+      infos.push({ name, kind: "function" });
+      continue;
+    }
+    if (value === null || typeof value !== "object") continue;
+    const description = typeof value.description === "string" && value.description.trim() ? value.description.trim() : undefined;
+    const member = RUN_MEMBERS.find((m) => typeof value[m] === "function" || typeof value[m] === "string");
+    if (!member) continue;
+    if (typeof value[member] === "string") {
+      infos.push({ name, ...(description ? { description } : {}), kind: "command", run: value[member] });
+    } else {
+      tools.set(name, value[member].bind(value));
+      infos.push({ name, ...(description ? { description } : {}), kind: "function" });
+    }
+  }
+  parentPort.postMessage({ type: "ready", tools: infos });
+}
+
+parentPort.on("message", async (msg) => {
+  if (msg.type === "reply") {
+    const waiter = waiters.get(msg.id);
+    waiters.delete(msg.id);
+    if (!waiter) return;
+    if (msg.ok) {
+      waiter.resolve(msg.value);
+    } else {
+      const err = new Error(msg.error.message);
+      if (msg.error.code) err.code = msg.error.code;
+      waiter.reject(err);
+    }
+    return;
+  }
+  if (msg.type !== "call") return;
+  try {
+    const value = await tools.get(msg.name)(...msg.args);
+    parentPort.postMessage({ type: "result", id: msg.id, ok: true, value });
+  } catch (e) {
+    parentPort.postMessage({ type: "result", id: msg.id, ok: false, error: toWireError(e) });
+  }
+});
+
+boot().catch((e) => parentPort.postMessage({ type: "eval-error", error: toWireError(e) }));
+`;
+
+/**
+ * Sandbox globals granted by `abilities`: a capability is exposed when some `allow` entry grants it
+ * (scoped or not) and it is not denied as a whole. Scopes are checked on every use.
+ */
+export function toolHostCapabilities(abilities: AgentAbilities | undefined): ToolHostAbility[] {
+  const policy = createAbilityPolicy(abilities);
+  return TOOL_HOST_ABILITIES.filter((ability) => policy.allowsAny(ability));
+}
+
+/** Transpile the `## Tools` program (TS or JS) to the JS the sandbox evaluates. */
+function transpileToolsProgram(toolsSource: string): string {
+  return ts.transpileModule(toolsProgramCode(toolsSource), {
+    compilerOptions: { target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.ESNext },
+    reportDiagnostics: false,
+  }).outputText;
+}
+
+/** Substitute `{{name}}` placeholders of a command tool with shell-quoted input fields. */
+function renderCommandTemplate(tool: string, template: string, input: unknown): string {
+  const vars = (input !== null && typeof input === "object" ? input : {}) as Record<string, unknown>;
+  return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_, name: string) => {
+    const v = vars[name];
+    if (typeof v !== "string" && typeof v !== "number" && typeof v !== "boolean") {
+      throw new ToolHostError("TOOL.FAILED", `Tool '${tool}': missing input '${name}'.`, tool);
+    }
+    return shellQuote(String(v));
+  });
+}
+
+type RunningWorker = {
+  worker: Worker;
+  ready: Promise<void>;
+};
+
+/**
+ * Evaluates an agent's `## Tools` block in a worker thread and exposes the returned tools as async functions.
+ *
+ * Isolation: the worker has a heap limit and is terminated when evaluation or a call exceeds `timeoutMs`
+ * (the next call starts a fresh one). Inside it, the program runs in a `node:vm` context that only sees the
+ * capabilities granted by `abilities`: `fs` (scope `read:<abs path>` / `write:<abs path>`), `fetch` (`network`,
+ * scope: host name), `env` (scope: variable name) and `sh(command)` (scope: the command, executed by the host).
+ * Scopes are checked in the host thread with the agent's ability policy; with `dryRun`, side effects are checked
+ * and recorded but not performed. `node:vm` is not a boundary against
+ * hostile code; it keeps well-behaved tools to what the agent declared.
+ */
+export class AgentToolHost {
+  public readonly tools: Record<string, AgentTool> = {};
+  public readonly info: AgentToolInfo[] = [];
+
+  private readonly code: string;
+  private readonly abilities: AgentAbilities | undefined;
+  private readonly policy: AbilityPolicy;
+  private readonly opts: AgentToolHostOptions;
+  private running: RunningWorker | undefined;
+  private commands = new Map<string, string>();
+  private nextId = 1;
+  private pending = new Map<number, { resolve: (v: unknown) => void; reject: (e: Error) => void }>();
+  private closed = false;
+
+  public constructor(def: Pick<AgentDefinition, "toolsSource" | "abilities">, opts: AgentToolHostOptions = {}) {
+    this.code = transpileToolsProgram(def.toolsSource);
+    this.abilities = def.abilities;
+    this.policy = createAbilityPolicy(def.abilities);
+    this.opts = opts;
+  }
+
+  private get timeoutMs(): number {
+    return this.opts.timeoutMs ?? 10_000;
+  }
+
+  /** Evaluate the tools block (once per worker) and populate `tools` / `info`. */
+  public async start(): Promise<void> {
+    if (this.closed) throw new ToolHostError("TOOL.CLOSED", "Tool host is closed.");
+    await this.ensureWorker().ready;
+  }
+
+  public async call(name: string, ...args: unknown[]): Promise<unknown> {
+    await this.start();
+    const command = this.commands.get(name);
+    if (command !== undefined) return await this.runCommand(name, command, args[0]);
+    if (!this.info.some((t) => t.name === name)) {
+      throw new ToolHostError(
+        "TOOL.UNKNOWN",
+        `Unknown tool '${name}' (available: ${this.info.map((t) => t.name).join(", ") || "none"}).`,
+        name,
+      );
+    }
+
+    const { worker } = this.ensureWorker();
+    const id = this.nextId++;
+    return await this.withTimeout(
+      name,
+      new Promise((resolve, reject) => {
+        this.pending.set(id, { resolve, reject });
+        worker.postMessage({ type: "call", id, name, args });
+      }),
+    );
+  }
+
+  public async close(): Promise<void> {
+    this.closed = true;
+    await this.stopWorker(new ToolHostError("TOOL.CLOSED", "Tool host is closed."));
+  }
+
+  private ensureWorker(): RunningWorker {
+    if (this.running) return this.running;
+
+    const granted = toolHostCapabilities(this.abilities);
+    const env = granted.includes("env") ? this.allowedEnv() : {};
+    const memoryLimitMb = this.opts.memoryLimitMb ?? 64;
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      // The worker source is CommonJS; do not inherit flags such as `--input-type=module`.
+      execArgv: [],
+      workerData: { code: this.code, granted, root: this.root, env, dryRun: this.opts.dryRun === true },
+      env,
+      resourceLimits: { maxOldGenerationSizeMb: memoryLimitMb, maxYoungGenerationSizeMb: Math.min(16, memoryLimitMb) },
+    });
+
+    let settleReady: { resolve: () => void; reject: (e: Error) => void } | undefined;
+    const ready = this.withTimeout(
+      undefined,
+      new Promise<void>((resolve, reject) => {
+        settleReady = { resolve, reject };
+      }),
+    );
+    // Errors are surfaced through `start()` / `call()`; avoid unhandled rejections for idle hosts.
+    ready.catch(() => undefined);
+
+    worker.on("message", (msg: WorkerMessage) => {
+      switch (msg.type) {
+        case "ready":
+          this.onReady(msg.tools);
+          settleReady?.resolve();
+          break;
+        case "eval-error":
+          settleReady?.reject(
+            new ToolHostError("TOOL.EVAL_FAILED", `Failed to evaluate '## Tools': ${msg.error.message}`),
+          );
+          void this.stopWorker();
+          break;
+        case "result": {
+          const waiter = this.pending.get(msg.id);
+          this.pending.delete(msg.id);
+          if (!waiter) return;
+          if (msg.ok) waiter.resolve(msg.value);
+          else waiter.reject(this.toolError(undefined, msg.error));
+          break;
+        }
+        case "sh":
+        case "check":
+          void (msg.type === "sh" ? this.runShell(msg.command) : this.checkAbility(msg.ability, msg.scope)).then(
+            (value) => worker.postMessage({ type: "reply", id: msg.id, ok: true, value }),
+            (e: ToolHostError) =>
+              worker.postMessage({ type: "reply", id: msg.id, ok: false, error: { message: e.message, code: e.code } }),
+          );
+          break;
+        case "log":
+          this.opts.onLog?.(msg.level, msg.message);
+          break;
+        case "effect":
+          this.opts.onDryRun?.(msg.effect);
+          break;
+      }
+    });
+    worker.on("error", (err: Error & { code?: string }) => {
+      const error =
+        err.code === "ERR_WORKER_OUT_OF_MEMORY"
+          ? new ToolHostError("TOOL.MEMORY_LIMIT", `Tool worker exceeded the memory limit (${memoryLimitMb} MB).`)
+          : new ToolHostError("TOOL.FAILED", `Tool worker crashed: ${err.message}`);
+      settleReady?.reject(error);
+      void this.stopWorker(error);
+    });
+    worker.on("exit", () => {
+      if (this.running?.worker !== worker) return;
+      const error = new ToolHostError("TOOL.FAILED", "Tool worker exited unexpectedly.");
+      settleReady?.reject(error);
+      this.rejectPending(error);
+      this.running = undefined;
+    });
+
+    this.running = { worker, ready };
+    return this.running;
+  }
+
+  private onReady(tools: Array<AgentToolInfo & { run?: string }>): void {
+    if (this.info.length) return;
+    for (const { run, ...info } of tools) {
+      this.info.push(info);
+      if (run !== undefined) this.commands.set(info.name, run);
+      this.tools[info.name] = (...args: unknown[]) => this.call(info.name, ...args);
+    }
+  }
+
+  private get root(): string {
+    return path.resolve(this.opts.cwd ?? process.cwd());
+  }
+
+  private allowedEnv(): Record<string, string | undefined> {
+    const env = this.opts.env ?? process.env;
+    return Object.fromEntries(Object.entries(env).filter(([name]) => this.policy.can("env", name)));
+  }
+
+  private async checkAbility(ability: string, scope: string, tool?: string): Promise<void> {
+    const decision = this.policy.explain(ability, scope);
+    if (!decision.allowed) throw new ToolHostError("TOOL.CAPABILITY_DENIED", decision.reason, tool);
+    if (ability === "fs" && decision.rule?.scope === undefined) {
+      // Unscoped `fs` only reaches the tool root.
+      const rel = path.relative(this.root, scope.slice(scope.indexOf(":") + 1));
+      if (rel === ".." || rel.startsWith(`..${path.sep}`) || path.isAbsolute(rel)) {
+        throw new ToolHostError(
+          "TOOL.CAPABILITY_DENIED",
+          `'fs:${scope}' is outside of the tool root (${this.root}); grant it with a scoped 'fs:<op>:<glob>' entry.`,
+          tool,
+        );
+      }
+    }
+  }
+
+  private async runShell(command: string, tool?: string): Promise<string> {
+    await this.checkAbility("sh", command.trim(), tool);
+    if (this.opts.dryRun) {
+      this.opts.onDryRun?.({ kind: "sh", command });
+      return "";
+    }
+    const exec = this.opts.exec ?? defaultShellExecutor;
+    const res = await exec(command, { cwd: this.opts.cwd });
+    if (res.exitCode !== 0) {
+      throw new ToolHostError(
+        "TOOL.FAILED",
+        `Shell command '${command}' exited with ${res.exitCode}${res.stderr.trim() ? `: ${res.stderr.trim()}` : "."}`,
+        tool,
+      );
+    }
+    return res.stdout.trimEnd();
+  }
+
+  private async runCommand(name: string, template: string, input: unknown): Promise<string> {
+    const command = renderCommandTemplate(name, template, input);
+    return await this.withTimeout(name, this.runShell(command, name));
+  }
+
+  private toolError(tool: string | undefined, error: WireError): ToolHostError {
+    const code = error.code === "TOOL.CAPABILITY_DENIED" ? error.code : "TOOL.FAILED";
+    return new ToolHostError(code, tool ? `Tool '${tool}' failed: ${error.message}` : error.message, tool);
+  }
+
+  /** Reject after `timeoutMs`, restarting the worker (a stuck tool cannot be interrupted otherwise). */
+  private async withTimeout<T>(tool: string | undefined, p: Promise<T>): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new ToolHostError(
+          "TOOL.TIMEOUT",
+          tool
+            ? `Tool '${tool}' timed out after ${this.timeoutMs}ms.`
+            : `Evaluating '## Tools' timed out after ${this.timeoutMs}ms.`,
+          tool,
+        );
+        reject(error);
+        void this.stopWorker(error);
+      }, this.timeoutMs);
+    });
+    try {
+      return await Promise.race([p, timeout]);
+    } catch (e) {
+      if (tool && e instanceof ToolHostError && e.tool === undefined) {
+        throw new ToolHostError(e.code, `Tool '${tool}' failed: ${e.message}`, tool);
+      }
+      throw e;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private rejectPending(error: Error): void {
+    for (const waiter of this.pending.values()) waiter.reject(error);
+    this.pending.clear();
+  }
+
+  private async stopWorker(error?: Error): Promise<void> {
+    const running = this.running;
+    this.running = undefined;
+    if (error) this.rejectPending(error);
+    if (running) await running.worker.terminate();
+  }
+}
+
+/** Create an `AgentToolHost` for `def` and evaluate its tools block. */
+export async function createAgentToolHost(
+  def: Pick<AgentDefinition, "toolsSource" | "abilities">,
+  opts?: AgentToolHostOptions,
+): Promise<AgentToolHost> {
+  const host = new AgentToolHost(def, opts);
+  await host.start();
+  return host;
+}
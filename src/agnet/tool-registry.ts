@@ -0,0 +1,119 @@
+import type { z } from "zod";
+
+import type { CerebellumToolRequest, CerebellumToolResult } from "./cerebellum.ts";
+import type { AgentToolCall } from "../md-parser/types.ts";
+
+export type CerebellumToolErrorCode = "TOOL.UNKNOWN" | "TOOL.INVALID_INPUT" | "TOOL.DUPLICATE";
+
+export class CerebellumToolError extends Error {
+  public readonly code: CerebellumToolErrorCode;
+  public readonly tool: string;
+
+  public constructor(code: CerebellumToolErrorCode, message: string, tool: string) {
+    super(message);
+    this.name = "CerebellumToolError";
+    this.code = code;
+    this.tool = tool;
+  }
+}
+
+export type CerebellumToolContext = { cwd: string };
+
+/**
+ * A tool Cerebellum can execute. The request is `{ tool: name, ...input }`; `input` validates everything but `tool`.
+ *
+ * Add the input type to `CerebellumToolInputs` (declaration merging) to get typed `executeTool()` requests.
+ */
+export type CerebellumToolDefinition<I = any> = {
+  name: string;
+  description?: string;
+  input: z.ZodType<I>;
+  execute: (input: I, ctx: CerebellumToolContext) => Promise<CerebellumToolResult>;
+  /**
+   * Fixture behavior for deterministic tests: a result replaces the real execution, `undefined` runs `execute`
+   * (e.g. when the tool's fixture env variable is not set).
+   */
+  fixture?: (input: I, ctx: CerebellumToolContext) => Promise<CerebellumToolResult | undefined>;
+  /**
+   * The ability a request needs (see `abilityForRequest()`). Default: `tool` scoped to the tool name. `argv`: the
+   * `sh` scope is an argv run without a shell (see `AbilityScopeOptions`).
+   */
+  ability?: (input: I) => { ability: string; scope: string; argv?: boolean };
+  /** How a request is named in `allowed-tools` (see `toolCallsForRequest()`). Default: the bare tool name. */
+  toolCalls?: (input: I) => AgentToolCall[];
+};
+
+/** A request for any registered tool, including ones not listed in `CerebellumToolInputs`. */
+export type CerebellumAnyToolRequest = CerebellumToolRequest | { tool: string; [k: string]: unknown };
+
+function formatInputIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => (issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ");
+}
+
+/** Tools by name. Names are case-sensitive. */
+export class CerebellumToolRegistry {
+  private readonly tools = new Map<string, CerebellumToolDefinition>();
+
+  public constructor(tools: readonly CerebellumToolDefinition[] = []) {
+    for (const tool of tools) this.register(tool);
+  }
+
+  /** Throws `TOOL.DUPLICATE` when the name is taken, unless `replace` is set. */
+  public register<I>(tool: CerebellumToolDefinition<I>, opts?: { replace?: boolean }): void {
+    if (this.tools.has(tool.name) && !opts?.replace) {
+      throw new CerebellumToolError("TOOL.DUPLICATE", `Tool '${tool.name}' is already registered.`, tool.name);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  public unregister(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  public get(name: string): CerebellumToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  public has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  public names(): string[] {
+    return [...this.tools.keys()];
+  }
+
+  /**
+   * The tool and validated input for `request`. Throws `TOOL.UNKNOWN` for unregistered tools and
+   * `TOOL.INVALID_INPUT` when the input does not match the tool's schema.
+   */
+  public resolve(request: CerebellumAnyToolRequest): { tool: CerebellumToolDefinition; input: unknown } {
+    const name = String(request?.tool);
+    const tool = this.tools.get(name);
+    if (!tool) {
+      const known = this.names();
+      throw new CerebellumToolError(
+        "TOOL.UNKNOWN",
+        `Unknown tool '${name}'${known.length ? ` (registered: ${known.join(", ")})` : ""}.`,
+        name,
+      );
+    }
+    const { tool: _tool, ...rest } = request;
+    const parsed = tool.input.safeParse(rest);
+    if (!parsed.success) {
+      throw new CerebellumToolError(
+        "TOOL.INVALID_INPUT",
+        `Invalid input for tool '${name}': ${formatInputIssues(parsed.error)}`,
+        name,
+      );
+    }
+    return { tool, input: parsed.data };
+  }
+
+  /** Validate and run `request`: the tool's fixture result when it has one, else `execute`. */
+  public async execute(request: CerebellumAnyToolRequest, ctx: CerebellumToolContext): Promise<CerebellumToolResult> {
+    const { tool, input } = this.resolve(request);
+    return (await tool.fixture?.(input, ctx)) ?? (await tool.execute(input, ctx));
+  }
+}
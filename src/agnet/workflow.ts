@@ -0,0 +1,130 @@
+import type { Cerebellum } from "./cerebellum.ts";
+
+/**
+ * A step of one workflow run that completed (`done`) or has failed so far (`failed`). `value` must be JSON: it is
+ * persisted and handed to later steps.
+ */
+export type WorkflowCheckpoint = {
+  id: string;
+  workflow: string;
+  runId: string;
+  step: string;
+  /** Missing in checkpoints written before failures were recorded: `done`. */
+  status?: "done" | "failed";
+  value?: unknown;
+  /** Last error of a `failed` step. */
+  error?: string;
+  /** Times the step failed (`failed`), or runs it took to complete (`done`). */
+  attempts?: number;
+  /** When the step completed or last failed (ISO). */
+  at: string;
+};
+
+/** Where checkpoints are kept, e.g. a `CollectionFactory` collection with `keyField: "id"`. */
+export type WorkflowCheckpointStore = {
+  get(id: string): WorkflowCheckpoint | undefined;
+  upsert(record: WorkflowCheckpoint, key?: string): unknown;
+};
+
+export type WorkflowStepResult = { ok: true; value?: unknown } | { ok: false; error: string };
+
+export type WorkflowStep<Ctx> = {
+  name: string;
+  /** `results` holds the values of the earlier steps by name, restored ones included. */
+  run: (ctx: Ctx, results: Readonly<Record<string, unknown>>) => Promise<WorkflowStepResult>;
+};
+
+export type WorkflowRunResult =
+  | { ok: true; results: Record<string, unknown>; restored: string[] }
+  | {
+      ok: false;
+      step: string;
+      error: string;
+      /** How often `step` has failed for this `runId`, this run included. */
+      attempts: number;
+      /** `attempts` reached `maxAttempts`: the caller should give up on this `runId`. */
+      exhausted: boolean;
+      results: Record<string, unknown>;
+      restored: string[];
+    };
+
+/**
+ * Steps that run in order, each checkpointed in a store once it succeeds. Running the same `runId` again restores
+ * the checkpointed steps and continues with the first incomplete one; a failed step is recorded with its attempt
+ * count and runs again next time. A step that throws stops the run without being recorded; the error propagates.
+ *
+ * Progress is streamed on the Cerebellum channel as `workflow.step` events (`restored`, `done`, `failed`).
+ */
+export class Workflow<Ctx> {
+  public readonly name: string;
+  public readonly steps: readonly WorkflowStep<Ctx>[];
+
+  public constructor(init: { name: string; steps: WorkflowStep<Ctx>[] }) {
+    const seen = new Set<string>();
+    for (const step of init.steps) {
+      if (seen.has(step.name)) throw new Error(`Workflow '${init.name}' declares step '${step.name}' twice.`);
+      seen.add(step.name);
+    }
+    this.name = init.name;
+    this.steps = init.steps;
+  }
+
+  public checkpointId(runId: string, step: string): string {
+    return `${this.name}:${runId}:${step}`;
+  }
+
+  /**
+   * Run (or resume) the workflow for `runId`. `persist` is awaited after every new checkpoint, so a crash loses at
+   * most the step that was running. A failure is `exhausted` once its step failed `maxAttempts` times (default 3).
+   */
+  public async run(opts: {
+    runId: string;
+    ctx: Ctx;
+    cerebellum: Cerebellum<any>;
+    store: WorkflowCheckpointStore;
+    persist?: () => Promise<void>;
+    maxAttempts?: number;
+  }): Promise<WorkflowRunResult> {
+    const maxAttempts = opts.maxAttempts ?? 3;
+    const results: Record<string, unknown> = {};
+    const restored: string[] = [];
+    let ran = false;
+    const emit = (step: string, status: "restored" | "done" | "failed", error?: string): void =>
+      opts.cerebellum.emit({
+        type: "workflow.step",
+        payload: { workflow: this.name, id: opts.runId, step, status, ...(error ? { error } : {}) },
+      });
+
+    for (const step of this.steps) {
+      const id = this.checkpointId(opts.runId, step.name);
+      const checkpoint = opts.store.get(id);
+      if (checkpoint && (checkpoint.status ?? "done") === "done") {
+        results[step.name] = checkpoint.value;
+        restored.push(step.name);
+        emit(step.name, "restored");
+        continue;
+      }
+
+      if (restored.length && !ran) {
+        opts.cerebellum.log(`Resuming workflow ${this.name} at '${step.name}' (done: ${restored.join(", ")})`);
+      }
+      ran = true;
+      const res = await step.run(opts.ctx, { ...results });
+      const record = { id, workflow: this.name, runId: opts.runId, step: step.name, at: new Date().toISOString() };
+      const attempts = (checkpoint?.attempts ?? 0) + 1;
+      if (!res.ok) {
+        opts.store.upsert({ ...record, status: "failed", error: res.error, attempts }, id);
+        await opts.persist?.();
+        emit(step.name, "failed", res.error);
+        const exhausted = attempts >= maxAttempts;
+        return { ok: false, step: step.name, error: res.error, attempts, exhausted, results, restored };
+      }
+
+      results[step.name] = res.value;
+      opts.store.upsert({ ...record, status: "done", value: res.value, attempts }, id);
+      await opts.persist?.();
+      emit(step.name, "done");
+    }
+    return { ok: true, results, restored };
+  }
+}
@@ -2,25 +2,125 @@ import fs from "node:fs/promises";
 import path from "node:path";
 import process from "node:process";
 import { fileURLToPath } from "node:url";
-import { parseAgentMd } from "./md-parser/parse-agent-md.js";
+import { AGENT_BUNDLE_MANIFEST, parseAgentBundleWithDiagnostics } from "./md-parser/bundle.js";
+import {
+  commonSourceDir,
+  compileAgents,
+  compileAgentSource,
+  resolveAgentSources,
+  writeCompileArtifacts,
+  type AgentCompileEntry,
+  type AgentCompileResult,
+} from "./md-parser/compile-agents.js";
+import { loadTempybotConfig } from "./md-parser/config.js";
+import { loadAgentDefinition } from "./md-parser/definition-source.js";
+import { AgentTemplateError, formatAgentDiagnostic, formatFrontmatterPath } from "./md-parser/diagnostics.js";
+import { diffJson, formatJsonChange } from "./md-parser/diff.js";
+import { formatLintIssue, lintAgentFiles, lintResultsToSarif } from "./md-parser/lint.js";
+import { migrateAgentFiles } from "./md-parser/migrate-agents.js";
+import { AGENT_SCHEMA_VERSION } from "./md-parser/migrations.js";
+import { parseAgentMdWithDiagnostics } from "./md-parser/parse-agent-md.js";
+import { AGENT_REGISTRY_FIELDS, AgentRegistry, parseAgentRegistryWhere } from "./md-parser/registry.js";
+import { agentJsonToTemplate } from "./md-parser/print-agent-md.js";
+import { AgentRenderError, renderAgent, type AgentRenderVariables } from "./md-parser/render.js";
+import { agentDefinitionJsonSchema, agentFrontmatterJsonSchema } from "./md-parser/schema.js";
+import { diffAgentDefinitions, formatAgentChanges, summarizeAgentChanges } from "./md-parser/semantic-diff.js";
+import type { AgentDefinition } from "./md-parser/types.js";
+import { watchAgentTemplates } from "./md-parser/watch.js";
 
 type ParsedArgs = {
-  command: "parse" | "help" | "unknown";
+  command:
+    | "parse"
+    | "render"
+    | "format"
+    | "compile"
+    | "lint"
+    | "diff"
+    | "migrate"
+    | "list"
+    | "schema"
+    | "help"
+    | "unknown";
   inputPath?: string;
+  /** `compile` / `lint` / `migrate` / `list` inputs: directories, files or globs. */
+  inputs: string[];
+  outDir?: string;
+  failOn?: string;
+  /** `lint --format`. */
+  format?: string;
+  configPath?: string;
+  /** `lint --fix`. */
+  fix: boolean;
+  schemaKind?: string;
   outPath?: string;
+  /** Repeated `--var k=v`. */
+  vars: string[];
+  varsPath?: string;
+  /** `render --locale`. */
+  locale?: string;
+  /** Repeated `list --where <conditions>`. */
+  where: string[];
+  /** `format` / `migrate --write`: rewrite input files in place. */
+  write: boolean;
+  /** `parse` / `compile --watch`: rebuild on change until interrupted. */
+  watch: boolean;
+  /** `diff` / `list --json`. */
+  json: boolean;
   help: boolean;
 };
 
 function printHelp(): void {
   const text = `
-tempybot parse <file.agent.md> [--out <file.json>]
+tempybot parse <file.agent.md|bundle> [--out <file.json>] [--watch]
+tempybot render <file.agent.md> [--var <key=value>]... [--vars <vars.json>] [--locale <tag>] [--out <file.json>]
+tempybot format <file.agent.md> [--write | --out <file.agent.md>]
+tempybot compile <dir|file|glob>... --out-dir <dir> [--fail-on error|warn] [--watch]
+tempybot lint <dir|file|glob>... [--fix] [--format text|json|sarif] [--config <file>]
+tempybot diff <old> <new> [--json]
+tempybot migrate <dir|file|glob>... [--write]
+tempybot list <dir|file|glob>... [--where <field>=<value>[,<value>...]]... [--json]
+tempybot schema <frontmatter|definition> [--out <file.schema.json>]
 
-Parses a single .agent.md file and prints formatted JSON to stdout.
-If --out is provided, it also writes the JSON to that path.
+parse:  Parses a single .agent.md file and prints formatted JSON to stdout.
+        If --out is provided, it also writes the JSON to that path. A bundle (*.agents.md, bundle.yaml or a
+        directory with one) prints { name, description, agents: [{ id, source, definition }] }.
+render: Parses the file and renders system, rules and inline command bodies with the given variables
+        (validated against the declared inputSchema; --var wins over --vars). --locale renders the localized
+        system / rules (e.g. --locale de-CH falls back to de, then to the unlocalized text).
+format: Prints the file as a canonical .agent.md (parses back to the same JSON).
+        --write rewrites the file in place. Templates using 'extends' are not supported.
+compile: Compiles every *.agent.md to <out-dir> (deterministic JSON, sorted keys) and writes manifest.json
+        (sha256 of sources and outputs), report.md and report.json. Exits 1 only with --fail-on:
+        'error' fails on any error, 'warn' on any error or warning.
+--watch: (parse, compile) Keeps running: every change to a template or its 'extends' chain recompiles the
+        affected templates (and --out / --out-dir) and prints what changed in the definition. Errors are
+        printed and the previous output is kept. Stop with Ctrl+C.
+lint:   Runs lint rules (severities from lint.rules in tempybot.config) and prints findings.
+        --fix applies safe fixes to the frontmatter (the whole file is rewritten in canonical format only
+        when canonical-format is enabled). Exits 1 on any error.
+diff:   Compares two agent definitions field by field and classifies every change as breaking, security or
+        cosmetic. <old> and <new> are .agent.md files, compiled .json files or git revisions (<ref>:<path>).
+        --json prints { summary, changes } for bots.
+migrate: Upgrades templates to the current format (schemaVersion ${AGENT_SCHEMA_VERSION}) and lists what changes. Without
+        --write nothing is written and outdated templates exit 1; --write rewrites them in place.
+list:   Lists agents (file, title, status, tags). --where keeps agents matching every condition; a comma list
+        matches any of its values, '*' is a wildcard and matching is case-insensitive. Fields:
+        ${AGENT_REGISTRY_FIELDS.join(", ")} (ability = granted by abilities.allow, env = required.env,
+        mcp = MCP server name). --json prints the matching entries. Templates that fail to parse exit 1.
+schema: Prints the JSON Schema for .agent.md frontmatter or for the compiled JSON.
 
 Examples:
   tempybot parse "./docs/agent-examples/python-data-cleaner.agent.md"
   tempybot parse "./docs/agent-examples/python-data-cleaner.agent.md" --out "./python-data-cleaner.agent.json"
+  tempybot render "./docs/agent-examples/sql-performance-tuner.agent.md" --var query="select 1"
+  tempybot format "./docs/agent-examples/release-manager.agent.md" --write
+  tempybot compile agents "docs/**/*.agent.md" --out-dir dist/agents --fail-on error
+  tempybot compile agents --out-dir dist/agents --watch
+  tempybot lint agents --format sarif > tempybot.sarif
+  tempybot diff origin/main:agents/reviewer.agent.md agents/reviewer.agent.md --json
+  tempybot migrate agents --write
+  tempybot list agents --where "status=active ability=network"
+  tempybot schema frontmatter --out "./agent-frontmatter.schema.json"
 `.trim();
   // eslint-disable-next-line no-console
   console.log(text);
@@ -28,7 +128,19 @@ Examples:
 
 function parseArgs(argv: string[]): ParsedArgs {
   const help = argv.includes("-h") || argv.includes("--help");
+  const write = argv.includes("--write");
+  const fix = argv.includes("--fix");
+  const watch = argv.includes("--watch");
+  const json = argv.includes("--json");
   let outPath: string | undefined;
+  let varsPath: string | undefined;
+  let outDir: string | undefined;
+  let failOn: string | undefined;
+  let format: string | undefined;
+  let configPath: string | undefined;
+  let locale: string | undefined;
+  const vars: string[] = [];
+  const where: string[] = [];
   const positional: string[] = [];
 
   for (let i = 0; i < argv.length; i++) {
@@ -38,24 +150,140 @@ function parseArgs(argv: string[]): ParsedArgs {
       i++;
       continue;
     }
+    if (a === "--var") {
+      const v = argv[i + 1];
+      if (v !== undefined) vars.push(v);
+      i++;
+      continue;
+    }
+    if (a === "--where") {
+      const v = argv[i + 1];
+      if (v !== undefined) where.push(v);
+      i++;
+      continue;
+    }
+    if (a === "--vars") {
+      varsPath = argv[i + 1];
+      i++;
+      continue;
+    }
+    if (a === "--out-dir") {
+      outDir = argv[i + 1];
+      i++;
+      continue;
+    }
+    if (a === "--fail-on") {
+      failOn = argv[i + 1];
+      i++;
+      continue;
+    }
+    if (a === "--format") {
+      format = argv[i + 1];
+      i++;
+      continue;
+    }
+    if (a === "--locale") {
+      locale = argv[i + 1];
+      i++;
+      continue;
+    }
+    if (a === "--config") {
+      configPath = argv[i + 1];
+      i++;
+      continue;
+    }
     if (a.startsWith("-")) continue;
     positional.push(a);
   }
 
   if (positional.length === 0) {
-    return { command: "help", help: true };
+    return { command: "help", help: true, inputs: [], vars, where, write, fix, watch, json };
   }
 
-  if (positional[0] === "parse") {
+  if (positional[0] === "parse" || positional[0] === "render" || positional[0] === "format") {
     const inputPath = positional[1];
-    return { command: "parse", inputPath, outPath, help };
+    return {
+      command: positional[0],
+      inputPath,
+      inputs: [],
+      outPath,
+      vars,
+      where,
+      varsPath,
+      locale,
+      write,
+      fix,
+      watch,
+      json,
+      help,
+    };
+  }
+
+  if (positional[0] === "compile") {
+    return {
+      command: "compile",
+      inputs: positional.slice(1),
+      outDir,
+      failOn,
+      vars,
+      where,
+      write,
+      fix,
+      watch,
+      json,
+      help,
+    };
+  }
+
+  if (positional[0] === "lint") {
+    return {
+      command: "lint",
+      inputs: positional.slice(1),
+      format,
+      configPath,
+      vars,
+      where,
+      write,
+      fix,
+      watch,
+      json,
+      help,
+    };
+  }
+
+  if (positional[0] === "migrate") {
+    return { command: "migrate", inputs: positional.slice(1), vars, where, write, fix, watch, json, help };
+  }
+
+  if (positional[0] === "list") {
+    return { command: "list", inputs: positional.slice(1), vars, where, write, fix, watch, json, help };
+  }
+
+  if (positional[0] === "diff") {
+    return { command: "diff", inputs: positional.slice(1), vars, where, write, fix, watch, json, help };
+  }
+
+  if (positional[0] === "schema") {
+    return {
+      command: "schema",
+      schemaKind: positional[1],
+      inputs: [],
+      outPath,
+      vars,
+      where,
+      write,
+      fix,
+      watch,
+      json,
+      help,
+    };
   }
 
   if (positional[0] === "help") {
-    return { command: "help", help: true };
+    return { command: "help", help: true, inputs: [], vars, where, write, fix, watch, json };
   }
 
-  return { command: "unknown", help };
+  return { command: "unknown", inputs: [], help, vars, where, write, fix, watch, json };
 }
 
 function toPosixPath(p: string): string {
@@ -67,22 +295,461 @@ async function writeJsonFile(outPath: string, data: unknown): Promise<void> {
   await fs.writeFile(outPath, `${JSON.stringify(data, null, 2)}\n`, "utf8");
 }
 
+/** Parse, print diagnostics and write `--out`; `undefined` when the template failed. */
+async function parseAgentToOut(inputAbs: string, opts: { outPath?: string }): Promise<AgentDefinition | undefined> {
+  const cwd = process.cwd();
+  const result = await parseAgentMdWithDiagnostics(inputAbs);
+  // One line per problem (`file:line:col: severity CODE: message`) so CI can annotate sources.
+  for (const d of result.diagnostics) {
+    // eslint-disable-next-line no-console
+    console.error(formatAgentDiagnostic({ ...d, file: toPosixPath(path.relative(cwd, d.file ?? inputAbs)) }));
+  }
+  if (!result.ok) return undefined;
+
+  if (opts.outPath) {
+    const outAbs = path.isAbsolute(opts.outPath) ? opts.outPath : path.resolve(cwd, opts.outPath);
+    await writeJsonFile(outAbs, result.definition);
+  }
+  return result.definition;
+}
+
+async function isAgentBundleInput(inputAbs: string): Promise<boolean> {
+  if (/\.agents\.md$/i.test(inputAbs) || path.basename(inputAbs) === AGENT_BUNDLE_MANIFEST) return true;
+  return (await fs.stat(inputAbs).catch(() => undefined))?.isDirectory() ?? false;
+}
+
+async function runAgentBundleParse(inputAbs: string, opts: { outPath?: string }): Promise<number> {
+  const cwd = process.cwd();
+  const result = await parseAgentBundleWithDiagnostics(inputAbs);
+  if (!result.ok) {
+    for (const d of result.diagnostics) {
+      // eslint-disable-next-line no-console
+      console.error(formatAgentDiagnostic({ ...d, file: d.file && toPosixPath(path.relative(cwd, d.file)) }));
+    }
+    return 1;
+  }
+
+  if (opts.outPath) {
+    await writeJsonFile(path.isAbsolute(opts.outPath) ? opts.outPath : path.resolve(cwd, opts.outPath), result.bundle);
+  }
+  // eslint-disable-next-line no-console
+  console.log(JSON.stringify(result.bundle, null, 2));
+  return 0;
+}
+
 async function runAgentParse(inputPath: string, opts: { outPath?: string }): Promise<number> {
   const cwd = process.cwd();
   const inputAbs = path.isAbsolute(inputPath) ? inputPath : path.resolve(cwd, inputPath);
 
   try {
-    const def = await parseAgentMd(inputAbs);
+    if (await isAgentBundleInput(inputAbs)) return await runAgentBundleParse(inputAbs, opts);
+    const def = await parseAgentToOut(inputAbs, opts);
+    if (!def) return 1;
+    // eslint-disable-next-line no-console
+    console.log(JSON.stringify(def, null, 2));
+    return 0;
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    // eslint-disable-next-line no-console
+    console.error(msg);
+    return 1;
+  }
+}
+
+/** Stops `--watch` on Ctrl+C. */
+function interruptSignal(): AbortSignal {
+  const controller = new AbortController();
+  process.once("SIGINT", () => controller.abort());
+  return controller.signal;
+}
+
+/** `<file>: N changes` followed by one indented line per changed path of the definition. */
+function printDefinitionChanges(file: string, before: AgentDefinition, after: AgentDefinition): void {
+  const changes = diffJson(before, after);
+  const lines = [`${file}: ${changes.length || "no"} change${changes.length === 1 ? "" : "s"}`];
+  for (const c of changes) lines.push(`  ${formatJsonChange(c)}`);
+  // eslint-disable-next-line no-console
+  console.log(lines.join("\n"));
+}
+
+function printWatchError(file: string, err: unknown): void {
+  const msg = err instanceof Error ? err.message : String(err);
+  // eslint-disable-next-line no-console
+  console.error(`${file}: ${msg}`);
+}
+
+async function runAgentParseWatch(inputPath: string, opts: { outPath?: string; signal: AbortSignal }): Promise<number> {
+  const cwd = process.cwd();
+  const inputAbs = path.isAbsolute(inputPath) ? inputPath : path.resolve(cwd, inputPath);
+  const file = toPosixPath(path.relative(cwd, inputAbs));
+  let previous: AgentDefinition | undefined;
+
+  await watchAgentTemplates([inputAbs], {
+    signal: opts.signal,
+    build: async (_abs, { initial }) => {
+      let def: AgentDefinition | undefined;
+      try {
+        def = await parseAgentToOut(inputAbs, { outPath: opts.outPath });
+      } catch (err) {
+        printWatchError(file, err);
+      }
+      if (!def) {
+        // eslint-disable-next-line no-console
+        console.error(`${file}: failed${previous ? " (keeping the previous output)" : ""}`);
+        return undefined;
+      }
+      if (initial || !previous) {
+        // eslint-disable-next-line no-console
+        console.log(JSON.stringify(def, null, 2));
+      } else {
+        printDefinitionChanges(file, previous, def);
+      }
+      previous = def;
+      return def;
+    },
+    onBatch: (_files, { initial }) => {
+      if (!initial) return;
+      // eslint-disable-next-line no-console
+      console.error(`Watching ${file} for changes (Ctrl+C to stop).`);
+    },
+  });
+  return 0;
+}
+
+async function readRenderVariables(opts: { vars: string[]; varsPath?: string }): Promise<AgentRenderVariables> {
+  const out: AgentRenderVariables = {};
+  if (opts.varsPath) {
+    const abs = path.isAbsolute(opts.varsPath) ? opts.varsPath : path.resolve(process.cwd(), opts.varsPath);
+    const data = JSON.parse(await fs.readFile(abs, "utf8")) as unknown;
+    if (typeof data !== "object" || data === null || Array.isArray(data)) {
+      throw new Error(`Invalid --vars file '${opts.varsPath}': expected a JSON object.`);
+    }
+    Object.assign(out, data);
+  }
+  for (const kv of opts.vars) {
+    const eq = kv.indexOf("=");
+    if (eq <= 0) throw new Error(`Invalid --var '${kv}': expected key=value.`);
+    out[kv.slice(0, eq)] = kv.slice(eq + 1);
+  }
+  return out;
+}
+
+async function runAgentRender(
+  inputPath: string,
+  opts: { vars: string[]; varsPath?: string; locale?: string; outPath?: string },
+): Promise<number> {
+  const cwd = process.cwd();
+  const inputAbs = path.isAbsolute(inputPath) ? inputPath : path.resolve(cwd, inputPath);
+  const file = toPosixPath(path.relative(cwd, inputAbs));
+
+  try {
+    const result = await parseAgentMdWithDiagnostics(inputAbs);
+    if (!result.ok) {
+      for (const d of result.diagnostics) {
+        // eslint-disable-next-line no-console
+        console.error(formatAgentDiagnostic({ ...d, file: toPosixPath(path.relative(cwd, d.file ?? inputAbs)) }));
+      }
+      return 1;
+    }
+
+    const variables = await readRenderVariables(opts);
+    const rendered = renderAgent(result.definition, variables, { coerceTypes: true, locale: opts.locale });
 
     if (opts.outPath) {
-      const outAbs = path.isAbsolute(opts.outPath) ? opts.outPath : path.resolve(cwd, opts.outPath);
-      await writeJsonFile(outAbs, def);
+      await writeJsonFile(path.isAbsolute(opts.outPath) ? opts.outPath : path.resolve(cwd, opts.outPath), rendered);
+    }
+    // eslint-disable-next-line no-console
+    console.log(JSON.stringify(rendered, null, 2));
+    return 0;
+  } catch (err) {
+    if (err instanceof AgentRenderError) {
+      for (const issue of err.issues) {
+        // eslint-disable-next-line no-console
+        console.error(`${file}: error ${issue.code}: ${issue.message}`);
+      }
+      return 1;
     }
+    const msg = err instanceof Error ? err.message : String(err);
+    // eslint-disable-next-line no-console
+    console.error(msg);
+    return 1;
+  }
+}
 
+async function runAgentFormat(inputPath: string, opts: { outPath?: string; write: boolean }): Promise<number> {
+  const cwd = process.cwd();
+  const inputAbs = path.isAbsolute(inputPath) ? inputPath : path.resolve(cwd, inputPath);
+  const file = toPosixPath(path.relative(cwd, inputAbs));
+
+  try {
+    const result = await parseAgentMdWithDiagnostics(inputAbs);
+    if (!result.ok) {
+      for (const d of result.diagnostics) {
+        // eslint-disable-next-line no-console
+        console.error(formatAgentDiagnostic({ ...d, file: toPosixPath(path.relative(cwd, d.file ?? inputAbs)) }));
+      }
+      return 1;
+    }
+    if (result.definition.inheritance) {
+      // Printing the merged definition would inline the base templates.
+      // eslint-disable-next-line no-console
+      console.error(`${file}: cannot format a template that uses 'extends'.`);
+      return 1;
+    }
+    if (result.definition.includes) {
+      // Same for included files.
+      // eslint-disable-next-line no-console
+      console.error(`${file}: cannot format a template that uses include directives.`);
+      return 1;
+    }
+
+    const text = agentJsonToTemplate(result.definition);
+    const outAbs = opts.write ? inputAbs : opts.outPath ? path.resolve(cwd, opts.outPath) : undefined;
+    if (outAbs) {
+      await fs.mkdir(path.dirname(outAbs), { recursive: true });
+      await fs.writeFile(outAbs, text, "utf8");
+      return 0;
+    }
     // eslint-disable-next-line no-console
-    console.log(JSON.stringify(def, null, 2));
+    console.log(text.trimEnd());
+    return 0;
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    // eslint-disable-next-line no-console
+    console.error(msg);
+    return 1;
+  }
+}
+
+async function runAgentMigrate(inputs: string[], opts: { write: boolean }): Promise<number> {
+  try {
+    const results = await migrateAgentFiles(inputs, { write: opts.write });
+    for (const r of results) {
+      if (r.error) {
+        // eslint-disable-next-line no-console
+        console.error(`${r.file}: ${r.error}`);
+        continue;
+      }
+      if (!r.outdated) continue;
+      // eslint-disable-next-line no-console
+      console.log(`${r.file}: schemaVersion ${r.from} -> ${r.to}${r.written ? " (written)" : ""}`);
+      for (const c of r.changes) {
+        // eslint-disable-next-line no-console
+        console.log(`  - ${formatFrontmatterPath(c.path)}: ${c.message}`);
+      }
+    }
+    const failed = results.filter((r) => r.error).length;
+    const outdated = results.filter((r) => r.outdated).length;
+    // eslint-disable-next-line no-console
+    console.log(
+      `${outdated} of ${results.length} templates ${opts.write ? "migrated" : "need migration"} to schemaVersion ` +
+        `${AGENT_SCHEMA_VERSION}${failed ? ` (${failed} failed)` : ""}.`,
+    );
+    return failed || (outdated && !opts.write) ? 1 : 0;
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    // eslint-disable-next-line no-console
+    console.error(msg);
+    return 1;
+  }
+}
+
+async function runAgentList(inputs: string[], opts: { where: string[]; json: boolean }): Promise<number> {
+  try {
+    const query = parseAgentRegistryWhere(opts.where);
+    const registry = await AgentRegistry.load(inputs);
+    const cwd = process.cwd();
+    for (const { file, diagnostics } of registry.errors) {
+      const abs = path.resolve(cwd, file);
+      for (const d of diagnostics) {
+        // eslint-disable-next-line no-console
+        console.error(formatAgentDiagnostic({ ...d, file: toPosixPath(path.relative(cwd, d.file ?? abs)) }));
+      }
+    }
+    const matches = registry.find(query);
+    if (opts.json) {
+      // eslint-disable-next-line no-console
+      console.log(JSON.stringify(matches.map(({ definition: _definition, ...entry }) => entry), null, 2));
+    } else {
+      for (const e of matches) {
+        const tags = e.tags.length ? ` #${e.tags.join(" #")}` : "";
+        // eslint-disable-next-line no-console
+        console.log(`${e.file}: ${e.title} [${e.status}]${tags}`);
+      }
+      const failed = registry.errors.length;
+      // eslint-disable-next-line no-console
+      console.log(
+        `${matches.length} of ${registry.size} agents${opts.where.length ? " match" : ""}` +
+          `${failed ? ` (${failed} failed to parse)` : ""}.`,
+      );
+    }
+    return registry.errors.length ? 1 : 0;
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    // eslint-disable-next-line no-console
+    console.error(msg);
+    return 1;
+  }
+}
+
+function printCompileSummary(result: AgentCompileResult, outDir: string): void {
+  const failed = result.entries.length - result.manifest.length;
+  // eslint-disable-next-line no-console
+  console.log(
+    `Compiled ${result.manifest.length}/${result.entries.length} agents to ${outDir}` +
+      ` (${result.errors} errors, ${result.warnings} warnings${failed ? `, ${failed} failed` : ""}).`,
+  );
+}
+
+async function runAgentCompile(
+  inputs: string[],
+  opts: { outDir: string; failOn?: "error" | "warn" },
+): Promise<number> {
+  try {
+    const result = await compileAgents(inputs, { outDir: opts.outDir });
+    for (const d of result.entries.flatMap((e) => e.diagnostics)) {
+      // eslint-disable-next-line no-console
+      console.error(formatAgentDiagnostic(d));
+    }
+    printCompileSummary(result, opts.outDir);
+
+    if (opts.failOn === "error" && result.errors > 0) return 1;
+    if (opts.failOn === "warn" && result.errors + result.warnings > 0) return 1;
+    return 0;
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    // eslint-disable-next-line no-console
+    console.error(msg);
+    return 1;
+  }
+}
+
+async function runAgentCompileWatch(inputs: string[], opts: { outDir: string; signal: AbortSignal }): Promise<number> {
+  const cwd = process.cwd();
+  const outDir = path.resolve(cwd, opts.outDir);
+  let files: string[];
+  try {
+    files = await resolveAgentSources(inputs, cwd);
+    if (!files.length) throw new Error(`No *.agent.md files matched: ${inputs.join(", ")}`);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    // eslint-disable-next-line no-console
+    console.error(msg);
+    return 1;
+  }
+  // Outputs keep the layout of the initial sources; templates added later land relative to the same directory.
+  const baseDir = commonSourceDir(files);
+  const entries = new Map<string, AgentCompileEntry>();
+  const definitions = new Map<string, AgentDefinition>();
+
+  await watchAgentTemplates(files, {
+    signal: opts.signal,
+    resolve: () => resolveAgentSources(inputs, cwd),
+    build: async (abs, { initial }) => {
+      const file = toPosixPath(path.relative(cwd, abs));
+      try {
+        const { entry, definition } = await compileAgentSource(abs, { outDir, baseDir, cwd });
+        entries.set(abs, entry);
+        for (const d of entry.diagnostics) {
+          // eslint-disable-next-line no-console
+          console.error(formatAgentDiagnostic(d));
+        }
+        if (!definition) return undefined;
+        const previous = definitions.get(abs);
+        if (previous) {
+          printDefinitionChanges(file, previous, definition);
+        } else if (!initial) {
+          // eslint-disable-next-line no-console
+          console.log(`${file}: compiled`);
+        }
+        definitions.set(abs, definition);
+        return definition;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+          // Deleted: drop it from the manifest until it comes back.
+          entries.delete(abs);
+          definitions.delete(abs);
+          // eslint-disable-next-line no-console
+          console.log(`${file}: removed`);
+          return undefined;
+        }
+        printWatchError(file, err);
+        return undefined;
+      }
+    },
+    onBatch: async (_files, { initial }) => {
+      const sorted = [...entries.keys()].sort((a, b) => a.localeCompare(b)).map((f) => entries.get(f)!);
+      printCompileSummary(await writeCompileArtifacts(outDir, sorted), opts.outDir);
+      if (!initial) return;
+      // eslint-disable-next-line no-console
+      console.error(`Watching ${files.length} templates for changes (Ctrl+C to stop).`);
+    },
+  });
+  return 0;
+}
+
+async function runAgentLint(
+  inputs: string[],
+  opts: { format: "text" | "json" | "sarif"; configPath?: string; fix: boolean },
+): Promise<number> {
+  try {
+    const { config } = await loadTempybotConfig(process.cwd(), opts.configPath);
+    const results = await lintAgentFiles(inputs, { config, fix: opts.fix });
+    const issues = results.flatMap((r) => r.issues);
+    const errors = issues.filter((i) => i.severity === "error").length;
+    const warnings = issues.length - errors;
+
+    if (opts.format === "sarif") {
+      // eslint-disable-next-line no-console
+      console.log(JSON.stringify(lintResultsToSarif(results), null, 2));
+    } else if (opts.format === "json") {
+      // eslint-disable-next-line no-console
+      console.log(JSON.stringify({ ok: errors === 0, errors, warnings, files: results }, null, 2));
+    } else {
+      for (const r of results) {
+        if (r.fixed) {
+          // eslint-disable-next-line no-console
+          console.log(`${r.file}: fixed`);
+        }
+        for (const issue of r.issues) {
+          // eslint-disable-next-line no-console
+          console.log(formatLintIssue(issue));
+        }
+      }
+      // eslint-disable-next-line no-console
+      console.log(`${results.length} files: ${errors} errors, ${warnings} warnings.`);
+    }
+    return errors ? 1 : 0;
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    // eslint-disable-next-line no-console
+    console.error(msg);
+    return 1;
+  }
+}
+
+async function runAgentDiff(oldSpec: string, newSpec: string, opts: { json: boolean }): Promise<number> {
+  try {
+    const cwd = process.cwd();
+    const before = await loadAgentDefinition(oldSpec, cwd);
+    const after = await loadAgentDefinition(newSpec, cwd);
+    const changes = diffAgentDefinitions(before, after);
+
+    // eslint-disable-next-line no-console
+    console.log(
+      opts.json
+        ? JSON.stringify({ old: oldSpec, new: newSpec, summary: summarizeAgentChanges(changes), changes }, null, 2)
+        : formatAgentChanges(changes),
+    );
     return 0;
   } catch (err) {
+    if (err instanceof AgentTemplateError) {
+      for (const d of err.diagnostics) {
+        // eslint-disable-next-line no-console
+        console.error(formatAgentDiagnostic(d));
+      }
+      return 1;
+    }
     const msg = err instanceof Error ? err.message : String(err);
     // eslint-disable-next-line no-console
     console.error(msg);
@@ -90,7 +757,18 @@ async function runAgentParse(inputPath: string, opts: { outPath?: string }): Pro
   }
 }
 
-export async function main(argv = process.argv.slice(2)): Promise<number> {
+async function runSchema(kind: "frontmatter" | "definition", opts: { outPath?: string }): Promise<number> {
+  const schema = kind === "frontmatter" ? agentFrontmatterJsonSchema() : agentDefinitionJsonSchema();
+  if (opts.outPath) {
+    const cwd = process.cwd();
+    await writeJsonFile(path.isAbsolute(opts.outPath) ? opts.outPath : path.resolve(cwd, opts.outPath), schema);
+  }
+  // eslint-disable-next-line no-console
+  console.log(JSON.stringify(schema, null, 2));
+  return 0;
+}
+
+export async function main(argv = process.argv.slice(2), opts: { signal?: AbortSignal } = {}): Promise<number> {
   const args = parseArgs(argv);
 
   if (args.command === "help" || args.help) {
@@ -98,7 +776,71 @@ export async function main(argv = process.argv.slice(2)): Promise<number> {
     return 0;
   }
 
-  if (args.command !== "parse") {
+  if (args.command === "schema") {
+    if (args.schemaKind !== "frontmatter" && args.schemaKind !== "definition") {
+      // eslint-disable-next-line no-console
+      console.error(`Expected 'frontmatter' or 'definition'. See: tempybot schema --help`);
+      return 2;
+    }
+    return await runSchema(args.schemaKind, { outPath: args.outPath });
+  }
+
+  if (args.command === "compile") {
+    if (!args.inputs.length || !args.outDir) {
+      // eslint-disable-next-line no-console
+      console.error(`Expected input paths and --out-dir <dir>. See: tempybot compile --help`);
+      return 2;
+    }
+    if (args.failOn !== undefined && args.failOn !== "error" && args.failOn !== "warn") {
+      // eslint-disable-next-line no-console
+      console.error(`Invalid --fail-on '${args.failOn}': expected 'error' or 'warn'.`);
+      return 2;
+    }
+    if (args.watch) {
+      return await runAgentCompileWatch(args.inputs, { outDir: args.outDir, signal: opts.signal ?? interruptSignal() });
+    }
+    return await runAgentCompile(args.inputs, { outDir: args.outDir, failOn: args.failOn });
+  }
+
+  if (args.command === "diff") {
+    const [oldSpec, newSpec] = args.inputs;
+    if (!oldSpec || !newSpec || args.inputs.length > 2) {
+      // eslint-disable-next-line no-console
+      console.error(`Expected <old> and <new>. See: tempybot diff --help`);
+      return 2;
+    }
+    return await runAgentDiff(oldSpec, newSpec, { json: args.json });
+  }
+
+  if (args.command === "migrate") {
+    if (!args.inputs.length) {
+      // eslint-disable-next-line no-console
+      console.error(`Expected input paths. See: tempybot migrate --help`);
+      return 2;
+    }
+    return await runAgentMigrate(args.inputs, { write: args.write });
+  }
+
+  if (args.command === "list") {
+    if (!args.inputs.length) {
+      // eslint-disable-next-line no-console
+      console.error(`Expected input paths. See: tempybot list --help`);
+      return 2;
+    }
+    return await runAgentList(args.inputs, { where: args.where, json: args.json });
+  }
+
+  if (args.command === "lint") {
+    const format = args.format ?? "text";
+    if (!args.inputs.length || (format !== "text" && format !== "json" && format !== "sarif")) {
+      // eslint-disable-next-line no-console
+      console.error(`Expected input paths and --format text|json|sarif. See: tempybot lint --help`);
+      return 2;
+    }
+    return await runAgentLint(args.inputs, { format, configPath: args.configPath, fix: args.fix });
+  }
+
+  if (args.command !== "parse" && args.command !== "render" && args.command !== "format") {
     // eslint-disable-next-line no-console
     console.error(`Unknown command. See: tempybot parse --help`);
     return 2;
@@ -106,10 +848,31 @@ export async function main(argv = process.argv.slice(2)): Promise<number> {
 
   if (!args.inputPath) {
     // eslint-disable-next-line no-console
-    console.error(`Missing input file path. See: tempybot parse --help`);
+    console.error(`Missing input file path. See: tempybot ${args.command} --help`);
     return 2;
   }
 
+  if (args.command === "render") {
+    return await runAgentRender(args.inputPath, {
+      vars: args.vars,
+      varsPath: args.varsPath,
+      locale: args.locale,
+      outPath: args.outPath,
+    });
+  }
+
+  if (args.command === "format") {
+    return await runAgentFormat(args.inputPath, { outPath: args.outPath, write: args.write });
+  }
+
+  if (args.watch) {
+    if (await isAgentBundleInput(path.resolve(process.cwd(), args.inputPath))) {
+      // eslint-disable-next-line no-console
+      console.error(`--watch does not support bundles. See: tempybot parse --help`);
+      return 2;
+    }
+    return await runAgentParseWatch(args.inputPath, { outPath: args.outPath, signal: opts.signal ?? interruptSignal() });
+  }
   return await runAgentParse(args.inputPath, { outPath: args.outPath });
 }
 
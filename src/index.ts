@@ -1,12 +1,168 @@
 export type {
   AgentAbilities,
+  AgentBundle,
+  AgentBundleMember,
+  AgentBundleResult,
   AgentCommand,
   AgentDefinition,
+  AgentDiagnostic,
+  AgentDiagnosticCode,
+  AgentDiagnosticSeverity,
   AgentInlineCommand,
+  AgentInputSchema,
+  AgentLocalization,
+  AgentRenderIssue,
+  AgentRenderIssueCode,
   AgentRequired,
+  AgentSourcePosition,
+  AgentSourceRange,
   AgentStatus,
+  AgentTemplateResult,
+  AgentToolCall,
+  AgentToolManifestEntry,
+  AgentToolParameter,
+  AgentToolPermission,
   McpServerConfig,
   McpServersConfig,
+  ParseAgentMdOptions,
 } from "./md-parser/types.js";
-export { agentTemplateToJson, parseAgentMd } from "./md-parser/parse-agent-md.js";
+export {
+  agentTemplateToJson,
+  agentTemplateToJsonWithDiagnostics,
+  parseAgentMd,
+  parseAgentMdWithDiagnostics,
+  parseAgentSourceWithDiagnostics,
+} from "./md-parser/parse-agent-md.js";
+export {
+  AGENT_BUNDLE_MANIFEST,
+  agentBundleId,
+  parseAgentBundle,
+  parseAgentBundleWithDiagnostics,
+  resolveAgentBundlePath,
+} from "./md-parser/bundle.js";
+export {
+  defaultTemplatesRoot,
+  expandIncludes,
+  mapIncludedRange,
+  type ExpandedTemplate,
+  type IncludeLineOrigin,
+} from "./md-parser/includes.js";
+export { agentLocaleChain, canonicalLocale, resolveAgentLocale } from "./md-parser/locales.js";
+export { agentJsonToTemplate } from "./md-parser/print-agent-md.js";
+export {
+  compileAgents,
+  formatCompileReport,
+  resolveAgentSources,
+  stableStringifyJson,
+  type AgentCompileEntry,
+  type AgentCompileManifestEntry,
+  type AgentCompileResult,
+  type CompileAgentsOptions,
+} from "./md-parser/compile-agents.js";
+export { diffJson, formatJsonChange, type JsonChange } from "./md-parser/diff.js";
+export {
+  AGENT_CHANGE_CATEGORIES,
+  diffAgentDefinitions,
+  diffTextLines,
+  formatAgentChanges,
+  summarizeAgentChanges,
+  type AgentChangeCategory,
+  type AgentDefinitionChange,
+} from "./md-parser/semantic-diff.js";
+export { loadAgentDefinition } from "./md-parser/definition-source.js";
+export {
+  AGENT_SCHEMA_VERSION,
+  AGENT_TEMPLATE_MIGRATIONS,
+  isAgentFrontmatterOutdated,
+  migrateAgentFrontmatter,
+  migrateAgentTemplate,
+  type AgentTemplateMigration,
+  type AgentTemplateMigrationChange,
+  type MigrateAgentTemplateOptions,
+  type MigratedAgentFrontmatter,
+  type MigratedAgentTemplate,
+} from "./md-parser/migrations.js";
+export {
+  migrateAgentFiles,
+  type AgentMigrateFileResult,
+  type MigrateAgentFilesOptions,
+} from "./md-parser/migrate-agents.js";
+export {
+  AGENT_REGISTRY_FIELDS,
+  AgentRegistry,
+  parseAgentRegistryWhere,
+  toAgentRegistryEntry,
+  type AgentRegistryEntry,
+  type AgentRegistryField,
+  type AgentRegistryLoadError,
+  type AgentRegistryOptions,
+  type AgentRegistryQuery,
+} from "./md-parser/registry.js";
+export {
+  agentTemplateDependencies,
+  watchAgentTemplates,
+  type WatchAgentTemplatesOptions,
+} from "./md-parser/watch.js";
+export {
+  loadTempybotConfig,
+  type LintSeverity,
+  type TempybotConfig,
+} from "./md-parser/config.js";
+export {
+  AGENT_LINT_RULES,
+  fixAgentDefinition,
+  fixAgentTemplate,
+  formatLintIssue,
+  lintAgentDefinition,
+  lintAgentFiles,
+  lintResultsToSarif,
+  resolveLintRules,
+  type AgentLintFileResult,
+  type AgentLintIssue,
+  type AgentLintRule,
+  type AgentLintRuleId,
+} from "./md-parser/lint.js";
+export { AgentTemplateError, formatAgentDiagnostic } from "./md-parser/diagnostics.js";
+export {
+  createAbilityPolicy,
+  matchAbilityScope,
+  splitShellCommand,
+  parseAbility,
+  type AbilityDecision,
+  type AbilityPolicy,
+  type AbilityScopeOptions,
+  type AbilityRule,
+} from "./md-parser/abilities.js";
+export {
+  findToolPermission,
+  formatToolPermission,
+  isToolCallAllowed,
+  parseAllowedTools,
+} from "./md-parser/allowed-tools.js";
+export { extractToolsManifest } from "./md-parser/tools-manifest.js";
+export {
+  AgentCommandError,
+  defaultShellExecutor,
+  expandCommandArguments,
+  invokeAgentCommand,
+  splitCommandArguments,
+  type InvokeAgentCommandOptions,
+  type ShellExecResult,
+  type ShellExecutor,
+} from "./md-parser/invoke-command.js";
+export {
+  AgentRenderError,
+  agentInputJsonSchema,
+  renderAgent,
+  type AgentRenderVariables,
+  type RenderAgentOptions,
+} from "./md-parser/render.js";
 
+export {
+  AGENT_DEFINITION_SCHEMA_ID,
+  AGENT_FRONTMATTER_SCHEMA_ID,
+  agentDefinitionJsonSchema,
+  agentDefinitionSchema,
+  agentFrontmatterJsonSchema,
+  agentFrontmatterSchema,
+} from "./md-parser/schema.js";
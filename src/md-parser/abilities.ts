@@ -0,0 +1,219 @@
+import path from "node:path";
+import type { AgentAbilities } from "./types.js";
+
+/** A parsed `abilities` entry: `fs`, `sh:git*`, `fs:read:/repo/**`. */
+export type AbilityRule = {
+  effect: "allow" | "deny";
+  /** The entry as written in `abilities.allow` / `abilities.deny`. */
+  entry: string;
+  ability: string;
+  /** Glob the request scope must match. Absent = any use of the ability. */
+  scope?: string;
+};
+
+export type AbilityDecision = {
+  allowed: boolean;
+  ability: string;
+  scope?: string;
+  /** The rule that decided; absent when nothing matched (denied by default). */
+  rule?: AbilityRule;
+  /** Human-readable explanation, e.g. `'sh:rm -rf /' is denied by 'sh:rm*' (abilities.deny).` */
+  reason: string;
+};
+
+export type AbilityScopeOptions = {
+  /**
+   * The `sh` scope is an argv joined with spaces that runs without a shell (e.g. `gh` via `spawnSync`): it is only
+   * matched as a glob, without the command-line checks (separators, substitutions).
+   */
+  argv?: boolean;
+};
+
+export type AbilityPolicy = {
+  readonly rules: readonly AbilityRule[];
+  can(ability: string, scope?: string, opts?: AbilityScopeOptions): boolean;
+  explain(ability: string, scope?: string, opts?: AbilityScopeOptions): AbilityDecision;
+  /** Whether some `allow` rule grants (part of) `ability` and it is not denied as a whole. */
+  allowsAny(ability: string): boolean;
+};
+
+/** Split an entry into ability and scope at the first `:` (`fs:read:/repo/**` -> `fs` + `read:/repo/**`). */
+export function parseAbility(entry: string): { ability: string; scope?: string } {
+  const idx = entry.indexOf(":");
+  if (idx === -1) return { ability: entry.trim().toLowerCase() };
+  return { ability: entry.slice(0, idx).trim().toLowerCase(), scope: entry.slice(idx + 1) };
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Abilities whose scopes are paths: `*` and `?` stop at `/`, `**` crosses it. */
+const PATH_SCOPED_ABILITIES = new Set(["fs"]);
+
+function globToRegExp(glob: string, pathLike: boolean): RegExp {
+  const star = pathLike ? "[^/]*" : ".*";
+  const one = pathLike ? "[^/]" : ".";
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i]!;
+    if (ch === "*" && glob[i + 1] === "*") {
+      // `/**/` also matches a single `/`.
+      if (glob[i + 2] === "/") {
+        re += "(?:.*/)?";
+        i += 2;
+      } else {
+        re += ".*";
+        i += 1;
+      }
+    } else if (ch === "*") {
+      re += star;
+    } else if (ch === "?") {
+      re += one;
+    } else {
+      re += escapeRegExp(ch);
+    }
+  }
+  // `s`: argv scopes may hold newlines (a multi-line `--body`).
+  return new RegExp(`^${re}$`, "s");
+}
+
+/** `fs` scopes with their path normalized (`read:/repo/../etc/passwd` -> `read:/etc/passwd`). */
+function normalizePathScope(scope: string): string {
+  const m = /^([a-z]+:)?(.+)$/i.exec(scope);
+  if (!m) return scope;
+  return `${m[1] ?? ""}${path.posix.normalize(m[2]!)}`;
+}
+
+/** Shell syntax that runs a command we cannot see as its own segment: `$(...)`, backticks, `<(...)` and `>(...)`. */
+const SHELL_SUBSTITUTION_RE = /\$\(|`|[<>]\(/;
+/**
+ * Redirections (`> file`, `>> ~/.bashrc`, `< /etc/shadow`) read or write files a command pattern says nothing about.
+ * Like command separators, `<` and `>` are found inside quotes too.
+ */
+const SHELL_REDIRECTION_RE = /[<>]/;
+
+/**
+ * The commands of a command line: split at `;`, `&&`, `||`, `|`, `&` and newlines. Quotes are not interpreted, so
+ * a separator inside quotes splits too; that only ever makes a check stricter.
+ */
+export function splitShellCommand(command: string): string[] {
+  return command
+    .split(/&&|\|\||[;|&\n\r]/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Whether a scope glob matches a request scope.
+ *
+ * `*` matches any run of characters (within one path segment for `fs`), `**` also crosses `/`, `?` is one
+ * character. `fs` paths are normalized first, so `..` cannot climb out of a pattern. For `sh`, the scope is one
+ * command (see `splitShellCommand()`) and a pattern also matches when it matches the program (`sh:git` allows
+ * `git status`); scopes with command separators, substitutions or redirections never match, unless the scope is an
+ * argv (`opts.argv`).
+ */
+export function matchAbilityScope(
+  ability: string,
+  pattern: string,
+  scope: string,
+  opts: AbilityScopeOptions = {},
+): boolean {
+  const pathLike = PATH_SCOPED_ABILITIES.has(ability);
+  const re = globToRegExp(pattern, pathLike);
+  if (pathLike) return re.test(normalizePathScope(scope));
+  const shellLine = ability === "sh" && !opts.argv;
+  if (
+    shellLine &&
+    (SHELL_SUBSTITUTION_RE.test(scope) || SHELL_REDIRECTION_RE.test(scope) || splitShellCommand(scope).length !== 1)
+  ) {
+    return false;
+  }
+  if (re.test(scope)) return true;
+  if (ability === "sh") {
+    const program = scope.trim().split(/\s+/)[0] ?? "";
+    return re.test(program);
+  }
+  return false;
+}
+
+function ruleMatches(
+  rule: AbilityRule,
+  ability: string,
+  scope: string | undefined,
+  opts: AbilityScopeOptions,
+): boolean {
+  if (rule.ability !== ability) return false;
+  if (rule.scope === undefined) return true;
+  return scope !== undefined && matchAbilityScope(ability, rule.scope, scope, opts);
+}
+
+function describeRequest(ability: string, scope: string | undefined): string {
+  return scope === undefined ? `'${ability}'` : `'${ability}:${scope}'`;
+}
+
+/**
+ * Build the policy for an agent's `abilities`.
+ *
+ * A request `(ability, scope)` is matched by unscoped entries of the same ability and by scoped entries whose
+ * glob matches `scope`. Deny wins: any matching `deny` entry rejects the request; otherwise it needs a matching
+ * `allow` entry. Without `abilities` everything is denied.
+ */
+export function createAbilityPolicy(abilities: AgentAbilities | undefined): AbilityPolicy {
+  const rules: AbilityRule[] = [];
+  for (const effect of ["deny", "allow"] as const) {
+    for (const entry of abilities?.[effect] ?? []) {
+      rules.push({ effect, entry, ...parseAbility(entry) });
+    }
+  }
+
+  const explain = (ability: string, scope?: string, opts: AbilityScopeOptions = {}): AbilityDecision => {
+    const abilityLc = ability.toLowerCase();
+    const request = describeRequest(abilityLc, scope);
+    const base = { ability: abilityLc, ...(scope !== undefined ? { scope } : {}) };
+    if (abilityLc === "sh" && scope !== undefined && !opts.argv) {
+      if (SHELL_SUBSTITUTION_RE.test(scope)) {
+        return { ...base, allowed: false, reason: `${request} is denied: command substitution cannot be checked.` };
+      }
+      if (SHELL_REDIRECTION_RE.test(scope)) {
+        return { ...base, allowed: false, reason: `${request} is denied: redirection cannot be checked.` };
+      }
+      // Every command of a command line must be allowed on its own; a denied one denies the whole line.
+      const commands = splitShellCommand(scope);
+      if (commands.length > 1) {
+        const decisions = commands.map((command) => explain("sh", command));
+        const denied = decisions.find((d) => !d.allowed);
+        if (denied) {
+          const rule = denied.rule ? { rule: denied.rule } : {};
+          return { ...base, allowed: false, ...rule, reason: `${request} is denied: ${denied.reason}` };
+        }
+        return { ...base, allowed: true, reason: `${request} is allowed: every command in it is allowed.` };
+      }
+    }
+    // Deny rules come first, so the first match decides.
+    const rule = rules.find((r) => ruleMatches(r, abilityLc, scope, opts));
+    if (!rule) {
+      return { ...base, allowed: false, reason: `${request} is not allowed: no entry in abilities.allow matches.` };
+    }
+    const allowed = rule.effect === "allow";
+    return {
+      ...base,
+      allowed,
+      rule,
+      reason: `${request} is ${allowed ? "allowed" : "denied"} by '${rule.entry}' (abilities.${rule.effect}).`,
+    };
+  };
+
+  return {
+    rules,
+    explain,
+    can: (ability, scope, opts) => explain(ability, scope, opts).allowed,
+    allowsAny: (ability) => {
+      const abilityLc = ability.toLowerCase();
+      return (
+        rules.some((r) => r.effect === "allow" && r.ability === abilityLc) &&
+        !rules.some((r) => r.effect === "deny" && r.ability === abilityLc && r.scope === undefined)
+      );
+    },
+  };
+}
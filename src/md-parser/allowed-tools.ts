@@ -0,0 +1,102 @@
+import type { AgentToolCall, AgentToolPermission } from "./types.js";
+
+const TOOL_NAME_RE = /^[A-Za-z][\w-]*$/;
+
+/** Split on commas that are not inside `(...)`. */
+function splitTopLevel(raw: string): string[] {
+  const out: string[] = [];
+  let depth = 0;
+  let cur = "";
+  for (const ch of raw) {
+    if (ch === "(") depth++;
+    if (ch === ")") depth--;
+    if (ch === "," && depth === 0) {
+      out.push(cur);
+      cur = "";
+      continue;
+    }
+    cur += ch;
+  }
+  out.push(cur);
+  return out;
+}
+
+function parseEntry(entry: string): AgentToolPermission {
+  const open = entry.indexOf("(");
+  if (open === -1) {
+    if (!TOOL_NAME_RE.test(entry)) throw new Error(`invalid tool name '${entry}'.`);
+    return { tool: entry };
+  }
+
+  const tool = entry.slice(0, open).trim();
+  if (!TOOL_NAME_RE.test(tool)) throw new Error(`invalid tool name '${tool}' in '${entry}'.`);
+  if (!entry.endsWith(")")) throw new Error(`'${entry}' must end with ')'.`);
+
+  const pattern = entry.slice(open + 1, -1).trim();
+  if (!pattern) throw new Error(`'${entry}' has an empty pattern (use '${tool}' to allow any use).`);
+  if (/[()]/.test(pattern)) throw new Error(`'${entry}' has nested parentheses.`);
+  const prefixWildcard = pattern.indexOf(":*");
+  if (prefixWildcard !== -1 && prefixWildcard !== pattern.length - 2) {
+    throw new Error(`'${entry}': ':*' is only allowed at the end of the pattern.`);
+  }
+  return { tool, pattern };
+}
+
+/**
+ * Parse an `allowed-tools` value (`"Bash(git add:*), Read"` or a list of entries).
+ * Throws an `Error` whose message is the detail for the caller's `Invalid ... 'allowed-tools': <detail>`.
+ */
+export function parseAllowedTools(raw: unknown): AgentToolPermission[] {
+  const items = typeof raw === "string" ? [raw] : Array.isArray(raw) ? raw : undefined;
+  if (!items || items.some((x) => typeof x !== "string")) {
+    throw new Error(`expected a string or string[].`);
+  }
+
+  const out: AgentToolPermission[] = [];
+  for (const item of items as string[]) {
+    for (const part of splitTopLevel(item)) {
+      const entry = part.trim();
+      if (!entry) throw new Error(`entries must be non-empty.`);
+      out.push(parseEntry(entry));
+    }
+  }
+  return out;
+}
+
+export function formatToolPermission(p: AgentToolPermission): string {
+  return p.pattern === undefined ? p.tool : `${p.tool}(${p.pattern})`;
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function matchesPattern(pattern: string, input: string): boolean {
+  if (pattern.endsWith(":*")) {
+    const prefix = pattern.slice(0, -2);
+    return input === prefix || input.startsWith(`${prefix} `);
+  }
+  if (pattern.includes("*")) {
+    const re = new RegExp(`^${pattern.split("*").map(escapeRegExp).join(".*")}$`);
+    return re.test(input);
+  }
+  return input === pattern;
+}
+
+/**
+ * First permission that allows `call`, if any.
+ */
+export function findToolPermission(
+  permissions: readonly AgentToolPermission[],
+  call: AgentToolCall,
+): AgentToolPermission | undefined {
+  const toolLc = call.tool.toLowerCase();
+  const input = call.input?.trim() ?? "";
+  return permissions.find(
+    (p) => p.tool.toLowerCase() === toolLc && (p.pattern === undefined || matchesPattern(p.pattern, input)),
+  );
+}
+
+export function isToolCallAllowed(permissions: readonly AgentToolPermission[], call: AgentToolCall): boolean {
+  return findToolPermission(permissions, call) !== undefined;
+}
@@ -0,0 +1,305 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import YAML from "yaml";
+import { z } from "zod";
+import { AgentTemplateError, formatFrontmatterPath } from "./diagnostics.js";
+import { parseAgentMdWithDiagnostics, parseAgentSourceWithDiagnostics } from "./parse-agent-md.js";
+import { primarySchemaIssue } from "./schema.js";
+import type {
+  AgentBundle,
+  AgentBundleMember,
+  AgentBundleResult,
+  AgentDiagnostic,
+  AgentSourceRange,
+  AgentTemplateResult,
+} from "./types.js";
+
+export const AGENT_BUNDLE_MANIFEST = "bundle.yaml";
+
+const bundleMetaFields = {
+  name: z.string({ error: "expected a string." }).trim().min(1, { error: "expected a non-empty string." }).optional(),
+  description: z.string({ error: "expected a string." }).optional(),
+};
+
+const bundleFrontmatterSchema = z.looseObject(bundleMetaFields, { error: "expected an object." });
+
+const bundleManifestSchema = z.looseObject(
+  {
+    ...bundleMetaFields,
+    agents: z
+      .array(z.string({ error: "expected a path." }).trim().min(1, { error: "expected a path." }), {
+        error: "expected a list of .agent.md paths.",
+      })
+      .min(1, { error: "expected at least one agent." }),
+  },
+  { error: "expected an object." },
+);
+
+/** `# Release Reviewer` -> `release-reviewer`. */
+export function agentBundleId(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function toPosixRelative(fromDir: string, file: string): string {
+  return path.relative(fromDir, file).split(path.sep).join("/");
+}
+
+function bundleIssue(
+  code: AgentDiagnostic["code"],
+  message: string,
+  file: string,
+  extra: Partial<AgentDiagnostic> = {},
+): AgentDiagnostic {
+  return { code, severity: "error", message, file, ...extra };
+}
+
+function schemaMessage(issues: Parameters<typeof primarySchemaIssue>[0]): { message: string; path?: string } {
+  const issue = primarySchemaIssue(issues);
+  const where = issue.path.length ? formatFrontmatterPath(issue.path) : undefined;
+  const message = `Invalid bundle${where ? ` '${where}'` : ""}: ${issue.message}`;
+  return { message, ...(where ? { path: where } : {}) };
+}
+
+type LoadedBundle = {
+  name: string;
+  description?: string;
+  /** `id` is derived from the title when the layout does not name agents. */
+  members: Array<{ result: AgentTemplateResult; source: string; id?: string }>;
+  diagnostics: AgentDiagnostic[];
+};
+
+type AgentSection = {
+  /** The agent as a standalone template (its frontmatter block moved to the top). */
+  raw: string;
+  /** 0-based line in the bundle for every line of `raw`. */
+  lineOrigins: number[];
+};
+
+function isFence(line: string): RegExpMatchArray | null {
+  return line.match(/^ {0,3}(`{3,}|~{3,})/);
+}
+
+/**
+ * Split a `*.agents.md` file into agent templates: every level-1 heading outside code fences starts an agent; a
+ * `---` YAML block right below the heading is that agent's frontmatter (like `### Command` blocks).
+ */
+function splitAgentSections(lines: string[], from: number): { sections: AgentSection[]; strayLine?: number } {
+  const starts: number[] = [];
+  let fence: string | undefined;
+  let strayLine: number | undefined;
+  for (let i = from; i < lines.length; i++) {
+    const line = lines[i]!;
+    const m = isFence(line);
+    if (m) {
+      if (!fence) fence = m[1]![0]!.repeat(3);
+      else if (line.trim().startsWith(fence)) fence = undefined;
+    }
+    if (fence) {
+      if (!starts.length && strayLine === undefined) strayLine = i;
+      continue;
+    }
+    if (/^# \S/.test(line)) starts.push(i);
+    else if (!starts.length && line.trim() && strayLine === undefined) strayLine = i;
+  }
+
+  const sections = starts.map((start, k) => {
+    const end = starts[k + 1] ?? lines.length;
+    const body = Array.from({ length: end - start }, (_, j) => start + j);
+    if (lines[start + 1]?.trim() === "---") {
+      const close = body.findIndex((n, j) => j > 1 && lines[n]!.trim() === "---");
+      if (close !== -1) {
+        // `# T`, `---`, yaml..., `---`, rest  ->  `---`, yaml..., `---`, `# T`, rest
+        const order = [...body.slice(1, close + 1), start, ...body.slice(close + 1)];
+        return { raw: order.map((n) => lines[n]).join("\n"), lineOrigins: order };
+      }
+    }
+    return { raw: body.map((n) => lines[n]).join("\n"), lineOrigins: body };
+  });
+  return { sections, strayLine };
+}
+
+function remapRange(range: AgentSourceRange, origins: number[], lineStarts: number[]): AgentSourceRange {
+  const map = (p: AgentSourceRange["start"]) => {
+    const line = (origins[p.line - 1] ?? origins[origins.length - 1]!) + 1;
+    return { line, column: p.column, offset: lineStarts[line - 1]! + p.column - 1 };
+  };
+  return { start: map(range.start), end: map(range.end) };
+}
+
+async function parseAgentsMd(file: string): Promise<LoadedBundle> {
+  const raw = await fs.readFile(file, "utf8");
+  const lines = raw.split("\n");
+  const lineStarts: number[] = [];
+  let offset = 0;
+  for (const l of lines) {
+    lineStarts.push(offset);
+    offset += l.length + 1;
+  }
+
+  const diagnostics: AgentDiagnostic[] = [];
+  let meta: z.output<typeof bundleFrontmatterSchema> = {};
+  let bodyStart = 0;
+  if (lines[0]?.trim() === "---") {
+    const close = lines.findIndex((l, i) => i > 0 && l.trim() === "---");
+    if (close !== -1) {
+      bodyStart = close + 1;
+      try {
+        const res = bundleFrontmatterSchema.safeParse(YAML.parse(lines.slice(1, close).join("\n")) ?? {});
+        if (res.success) meta = res.data;
+        else diagnostics.push(bundleIssue("BUNDLE.INVALID", schemaMessage(res.error.issues).message, file));
+      } catch (e) {
+        const message = `Invalid bundle frontmatter: ${e instanceof Error ? e.message : String(e)}`;
+        diagnostics.push(bundleIssue("BUNDLE.INVALID", message, file));
+      }
+    }
+  }
+
+  const { sections, strayLine } = splitAgentSections(lines, bodyStart);
+  if (strayLine !== undefined) {
+    const pos = { line: strayLine + 1, column: 1, offset: lineStarts[strayLine]! };
+    const message = "Content before the first agent: start every agent with a '# Title' heading.";
+    diagnostics.push(bundleIssue("BUNDLE.INVALID", message, file, { range: { start: pos, end: pos } }));
+  }
+  if (!sections.length) {
+    diagnostics.push(bundleIssue("BUNDLE.INVALID", "Bundle declares no agents ('# Title' headings).", file));
+  }
+
+  const members: LoadedBundle["members"] = [];
+  for (const section of sections) {
+    const result = await parseAgentSourceWithDiagnostics(section.raw, file);
+    const remapped = result.diagnostics.map((d) =>
+      d.file === file && d.range ? { ...d, range: remapRange(d.range, section.lineOrigins, lineStarts) } : d,
+    );
+    members.push({ result: { ...result, diagnostics: remapped }, source: path.basename(file) });
+  }
+  const name = meta.name ?? path.basename(file).replace(/\.agents\.md$/i, "");
+  return { name, description: meta.description, members, diagnostics };
+}
+
+async function parseBundleManifest(file: string): Promise<LoadedBundle> {
+  const dir = path.dirname(file);
+  const name = path.basename(dir);
+  let data: unknown;
+  try {
+    data = YAML.parse(await fs.readFile(file, "utf8")) ?? {};
+  } catch (e) {
+    const message = `Invalid ${AGENT_BUNDLE_MANIFEST}: ${e instanceof Error ? e.message : String(e)}`;
+    return { name, members: [], diagnostics: [bundleIssue("BUNDLE.INVALID", message, file)] };
+  }
+  const res = bundleManifestSchema.safeParse(data);
+  if (!res.success) {
+    const { message, path: where } = schemaMessage(res.error.issues);
+    const issue = bundleIssue("BUNDLE.INVALID", message, file, where ? { path: where } : {});
+    return { name, members: [], diagnostics: [issue] };
+  }
+
+  const diagnostics: AgentDiagnostic[] = [];
+  const members: LoadedBundle["members"] = [];
+  for (const [i, ref] of res.data.agents.entries()) {
+    const abs = path.resolve(dir, ref);
+    const exists = await fs.stat(abs).then(
+      (st) => st.isFile(),
+      () => false,
+    );
+    if (!exists) {
+      diagnostics.push(bundleIssue("BUNDLE.INVALID", `Agent file not found: ${ref}`, file, { path: `agents[${i}]` }));
+      continue;
+    }
+    members.push({
+      result: await parseAgentMdWithDiagnostics(abs),
+      source: toPosixRelative(dir, abs),
+      id: path.basename(abs).replace(/\.agent\.md$/i, "").replace(/\.md$/i, ""),
+    });
+  }
+  return { name: res.data.name ?? name, description: res.data.description, members, diagnostics };
+}
+
+/**
+ * Resolve a bundle location: a `*.agents.md` file, a `bundle.yaml` file or a directory containing one.
+ */
+export async function resolveAgentBundlePath(
+  bundlePath: string,
+): Promise<{ kind: "agents-md" | "manifest"; file: string }> {
+  const abs = path.resolve(bundlePath);
+  const st = await fs.stat(abs).catch(() => undefined);
+  const file = st?.isDirectory() ? path.join(abs, AGENT_BUNDLE_MANIFEST) : abs;
+  const exists = st?.isDirectory() ? await fs.stat(file).then(() => true, () => false) : st !== undefined;
+  if (exists && /\.agents\.md$/i.test(file)) return { kind: "agents-md", file };
+  if (exists && path.basename(file) === AGENT_BUNDLE_MANIFEST) return { kind: "manifest", file };
+  throw new Error(
+    `Not an agent bundle: ${bundlePath} (expected *.agents.md, ${AGENT_BUNDLE_MANIFEST} or a directory with one).`,
+  );
+}
+
+/**
+ * Load a multi-agent bundle and report every problem of every agent.
+ *
+ * Two layouts are supported:
+ * - `*.agents.md`: optional bundle frontmatter (`name`, `description`), then one agent per `# Title` section. An
+ *   agent's own frontmatter is a `---` block right below its heading.
+ * - a directory with `bundle.yaml`: `name`, `description` and `agents` (paths of `.agent.md` files).
+ *
+ * Besides the per-agent checks, agent ids must be unique and every command `delegate` must name another agent of
+ * the bundle. `bundle` is only returned when there are no errors.
+ */
+export async function parseAgentBundleWithDiagnostics(bundlePath: string): Promise<AgentBundleResult> {
+  const { kind, file } = await resolveAgentBundlePath(bundlePath);
+  const dir = path.dirname(file);
+  const loaded = kind === "agents-md" ? await parseAgentsMd(file) : await parseBundleManifest(file);
+
+  const diagnostics = [...loaded.diagnostics, ...loaded.members.flatMap((m) => m.result.diagnostics)];
+  const agents: AgentBundleMember[] = [];
+  const ids = new Map<string, AgentBundleMember>();
+  for (const m of loaded.members) {
+    if (!m.result.ok) continue;
+    const id = m.id ?? agentBundleId(m.result.definition.title);
+    const member = { id, source: m.source, definition: m.result.definition };
+    const taken = ids.get(id.toLowerCase());
+    if (taken) {
+      diagnostics.push(
+        bundleIssue(
+          "BUNDLE.DUPLICATE_AGENT",
+          `Agent id '${id}' is already used by '${taken.definition.title}' (${taken.source}).`,
+          path.resolve(dir, m.source),
+        ),
+      );
+      continue;
+    }
+    ids.set(id.toLowerCase(), member);
+    agents.push(member);
+  }
+
+  for (const agent of agents) {
+    agent.definition.commands.forEach((c, i) => {
+      if (typeof c === "string" || c.delegate === undefined || ids.has(c.delegate.toLowerCase())) return;
+      const known = agents.map((a) => a.id).join(", ");
+      const message =
+        `Command '${c.name}' of '${agent.id}' delegates to unknown agent '${c.delegate}'. ` +
+        `Agents in this bundle: ${known}.`;
+      diagnostics.push(
+        bundleIssue("BUNDLE.UNKNOWN_DELEGATE", message, path.resolve(dir, agent.source), {
+          path: `commands[${i}].delegate`,
+        }),
+      );
+    });
+  }
+
+  if (diagnostics.some((d) => d.severity === "error") || loaded.members.some((m) => !m.result.ok)) {
+    return { ok: false, diagnostics };
+  }
+  const bundle: AgentBundle = {
+    name: loaded.name,
+    ...(loaded.description !== undefined ? { description: loaded.description } : {}),
+    agents,
+  };
+  return { ok: true, bundle, diagnostics };
+}
+
+export async function parseAgentBundle(bundlePath: string): Promise<AgentBundle> {
+  const result = await parseAgentBundleWithDiagnostics(bundlePath);
+  if (!result.ok) throw new AgentTemplateError(result.diagnostics);
+  return result.bundle;
+}
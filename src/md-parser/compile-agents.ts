@@ -0,0 +1,228 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import fg from "fast-glob";
+import { formatAgentDiagnostic } from "./diagnostics.js";
+import { parseAgentMdWithDiagnostics } from "./parse-agent-md.js";
+import type { AgentDefinition, AgentDiagnostic, AgentStatus } from "./types.js";
+
+type StableJson = null | boolean | number | string | StableJson[] | { [k: string]: StableJson };
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function toStableJson(v: unknown): StableJson {
+  if (v === null) return null;
+  if (typeof v === "string" || typeof v === "number" || typeof v === "boolean") return v;
+  if (Array.isArray(v)) return v.map((x) => toStableJson(x));
+  if (isPlainObject(v)) {
+    const out: Record<string, StableJson> = {};
+    for (const k of Object.keys(v).sort((a, b) => a.localeCompare(b))) {
+      if (v[k] === undefined) continue;
+      out[k] = toStableJson(v[k]);
+    }
+    return out;
+  }
+  // AgentDefinition should be fully JSON-serializable; fail fast if not.
+  throw new Error(`Non-JSON value encountered while serializing: ${String(v)}`);
+}
+
+/**
+ * JSON with object keys sorted at every level (2-space indent, trailing newline), so compiled output
+ * only changes when the definition does.
+ */
+export function stableStringifyJson(v: unknown): string {
+  return JSON.stringify(toStableJson(v), null, 2) + "\n";
+}
+
+export type AgentCompileEntry = {
+  /** Source template, POSIX path relative to `cwd`. */
+  source: string;
+  ok: boolean;
+  /** Compiled JSON, POSIX path relative to `cwd` (compiled templates only). */
+  output?: string;
+  /** sha256 (hex) of the source template. */
+  sourceSha256: string;
+  /** sha256 (hex) of the compiled JSON. */
+  outputSha256?: string;
+  title?: string;
+  status?: AgentStatus;
+  /** Every diagnostic of the template (and its `extends` chain), `file` relative to `cwd`. */
+  diagnostics: AgentDiagnostic[];
+};
+
+export type AgentCompileManifestEntry = Required<
+  Pick<AgentCompileEntry, "source" | "output" | "sourceSha256" | "outputSha256" | "title" | "status">
+>;
+
+export type AgentCompileResult = {
+  entries: AgentCompileEntry[];
+  /** Compiled templates, sorted by source (`manifest.json`). */
+  manifest: AgentCompileManifestEntry[];
+  errors: number;
+  warnings: number;
+};
+
+export type CompileAgentsOptions = {
+  /** Directory for the compiled JSON, `manifest.json`, `report.md` and `report.json`. */
+  outDir: string;
+  /** Base for relative inputs and for the paths in the manifest/report. Default: `process.cwd()`. */
+  cwd?: string;
+};
+
+function toPosixRelative(fromDir: string, file: string): string {
+  return path.relative(fromDir, file).split(path.sep).join("/");
+}
+
+function sha256(s: string): string {
+  return createHash("sha256").update(s).digest("hex");
+}
+
+/**
+ * Resolve compile inputs to `*.agent.md` files: directories are searched recursively, glob patterns are
+ * expanded, plain paths must exist. Returns sorted, de-duplicated absolute paths.
+ */
+export async function resolveAgentSources(inputs: string[], cwd = process.cwd()): Promise<string[]> {
+  const out = new Set<string>();
+  for (const input of inputs) {
+    if (fg.isDynamicPattern(input)) {
+      const matches = await fg(input, { cwd, absolute: true, onlyFiles: true, ignore: ["**/node_modules/**"] });
+      for (const m of matches) if (m.endsWith(".agent.md")) out.add(path.normalize(m));
+      continue;
+    }
+
+    const abs = path.resolve(cwd, input);
+    const st = await fs.stat(abs).catch(() => undefined);
+    if (!st) throw new Error(`Input not found: ${input}`);
+    if (st.isFile()) {
+      out.add(abs);
+      continue;
+    }
+    const matches = await fg("**/*.agent.md", { cwd: abs, absolute: true, ignore: ["**/node_modules/**"] });
+    for (const m of matches) out.add(path.normalize(m));
+  }
+  return [...out].sort((a, b) => a.localeCompare(b));
+}
+
+/** Deepest directory containing every file; compiled outputs mirror the layout below it. */
+export function commonSourceDir(files: string[]): string {
+  let dir = path.dirname(files[0]!);
+  for (const f of files.slice(1)) {
+    while (path.relative(dir, f).startsWith("..")) dir = path.dirname(dir);
+  }
+  return dir;
+}
+
+/**
+ * Compile one template to `<outDir>/<path relative to baseDir>.json`. The definition is returned alongside the
+ * entry for callers that compare compiles (`--watch`).
+ */
+export async function compileAgentSource(
+  file: string,
+  opts: { outDir: string; baseDir: string; cwd: string },
+): Promise<{ entry: AgentCompileEntry; definition?: AgentDefinition }> {
+  const source = toPosixRelative(opts.cwd, file);
+  const raw = await fs.readFile(file, "utf8");
+  const result = await parseAgentMdWithDiagnostics(file);
+  const diagnostics = result.diagnostics.map((d) => ({ ...d, file: toPosixRelative(opts.cwd, d.file ?? file) }));
+  const entry: AgentCompileEntry = { source, ok: result.ok, sourceSha256: sha256(raw), diagnostics };
+  if (!result.ok) return { entry };
+
+  const outPath = path.join(opts.outDir, toPosixRelative(opts.baseDir, file).replace(/\.agent\.md$/i, ".json"));
+  const json = stableStringifyJson(result.definition);
+  await fs.mkdir(path.dirname(outPath), { recursive: true });
+  await fs.writeFile(outPath, json, "utf8");
+  entry.output = toPosixRelative(opts.cwd, outPath);
+  entry.outputSha256 = sha256(json);
+  entry.title = result.definition.title;
+  entry.status = result.definition.status;
+  return { entry, definition: result.definition };
+}
+
+/** Summarize compiled entries and (re)write `manifest.json`, `report.md` and `report.json` in `outDir`. */
+export async function writeCompileArtifacts(outDir: string, entries: AgentCompileEntry[]): Promise<AgentCompileResult> {
+  const manifest = entries
+    .filter((e) => e.ok)
+    .map(({ source, output, sourceSha256, outputSha256, title, status }) => ({
+      source,
+      output: output!,
+      sourceSha256,
+      outputSha256: outputSha256!,
+      title: title!,
+      status: status!,
+    }));
+  const all = entries.flatMap((e) => e.diagnostics);
+  const result: AgentCompileResult = {
+    entries,
+    manifest,
+    errors: all.filter((d) => d.severity === "error").length,
+    warnings: all.filter((d) => d.severity === "warn").length,
+  };
+
+  await fs.mkdir(outDir, { recursive: true });
+  await fs.writeFile(path.join(outDir, "manifest.json"), stableStringifyJson(manifest), "utf8");
+  await fs.writeFile(path.join(outDir, "report.md"), formatCompileReport(result), "utf8");
+  await fs.writeFile(
+    path.join(outDir, "report.json"),
+    stableStringifyJson({
+      sources: entries.length,
+      compiled: manifest.length,
+      failed: entries.length - manifest.length,
+      errors: result.errors,
+      warnings: result.warnings,
+      files: entries
+        .filter((e) => e.diagnostics.length)
+        .map(({ source, ok, diagnostics }) => ({ source, ok, diagnostics })),
+    }),
+    "utf8",
+  );
+  return result;
+}
+
+/**
+ * Compile every template matched by `inputs` into `<outDir>/<path>.json` (paths relative to the sources'
+ * common directory) and write `manifest.json` (hashes of sources and outputs), `report.md` and `report.json`.
+ *
+ * Templates that fail to parse are reported, not thrown; callers decide what fails the run.
+ */
+export async function compileAgents(inputs: string[], opts: CompileAgentsOptions): Promise<AgentCompileResult> {
+  const cwd = opts.cwd ?? process.cwd();
+  const outDir = path.resolve(cwd, opts.outDir);
+  const files = await resolveAgentSources(inputs, cwd);
+  if (!files.length) throw new Error(`No *.agent.md files matched: ${inputs.join(", ")}`);
+  const baseDir = commonSourceDir(files);
+
+  const entries: AgentCompileEntry[] = [];
+  for (const file of files) entries.push((await compileAgentSource(file, { outDir, baseDir, cwd })).entry);
+  return await writeCompileArtifacts(outDir, entries);
+}
+
+/** Markdown summary of a compile run: counts, then every diagnostic grouped by source. */
+export function formatCompileReport(result: AgentCompileResult): string {
+  const failed = result.entries.filter((e) => !e.ok).length;
+  const lines = [
+    "# Agent compilation report",
+    "",
+    `- Sources: ${result.entries.length}`,
+    `- Compiled: ${result.entries.length - failed}`,
+    `- Failed: ${failed}`,
+    `- Errors: ${result.errors}`,
+    `- Warnings: ${result.warnings}`,
+    "",
+  ];
+
+  const withProblems = result.entries.filter((e) => e.diagnostics.length);
+  if (!withProblems.length) {
+    lines.push("No problems found.", "");
+    return lines.join("\n");
+  }
+
+  lines.push("## Problems", "");
+  for (const e of withProblems) {
+    lines.push(`### ${e.source}${e.ok ? "" : " (failed)"}`, "");
+    for (const d of e.diagnostics) lines.push(`- \`${formatAgentDiagnostic(d)}\``);
+    lines.push("");
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,83 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import YAML from "yaml";
+import { z } from "zod";
+import { formatFrontmatterPath } from "./diagnostics.js";
+import { primarySchemaIssue } from "./schema.js";
+
+/** Looked up in the working directory, in this order. YAML (and therefore JSON) content. */
+export const TEMPYBOT_CONFIG_FILES = [
+  "tempybot.config",
+  "tempybot.config.json",
+  "tempybot.config.yaml",
+  "tempybot.config.yml",
+] as const;
+
+export const LINT_SEVERITIES = ["off", "warn", "error"] as const;
+
+export type LintSeverity = (typeof LINT_SEVERITIES)[number];
+
+export const tempybotConfigSchema = z.looseObject(
+  {
+    lint: z
+      .looseObject(
+        {
+          rules: z
+            .record(
+              z.string(),
+              z.enum(LINT_SEVERITIES, {
+                error: (iss) => `expected off | warn | error (got '${String(iss.input)}').`,
+              }),
+              { error: "expected an object of rule severities." },
+            )
+            .optional(),
+        },
+        { error: "expected an object." },
+      )
+      .optional(),
+  },
+  { error: "expected an object." },
+);
+
+export type TempybotConfig = z.output<typeof tempybotConfigSchema>;
+
+async function readIfExists(file: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(file, "utf8");
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw e;
+  }
+}
+
+/**
+ * Load `tempybot.config` from `cwd` (or the explicit `configPath`). A missing default config yields `{}`;
+ * a missing explicit one, unparsable YAML or an invalid shape throws `Invalid config '<key.path>' (<file>): ...`.
+ */
+export async function loadTempybotConfig(
+  cwd = process.cwd(),
+  configPath?: string,
+): Promise<{ config: TempybotConfig; file?: string }> {
+  const candidates = configPath ? [path.resolve(cwd, configPath)] : TEMPYBOT_CONFIG_FILES.map((f) => path.join(cwd, f));
+  for (const file of candidates) {
+    const raw = await readIfExists(file);
+    if (raw === undefined) continue;
+    const name = path.relative(cwd, file) || file;
+
+    let data: unknown;
+    try {
+      data = YAML.parse(raw) ?? {};
+    } catch (e) {
+      throw new Error(`Invalid config (${name}): ${e instanceof Error ? e.message : String(e)}`);
+    }
+    const res = tempybotConfigSchema.safeParse(data);
+    if (!res.success) {
+      const issue = primarySchemaIssue(res.error.issues);
+      const where = issue.path.length ? ` '${formatFrontmatterPath(issue.path)}'` : "";
+      throw new Error(`Invalid config${where} (${name}): ${issue.message}`);
+    }
+    return { config: res.data, file };
+  }
+  if (configPath) throw new Error(`Config file not found: ${configPath}`);
+  return { config: {} };
+}
@@ -0,0 +1,142 @@
+import { execFile } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+import matter from "gray-matter";
+import { AgentTemplateError, formatFrontmatterPath } from "./diagnostics.js";
+import { resolveExtendsPath } from "./extends.js";
+import { findIncludeDirectives } from "./includes.js";
+import { parseAgentMdWithDiagnostics } from "./parse-agent-md.js";
+import { agentDefinitionSchema, primarySchemaIssue } from "./schema.js";
+import type { AgentDefinition } from "./types.js";
+
+const execFileAsync = promisify(execFile);
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync("git", args, { cwd, maxBuffer: 64 * 1024 * 1024 });
+  return stdout;
+}
+
+async function isFile(file: string): Promise<boolean> {
+  return (await fs.stat(file).catch(() => undefined))?.isFile() ?? false;
+}
+
+function parseDefinitionJson(raw: string, name: string): AgentDefinition {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (e) {
+    throw new Error(`Invalid JSON in '${name}': ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const res = agentDefinitionSchema.safeParse(data);
+  if (!res.success) {
+    const issue = primarySchemaIssue(res.error.issues);
+    const where = issue.path.length ? ` '${formatFrontmatterPath(issue.path)}'` : "";
+    throw new Error(`Invalid AgentDefinition${where} in '${name}': ${issue.message}`);
+  }
+  // The schema strips fields it does not describe (`tools`, `inheritance`); keep the document as written.
+  return data as AgentDefinition;
+}
+
+async function parseTemplate(file: string, name: string, templatesRoot?: string): Promise<AgentDefinition> {
+  const result = await parseAgentMdWithDiagnostics(file, templatesRoot ? { templatesRoot } : {});
+  if (!result.ok) {
+    throw new AgentTemplateError(result.diagnostics.map((d) => ({ ...d, file: name })));
+  }
+  return result.definition;
+}
+
+/**
+ * Check out `<ref>:<file>`, its `extends` chain and included files into a temporary mirror of the repository, so
+ * the template parses exactly as it did at that revision.
+ */
+async function loadFromGit(ref: string, file: string, cwd: string): Promise<AgentDefinition> {
+  const top = (await git(cwd, ["rev-parse", "--show-toplevel"])).trim();
+  const tmp = await fs.mkdtemp(path.join(os.tmpdir(), "tempybot-diff-"));
+  try {
+    const entry = path.join(tmp, path.relative(top, path.resolve(await fs.realpath(cwd), file)));
+    let current: string | undefined = entry;
+    const seen = new Set<string>();
+    while (current && !seen.has(current)) {
+      seen.add(current);
+      const repoPath = path.relative(tmp, current).split(path.sep).join("/");
+      if (repoPath.startsWith("..")) break;
+      const raw = await git(top, ["show", `${ref}:${repoPath}`]).catch(() => undefined);
+      if (raw === undefined) {
+        if (current === entry) throw new Error(`'${file}' does not exist at '${ref}'.`);
+        break; // The parser reports the missing base template.
+      }
+      await fs.mkdir(path.dirname(current), { recursive: true });
+      await fs.writeFile(current, raw, "utf8");
+
+      if (/\.json$/i.test(current)) return parseDefinitionJson(raw, `${ref}:${file}`);
+      await mirrorIncludes(top, tmp, ref, raw, current, true);
+      let ext: unknown;
+      try {
+        ext = matter(raw).data.extends;
+      } catch {
+        ext = undefined;
+      }
+      current = typeof ext === "string" && ext.trim() ? safeResolveExtends(ext.trim(), current) : undefined;
+    }
+    return await parseTemplate(entry, `${ref}:${file}`, tmp);
+  } finally {
+    await fs.rm(tmp, { recursive: true, force: true });
+  }
+}
+
+/** Copy the files `raw` (at `file` in the mirror) includes, recursively; missing ones are left to the parser. */
+async function mirrorIncludes(
+  top: string,
+  tmp: string,
+  ref: string,
+  raw: string,
+  file: string,
+  isTemplate: boolean,
+): Promise<void> {
+  for (const target of findIncludeDirectives(raw.split("\n"), isTemplate).values()) {
+    const abs = path.resolve(path.dirname(file), target);
+    const repoPath = path.relative(tmp, abs).split(path.sep).join("/");
+    if (repoPath.startsWith("..") || (await isFile(abs))) continue;
+    const content = await git(top, ["show", `${ref}:${repoPath}`]).catch(() => undefined);
+    if (content === undefined) continue;
+    await fs.mkdir(path.dirname(abs), { recursive: true });
+    await fs.writeFile(abs, content, "utf8");
+    await mirrorIncludes(top, tmp, ref, content, abs, false);
+  }
+}
+
+function safeResolveExtends(ref: string, from: string): string | undefined {
+  try {
+    return resolveExtendsPath(ref, from);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Load an `AgentDefinition` from a `.agent.md` template, a compiled `.json` file or a git revision
+ * (`<ref>:<path>`, e.g. `HEAD~1:agents/reviewer.agent.md`; the path is relative to `cwd`).
+ *
+ * Templates that fail to parse throw `AgentTemplateError`; other problems throw `Error`.
+ */
+export async function loadAgentDefinition(spec: string, cwd = process.cwd()): Promise<AgentDefinition> {
+  const abs = path.resolve(cwd, spec);
+  if (await isFile(abs)) {
+    if (/\.json$/i.test(abs)) return parseDefinitionJson(await fs.readFile(abs, "utf8"), spec);
+    return await parseTemplate(abs, spec);
+  }
+
+  const sep = spec.indexOf(":");
+  if (sep > 0) {
+    const ref = spec.slice(0, sep);
+    const file = spec.slice(sep + 1);
+    const valid = await git(cwd, ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`]).then(
+      () => true,
+      () => false,
+    );
+    if (valid && file) return await loadFromGit(ref, file, cwd);
+  }
+  throw new Error(`Input not found: ${spec}`);
+}
@@ -0,0 +1,233 @@
+import YAML, { YAMLError, isMap, isScalar, isSeq, type Node as YamlNode } from "yaml";
+import type {
+  AgentDiagnostic,
+  AgentDiagnosticCode,
+  AgentDiagnosticSeverity,
+  AgentSourcePosition,
+  AgentSourceRange,
+} from "./types.js";
+
+/**
+ * Frontmatter key path. Strings are object keys (matched case-insensitively), numbers are array indexes.
+ */
+export type FrontmatterPath = Array<string | number>;
+
+export function formatFrontmatterPath(path: FrontmatterPath): string {
+  let out = "";
+  for (const seg of path) {
+    if (typeof seg === "number") out += `[${seg}]`;
+    else out += out ? `.${seg}` : seg;
+  }
+  return out;
+}
+
+/**
+ * A single loader problem. Thrown by validators and converted into an `AgentDiagnostic` by the collector.
+ *
+ * Location is either a frontmatter key path or a character span in the Markdown body
+ * (the content after the frontmatter block).
+ */
+export class AgentTemplateIssue extends Error {
+  public readonly code: AgentDiagnosticCode;
+  public readonly severity: AgentDiagnosticSeverity;
+  public readonly path?: FrontmatterPath;
+  public readonly contentSpan?: { start: number; end: number };
+
+  public constructor(
+    code: AgentDiagnosticCode,
+    message: string,
+    loc?: { path?: FrontmatterPath; contentSpan?: { start: number; end: number }; severity?: AgentDiagnosticSeverity },
+  ) {
+    super(message);
+    this.name = "AgentTemplateIssue";
+    this.code = code;
+    this.severity = loc?.severity ?? "error";
+    this.path = loc?.path;
+    this.contentSpan = loc?.contentSpan;
+  }
+}
+
+export function invalidFrontmatter(path: FrontmatterPath, detail: string): AgentTemplateIssue {
+  return new AgentTemplateIssue("FRONTMATTER.INVALID", `Invalid frontmatter '${formatFrontmatterPath(path)}': ${detail}`, {
+    path,
+  });
+}
+
+/**
+ * Thrown by the strict loaders (`agentTemplateToJson`, `parseAgentMd`).
+ * The message is the first error; `diagnostics` carries every problem found.
+ */
+export class AgentTemplateError extends Error {
+  public readonly diagnostics: AgentDiagnostic[];
+
+  public constructor(diagnostics: AgentDiagnostic[]) {
+    const first = diagnostics.find((d) => d.severity === "error") ?? diagnostics[0];
+    super(first?.message ?? "Invalid agent template.");
+    this.name = "AgentTemplateError";
+    this.diagnostics = diagnostics;
+  }
+}
+
+export function formatAgentDiagnostic(d: AgentDiagnostic): string {
+  const loc = d.range ? `${d.range.start.line}:${d.range.start.column}` : "";
+  const where = [d.file, loc].filter(Boolean).join(":");
+  return `${where ? `${where}: ` : ""}${d.severity} ${d.code}: ${d.message}`;
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+/**
+ * Maps raw template offsets to line/column positions and resolves frontmatter key paths
+ * to YAML node ranges.
+ */
+export class TemplateSourceMap {
+  private readonly raw: string;
+  private readonly lineStarts: number[] = [0];
+  private matterOffset: number | undefined;
+  private matterDoc: YAML.Document.Parsed | undefined;
+  private matterText = "";
+  private contentOffset = 0;
+
+  public constructor(raw: string) {
+    this.raw = raw;
+    for (let i = 0; i < raw.length; i++) {
+      if (raw[i] === "\n") this.lineStarts.push(i + 1);
+    }
+    // Frontmatter text (as handed to the YAML engine) starts right after the opening `---`.
+    const bom = raw.charCodeAt(0) === 0xfeff ? 1 : 0;
+    if (raw.startsWith("---", bom)) this.matterOffset = bom + 3;
+  }
+
+  /**
+   * Attach the gray-matter split so frontmatter paths and Markdown spans can be resolved.
+   */
+  public attach(parts: { matter: string; content: string }): void {
+    if (parts.matter) {
+      const idx = this.raw.indexOf(parts.matter);
+      if (idx !== -1) this.matterOffset = idx;
+      this.matterText = parts.matter;
+    }
+    this.contentOffset = this.raw.endsWith(parts.content) ? this.raw.length - parts.content.length : 0;
+  }
+
+  public position(offset: number): AgentSourcePosition {
+    const o = Math.max(0, Math.min(this.raw.length, offset));
+    let lo = 0;
+    let hi = this.lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (this.lineStarts[mid]! <= o) lo = mid;
+      else hi = mid - 1;
+    }
+    return { line: lo + 1, column: o - this.lineStarts[lo]! + 1, offset: o };
+  }
+
+  public range(start: number, end: number): AgentSourceRange {
+    return { start: this.position(start), end: this.position(Math.max(start, end)) };
+  }
+
+  public contentRange(span: { start: number; end: number }): AgentSourceRange {
+    return this.range(this.contentOffset + span.start, this.contentOffset + span.end);
+  }
+
+  /** Range of a position reported relative to the frontmatter text (e.g. YAML parse errors). */
+  public matterRange(start: number, end: number): AgentSourceRange | undefined {
+    if (this.matterOffset === undefined) return undefined;
+    return this.range(this.matterOffset + start, this.matterOffset + end);
+  }
+
+  /**
+   * Range of the YAML key (or array item) addressed by `path`. Falls back to the deepest
+   * node that could be resolved, so a diagnostic always points inside the frontmatter.
+   */
+  public frontmatterRange(path: FrontmatterPath): AgentSourceRange | undefined {
+    if (this.matterOffset === undefined || !this.matterText) return undefined;
+    if (!this.matterDoc) {
+      this.matterDoc = YAML.parseDocument(this.matterText);
+    }
+
+    let node: unknown = this.matterDoc.contents;
+    let found: YamlNode | undefined;
+    for (const seg of path) {
+      if (typeof seg === "number") {
+        if (!isSeq(node)) break;
+        const item = node.items[seg];
+        if (!item) break;
+        found = item as YamlNode;
+        node = item;
+        continue;
+      }
+      if (!isMap(node)) break;
+      const segLc = seg.toLowerCase();
+      const pair = node.items.find((p) => isScalar(p.key) && String(p.key.value).toLowerCase() === segLc);
+      if (!pair) break;
+      found = pair.key as YamlNode;
+      node = pair.value;
+    }
+
+    const r = found?.range;
+    if (!r) return undefined;
+    return this.matterRange(r[0], r[1]);
+  }
+}
+
+/**
+ * Accumulates diagnostics instead of failing on the first problem.
+ */
+export class AgentDiagnosticsCollector {
+  public readonly diagnostics: AgentDiagnostic[] = [];
+  public readonly sourceMap: TemplateSourceMap;
+
+  public constructor(raw: string) {
+    this.sourceMap = new TemplateSourceMap(raw);
+  }
+
+  public get hasErrors(): boolean {
+    return this.diagnostics.some((d) => d.severity === "error");
+  }
+
+  public report(e: unknown): void {
+    if (e instanceof AgentTemplateIssue) {
+      const range = e.path
+        ? this.sourceMap.frontmatterRange(e.path)
+        : e.contentSpan
+          ? this.sourceMap.contentRange(e.contentSpan)
+          : undefined;
+      this.diagnostics.push({
+        code: e.code,
+        severity: e.severity,
+        message: e.message,
+        ...(range ? { range } : {}),
+        ...(e.path ? { path: formatFrontmatterPath(e.path) } : {}),
+      });
+      return;
+    }
+
+    // YAML engine errors carry offsets relative to the frontmatter text.
+    const pos = (e as { pos?: unknown } | null)?.pos;
+    const range =
+      Array.isArray(pos) && typeof pos[0] === "number" && typeof pos[1] === "number"
+        ? this.sourceMap.matterRange(pos[0], pos[1])
+        : undefined;
+    this.diagnostics.push({
+      code: e instanceof YAMLError ? "FRONTMATTER.YAML_SYNTAX" : "FRONTMATTER.INVALID",
+      severity: "error",
+      message: errorMessage(e),
+      ...(range ? { range } : {}),
+    });
+  }
+
+  /**
+   * Run a validation step; on failure record the problem and return `undefined` so loading can continue.
+   */
+  public attempt<T>(fn: () => T): T | undefined {
+    try {
+      return fn();
+    } catch (e) {
+      this.report(e);
+      return undefined;
+    }
+  }
+}
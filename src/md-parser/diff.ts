@@ -0,0 +1,64 @@
+/**
+ * A single difference between two JSON values (e.g. two compiled `AgentDefinition`s).
+ *
+ * `path` uses the frontmatter path notation (`commands[1].body`, `abilities.allow[0]`); the empty path
+ * is the root value.
+ */
+export type JsonChange =
+  | { kind: "added"; path: string; after: unknown }
+  | { kind: "removed"; path: string; before: unknown }
+  | { kind: "changed"; path: string; before: unknown; after: unknown };
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function childPath(parent: string, key: string | number): string {
+  if (typeof key === "number") return `${parent}[${key}]`;
+  return parent ? `${parent}.${key}` : key;
+}
+
+function diffInto(out: JsonChange[], path: string, before: unknown, after: unknown): void {
+  if (before === after) return;
+  if (before === undefined) {
+    out.push({ kind: "added", path, after });
+    return;
+  }
+  if (after === undefined) {
+    out.push({ kind: "removed", path, before });
+    return;
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    for (let i = 0; i < Math.max(before.length, after.length); i++) diffInto(out, childPath(path, i), before[i], after[i]);
+    return;
+  }
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...Object.keys(before), ...Object.keys(after).filter((k) => !(k in before))];
+    for (const k of keys) diffInto(out, childPath(path, k), before[k], after[k]);
+    return;
+  }
+  out.push({ kind: "changed", path, before, after });
+}
+
+/**
+ * Structural diff: objects by key, arrays by index, everything else by value. Object keys keep the
+ * order of `before` (new keys last).
+ */
+export function diffJson(before: unknown, after: unknown): JsonChange[] {
+  const out: JsonChange[] = [];
+  diffInto(out, "", before, after);
+  return out;
+}
+
+function preview(v: unknown, max = 60): string {
+  const s = JSON.stringify(v) ?? String(v);
+  return s.length > max ? `${s.slice(0, max - 1)}…` : s;
+}
+
+/** One line per change: `+ path: value`, `- path: value`, `~ path: before -> after` (values shortened). */
+export function formatJsonChange(c: JsonChange): string {
+  const path = c.path || "(root)";
+  if (c.kind === "added") return `+ ${path}: ${preview(c.after)}`;
+  if (c.kind === "removed") return `- ${path}: ${preview(c.before)}`;
+  return `~ ${path}: ${preview(c.before)} -> ${preview(c.after)}`;
+}
@@ -0,0 +1,137 @@
+import path from "node:path";
+import type { AgentAbilities, AgentCommand, AgentDefinition, AgentInheritance, AgentLocalization } from "./types.js";
+
+/**
+ * Fields explicitly provided by a single template (no defaults / fallbacks applied).
+ */
+export type AgentDefinitionLayer = Partial<Omit<AgentDefinition, "inheritance" | "includes">>;
+
+type LayerKey = keyof AgentDefinitionLayer;
+
+/**
+ * Resolve an `extends:` reference relative to the template that declares it.
+ *
+ * - Local paths (`./`, `../`, `/`) resolve against the template directory.
+ * - Bare names refer to another agent in the same directory (`base` -> `base.agent.md`).
+ */
+export function resolveExtendsPath(ref: string, fromFile: string): string {
+  const dir = path.dirname(fromFile);
+  if (ref.startsWith("./") || ref.startsWith("../") || path.isAbsolute(ref)) {
+    return path.resolve(dir, ref);
+  }
+  if (/[\\/]/.test(ref)) {
+    throw new Error(`Invalid 'extends' reference '${ref}': use './path' for paths or a bare agent name.`);
+  }
+  const fileName = /\.agent\.md$/i.test(ref) ? ref : `${ref}.agent.md`;
+  return path.join(dir, fileName);
+}
+
+function mergeCommands(base: AgentCommand[], next: AgentCommand[]): AgentCommand[] {
+  const out = [...base];
+  for (const c of next) {
+    if (typeof c === "string") {
+      if (!out.includes(c)) out.push(c);
+      continue;
+    }
+    const nameLc = c.name.toLowerCase();
+    const idx = out.findIndex((x) => typeof x !== "string" && x.name.toLowerCase() === nameLc);
+    if (idx === -1) out.push(c);
+    else out[idx] = c;
+  }
+  return out;
+}
+
+/** Per locale: `rules` are appended base -> child like the unlocalized rules, other fields are overridden. */
+function mergeLocales(
+  base: Record<string, AgentLocalization>,
+  next: Record<string, AgentLocalization>,
+): Record<string, AgentLocalization> {
+  const out = { ...base };
+  for (const [tag, l] of Object.entries(next)) {
+    const prev = out[tag];
+    const rules = prev?.rules && l.rules ? `${prev.rules}\n\n${l.rules}` : (l.rules ?? prev?.rules);
+    out[tag] = { ...prev, ...l, ...(rules !== undefined ? { rules } : {}) };
+  }
+  return out;
+}
+
+function mergeAbilities(base: AgentAbilities, next: AgentAbilities): AgentAbilities {
+  const allow = new Set(base.allow ?? []);
+  const deny = new Set(base.deny ?? []);
+  for (const a of next.allow ?? []) {
+    allow.add(a);
+    deny.delete(a);
+  }
+  for (const d of next.deny ?? []) {
+    deny.add(d);
+    allow.delete(d);
+  }
+  return {
+    ...(allow.size ? { allow: Array.from(allow) } : {}),
+    ...(deny.size ? { deny: Array.from(deny) } : {}),
+  };
+}
+
+/**
+ * Merge template layers (base first, the loaded template last).
+ *
+ * Semantics:
+ * - Scalars (`title`, `system`, `status`, `toolsSource`, ...): the nearest template wins.
+ * - `rules`: appended base -> child, separated by a blank line.
+ * - `tags`: unioned, base tags first.
+ * - `commands`: concatenated; inline commands with the same name (case-insensitive) are replaced
+ *   in place by the child, string refs are de-duplicated.
+ * - `mcpServers`: merged by server name; a child entry replaces the base entry as a whole.
+ * - `abilities`: allow/deny lists are unioned; a child `allow` lifts a base `deny` and a child `deny`
+ *   drops a base `allow`, so the result never overlaps.
+ * - `recommended` / `required`: shallow-merged, child keys win.
+ * - `locales`: merged by locale, then by field; localized `rules` are appended like `rules`.
+ */
+export function mergeAgentLayers(layers: Array<{ source: string; layer: AgentDefinitionLayer }>): {
+  layer: AgentDefinitionLayer;
+  origins: AgentInheritance["origins"];
+} {
+  const out: AgentDefinitionLayer = {};
+  const origins: AgentInheritance["origins"] = {};
+
+  for (const { source, layer } of layers) {
+    for (const key of Object.keys(layer) as LayerKey[]) {
+      const value = layer[key];
+      if (value === undefined) continue;
+
+      const prev = out[key];
+      let appended = prev !== undefined;
+      switch (key) {
+        case "rules":
+          out.rules = prev ? `${prev as string}\n\n${value as string}` : (value as string);
+          break;
+        case "tags":
+          out.tags = Array.from(new Set([...((prev as string[] | undefined) ?? []), ...(value as string[])]));
+          break;
+        case "commands":
+          out.commands = mergeCommands((prev as AgentCommand[] | undefined) ?? [], value as AgentCommand[]);
+          break;
+        case "mcpServers":
+          out.mcpServers = { ...(out.mcpServers ?? {}), ...(value as AgentDefinition["mcpServers"]) };
+          break;
+        case "abilities":
+          out.abilities = mergeAbilities(out.abilities ?? {}, value as AgentAbilities);
+          break;
+        case "locales":
+          out.locales = mergeLocales(out.locales ?? {}, value as Record<string, AgentLocalization>);
+          break;
+        case "recommended":
+        case "required":
+          out[key] = { ...(out[key] ?? {}), ...(value as Record<string, unknown>) };
+          break;
+        default:
+          (out as Record<string, unknown>)[key] = value;
+          appended = false;
+      }
+
+      origins[key] = appended ? [...(origins[key] ?? []), source] : [source];
+    }
+  }
+
+  return { layer: out, origins };
+}
@@ -0,0 +1,250 @@
+/**
+ * Minimal Handlebars-compatible renderer for agent prompts (`templateEngine: hbs`).
+ *
+ * Supported syntax:
+ * - `{{path}}` / `{{{path}}}` (identical: output is plain text, nothing is HTML-escaped)
+ * - `{{! comment }}`, `{{!-- comment --}}`, `\{{` for a literal `{{`
+ * - blocks: `{{#if}}`, `{{#unless}}`, `{{#each}}`, `{{#with}}`, each with an optional `{{else}}`
+ * - paths: `a.b`, `this`, `this.a`, `../a`, `@root.a`, `@index`, `@key`, `@first`, `@last`
+ *
+ * Custom helpers and partials are intentionally not supported.
+ */
+
+type HbsBlockHelper = "if" | "unless" | "each" | "with";
+
+type HbsNode =
+  | { kind: "text"; value: string }
+  | { kind: "var"; path: string; offset: number }
+  | { kind: "block"; helper: HbsBlockHelper; path: string; offset: number; body: HbsNode[]; inverse: HbsNode[] };
+
+export type HbsTemplate = { nodes: HbsNode[] };
+
+export class HbsSyntaxError extends Error {
+  public readonly offset: number;
+
+  public constructor(message: string, offset: number) {
+    super(message);
+    this.name = "HbsSyntaxError";
+    this.offset = offset;
+  }
+}
+
+const BLOCK_HELPERS = new Set<string>(["if", "unless", "each", "with"]);
+const PATH_RE = /^(?:\.\.\/)*(?:@root(?:\.[A-Za-z_][\w-]*)*|@(?:index|key|first|last)|this(?:\.[A-Za-z_][\w-]*)*|[A-Za-z_][\w-]*(?:\.[A-Za-z_][\w-]*)*)$/;
+
+function assertPath(path: string, offset: number): void {
+  if (!PATH_RE.test(path)) {
+    throw new HbsSyntaxError(`Unsupported expression '{{${path}}}' (only variable paths are supported).`, offset);
+  }
+}
+
+export function parseHbs(src: string): HbsTemplate {
+  type Frame = { helper: HbsBlockHelper; path: string; offset: number; body: HbsNode[]; inverse: HbsNode[]; inElse: boolean };
+  const root: HbsNode[] = [];
+  const stack: Frame[] = [];
+  const out = (): HbsNode[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.inverse : top.body;
+  };
+  const pushText = (value: string) => {
+    if (!value) return;
+    const nodes = out();
+    const last = nodes[nodes.length - 1];
+    if (last?.kind === "text") last.value += value;
+    else nodes.push({ kind: "text", value });
+  };
+
+  let i = 0;
+  while (i < src.length) {
+    const open = src.indexOf("{{", i);
+    if (open === -1) {
+      pushText(src.slice(i));
+      break;
+    }
+    if (open > 0 && src[open - 1] === "\\") {
+      pushText(src.slice(i, open - 1) + "{{");
+      i = open + 2;
+      continue;
+    }
+    pushText(src.slice(i, open));
+
+    if (src.startsWith("{{!--", open)) {
+      const close = src.indexOf("--}}", open + 5);
+      if (close === -1) throw new HbsSyntaxError("Unclosed comment '{{!--'.", open);
+      i = close + 4;
+      continue;
+    }
+
+    const triple = src.startsWith("{{{", open);
+    const closeToken = triple ? "}}}" : "}}";
+    const close = src.indexOf(closeToken, open + closeToken.length);
+    if (close === -1) throw new HbsSyntaxError(`Unclosed '${triple ? "{{{" : "{{"}'.`, open);
+    const inner = src.slice(open + closeToken.length, close).trim();
+    i = close + closeToken.length;
+
+    if (inner.startsWith("!")) continue;
+
+    if (triple) {
+      assertPath(inner, open);
+      out().push({ kind: "var", path: inner, offset: open });
+      continue;
+    }
+
+    if (inner.startsWith("#")) {
+      const m = inner.slice(1).trim().match(/^(\S+)\s+(\S+)$/);
+      if (!m || !BLOCK_HELPERS.has(m[1]!)) {
+        throw new HbsSyntaxError(`Unsupported block '{{${inner}}}' (expected #if, #unless, #each or #with <path>).`, open);
+      }
+      assertPath(m[2]!, open);
+      const frame: Frame = {
+        helper: m[1] as HbsBlockHelper,
+        path: m[2]!,
+        offset: open,
+        body: [],
+        inverse: [],
+        inElse: false,
+      };
+      out().push({ kind: "block", helper: frame.helper, path: frame.path, offset: open, body: frame.body, inverse: frame.inverse });
+      stack.push(frame);
+      continue;
+    }
+
+    if (inner === "else" || inner === "^") {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) throw new HbsSyntaxError("Unexpected '{{else}}'.", open);
+      top.inElse = true;
+      continue;
+    }
+
+    if (inner.startsWith("/")) {
+      const name = inner.slice(1).trim();
+      const top = stack.pop();
+      if (!top) throw new HbsSyntaxError(`Unexpected '{{/${name}}}'.`, open);
+      if (top.helper !== name) {
+        throw new HbsSyntaxError(`'{{#${top.helper}}}' is closed by '{{/${name}}}'.`, open);
+      }
+      continue;
+    }
+
+    assertPath(inner, open);
+    out().push({ kind: "var", path: inner, offset: open });
+  }
+
+  const unclosed = stack[stack.length - 1];
+  if (unclosed) throw new HbsSyntaxError(`Unclosed '{{#${unclosed.helper} ${unclosed.path}}}'.`, unclosed.offset);
+  return { nodes: root };
+}
+
+type Scope = {
+  value: unknown;
+  data: { index?: number; key?: string; first?: boolean; last?: boolean };
+};
+
+function isTruthy(v: unknown): boolean {
+  if (Array.isArray(v)) return v.length > 0;
+  return v !== undefined && v !== null && v !== false && v !== "" && v !== 0;
+}
+
+function lookup(path: string, scopes: Scope[]): unknown {
+  let rest = path;
+  let depth = 0;
+  while (rest.startsWith("../")) {
+    rest = rest.slice(3);
+    depth++;
+  }
+  const scope = scopes[Math.max(0, scopes.length - 1 - depth)]!;
+
+  let segments: string[];
+  let value: unknown;
+  if (rest.startsWith("@root")) {
+    value = scopes[0]!.value;
+    segments = rest.split(".").slice(1);
+  } else if (rest.startsWith("@")) {
+    return scope.data[rest.slice(1) as keyof Scope["data"]];
+  } else {
+    value = scope.value;
+    segments = rest.split(".");
+    if (segments[0] === "this") segments = segments.slice(1);
+  }
+
+  for (const seg of segments) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[seg];
+  }
+  return value;
+}
+
+function stringify(v: unknown): string {
+  if (typeof v === "string") return v;
+  if (Array.isArray(v)) return v.map((x) => stringify(x)).join(",");
+  if (typeof v === "object" && v !== null) return JSON.stringify(v);
+  return String(v);
+}
+
+/**
+ * Render a parsed template. Variables that resolve to `undefined`/`null` render as an empty string and
+ * are reported through `onMissing` (block conditions are not reported: a missing value is just falsy).
+ */
+export function renderHbs(
+  template: HbsTemplate,
+  context: Record<string, unknown>,
+  onMissing?: (path: string) => void,
+): string {
+  const render = (nodes: HbsNode[], scopes: Scope[]): string => {
+    let s = "";
+    for (const node of nodes) {
+      if (node.kind === "text") {
+        s += node.value;
+        continue;
+      }
+      const value = lookup(node.path, scopes);
+      if (node.kind === "var") {
+        if (value === undefined || value === null) onMissing?.(node.path);
+        else s += stringify(value);
+        continue;
+      }
+
+      switch (node.helper) {
+        case "if":
+          s += render(isTruthy(value) ? node.body : node.inverse, scopes);
+          break;
+        case "unless":
+          s += render(isTruthy(value) ? node.inverse : node.body, scopes);
+          break;
+        case "with":
+          s += isTruthy(value) ? render(node.body, [...scopes, { value, data: {} }]) : render(node.inverse, scopes);
+          break;
+        case "each": {
+          const entries: Array<[string | number, unknown]> = Array.isArray(value)
+            ? value.map((v, idx) => [idx, v])
+            : value !== null && typeof value === "object"
+              ? Object.entries(value)
+              : [];
+          if (!entries.length) {
+            s += render(node.inverse, scopes);
+            break;
+          }
+          entries.forEach(([key, item], idx) => {
+            s += render(node.body, [
+              ...scopes,
+              {
+                value: item,
+                data: {
+                  index: idx,
+                  ...(typeof key === "string" ? { key } : {}),
+                  first: idx === 0,
+                  last: idx === entries.length - 1,
+                },
+              },
+            ]);
+          });
+          break;
+        }
+      }
+    }
+    return s;
+  };
+
+  return render(template.nodes, [{ value: context, data: {} }]);
+}
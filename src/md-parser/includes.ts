@@ -0,0 +1,166 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { AgentDiagnostic, AgentDiagnosticCode, AgentSourceRange } from "./types.js";
+
+/** `<!-- include: ../shared/rules.md -->` on a line of its own. */
+const INCLUDE_DIRECTIVE = /^\s*<!--\s*include:\s*(.*?)\s*-->\s*$/;
+
+/** Where a line of the expanded template came from. */
+export type IncludeLineOrigin = {
+  /** Absolute path. */
+  file: string;
+  /** 1-based line in `file`. */
+  line: number;
+};
+
+export type ExpandedTemplate = {
+  text: string;
+  /** One entry per line of `text`. */
+  origins: IncludeLineOrigin[];
+  /** Absolute paths of every included file (nested includes too), in inclusion order. */
+  includes: string[];
+  /** Problems with include directives, reported at the directive (`file` set). */
+  diagnostics: AgentDiagnostic[];
+  /** Raw content of every file that contributed lines, for mapping offsets back. */
+  sources: Map<string, string>;
+};
+
+function lineOffset(raw: string, line: number): number {
+  let offset = 0;
+  for (let l = 1; l < line; l++) {
+    const next = raw.indexOf("\n", offset);
+    if (next === -1) return raw.length;
+    offset = next + 1;
+  }
+  return offset;
+}
+
+function withOffsets(raw: string, range: AgentSourceRange): AgentSourceRange {
+  const start = lineOffset(raw, range.start.line);
+  const end = lineOffset(raw, range.end.line);
+  return {
+    start: { ...range.start, offset: start + range.start.column - 1 },
+    end: { ...range.end, offset: end + range.end.column - 1 },
+  };
+}
+
+/** Line index (0-based) where the Markdown body starts, i.e. after a leading `---` frontmatter block. */
+function bodyStartLine(lines: string[]): number {
+  if (lines[0]?.trim() !== "---") return 0;
+  const close = lines.findIndex((l, i) => i > 0 && l.trim() === "---");
+  return close === -1 ? 0 : close + 1;
+}
+
+/**
+ * Include directives by 0-based line index. Lines in code fences, and the frontmatter of a template, are skipped.
+ */
+export function findIncludeDirectives(lines: string[], hasFrontmatter = true): Map<number, string> {
+  const out = new Map<number, string>();
+  const start = hasFrontmatter ? bodyStartLine(lines) : 0;
+  let fence: string | undefined;
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i]!;
+    const fenceMatch = line.match(/^ {0,3}(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1]!.slice(0, 3);
+      else if (line.trim().startsWith(fence)) fence = undefined;
+      continue;
+    }
+    const m = fence ? null : line.match(INCLUDE_DIRECTIVE);
+    if (m) out.set(i, m[1]!);
+  }
+  return out;
+}
+
+function isInside(root: string, target: string): boolean {
+  const rel = path.relative(root, target);
+  return rel === "" || (!rel.startsWith("..") && !path.isAbsolute(rel));
+}
+
+/**
+ * Default sandbox for includes: the working directory when the template lives below it, else the template's own
+ * directory.
+ */
+export function defaultTemplatesRoot(file: string, cwd = process.cwd()): string {
+  const abs = path.resolve(file);
+  return isInside(path.resolve(cwd), abs) ? path.resolve(cwd) : path.dirname(abs);
+}
+
+/**
+ * Replace `<!-- include: <path> -->` lines in the Markdown body of `raw` (the template at `file`) with the content
+ * of the referenced file, recursively. Paths resolve against the including file and must stay inside `root`;
+ * directives in code fences and in frontmatter are left alone. Included files are inserted as-is (no frontmatter
+ * handling).
+ */
+export async function expandIncludes(raw: string, file: string, opts: { root: string }): Promise<ExpandedTemplate> {
+  const root = await fs.realpath(opts.root).catch(() => path.resolve(opts.root));
+  const result: ExpandedTemplate = { text: "", origins: [], includes: [], diagnostics: [], sources: new Map() };
+  const out: string[] = [];
+
+  const report = (code: AgentDiagnosticCode, message: string, at: string, line: number, text: string) => {
+    const range = withOffsets(result.sources.get(at) ?? "", {
+      start: { line, column: 1, offset: 0 },
+      end: { line, column: text.length + 1, offset: 0 },
+    });
+    result.diagnostics.push({ code, severity: "error", message, file: at, range });
+  };
+
+  async function expand(content: string, current: string, stack: string[], isEntry: boolean): Promise<void> {
+    result.sources.set(current, content);
+    const lines = content.split("\n");
+    // The entry keeps its final empty line (trailing newline); included files do not add one.
+    if (!isEntry && lines.length > 1 && lines[lines.length - 1] === "") lines.pop();
+    const directives = findIncludeDirectives(lines, isEntry);
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i]!;
+      const ref = directives.get(i);
+      if (ref === undefined) {
+        out.push(line);
+        result.origins.push({ file: current, line: i + 1 });
+        continue;
+      }
+
+      const target = path.resolve(path.dirname(current), ref);
+      const real = await fs.realpath(target).catch(() => undefined);
+      if (!real || !(await fs.stat(real)).isFile()) {
+        report("INCLUDE.NOT_FOUND", `Included file not found: ${ref}`, current, i + 1, line);
+        continue;
+      }
+      if (!isInside(root, real)) {
+        const message = `Include '${ref}' resolves outside the templates root (${root}).`;
+        report("INCLUDE.OUTSIDE_ROOT", message, current, i + 1, line);
+        continue;
+      }
+      if (stack.includes(target)) {
+        const entryDir = path.dirname(stack[0]!);
+        const names = [...stack, target].map((f) => path.relative(entryDir, f).split(path.sep).join("/"));
+        report("INCLUDE.CYCLE", `Cyclic include: ${names.join(" -> ")}.`, current, i + 1, line);
+        continue;
+      }
+      if (!result.includes.includes(target)) result.includes.push(target);
+      await expand(await fs.readFile(target, "utf8"), target, [...stack, target], false);
+    }
+  }
+
+  await expand(raw, file, [file], true);
+  result.text = out.join("\n");
+  return result;
+}
+
+/** Map a range in the expanded template back to the file and position it came from. */
+export function mapIncludedRange(
+  expanded: ExpandedTemplate,
+  range: AgentSourceRange,
+): { file: string; range: AgentSourceRange } {
+  const at = (line: number) => expanded.origins[line - 1] ?? expanded.origins[expanded.origins.length - 1]!;
+  const start = at(range.start.line);
+  const end = at(range.end.line);
+  // A range that crosses an include boundary collapses to its start.
+  const endPos = end.file === start.file ? { line: end.line, column: range.end.column } : undefined;
+  const mapped = withOffsets(expanded.sources.get(start.file) ?? "", {
+    start: { line: start.line, column: range.start.column, offset: 0 },
+    end: { line: endPos?.line ?? start.line, column: endPos?.column ?? range.start.column, offset: 0 },
+  });
+  return { file: start.file, range: mapped };
+}
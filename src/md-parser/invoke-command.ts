@@ -0,0 +1,141 @@
+import { createAbilityPolicy } from "./abilities.js";
+import { shellQuote, type ShellExecutor } from "./shell.js";
+import type { AgentAbilities, AgentInlineCommand } from "./types.js";
+
+export { defaultShellExecutor, shellQuote, type ShellExecResult, type ShellExecutor } from "./shell.js";
+
+export type AgentCommandErrorCode = "COMMAND.SHELL_DENIED" | "COMMAND.SHELL_FAILED";
+
+export class AgentCommandError extends Error {
+  public readonly code: AgentCommandErrorCode;
+  public readonly command: string;
+
+  public constructor(code: AgentCommandErrorCode, command: string, message: string) {
+    super(message);
+    this.name = "AgentCommandError";
+    this.code = code;
+    this.command = command;
+  }
+}
+
+export type InvokeAgentCommandOptions = {
+  /**
+   * Resolve `` !`cmd` `` snippets. Without it, snippets stay in the prompt (with arguments substituted).
+   */
+  shell?: {
+    exec: ShellExecutor;
+    /** The agent's abilities: each snippet needs `sh` or `sh:<command>` in `allow` (deny wins). */
+    abilities?: AgentAbilities;
+    cwd?: string;
+  };
+};
+
+/**
+ * Split a raw slash-command argument string like a shell would (whitespace, '…' and "…" quoting).
+ */
+export function splitCommandArguments(raw: string): string[] {
+  const out: string[] = [];
+  let cur = "";
+  let has = false;
+  let quote: "'" | '"' | undefined;
+  for (let i = 0; i < raw.length; i++) {
+    const ch = raw[i]!;
+    if (quote) {
+      if (ch === quote) quote = undefined;
+      else if (ch === "\\" && quote === '"' && i + 1 < raw.length) cur += raw[++i];
+      else cur += ch;
+      continue;
+    }
+    if (ch === "'" || ch === '"') {
+      quote = ch;
+      has = true;
+    } else if (/\s/.test(ch)) {
+      if (has) out.push(cur);
+      cur = "";
+      has = false;
+    } else {
+      cur += ch;
+      has = true;
+    }
+  }
+  if (has) out.push(cur);
+  return out;
+}
+
+/**
+ * Substitute `$ARGUMENTS` (all args, space-separated) and `$1..$n` (missing positions become empty).
+ * `quote` is applied to every substituted value (used for shell snippets).
+ */
+export function expandCommandArguments(
+  text: string,
+  args: string[],
+  quote: (s: string) => string = (s) => s,
+): string {
+  return text.replace(/\$(ARGUMENTS|\d+)/g, (_, ref: string) => {
+    if (ref === "ARGUMENTS") return args.length ? args.map(quote).join(" ") : "";
+    const idx = Number(ref);
+    if (idx === 0) return `$${ref}`;
+    const v = args[idx - 1];
+    return v === undefined ? "" : quote(v);
+  });
+}
+
+/**
+ * Whether `abilities` allow running `command` through the shell (`sh` / `sh:<glob>`, deny wins).
+ */
+export function isShellCommandAllowed(abilities: AgentAbilities | undefined, command: string): boolean {
+  return createAbilityPolicy(abilities).can("sh", command.trim());
+}
+
+const SHELL_SNIPPET_RE = /!`([^`\n]+)`/g;
+
+/**
+ * Build the final prompt for an inline command invocation (Claude-style slash command semantics):
+ * 1) `$ARGUMENTS` / `$1..$n` are substituted in the body (shell-quoted inside `` !`…` `` snippets);
+ * 2) with `opts.shell`, every `` !`cmd` `` is replaced by the command's trimmed stdout.
+ */
+export async function invokeAgentCommand(
+  command: AgentInlineCommand,
+  args: string | string[],
+  opts: InvokeAgentCommandOptions = {},
+): Promise<string> {
+  const argv = Array.isArray(args) ? args : splitCommandArguments(args);
+
+  const snippets: string[] = [];
+  // Expand arguments outside snippets as-is and inside snippets shell-quoted; keep snippet slots stable.
+  const withSlots = command.body.replace(SHELL_SNIPPET_RE, (_, cmd: string) => {
+    snippets.push(expandCommandArguments(cmd, argv, shellQuote));
+    return `\u0000${snippets.length - 1}\u0000`;
+  });
+  const expanded = expandCommandArguments(withSlots, argv);
+
+  const outputs: string[] = [];
+  for (const snippet of snippets) {
+    if (!opts.shell) {
+      outputs.push(`!\`${snippet}\``);
+      continue;
+    }
+    if (!isShellCommandAllowed(opts.shell.abilities, snippet)) {
+      throw new AgentCommandError(
+        "COMMAND.SHELL_DENIED",
+        snippet,
+        `Command '${command.name}': shell snippet '${snippet}' is not allowed by abilities (need 'sh' or 'sh:${
+          snippet.trim().split(/\s+/)[0]
+        }').`,
+      );
+    }
+    const res = await opts.shell.exec(snippet, { cwd: opts.shell.cwd });
+    if (res.exitCode !== 0) {
+      throw new AgentCommandError(
+        "COMMAND.SHELL_FAILED",
+        snippet,
+        `Command '${command.name}': shell snippet '${snippet}' exited with ${res.exitCode}${
+          res.stderr.trim() ? `: ${res.stderr.trim()}` : "."
+        }`,
+      );
+    }
+    outputs.push(res.stdout.trimEnd());
+  }
+
+  return expanded.replace(/\u0000(\d+)\u0000/g, (_, i: string) => outputs[Number(i)]!);
+}
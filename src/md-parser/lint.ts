@@ -0,0 +1,469 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import matter from "gray-matter";
+import YAML, { isMap, isScalar, isSeq } from "yaml";
+import { parseAbility } from "./abilities.js";
+import { resolveAgentSources } from "./compile-agents.js";
+import type { LintSeverity, TempybotConfig } from "./config.js";
+import { TemplateSourceMap, formatFrontmatterPath, type FrontmatterPath } from "./diagnostics.js";
+import { parseAgentMdWithDiagnostics } from "./parse-agent-md.js";
+import { agentJsonToTemplate } from "./print-agent-md.js";
+import type { AgentDefinition, AgentDiagnosticSeverity, AgentSourceRange, AgentStatus } from "./types.js";
+
+export type AgentLintRuleId =
+  | "rules-empty"
+  | "system-fallback"
+  | "deprecated-extends"
+  | "command-description"
+  | "mcp-inline-secret"
+  | "unused-tool"
+  | "broad-ability"
+  | "redundant-ability"
+  | "canonical-format";
+
+/**
+ * A lint finding. Parse diagnostics of linted files are reported the same way, with their code
+ * (e.g. `FRONTMATTER.INVALID`) as `rule`.
+ */
+export type AgentLintIssue = {
+  rule: AgentLintRuleId | string;
+  severity: AgentDiagnosticSeverity;
+  message: string;
+  /** Frontmatter key path (e.g. `abilities.allow[0]`), when the finding is about a frontmatter value. */
+  path?: string;
+  range?: AgentSourceRange;
+  file?: string;
+  /** `--fix` can resolve it. */
+  fixable?: boolean;
+};
+
+export type AgentLintContext = {
+  definition: AgentDefinition;
+  /** Raw template, when linting a file. */
+  raw?: string;
+  /**
+   * Status of an `extends` base (paths from `inheritance.chain`); `undefined` when unknown.
+   */
+  statusOf?: (chainPath: string) => AgentStatus | undefined;
+};
+
+type AgentLintFinding = { message: string; path?: FrontmatterPath };
+
+export type AgentLintRule = {
+  id: AgentLintRuleId;
+  description: string;
+  defaultSeverity: LintSeverity;
+  check: (ctx: AgentLintContext) => AgentLintFinding[];
+  /** Safe fix: the returned definition no longer triggers the rule. */
+  fix?: (def: AgentDefinition) => AgentDefinition;
+  /** The same fix as an edit of the template's frontmatter, which is what `--fix` applies to files. */
+  fixFrontmatter?: (frontmatter: YAML.Document) => void;
+  /** `--fix` resolves the rule by rewriting the whole file with `agentJsonToTemplate()`. */
+  fixByFormatting?: boolean;
+};
+
+/**
+ * Env names whose last `_`/`-` separated word(s) name a secret: `GITHUB_TOKEN`, `DB_PASSWORD`, `AWS_SECRET_ACCESS_KEY`
+ * (not `MAX_TOKENS`, `TOKEN_URL` or `GIT_AUTHOR_NAME`).
+ */
+const SECRET_KEY_RE =
+  /(^|[_-])(token|secret|passw(or)?d|credentials?|authorization|(api|private|secret|access)[_-]?key)$/i;
+/** A known token prefix, whatever follows it (a `$VAR` suffix does not make the token any less inline). */
+const SECRET_VALUE_RE = /^(ghp_|gho_|github_pat_|sk-|xox[abps]-|AKIA)[\w-]+/;
+/** Values made only of `${VAR}` / `$VAR` references are resolved from the environment, not stored inline. */
+const ENV_REFERENCE_RE = /^\s*(?:\$\{[A-Za-z_]\w*\}|\$[A-Za-z_]\w*)+\s*$/;
+
+const BROAD_ABILITIES: Record<string, string> = {
+  sh: "allows any shell command; scope it (e.g. 'sh:git*')",
+  fs: "allows any file access under the working directory; scope it (e.g. 'fs:read:./docs/**')",
+  network: "allows requests to any host; scope it (e.g. 'network:*.github.com')",
+};
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Indexes of scoped entries made redundant by an unscoped entry of the same ability in the same list. */
+function redundantAbilityIndexes(list: readonly string[]): number[] {
+  const bare = new Set(list.map((e) => parseAbility(e)).filter((a) => a.scope === undefined).map((a) => a.ability));
+  return list.flatMap((e, i) => {
+    const { ability, scope } = parseAbility(e);
+    return scope !== undefined && bare.has(ability) ? [i] : [];
+  });
+}
+
+/** Value node of a top-level frontmatter key (matched case-insensitively, like the loader does). */
+function frontmatterNode(doc: YAML.Document, key: string): unknown {
+  if (!isMap(doc.contents)) return undefined;
+  const lc = key.toLowerCase();
+  return doc.contents.items.find((p) => isScalar(p.key) && String(p.key.value).toLowerCase() === lc)?.value;
+}
+
+export const AGENT_LINT_RULES: readonly AgentLintRule[] = [
+  {
+    id: "rules-empty",
+    description: "The agent has no `## Rules`.",
+    defaultSeverity: "warn",
+    check: ({ definition }) => (definition.rules.trim() ? [] : [{ message: "'## Rules' is empty or missing." }]),
+  },
+  {
+    id: "system-fallback",
+    description: "`system` falls back to the title (no `## System` and no description).",
+    defaultSeverity: "warn",
+    check: ({ definition }) =>
+      definition.system === definition.title && !definition.description
+        ? [{ message: `'system' falls back to the title '${definition.title}'; add a '## System' section.` }]
+        : [],
+  },
+  {
+    id: "deprecated-extends",
+    description: "The agent extends a deprecated or disabled template.",
+    defaultSeverity: "warn",
+    check: ({ definition, statusOf }) =>
+      (definition.inheritance?.chain ?? []).flatMap((base) => {
+        const status = statusOf?.(base);
+        return status === "deprecated" || status === "disabled"
+          ? [{ message: `Extends '${base}', which is ${status}.`, path: ["extends"] }]
+          : [];
+      }),
+  },
+  {
+    id: "command-description",
+    description: "An inline command has no meaningful `description`.",
+    defaultSeverity: "warn",
+    check: ({ definition }) =>
+      definition.commands.flatMap((c, i) =>
+        typeof c !== "string" && (!c.description.trim() || c.description.trim().toLowerCase() === c.name.toLowerCase())
+          ? [{ message: `Command '${c.name}' has no description (shown in command pickers).`, path: ["commands", i] }]
+          : [],
+      ),
+  },
+  {
+    id: "mcp-inline-secret",
+    description: "An `mcpServers.*.env` value looks like an inline secret.",
+    defaultSeverity: "error",
+    check: ({ definition }) =>
+      Object.entries(definition.mcpServers ?? {}).flatMap(([server, cfg]) =>
+        Object.entries(cfg.env ?? {}).flatMap(([key, value]) =>
+          value.trim() && !ENV_REFERENCE_RE.test(value) && (SECRET_KEY_RE.test(key) || SECRET_VALUE_RE.test(value.trim()))
+            ? [
+                {
+                  message: `'mcpServers.${server}.env.${key}' looks like an inline secret; reference it as '\${${key}}' instead.`,
+                  path: ["mcpServers", server, "env", key],
+                },
+              ]
+            : [],
+        ),
+      ),
+  },
+  {
+    id: "unused-tool",
+    description: "A `## Tools` tool is never referenced by system, rules, commands or `required.startup`.",
+    // Opt-in: tools are usually offered to the model without being named in the prompt.
+    defaultSeverity: "off",
+    check: ({ definition }) => {
+      const text = [
+        definition.system,
+        definition.rules,
+        ...definition.commands.map((c) => (typeof c === "string" ? "" : c.body)),
+      ].join("\n");
+      const startup = definition.required.startup?.trim().toLowerCase();
+      return (definition.tools ?? []).flatMap((t) =>
+        t.name.toLowerCase() === startup || new RegExp(`\\b${escapeRegExp(t.name)}\\b`).test(text)
+          ? []
+          : [{ message: `Tool '${t.name}' is declared in '## Tools' but never referenced.` }],
+      );
+    },
+  },
+  {
+    id: "broad-ability",
+    description: "`abilities.allow` grants an unscoped `sh`, `fs` or `network`.",
+    defaultSeverity: "warn",
+    check: ({ definition }) =>
+      (definition.abilities?.allow ?? []).flatMap((entry, i) =>
+        BROAD_ABILITIES[entry] ? [{ message: `'${entry}' ${BROAD_ABILITIES[entry]}.`, path: ["abilities", "allow", i] }] : [],
+      ),
+  },
+  {
+    id: "redundant-ability",
+    description: "A scoped ability is already covered by the unscoped entry in the same list.",
+    defaultSeverity: "warn",
+    check: ({ definition }) =>
+      (["allow", "deny"] as const).flatMap((list) => {
+        const entries = definition.abilities?.[list] ?? [];
+        return redundantAbilityIndexes(entries).map((i) => ({
+          message: `'${entries[i]}' is redundant next to '${parseAbility(entries[i]!).ability}' in abilities.${list}.`,
+          path: ["abilities", list, i],
+        }));
+      }),
+    fix: (def) => {
+      if (!def.abilities) return def;
+      const abilities = { ...def.abilities };
+      for (const list of ["allow", "deny"] as const) {
+        const entries = abilities[list];
+        if (!entries) continue;
+        const drop = new Set(redundantAbilityIndexes(entries));
+        abilities[list] = entries.filter((_, i) => !drop.has(i));
+      }
+      return { ...def, abilities };
+    },
+    fixFrontmatter: (doc) => {
+      const abilities = frontmatterNode(doc, "abilities");
+      // A list is shorthand for `allow`.
+      const lists = isSeq(abilities)
+        ? [abilities]
+        : isMap(abilities)
+          ? [abilities.get("allow", true), abilities.get("deny", true)]
+          : [];
+      for (const list of lists) {
+        if (!isSeq(list)) continue;
+        const entries = list.items.map((item) => (isScalar(item) ? String(item.value) : ""));
+        const drop = new Set(redundantAbilityIndexes(entries));
+        list.items = list.items.filter((_, i) => !drop.has(i));
+      }
+    },
+  },
+  {
+    id: "canonical-format",
+    description: "The template differs from `tempybot format` output.",
+    defaultSeverity: "off",
+    check: ({ definition, raw }) =>
+      raw !== undefined &&
+      !definition.inheritance &&
+      !definition.includes &&
+      raw !== agentJsonToTemplate(definition)
+        ? [{ message: "Template is not in canonical format (run 'tempybot format')." }]
+        : [],
+    fixByFormatting: true,
+  },
+];
+
+/** Effective severity per rule: rule defaults overridden by `lint.rules` of `tempybot.config`. */
+export function resolveLintRules(config?: TempybotConfig): Map<AgentLintRule, AgentDiagnosticSeverity> {
+  const overrides = config?.lint?.rules ?? {};
+  const known = new Set<string>(AGENT_LINT_RULES.map((r) => r.id));
+  for (const id of Object.keys(overrides)) {
+    if (!known.has(id)) throw new Error(`Unknown lint rule '${id}'. Known rules: ${[...known].join(", ")}.`);
+  }
+
+  const out = new Map<AgentLintRule, AgentDiagnosticSeverity>();
+  for (const rule of AGENT_LINT_RULES) {
+    const severity = overrides[rule.id] ?? rule.defaultSeverity;
+    if (severity !== "off") out.set(rule, severity);
+  }
+  return out;
+}
+
+/**
+ * Run the enabled rules over a definition. `raw` (the template text) enables source ranges for frontmatter
+ * findings and the `canonical-format` rule.
+ */
+export function lintAgentDefinition(
+  ctx: AgentLintContext,
+  rules: Map<AgentLintRule, AgentDiagnosticSeverity> = resolveLintRules(),
+): AgentLintIssue[] {
+  let sourceMap: TemplateSourceMap | undefined;
+  if (ctx.raw !== undefined) {
+    sourceMap = new TemplateSourceMap(ctx.raw);
+    const parsed = matter(ctx.raw, { engines: { yaml: (s) => YAML.parse(s) } });
+    sourceMap.attach({ matter: parsed.matter, content: parsed.content });
+  }
+
+  const issues: AgentLintIssue[] = [];
+  for (const [rule, severity] of rules) {
+    for (const finding of rule.check(ctx)) {
+      const range = finding.path ? sourceMap?.frontmatterRange(finding.path) : undefined;
+      issues.push({
+        rule: rule.id,
+        severity,
+        message: finding.message,
+        ...(finding.path ? { path: formatFrontmatterPath(finding.path) } : {}),
+        ...(range ? { range } : {}),
+        ...(rule.fix || rule.fixByFormatting ? { fixable: true } : {}),
+      });
+    }
+  }
+  return issues;
+}
+
+/** Apply the safe fixes of every enabled rule that reports on `def`. */
+export function fixAgentDefinition(
+  def: AgentDefinition,
+  rules: Map<AgentLintRule, AgentDiagnosticSeverity> = resolveLintRules(),
+): AgentDefinition {
+  let out = def;
+  for (const rule of rules.keys()) {
+    if (rule.fix && rule.check({ definition: out }).length) out = rule.fix(out);
+  }
+  return out;
+}
+
+/**
+ * Apply the safe fixes of every enabled rule that reports on `def` to its template `raw`. With a `fixByFormatting`
+ * rule (`canonical-format`) enabled the whole file is rewritten with `agentJsonToTemplate()`; otherwise only the
+ * affected frontmatter values change, keeping the rest of the file (comments, key order, Markdown) as written.
+ */
+export function fixAgentTemplate(
+  raw: string,
+  def: AgentDefinition,
+  rules: Map<AgentLintRule, AgentDiagnosticSeverity> = resolveLintRules(),
+): string {
+  if ([...rules.keys()].some((r) => r.fixByFormatting)) return agentJsonToTemplate(fixAgentDefinition(def, rules));
+
+  const parsed = matter(raw, { engines: { yaml: (s) => YAML.parse(s) } });
+  if (!parsed.matter) return raw;
+  const doc = YAML.parseDocument(parsed.matter.replace(/^\r?\n/, ""));
+  let changed = false;
+  for (const rule of rules.keys()) {
+    if (!rule.fixFrontmatter || !rule.check({ definition: def }).length) continue;
+    rule.fixFrontmatter(doc);
+    changed = true;
+  }
+  return changed ? `---\n${doc.toString({ lineWidth: 0, flowCollectionPadding: false })}---\n${parsed.content}` : raw;
+}
+
+export type AgentLintFileResult = {
+  /** POSIX path relative to `cwd`. */
+  file: string;
+  issues: AgentLintIssue[];
+  /** The file was rewritten by `fix`. */
+  fixed?: boolean;
+};
+
+export type LintAgentFilesOptions = {
+  cwd?: string;
+  config?: TempybotConfig;
+  /** Apply safe fixes to the files (see `fixAgentTemplate()`). Templates using `extends` are skipped. */
+  fix?: boolean;
+};
+
+function toPosixRelative(fromDir: string, file: string): string {
+  return path.relative(fromDir, file).split(path.sep).join("/");
+}
+
+/**
+ * Lint every `*.agent.md` matched by `inputs` (directories, files or globs). Parse errors are reported
+ * as issues with the diagnostic code as `rule`.
+ */
+export async function lintAgentFiles(inputs: string[], opts: LintAgentFilesOptions = {}): Promise<AgentLintFileResult[]> {
+  const cwd = opts.cwd ?? process.cwd();
+  const rules = resolveLintRules(opts.config);
+  const files = await resolveAgentSources(inputs, cwd);
+  if (!files.length) throw new Error(`No *.agent.md files matched: ${inputs.join(", ")}`);
+
+  const statuses = new Map<string, Promise<AgentStatus | undefined>>();
+  const statusOfFile = (abs: string) => {
+    if (!statuses.has(abs)) {
+      statuses.set(
+        abs,
+        parseAgentMdWithDiagnostics(abs).then(
+          (r) => (r.ok ? r.definition.status : undefined),
+          () => undefined,
+        ),
+      );
+    }
+    return statuses.get(abs)!;
+  };
+
+  const results: AgentLintFileResult[] = [];
+  for (const abs of files) {
+    const file = toPosixRelative(cwd, abs);
+    const parsed = await parseAgentMdWithDiagnostics(abs);
+    if (!parsed.ok) {
+      results.push({
+        file,
+        issues: parsed.diagnostics.map((d) => ({
+          rule: d.code,
+          severity: d.severity,
+          message: d.message,
+          ...(d.path ? { path: d.path } : {}),
+          ...(d.range ? { range: d.range } : {}),
+          file: toPosixRelative(cwd, d.file ?? abs),
+        })),
+      });
+      continue;
+    }
+
+    // `inheritance.chain` paths are relative to the linted file.
+    const chainStatus = new Map<string, AgentStatus | undefined>();
+    for (const base of parsed.definition.inheritance?.chain ?? []) {
+      chainStatus.set(base, await statusOfFile(path.resolve(path.dirname(abs), base)));
+    }
+
+    let raw = await fs.readFile(abs, "utf8");
+    let definition = parsed.definition;
+    const lint = () =>
+      lintAgentDefinition({ definition, raw, statusOf: (base) => chainStatus.get(base) }, rules).map((i) => ({
+        ...i,
+        file,
+      }));
+
+    let issues = lint();
+    let fixed = false;
+    if (opts.fix && !definition.inheritance && !definition.includes && issues.some((i) => i.fixable)) {
+      const text = fixAgentTemplate(raw, definition, rules);
+      if (text !== raw) {
+        await fs.writeFile(abs, text, "utf8");
+        raw = text;
+        definition = fixAgentDefinition(definition, rules);
+        fixed = true;
+      }
+      issues = lint();
+    }
+    results.push({ file, issues, ...(fixed ? { fixed } : {}) });
+  }
+  return results;
+}
+
+/** `file:line:col: severity rule: message`, like parse diagnostics. */
+export function formatLintIssue(issue: AgentLintIssue): string {
+  const loc = issue.range ? `${issue.range.start.line}:${issue.range.start.column}` : "";
+  const where = [issue.file, loc].filter(Boolean).join(":");
+  return `${where ? `${where}: ` : ""}${issue.severity} ${issue.rule}: ${issue.message}`;
+}
+
+/** SARIF 2.1.0 log for code-scanning uploads. */
+export function lintResultsToSarif(results: AgentLintFileResult[]): Record<string, unknown> {
+  const issues = results.flatMap((r) => r.issues);
+  const ruleIds = [...new Set(issues.map((i) => i.rule))].sort((a, b) => a.localeCompare(b));
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "tempybot",
+            informationUri: "https://holiber.github.io/tempybot/",
+            rules: ruleIds.map((id) => {
+              const rule = AGENT_LINT_RULES.find((r) => r.id === id);
+              return { id, shortDescription: { text: rule?.description ?? `Template diagnostic ${id}.` } };
+            }),
+          },
+        },
+        results: issues.map((i) => ({
+          ruleId: i.rule,
+          level: i.severity === "warn" ? "warning" : "error",
+          message: { text: i.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: i.file },
+                ...(i.range
+                  ? {
+                      region: {
+                        startLine: i.range.start.line,
+                        startColumn: i.range.start.column,
+                        endLine: i.range.end.line,
+                        endColumn: i.range.end.column,
+                      },
+                    }
+                  : {}),
+              },
+            },
+          ],
+        })),
+      },
+    ],
+  };
+}
@@ -0,0 +1,86 @@
+import type { AgentDefinition, AgentLocalization } from "./types.js";
+
+/** BCP 47 shape accepted for locale keys and `## System (<locale>)` headings, e.g. `de`, `pt-BR`, `zh-Hant-TW`. */
+export const LOCALE_TAG_RE = /^[A-Za-z]{2,3}(?:-[A-Za-z0-9]{2,8})*$/;
+
+/** Canonical casing of a locale tag (`de-ch` -> `de-CH`); `undefined` when it is not a valid tag. */
+export function canonicalLocale(tag: string): string | undefined {
+  const trimmed = tag.trim();
+  if (!LOCALE_TAG_RE.test(trimmed)) return undefined;
+  try {
+    return Intl.getCanonicalLocales(trimmed)[0];
+  } catch {
+    return undefined;
+  }
+}
+
+function parentLocale(tag: string): string | undefined {
+  const idx = tag.lastIndexOf("-");
+  return idx === -1 ? undefined : tag.slice(0, idx);
+}
+
+/** `agentLocaleChain()` split by requested tag (each segment holds the locales that tag added). */
+function localeChainSegments(def: AgentDefinition, locale: string | string[]): string[][] {
+  const locales = def.locales ?? {};
+  const defaultLocale = def.defaultLocale && canonicalLocale(def.defaultLocale);
+  const seen = new Set<string>();
+  const segments: string[][] = [];
+  let done = false;
+
+  const visit = (tag: string | undefined, segment: string[]) => {
+    if (!tag || done || seen.has(tag)) return;
+    seen.add(tag);
+    if (locales[tag]) segment.push(tag);
+    if (tag === defaultLocale) {
+      done = true;
+      return;
+    }
+    visit(locales[tag]?.fallback, segment);
+    visit(parentLocale(tag), segment);
+  };
+
+  for (const requested of Array.isArray(locale) ? locale : [locale]) {
+    const tag = canonicalLocale(requested);
+    if (!tag) throw new Error(`Invalid locale '${requested}': expected a BCP 47 language tag (e.g. de, pt-BR).`);
+    const segment: string[] = [];
+    visit(tag, segment);
+    segments.push(segment);
+  }
+  return segments;
+}
+
+/**
+ * Locales of `def.locales` that provide fields for `locale`, most specific first.
+ *
+ * Each requested tag (in preference order) is followed by its declared `fallback`, then by its parent tags
+ * (`de-CH` -> `de`). The chain stops at `def.defaultLocale`: the unlocalized fields are written in that locale, so
+ * they win over anything further down the list. Throws for an invalid tag.
+ */
+export function agentLocaleChain(def: AgentDefinition, locale: string | string[]): string[] {
+  return localeChainSegments(def, locale).flat();
+}
+
+/**
+ * The definition as seen in `locale` (a tag or a preference list): `title`, `description` and `system` come from
+ * the first locale in `agentLocaleChain()` that sets them, else from the unlocalized definition. Localized `rules`
+ * add up like `extends` rules along the chain of the first requested tag that has any, least specific first (`de`,
+ * then `de-CH`); the unlocalized rules are used when there are none. A `system` that fell back to the
+ * description/title follows the localized description/title. The result has no `locales` / `defaultLocale`.
+ */
+export function resolveAgentLocale(def: AgentDefinition, locale: string | string[]): AgentDefinition {
+  const segments = localeChainSegments(def, locale).map((tags) => tags.map((tag) => def.locales![tag]!));
+  const chain = segments.flat();
+  const pick = (field: Exclude<keyof AgentLocalization, "fallback">): string | undefined =>
+    chain.find((l) => l[field] !== undefined)?.[field];
+
+  const { locales: _locales, defaultLocale: _defaultLocale, ...rest } = def;
+  const title = pick("title") ?? def.title;
+  const description = pick("description") ?? def.description;
+  const systemIsFallback = def.system === (def.description || def.title);
+  const system = pick("system") ?? (systemIsFallback ? description || title : def.system);
+  const localizedRules = segments
+    .map((segment) => segment.flatMap((l) => (l.rules ? [l.rules] : [])).reverse())
+    .find((r) => r.length);
+  const rules = localizedRules ? localizedRules.join("\n\n") : def.rules;
+  return { ...rest, title, description, system, rules };
+}
@@ -0,0 +1,57 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { resolveAgentSources } from "./compile-agents.js";
+import {
+  migrateAgentTemplate,
+  type AgentTemplateMigrationChange,
+  type MigrateAgentTemplateOptions,
+  type MigratedAgentTemplate,
+} from "./migrations.js";
+
+export type AgentMigrateFileResult = {
+  /** POSIX path relative to `cwd`. */
+  file: string;
+  from?: number;
+  to?: number;
+  changes: AgentTemplateMigrationChange[];
+  /** The template is older than the target version (it would be, or was, rewritten). */
+  outdated: boolean;
+  /** The file was rewritten (`write`). */
+  written?: boolean;
+  /** Why the template could not be migrated (e.g. invalid YAML or an unsupported version). */
+  error?: string;
+};
+
+export type MigrateAgentFilesOptions = MigrateAgentTemplateOptions & {
+  cwd?: string;
+  /** Rewrite outdated templates in place. */
+  write?: boolean;
+};
+
+/** Migrate every `*.agent.md` matched by `inputs` (directories, files or globs); see `migrateAgentTemplate()`. */
+export async function migrateAgentFiles(
+  inputs: string[],
+  opts: MigrateAgentFilesOptions = {},
+): Promise<AgentMigrateFileResult[]> {
+  const cwd = opts.cwd ?? process.cwd();
+  const files = await resolveAgentSources(inputs, cwd);
+  if (!files.length) throw new Error(`No *.agent.md files matched: ${inputs.join(", ")}`);
+
+  const results: AgentMigrateFileResult[] = [];
+  for (const abs of files) {
+    const file = path.relative(cwd, abs).split(path.sep).join("/");
+    const raw = await fs.readFile(abs, "utf8");
+    let migrated: MigratedAgentTemplate;
+    try {
+      migrated = migrateAgentTemplate(raw, opts);
+    } catch (e) {
+      results.push({ file, changes: [], outdated: false, error: e instanceof Error ? e.message : String(e) });
+      continue;
+    }
+    const { from, to, changes, text } = migrated;
+    const outdated = text !== raw;
+    if (outdated && opts.write) await fs.writeFile(abs, text, "utf8");
+    results.push({ file, from, to, changes, outdated, ...(outdated && opts.write ? { written: true } : {}) });
+  }
+  return results;
+}
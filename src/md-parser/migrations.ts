@@ -0,0 +1,206 @@
+import matter from "gray-matter";
+import YAML, { isMap, isNode, isScalar, isSeq } from "yaml";
+import { AgentTemplateIssue, type FrontmatterPath } from "./diagnostics.js";
+
+/**
+ * Version of the `.agent.md` format written by this release. Templates without `schemaVersion` are version 1; those
+ * no migration changes count as current (see `isAgentFrontmatterOutdated()`).
+ */
+export const AGENT_SCHEMA_VERSION = 2;
+
+export type AgentTemplateMigrationChange = {
+  /** Frontmatter path as written in the migrated template (before the change). */
+  path: FrontmatterPath;
+  message: string;
+};
+
+export type AgentTemplateMigration = {
+  /** The migration upgrades templates at `from` to `from + 1`. */
+  from: number;
+  description: string;
+  /** Upgrades `frontmatter` in place and returns what changed. */
+  up: (frontmatter: Record<string, unknown>) => AgentTemplateMigrationChange[];
+};
+
+export type MigrateAgentTemplateOptions = {
+  /** Default: `AGENT_TEMPLATE_MIGRATIONS`. */
+  migrations?: readonly AgentTemplateMigration[];
+  /** Default: `AGENT_SCHEMA_VERSION`. */
+  to?: number;
+};
+
+export type MigratedAgentFrontmatter = {
+  frontmatter: Record<string, unknown>;
+  from: number;
+  to: number;
+  changes: AgentTemplateMigrationChange[];
+};
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function findKey(obj: Record<string, unknown>, key: string): string | undefined {
+  const lc = key.toLowerCase();
+  return Object.keys(obj).find((k) => k.toLowerCase() === lc);
+}
+
+/**
+ * Rename the first of `legacy` keys found in `obj` to `key`, keeping its position. Nothing happens when `key` is
+ * already set (the legacy key stays and keeps being ignored).
+ */
+function renameKey(
+  obj: Record<string, unknown>,
+  legacy: string[],
+  key: string,
+  at: FrontmatterPath,
+): AgentTemplateMigrationChange[] {
+  const from = legacy.map((k) => findKey(obj, k)).find((k) => k !== undefined);
+  if (from === undefined || findKey(obj, key) !== undefined) return [];
+  const entries = Object.entries(obj).map(([k, v]): [string, unknown] => [k === from ? key : k, v]);
+  for (const k of Object.keys(obj)) delete obj[k];
+  Object.assign(obj, Object.fromEntries(entries));
+  return [{ path: [...at, from], message: `'${from}' was renamed to '${key}'.` }];
+}
+
+/**
+ * Registered format upgrades, one per version step. Migrations only touch frontmatter; Markdown sections are
+ * stable across versions so far.
+ */
+export const AGENT_TEMPLATE_MIGRATIONS: readonly AgentTemplateMigration[] = [
+  {
+    from: 1,
+    description: "Use the current spellings of keys that early templates wrote in snake_case or camelCase.",
+    up: (fm) => {
+      const changes = [
+        ...renameKey(fm, ["mcp_servers", "mcp-servers", "mcp"], "mcpServers", []),
+        ...renameKey(fm, ["input_schema"], "inputSchema", []),
+        ...renameKey(fm, ["template_engine"], "templateEngine", []),
+      ];
+      const commandsKey = findKey(fm, "commands");
+      const commands = commandsKey !== undefined ? fm[commandsKey] : undefined;
+      if (Array.isArray(commands)) {
+        commands.forEach((cmd, i) => {
+          if (!isPlainObject(cmd)) return;
+          const at = [commandsKey!, i];
+          changes.push(
+            ...renameKey(cmd, ["allowedTools", "allowed_tools"], "allowed-tools", at),
+            ...renameKey(cmd, ["argumentHint", "argument_hint"], "argument-hint", at),
+          );
+        });
+      }
+      return changes;
+    },
+  },
+];
+
+/**
+ * Upgrade template frontmatter to version `to` by running the registered migrations in order, and set
+ * `schemaVersion` (first key). `frontmatter` is not modified.
+ *
+ * Throws `AgentTemplateIssue` (`SCHEMA.UNSUPPORTED_VERSION`) for versions newer than `to` or without a migration
+ * path; `schemaVersion` itself must already be a positive integer (or absent).
+ */
+export function migrateAgentFrontmatter(
+  frontmatter: Record<string, unknown>,
+  opts: MigrateAgentTemplateOptions = {},
+): MigratedAgentFrontmatter {
+  const migrations = opts.migrations ?? AGENT_TEMPLATE_MIGRATIONS;
+  const to = opts.to ?? AGENT_SCHEMA_VERSION;
+  const versionKey = findKey(frontmatter, "schemaVersion");
+  const from = versionKey !== undefined ? Number(frontmatter[versionKey]) : 1;
+  if (from > to) {
+    throw new AgentTemplateIssue(
+      "SCHEMA.UNSUPPORTED_VERSION",
+      `Template schemaVersion ${from} is newer than this version of tempybot supports (${to}).`,
+      { path: ["schemaVersion"] },
+    );
+  }
+
+  const { [versionKey ?? "schemaVersion"]: _version, ...rest } = structuredClone(frontmatter);
+  const changes: AgentTemplateMigrationChange[] = [];
+  for (let v = from; v < to; v++) {
+    const migration = migrations.find((m) => m.from === v);
+    if (!migration) {
+      throw new AgentTemplateIssue(
+        "SCHEMA.UNSUPPORTED_VERSION",
+        `No migration from schemaVersion ${v} to ${v + 1}.`,
+        { path: ["schemaVersion"] },
+      );
+    }
+    changes.push(...migration.up(rest));
+  }
+  return { frontmatter: { schemaVersion: to, ...rest }, from, to, changes };
+}
+
+/**
+ * Whether a migration result means the template should be upgraded: a migration changed something, or the template
+ * declares an older `schemaVersion`. A template without `schemaVersion` that needs no change is current.
+ */
+export function isAgentFrontmatterOutdated(
+  frontmatter: Record<string, unknown>,
+  migrated: Omit<MigratedAgentFrontmatter, "frontmatter">,
+): boolean {
+  if (migrated.changes.length) return true;
+  return findKey(frontmatter, "schemaVersion") !== undefined && migrated.from < migrated.to;
+}
+
+/**
+ * Make a frontmatter node hold `value`, editing it in place so comments survive: map keys keep their pairs (a key
+ * the migration dropped lends its pair to the next key it added, which is how renames arrive), sequences of the same
+ * length are updated item by item, and only values that changed are replaced.
+ */
+function syncNode(doc: YAML.Document, node: unknown, value: unknown): unknown {
+  if (isMap(node) && isPlainObject(value)) {
+    const keyOf = (p: (typeof node.items)[number]) => (isScalar(p.key) ? String(p.key.value) : undefined);
+    const wanted = Object.keys(value);
+    const stale = node.items.filter((p) => isScalar(p.key) && !wanted.includes(keyOf(p)!));
+    node.items = wanted.map((key) => {
+      const pair = node.items.find((p) => keyOf(p) === key) ?? stale.shift();
+      if (!pair) return doc.createPair(key, value[key]);
+      if (isScalar(pair.key)) pair.key.value = key;
+      pair.value = syncNode(doc, pair.value, value[key]);
+      return pair;
+    });
+    return node;
+  }
+  if (isSeq(node) && Array.isArray(value) && node.items.length === value.length) {
+    node.items = node.items.map((item, i) => syncNode(doc, item, value[i]));
+    return node;
+  }
+  const current = isNode(node) ? node.toJS(doc) : (node ?? null);
+  return JSON.stringify(current) === JSON.stringify(value) ? node : doc.createNode(value);
+}
+
+export type MigratedAgentTemplate = Omit<MigratedAgentFrontmatter, "frontmatter"> & {
+  /** The upgraded template; equals the input when it was not outdated (see `isAgentFrontmatterOutdated()`). */
+  text: string;
+};
+
+/**
+ * Upgrade a `.agent.md` template (see `migrateAgentFrontmatter()`). The Markdown body is kept as-is; in the
+ * frontmatter only what the migrations changed and `schemaVersion` are rewritten, comments and layout are kept.
+ */
+export function migrateAgentTemplate(raw: string, opts: MigrateAgentTemplateOptions = {}): MigratedAgentTemplate {
+  const parsed = matter(raw, { engines: { yaml: (s) => YAML.parse(s) } });
+  const data = isPlainObject(parsed.data) ? parsed.data : {};
+  const { frontmatter, ...result } = migrateAgentFrontmatter(data, opts);
+  if (!isAgentFrontmatterOutdated(data, result)) return { text: raw, ...result };
+
+  if (!result.changes.length) {
+    const versionLine = `schemaVersion: ${result.to}`;
+    const lines = parsed.matter.replace(/^\r?\n/, "").split("\n");
+    const kept = lines.filter((l) => !/^schemaVersion\s*:/i.test(l));
+    return { text: `---\n${[versionLine, ...kept].join("\n")}\n---\n${parsed.content}`, ...result };
+  }
+  const doc: YAML.Document = YAML.parseDocument(parsed.matter.replace(/^\r?\n/, ""));
+  const { schemaVersion, ...rest } = frontmatter;
+  const versionKey = findKey(data, "schemaVersion");
+  if (versionKey !== undefined) doc.delete(versionKey);
+  doc.contents = syncNode(doc, doc.contents, rest) as typeof doc.contents;
+  if (isMap(doc.contents)) doc.contents.items.unshift(doc.createPair("schemaVersion", schemaVersion));
+  return {
+    text: `---\n${doc.toString({ lineWidth: 0, flowCollectionPadding: false })}---\n${parsed.content}`,
+    ...result,
+  };
+}
@@ -1,4 +1,5 @@
 import fs from "node:fs/promises";
+import path from "node:path";
 import matter from "gray-matter";
 import { unified } from "unified";
 import remarkParse from "remark-parse";
@@ -6,8 +7,43 @@ import remarkFrontmatter from "remark-frontmatter";
 import { toString } from "mdast-util-to-string";
 import YAML from "yaml";
 import type { Root, Content, Heading, Paragraph } from "mdast";
-import type { AgentAbilities, AgentCommand, AgentDefinition, AgentStatus, McpServersConfig } from "./types.js";
+import type { z } from "zod";
+import type {
+  AgentCommand,
+  AgentDefinition,
+  AgentDiagnostic,
+  AgentInheritance,
+  AgentLocalization,
+  AgentTemplateResult,
+  AgentToolManifestEntry,
+  AgentToolPermission,
+  ParseAgentMdOptions,
+} from "./types.js";
 import { AGENT_DEFINITION_DEFAULTS } from "./types.js";
+import {
+  AgentDiagnosticsCollector,
+  AgentTemplateError,
+  AgentTemplateIssue,
+  invalidFrontmatter,
+} from "./diagnostics.js";
+import { parseAllowedTools } from "./allowed-tools.js";
+import { extractToolsManifest } from "./tools-manifest.js";
+import { canonicalLocale } from "./locales.js";
+import { isAgentFrontmatterOutdated, migrateAgentFrontmatter } from "./migrations.js";
+import { mergeAgentLayers, resolveExtendsPath, type AgentDefinitionLayer } from "./extends.js";
+import {
+  defaultTemplatesRoot,
+  expandIncludes,
+  findIncludeDirectives,
+  mapIncludedRange,
+  type ExpandedTemplate,
+} from "./includes.js";
+import {
+  agentArgumentHintSchema,
+  agentFrontmatterFields,
+  primarySchemaIssue,
+  type AgentFrontmatterKey,
+} from "./schema.js";
 
 type Frontmatter = Record<string, unknown>;
 
@@ -31,326 +67,14 @@ function isNonEmptyString(v: unknown): v is string {
   return typeof v === "string" && v.trim().length > 0;
 }
 
-function isHttpUrl(s: string): boolean {
+async function fileExists(p: string): Promise<boolean> {
   try {
-    const u = new URL(s);
-    return u.protocol === "http:" || u.protocol === "https:";
+    return (await fs.stat(p)).isFile();
   } catch {
     return false;
   }
 }
 
-function isLocalPathRef(s: string): boolean {
-  // Policy examples use explicit relative paths (./...) and may also reference absolute paths.
-  return s.startsWith("./") || s.startsWith("../") || s.startsWith("/");
-}
-
-function findMatchingClosingBrace(js: string, openBraceIdx: number): number | undefined {
-  if (openBraceIdx < 0 || openBraceIdx >= js.length) return undefined;
-  if (js[openBraceIdx] !== "{") return undefined;
-
-  let depth = 0;
-  let inSingle = false;
-  let inDouble = false;
-  let inTemplate = false;
-  let inLineComment = false;
-  let inBlockComment = false;
-  let escape = false;
-
-  for (let i = openBraceIdx; i < js.length; i++) {
-    const ch = js[i]!;
-    const next = js[i + 1];
-
-    if (inLineComment) {
-      if (ch === "\n") inLineComment = false;
-      continue;
-    }
-    if (inBlockComment) {
-      if (ch === "*" && next === "/") {
-        inBlockComment = false;
-        i++;
-      }
-      continue;
-    }
-
-    if (inSingle) {
-      if (!escape && ch === "'") inSingle = false;
-      escape = !escape && ch === "\\";
-      continue;
-    }
-    if (inDouble) {
-      if (!escape && ch === '"') inDouble = false;
-      escape = !escape && ch === "\\";
-      continue;
-    }
-    if (inTemplate) {
-      if (!escape && ch === "`") inTemplate = false;
-      escape = !escape && ch === "\\";
-      continue;
-    }
-
-    escape = false;
-
-    if (ch === "/" && next === "/") {
-      inLineComment = true;
-      i++;
-      continue;
-    }
-    if (ch === "/" && next === "*") {
-      inBlockComment = true;
-      i++;
-      continue;
-    }
-    if (ch === "'") {
-      inSingle = true;
-      continue;
-    }
-    if (ch === '"') {
-      inDouble = true;
-      continue;
-    }
-    if (ch === "`") {
-      inTemplate = true;
-      continue;
-    }
-
-    if (ch === "{") depth++;
-    if (ch === "}") {
-      depth--;
-      if (depth === 0) return i;
-    }
-  }
-
-  return undefined;
-}
-
-function skipWhitespace(js: string, start: number): number {
-  let i = start;
-  while (i < js.length && /\s/.test(js[i]!)) i++;
-  return i;
-}
-
-function extractTopLevelObjectKeys(objectLiteralWithBraces: string): string[] {
-  const out: string[] = [];
-  const seen = new Set<string>();
-  const js = objectLiteralWithBraces;
-  if (!js.startsWith("{") || !js.endsWith("}")) return out;
-
-  let i = 1; // inside outer { ... }
-  let braceDepth = 0;
-  let bracketDepth = 0;
-  let parenDepth = 0;
-
-  let inSingle = false;
-  let inDouble = false;
-  let inTemplate = false;
-  let inLineComment = false;
-  let inBlockComment = false;
-  let escape = false;
-
-  function addKey(rawKey: string) {
-    const key = rawKey.trim();
-    const keyLc = key.toLowerCase();
-    if (!key) return;
-    if (seen.has(keyLc)) return;
-    seen.add(keyLc);
-    out.push(key);
-  }
-
-  function readStringLiteral(quote: "'" | '"'): { value: string; end: number } | undefined {
-    let j = i + 1;
-    let val = "";
-    let esc = false;
-    while (j < js.length) {
-      const c = js[j]!;
-      if (!esc && c === quote) return { value: val, end: j + 1 };
-      if (!esc && c === "\\") {
-        esc = true;
-        j++;
-        continue;
-      }
-      esc = false;
-      val += c;
-      j++;
-    }
-    return undefined;
-  }
-
-  function readIdentifier(): { value: string; end: number } | undefined {
-    const start = i;
-    let j = i;
-    const first = js[j];
-    if (!first || !/[A-Za-z_$]/.test(first)) return undefined;
-    j++;
-    while (j < js.length && /[A-Za-z0-9_$]/.test(js[j]!)) j++;
-    return { value: js.slice(start, j), end: j };
-  }
-
-  while (i < js.length - 1) {
-    const ch = js[i]!;
-    const next = js[i + 1];
-
-    if (inLineComment) {
-      if (ch === "\n") inLineComment = false;
-      i++;
-      continue;
-    }
-    if (inBlockComment) {
-      if (ch === "*" && next === "/") {
-        inBlockComment = false;
-        i += 2;
-        continue;
-      }
-      i++;
-      continue;
-    }
-
-    if (inSingle) {
-      if (!escape && ch === "'") inSingle = false;
-      escape = !escape && ch === "\\";
-      i++;
-      continue;
-    }
-    if (inDouble) {
-      if (!escape && ch === '"') inDouble = false;
-      escape = !escape && ch === "\\";
-      i++;
-      continue;
-    }
-    if (inTemplate) {
-      if (!escape && ch === "`") inTemplate = false;
-      escape = !escape && ch === "\\";
-      i++;
-      continue;
-    }
-
-    escape = false;
-
-    if (ch === "/" && next === "/") {
-      inLineComment = true;
-      i += 2;
-      continue;
-    }
-    if (ch === "/" && next === "*") {
-      inBlockComment = true;
-      i += 2;
-      continue;
-    }
-    if (ch === "'") {
-      inSingle = true;
-      i++;
-      continue;
-    }
-    if (ch === '"') {
-      inDouble = true;
-      i++;
-      continue;
-    }
-    if (ch === "`") {
-      inTemplate = true;
-      i++;
-      continue;
-    }
-
-    if (ch === "{") {
-      braceDepth++;
-      i++;
-      continue;
-    }
-    if (ch === "}") {
-      braceDepth = Math.max(0, braceDepth - 1);
-      i++;
-      continue;
-    }
-    if (ch === "[") {
-      bracketDepth++;
-      i++;
-      continue;
-    }
-    if (ch === "]") {
-      bracketDepth = Math.max(0, bracketDepth - 1);
-      i++;
-      continue;
-    }
-    if (ch === "(") {
-      parenDepth++;
-      i++;
-      continue;
-    }
-    if (ch === ")") {
-      parenDepth = Math.max(0, parenDepth - 1);
-      i++;
-      continue;
-    }
-
-    // Only consider top-level properties of the outer object.
-    if (braceDepth === 0 && bracketDepth === 0 && parenDepth === 0) {
-      // skip separators / whitespace
-      if (ch === "," || /\s/.test(ch)) {
-        i++;
-        continue;
-      }
-
-      if (ch === "'" || ch === '"') {
-        const parsed = readStringLiteral(ch);
-        if (!parsed) break;
-        const after = skipWhitespace(js, parsed.end);
-        if (js[after] === ":") addKey(parsed.value);
-        i = parsed.end;
-        continue;
-      }
-
-      const ident = readIdentifier();
-      if (ident) {
-        const after = skipWhitespace(js, ident.end);
-        if (js[after] === ":") addKey(ident.value);
-        i = ident.end;
-        continue;
-      }
-    }
-
-    i++;
-  }
-
-  return out;
-}
-
-function extractToolNamesFromToolsSource(toolsSource: string): string[] {
-  const s = toolsSource.trim();
-  if (!s) return [];
-
-  // Prefer the first return statement; policy expects tools code "must return an object".
-  const returnMatch = s.match(/\breturn\s+([^;]+);?/m);
-  if (!returnMatch) return [];
-
-  const returnExpr = returnMatch[1]!.trim();
-
-  let objectStartIdx: number | undefined;
-  let js = s;
-
-  if (returnExpr.startsWith("{")) {
-    const absoluteIdx = s.indexOf("{", returnMatch.index ?? 0);
-    objectStartIdx = absoluteIdx >= 0 ? absoluteIdx : undefined;
-  } else {
-    const idMatch = returnExpr.match(/^[A-Za-z_$][A-Za-z0-9_$]*$/);
-    if (!idMatch) return [];
-    const id = idMatch[0]!;
-
-    const declRe = new RegExp(String.raw`\b(?:const|let|var)\s+${id}\s*=\s*\{`, "m");
-    const assignRe = new RegExp(String.raw`\b${id}\s*=\s*\{`, "m");
-    const m = s.match(declRe) ?? s.match(assignRe);
-    if (!m || m.index === undefined) return [];
-    const idx = s.indexOf("{", m.index);
-    objectStartIdx = idx >= 0 ? idx : undefined;
-  }
-
-  if (objectStartIdx === undefined) return [];
-  const closeIdx = findMatchingClosingBrace(js, objectStartIdx);
-  if (closeIdx === undefined) return [];
-  const objLiteral = js.slice(objectStartIdx, closeIdx + 1).trim();
-  return extractTopLevelObjectKeys(objLiteral);
-}
-
 function lowercaseKeysDeep(v: unknown): unknown {
   if (Array.isArray(v)) return v.map((x) => lowercaseKeysDeep(x));
   if (!isPlainObject(v)) return v;
@@ -361,251 +85,18 @@ function lowercaseKeysDeep(v: unknown): unknown {
   return out;
 }
 
-function getString(v: unknown): string | undefined {
-  if (typeof v === "string") return v;
-  return undefined;
-}
-
-function getStringStrict(opts: { key: string; v: unknown; allowEmpty?: boolean }): string | undefined {
-  const { key, v, allowEmpty = false } = opts;
-  if (v === undefined) return undefined;
-  if (typeof v !== "string") {
-    throw new Error(`Invalid frontmatter '${key}': expected a string.`);
-  }
-  if (!allowEmpty && v.trim().length === 0) {
-    throw new Error(`Invalid frontmatter '${key}': must be a non-empty string.`);
-  }
-  return v;
-}
-
-function getStatusStrict(v: unknown): AgentStatus | undefined {
-  if (v === undefined) return undefined;
-  if (typeof v !== "string") {
-    throw new Error(`Invalid frontmatter 'status': expected a string (active | deprecated | disabled).`);
-  }
-  const s = v.toLowerCase().trim();
-  if (s === "active" || s === "deprecated" || s === "disabled") return s;
-  throw new Error(`Invalid frontmatter 'status': '${v}'. Expected active | deprecated | disabled.`);
-}
-
-function getCommandsStrict(v: unknown): AgentCommand[] | undefined {
-  if (v === undefined) return undefined;
-  if (!Array.isArray(v)) {
-    throw new Error(`Invalid frontmatter 'commands': expected an array of strings or inline command objects.`);
-  }
-  if (v.length === 0) {
-    throw new Error(`Invalid frontmatter 'commands': must not be an empty array (omit it or provide entries).`);
-  }
-
-  const out: AgentCommand[] = [];
-  for (let i = 0; i < v.length; i++) {
-    const item = v[i];
-    if (typeof item === "string") {
-      const s = item.trim();
-      if (s.length === 0) {
-        throw new Error(`Invalid frontmatter 'commands[${i}]': string must be non-empty.`);
-      }
-      if (!isLocalPathRef(s) && !isHttpUrl(s)) {
-        throw new Error(
-          `Invalid frontmatter 'commands[${i}]': expected a local path (./, ../, /) or an http(s) URL.`,
-        );
-      }
-      out.push(s);
-      continue;
-    }
-    if (!isPlainObject(item)) {
-      throw new Error(`Invalid frontmatter 'commands[${i}]': expected a string or an object.`);
-    }
-
-    const name = item.name;
-    const description = item.description;
-    const body = item.body;
-    if (!isNonEmptyString(name)) {
-      throw new Error(`Invalid frontmatter 'commands[${i}].name': expected a non-empty string.`);
-    }
-    if (!isNonEmptyString(description)) {
-      throw new Error(`Invalid frontmatter 'commands[${i}].description': expected a non-empty string.`);
-    }
-    if (!isNonEmptyString(body)) {
-      throw new Error(`Invalid frontmatter 'commands[${i}].body': expected a non-empty string.`);
-    }
-
-    const argumentHint = item["argument-hint"];
-    if (argumentHint !== undefined) {
-      if (typeof argumentHint === "string") {
-        if (argumentHint.trim().length === 0) {
-          throw new Error(`Invalid frontmatter 'commands[${i}].argument-hint': must be non-empty if provided.`);
-        }
-      } else if (Array.isArray(argumentHint)) {
-        if (argumentHint.some((x) => typeof x !== "string" || x.trim().length === 0)) {
-          throw new Error(
-            `Invalid frontmatter 'commands[${i}].argument-hint': expected string[] of non-empty strings.`,
-          );
-        }
-      } else {
-        throw new Error(`Invalid frontmatter 'commands[${i}].argument-hint': expected a string or string[].`);
-      }
-    }
-
-    out.push(item as AgentCommand);
-  }
-  return out;
-}
-
-function getMcpServersStrict(v: unknown): McpServersConfig | undefined {
-  if (v === undefined) return undefined;
-  if (!isPlainObject(v)) {
-    throw new Error(`Invalid frontmatter 'mcpServers': expected an object.`);
-  }
-
-  const out: McpServersConfig = {};
-  for (const [serverName, serverValue] of Object.entries(v)) {
-    if (serverName.trim().length === 0) {
-      throw new Error(`Invalid frontmatter 'mcpServers': server name must be non-empty.`);
-    }
-    if (!isPlainObject(serverValue)) {
-      throw new Error(`Invalid frontmatter 'mcpServers.${serverName}': expected an object.`);
-    }
-
-    const command = getStringStrict({
-      key: `mcpServers.${serverName}.command`,
-      v: (serverValue as Record<string, unknown>).command,
-    });
-    if (!command) {
-      throw new Error(`Invalid frontmatter 'mcpServers.${serverName}.command': must be a non-empty string.`);
-    }
-
-    const rawArgs = (serverValue as Record<string, unknown>).args;
-    let args: string[] | undefined;
-    if (rawArgs !== undefined) {
-      if (!Array.isArray(rawArgs)) {
-        throw new Error(`Invalid frontmatter 'mcpServers.${serverName}.args': expected an array of strings.`);
-      }
-      for (let i = 0; i < rawArgs.length; i++) {
-        const item = rawArgs[i];
-        if (typeof item !== "string" || item.trim().length === 0) {
-          throw new Error(`Invalid frontmatter 'mcpServers.${serverName}.args[${i}]': expected a non-empty string.`);
-        }
-      }
-      args = rawArgs.map((x) => (x as string).trim());
-    }
-
-    const rawEnv = (serverValue as Record<string, unknown>).env;
-    let env: Record<string, string> | undefined;
-    if (rawEnv !== undefined) {
-      if (!isPlainObject(rawEnv)) {
-        throw new Error(`Invalid frontmatter 'mcpServers.${serverName}.env': expected an object of strings.`);
-      }
-      env = {};
-      for (const [k, val] of Object.entries(rawEnv)) {
-        if (k.trim().length === 0) {
-          throw new Error(`Invalid frontmatter 'mcpServers.${serverName}.env': keys must be non-empty strings.`);
-        }
-        if (typeof val !== "string") {
-          throw new Error(`Invalid frontmatter 'mcpServers.${serverName}.env.${k}': expected a string.`);
-        }
-        env[k] = val;
-      }
-    }
-
-    const cwd = getStringStrict({
-      key: `mcpServers.${serverName}.cwd`,
-      v: (serverValue as Record<string, unknown>).cwd,
-    });
-
-    out[serverName] = {
-      command,
-      ...(args !== undefined ? { args } : {}),
-      ...(env !== undefined ? { env } : {}),
-      ...(cwd !== undefined ? { cwd } : {}),
-    };
-  }
-
-  return out;
-}
-
-function normalizeAbility(raw: string): string {
-  return raw.trim().toLowerCase();
-}
-
-function validateAbilitiesList(kind: "allow" | "deny", v: unknown): string[] | undefined {
-  if (v === undefined) return undefined;
-  if (!Array.isArray(v)) {
-    throw new Error(`Invalid frontmatter 'abilities.${kind}': expected an array of strings.`);
-  }
-  if (v.length === 0) {
-    throw new Error(`Invalid frontmatter 'abilities.${kind}': must not be an empty array (omit it or provide entries).`);
-  }
-
-  const allowedBase = new Set(["fs", "network", "sh", "tool", "mcp", "browser", "env"]);
-  const out: string[] = [];
-  const seen = new Set<string>();
-
-  for (let i = 0; i < v.length; i++) {
-    const item = v[i];
-    if (typeof item !== "string" || item.trim().length === 0) {
-      throw new Error(`Invalid frontmatter 'abilities.${kind}[${i}]': expected a non-empty string.`);
-    }
-    const a = normalizeAbility(item);
-
-    if (a.startsWith("sh:")) {
-      const cmd = a.slice("sh:".length).trim();
-      if (!cmd) {
-        throw new Error(
-          `Invalid frontmatter 'abilities.${kind}[${i}]': scoped ability must be in the form 'sh:<command>'.`,
-        );
-      }
-      if (/\s/.test(cmd)) {
-        throw new Error(
-          `Invalid frontmatter 'abilities.${kind}[${i}]': scoped command must not contain whitespace (got '${item}').`,
-        );
-      }
-    } else if (!allowedBase.has(a)) {
-      throw new Error(
-        `Invalid frontmatter 'abilities.${kind}[${i}]': unknown ability '${item}'. ` +
-          `Allowed: ${Array.from(allowedBase).join(", ")} (and scoped 'sh:<command>').`,
-      );
-    }
-
-    if (!seen.has(a)) {
-      seen.add(a);
-      out.push(a);
-    }
-  }
-
-  return out;
-}
-
-function getAbilitiesStrict(v: unknown): AgentAbilities | undefined {
-  if (v === undefined) return undefined;
-
-  // Accept a shorthand list as "allow".
-  if (Array.isArray(v)) {
-    const allow = validateAbilitiesList("allow", v) ?? undefined;
-    return allow ? { allow } : undefined;
-  }
-
-  if (!isPlainObject(v)) {
-    throw new Error(`Invalid frontmatter 'abilities': expected an object or an array of strings.`);
-  }
-
-  const allow = validateAbilitiesList("allow", (v as Record<string, unknown>).allow);
-  const deny = validateAbilitiesList("deny", (v as Record<string, unknown>).deny);
-
-  if (!allow && !deny) {
-    throw new Error(`Invalid frontmatter 'abilities': must include 'allow' and/or 'deny'.`);
-  }
-
-  if (allow && deny) {
-    const overlap = allow.filter((a) => deny.includes(a));
-    if (overlap.length) {
-      throw new Error(
-        `Invalid frontmatter 'abilities': allow/deny overlap is not allowed (${overlap.join(", ")}).`,
-      );
-    }
-  }
-
-  return { allow: allow ?? undefined, deny: deny ?? undefined };
+/**
+ * Validate a single frontmatter key against its schema (see `./schema.ts`).
+ * The first schema issue becomes an `Invalid frontmatter '<key.path>': <detail>` problem.
+ */
+function parseFrontmatterField<K extends AgentFrontmatterKey>(
+  key: K,
+  v: unknown,
+): z.output<(typeof agentFrontmatterFields)[K]> {
+  const res = agentFrontmatterFields[key].safeParse(v);
+  if (res.success) return res.data as z.output<(typeof agentFrontmatterFields)[K]>;
+  const issue = primarySchemaIssue(res.error.issues);
+  throw invalidFrontmatter([key, ...issue.path], issue.message);
 }
 
 type SectionName = "system" | "rules" | "tools";
@@ -673,7 +164,41 @@ function extractNamedSections(content: string, tree: Root): Record<SectionName,
   return out;
 }
 
-function extractCommandsFromMarkdown(content: string): AgentCommand[] {
+type LocalizedSection = {
+  field: "system" | "rules";
+  /** Locale as written in the heading. */
+  tag: string;
+  text: string;
+  /** Heading span (relative to the Markdown content). */
+  span: { start: number; end: number };
+};
+
+const LOCALIZED_HEADING_RE = /^(system|rules)\s*\(\s*([^()]*?)\s*\)$/i;
+
+/** `## System (<locale>)` / `## Rules (<locale>)` sections, in document order. */
+function extractLocalizedSections(content: string, tree: Root): LocalizedSection[] {
+  const rootChildren = Array.isArray(tree.children) ? tree.children : [];
+  const out: LocalizedSection[] = [];
+  rootChildren.forEach((node, idx) => {
+    if (!isHeading(node) || node.depth !== 2) return;
+    const m = toString(node).trim().match(LOCALIZED_HEADING_RE);
+    if (!m) return;
+
+    const headingEnd = node.position?.end?.offset;
+    const startOffset = headingEnd === undefined ? 0 : advanceToNextLine(content, headingEnd);
+    const next = rootChildren.find((n, i) => i > idx && isHeading(n) && n.depth <= 2);
+    const endOffset = next?.position?.start?.offset ?? content.length;
+    out.push({
+      field: m[1]!.toLowerCase() as LocalizedSection["field"],
+      tag: m[2]!,
+      text: extractSectionContentByOffsets(content, startOffset, endOffset),
+      span: { start: node.position?.start?.offset ?? 0, end: headingEnd ?? 0 },
+    });
+  });
+  return out;
+}
+
+function extractCommandsFromMarkdown(content: string, report: (issue: AgentTemplateIssue) => void): AgentCommand[] {
   const lines = content.split(/\r?\n/);
   const lineStartOffsets: number[] = [];
   {
@@ -751,21 +276,11 @@ function extractCommandsFromMarkdown(content: string): AgentCommand[] {
     return { data: parsed, body };
   }
 
-  const out: AgentCommand[] = [];
-
-  for (let i = 0; i < commandLineIdxs.length; i++) {
-    const { idx: cmdLineIdx, name } = commandLineIdxs[i]!;
+  function parseCommandBlock(name: string, rawBlock: string): AgentCommand {
     if (!name) {
       throw new Error(`Invalid command heading under '## Commands': name must be non-empty.`);
     }
 
-    const cmdStartOffset = (lineStartOffsets[cmdLineIdx] ?? 0) + lines[cmdLineIdx]!.length + 1;
-    const nextCmdLineIdx = commandLineIdxs[i + 1]?.idx;
-    const cmdEndOffset =
-      nextCmdLineIdx !== undefined ? lineStartOffsets[nextCmdLineIdx]! : sectionEndOffset;
-
-    const rawBlock = content.slice(cmdStartOffset, cmdEndOffset);
-
     let parsedData: Record<string, unknown>;
     let bodyAfterFrontmatter: string;
     try {
@@ -778,26 +293,24 @@ function extractCommandsFromMarkdown(content: string): AgentCommand[] {
     }
 
     const fm = lowercaseKeysDeep(parsedData) as Record<string, unknown>;
-    const description = getStringStrict({ key: "description", v: fm.description });
+    const description = typeof fm.description === "string" ? fm.description.trim() : undefined;
 
     if (!description) {
       throw new Error(`Invalid command '${name}': missing required frontmatter 'description'.`);
     }
 
-    const argumentHint = (fm as Record<string, unknown>)["argument-hint"];
-    if (argumentHint !== undefined) {
-      if (typeof argumentHint === "string") {
-        if (argumentHint.trim().length === 0) {
-          throw new Error(`Invalid command '${name}': frontmatter 'argument-hint' must be non-empty if provided.`);
-        }
-      } else if (Array.isArray(argumentHint)) {
-        if (argumentHint.some((x) => typeof x !== "string" || x.trim().length === 0)) {
-          throw new Error(
-            `Invalid command '${name}': frontmatter 'argument-hint' expected string[] of non-empty strings.`,
-          );
-        }
-      } else {
-        throw new Error(`Invalid command '${name}': frontmatter 'argument-hint' expected a string or string[].`);
+    const argumentHint = agentArgumentHintSchema.optional().safeParse(fm["argument-hint"]);
+    if (!argumentHint.success) {
+      throw new Error(`Invalid command '${name}': frontmatter 'argument-hint' ${primarySchemaIssue(argumentHint.error.issues).message}`);
+    }
+
+    let allowedTools: AgentToolPermission[] | undefined;
+    if (fm["allowed-tools"] !== undefined) {
+      try {
+        allowedTools = parseAllowedTools(fm["allowed-tools"]);
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        throw new Error(`Invalid command '${name}': frontmatter 'allowed-tools' ${msg}`);
       }
     }
 
@@ -805,6 +318,7 @@ function extractCommandsFromMarkdown(content: string): AgentCommand[] {
     delete extras.name;
     delete extras.description;
     delete extras.body;
+    delete extras["allowed-tools"];
 
     const bodyTrimmed = bodyAfterFrontmatter.trim();
     if (!bodyTrimmed) {
@@ -812,12 +326,34 @@ function extractCommandsFromMarkdown(content: string): AgentCommand[] {
     }
     const body = bodyTrimmed.endsWith("\n") ? bodyTrimmed : `${bodyTrimmed}\n`;
 
-    out.push({
+    return {
       name,
       description,
       body,
       ...extras,
-    });
+      ...(allowedTools ? { allowedTools } : {}),
+    };
+  }
+
+  const out: AgentCommand[] = [];
+
+  for (let i = 0; i < commandLineIdxs.length; i++) {
+    const { idx: cmdLineIdx, name } = commandLineIdxs[i]!;
+    const headingStart = lineStartOffsets[cmdLineIdx] ?? 0;
+    const headingSpan = { start: headingStart, end: headingStart + lines[cmdLineIdx]!.length };
+
+    const cmdStartOffset = headingStart + lines[cmdLineIdx]!.length + 1;
+    const nextCmdLineIdx = commandLineIdxs[i + 1]?.idx;
+    const cmdEndOffset =
+      nextCmdLineIdx !== undefined ? lineStartOffsets[nextCmdLineIdx]! : sectionEndOffset;
+
+    try {
+      out.push(parseCommandBlock(name, content.slice(cmdStartOffset, cmdEndOffset)));
+    } catch (e) {
+      // Report against the `### <name>` heading and keep going with the remaining commands.
+      const msg = e instanceof Error ? e.message : String(e);
+      report(new AgentTemplateIssue("COMMAND.INVALID", msg, { contentSpan: headingSpan }));
+    }
   }
 
   return out;
@@ -891,7 +427,8 @@ function extractAvatarFallback(tree: Root): string | undefined {
 }
 
 function assertNoFrontmatterVsHeadingConflict(opts: {
-  key: "title" | "description" | "avatar" | "system" | "rules";
+  /** Dotted frontmatter path, e.g. `title` or `locales.de.system`. */
+  key: string;
   frontmatter: string | undefined;
   headingDerived: string | undefined;
 }): void {
@@ -899,25 +436,121 @@ function assertNoFrontmatterVsHeadingConflict(opts: {
   if (!isNonEmptyString(frontmatter) || !isNonEmptyString(headingDerived)) return;
 
   if (normalizeComparableText(frontmatter) !== normalizeComparableText(headingDerived)) {
-    throw new Error(
+    throw new AgentTemplateIssue(
+      "FRONTMATTER.CONFLICT",
       `Conflicting '${key}' between YAML frontmatter and Markdown content. ` +
         `Frontmatter='${frontmatter.trim()}' vs Markdown='${headingDerived.trim()}'. ` +
         `Remove one or make them match (comparison is case-insensitive and trimmed).`,
+      { path: key.split(".") },
     );
   }
 }
 
-export function agentTemplateToJson(raw: string): AgentDefinition {
-  const parsed = matter(raw, {
-    engines: {
-      yaml: (s) => YAML.parse(s),
-    },
+/**
+ * Merge the `locales:` frontmatter map with localized sections (keys canonicalized). Like `## System` / `## Rules`,
+ * a non-empty section wins over frontmatter and must not conflict with it; for repeated headings the first wins.
+ */
+function collectLocales(
+  frontmatter: Record<string, AgentLocalization> | undefined,
+  sections: LocalizedSection[],
+  diagnostics: AgentDiagnosticsCollector,
+): Record<string, AgentLocalization> | undefined {
+  const out: Record<string, AgentLocalization> = {};
+  for (const [key, localization] of Object.entries(frontmatter ?? {})) {
+    const tag = canonicalLocale(key)!;
+    out[tag] = { ...out[tag], ...localization };
+  }
+
+  const seen = new Set<string>();
+  for (const s of sections) {
+    const tag = canonicalLocale(s.tag);
+    if (!tag) {
+      const heading = `${s.field === "system" ? "System" : "Rules"} (${s.tag})`;
+      diagnostics.report(
+        new AgentTemplateIssue(
+          "LOCALE.INVALID",
+          `Invalid locale '${s.tag}' in '## ${heading}': expected a BCP 47 language tag (e.g. de, pt-BR).`,
+          { contentSpan: s.span },
+        ),
+      );
+      continue;
+    }
+    if (seen.has(`${tag}:${s.field}`)) continue;
+    seen.add(`${tag}:${s.field}`);
+    diagnostics.attempt(() =>
+      assertNoFrontmatterVsHeadingConflict({
+        key: `locales.${tag}.${s.field}`,
+        // Still the frontmatter value: only the first section per locale and field gets here.
+        frontmatter: out[tag]?.[s.field],
+        headingDerived: s.text,
+      }),
+    );
+    if (s.text) out[tag] = { ...out[tag], [s.field]: s.text };
+  }
+  return Object.keys(out).length ? out : undefined;
+}
+
+type CompiledTemplate = {
+  layer: AgentDefinitionLayer;
+  /** Raw `extends:` reference, if declared. */
+  extendsRef?: string;
+};
+
+function migrateFrontmatter(data: Frontmatter, diagnostics: AgentDiagnosticsCollector): Frontmatter {
+  if (!isPlainObject(data)) return data;
+  const migrated = diagnostics.attempt(() => {
+    parseFrontmatterField("schemaVersion", getTopLevelKeyCaseInsensitive(data, "schemaVersion"));
+    return migrateAgentFrontmatter(data);
   });
+  if (!migrated) return data;
+  if (!migrated.changes.length && isAgentFrontmatterOutdated(data, migrated)) {
+    diagnostics.report(
+      new AgentTemplateIssue(
+        "SCHEMA.MIGRATED",
+        `schemaVersion ${migrated.from} is outdated. Run 'tempybot migrate --write' to upgrade to schemaVersion ` +
+          `${migrated.to}.`,
+        { path: ["schemaVersion"], severity: "warn" },
+      ),
+    );
+  }
+  for (const change of migrated.changes) {
+    diagnostics.report(
+      new AgentTemplateIssue(
+        "SCHEMA.MIGRATED",
+        `${change.message} Run 'tempybot migrate --write' to upgrade to schemaVersion ${migrated.to}.`,
+        { path: change.path, severity: "warn" },
+      ),
+    );
+  }
+  return migrated.frontmatter;
+}
+
+/**
+ * Parse and validate a single template into the fields it explicitly provides.
+ * Defaults, policy fallbacks and cross-field checks are applied by `finalizeAgentDefinition()`.
+ */
+function compileTemplateLayer(raw: string, diagnostics: AgentDiagnosticsCollector): CompiledTemplate | undefined {
+  let parsed: matter.GrayMatterFile<string>;
+  try {
+    parsed = matter(raw, {
+      engines: {
+        yaml: (s) => YAML.parse(s),
+      },
+    });
+  } catch (e) {
+    diagnostics.report(e);
+    return undefined;
+  }
+  diagnostics.sourceMap.attach({ matter: parsed.matter, content: parsed.content });
 
-  const frontmatterRaw = (parsed.data ?? {}) as Frontmatter;
+  // Older templates are upgraded to the current format first; each change is reported as a warning.
+  const frontmatterRaw = migrateFrontmatter((parsed.data ?? {}) as Frontmatter, diagnostics);
   const fm = lowercaseKeysDeep(frontmatterRaw) as Frontmatter;
-  const mcpServers = getMcpServersStrict(
-    isPlainObject(frontmatterRaw) ? getTopLevelKeyCaseInsensitive(frontmatterRaw, "mcpServers") : undefined,
+  const mcpServers = diagnostics.attempt(() =>
+    parseFrontmatterField(
+      "mcpServers",
+      isPlainObject(frontmatterRaw) ? getTopLevelKeyCaseInsensitive(frontmatterRaw, "mcpServers") : undefined,
+    ),
   );
 
   const tree = unified().use(remarkParse).use(remarkFrontmatter, ["yaml"]).parse(parsed.content) as Root;
@@ -926,95 +559,182 @@ export function agentTemplateToJson(raw: string): AgentDefinition {
   const avatarFallback = extractAvatarFallback(tree);
   const sections = extractNamedSections(parsed.content, tree);
 
-  const fmVersion = getStringStrict({ key: "version", v: fm.version });
-  const fmIcon = getStringStrict({ key: "icon", v: fm.icon });
-  const fmTitle = getStringStrict({ key: "title", v: fm.title });
-  const fmDescription = getStringStrict({ key: "description", v: fm.description, allowEmpty: true });
-  const fmAvatar = getStringStrict({ key: "avatar", v: fm.avatar });
-  const fmSystem = getStringStrict({ key: "system", v: fm.system, allowEmpty: true });
-  const fmRules = getStringStrict({ key: "rules", v: fm.rules, allowEmpty: true });
-  const fmTemplateEngine = getStringStrict({ key: "templateengine", v: fm.templateengine, allowEmpty: true });
-  const fmInput = getStringStrict({ key: "input", v: fm.input, allowEmpty: true });
-  const fmStatus = getStatusStrict(fm.status);
-  const fmAbilities = getAbilitiesStrict(fm.abilities);
-
-  assertNoFrontmatterVsHeadingConflict({ key: "title", frontmatter: fmTitle, headingDerived: titleFallback });
-  assertNoFrontmatterVsHeadingConflict({
-    key: "description",
-    frontmatter: fmDescription,
-    headingDerived: descriptionFallback,
-  });
-  assertNoFrontmatterVsHeadingConflict({ key: "avatar", frontmatter: fmAvatar, headingDerived: avatarFallback });
+  const fmVersion = diagnostics.attempt(() => parseFrontmatterField("version", fm.version));
+  const fmIcon = diagnostics.attempt(() => parseFrontmatterField("icon", fm.icon));
+  const fmTitle = diagnostics.attempt(() => parseFrontmatterField("title", fm.title));
+  const fmDescription = diagnostics.attempt(() => parseFrontmatterField("description", fm.description));
+  const fmAvatar = diagnostics.attempt(() => parseFrontmatterField("avatar", fm.avatar));
+  const fmSystem = diagnostics.attempt(() => parseFrontmatterField("system", fm.system));
+  const fmRules = diagnostics.attempt(() => parseFrontmatterField("rules", fm.rules));
+  const fmTemplateEngine = diagnostics.attempt(() => parseFrontmatterField("templateEngine", fm.templateengine));
+  const fmInput = diagnostics.attempt(() => parseFrontmatterField("input", fm.input));
+  // Property names inside the schema are variable names: read them case-preserved (like mcpServers).
+  const fmInputSchema = diagnostics.attempt(() =>
+    parseFrontmatterField(
+      "inputSchema",
+      isPlainObject(frontmatterRaw) ? getTopLevelKeyCaseInsensitive(frontmatterRaw, "inputSchema") : undefined,
+    ),
+  );
+  const fmStatus = diagnostics.attempt(() => parseFrontmatterField("status", fm.status));
+  const fmTags = diagnostics.attempt(() => parseFrontmatterField("tags", fm.tags));
+  const fmAbilities = diagnostics.attempt(() => parseFrontmatterField("abilities", fm.abilities));
+  const fmExtends = diagnostics.attempt(() => parseFrontmatterField("extends", fm.extends));
+  const fmDefaultLocale = diagnostics.attempt(() => parseFrontmatterField("defaultLocale", fm.defaultlocale));
+  const fmLocales = diagnostics.attempt(() => parseFrontmatterField("locales", fm.locales));
+  const locales = collectLocales(fmLocales, extractLocalizedSections(parsed.content, tree), diagnostics);
+
+  diagnostics.attempt(() =>
+    assertNoFrontmatterVsHeadingConflict({ key: "title", frontmatter: fmTitle, headingDerived: titleFallback }),
+  );
+  diagnostics.attempt(() =>
+    assertNoFrontmatterVsHeadingConflict({
+      key: "description",
+      frontmatter: fmDescription,
+      headingDerived: descriptionFallback,
+    }),
+  );
+  diagnostics.attempt(() =>
+    assertNoFrontmatterVsHeadingConflict({ key: "avatar", frontmatter: fmAvatar, headingDerived: avatarFallback }),
+  );
   // Only compare frontmatter vs explicit section content (not policy fallbacks).
-  assertNoFrontmatterVsHeadingConflict({ key: "system", frontmatter: fmSystem, headingDerived: sections.system });
-  assertNoFrontmatterVsHeadingConflict({ key: "rules", frontmatter: fmRules, headingDerived: sections.rules });
-
-  const version = fmVersion ?? AGENT_DEFINITION_DEFAULTS.version;
-  const icon = fmIcon ?? AGENT_DEFINITION_DEFAULTS.icon;
-  const title = fmTitle ?? titleFallback ?? "";
-  const description = fmDescription ?? descriptionFallback ?? "";
-  const avatar = fmAvatar ?? avatarFallback ?? undefined;
-  const status = fmStatus ?? AGENT_DEFINITION_DEFAULTS.status;
-  const templateEngine = fmTemplateEngine ?? AGENT_DEFINITION_DEFAULTS.templateEngine;
-  const input = fmInput ?? AGENT_DEFINITION_DEFAULTS.input;
-  const abilities = fmAbilities ?? AGENT_DEFINITION_DEFAULTS.abilities;
-  const recommended = (isPlainObject(fm.recommended) ? (fm.recommended as Record<string, unknown>) : undefined) ?? {
-    ...AGENT_DEFINITION_DEFAULTS.recommended,
-  };
-  const required = (isPlainObject(fm.required) ? (fm.required as Record<string, unknown>) : undefined) ?? {
-    ...AGENT_DEFINITION_DEFAULTS.required,
+  diagnostics.attempt(() =>
+    assertNoFrontmatterVsHeadingConflict({ key: "system", frontmatter: fmSystem, headingDerived: sections.system }),
+  );
+  diagnostics.attempt(() =>
+    assertNoFrontmatterVsHeadingConflict({ key: "rules", frontmatter: fmRules, headingDerived: sections.rules }),
+  );
+
+  const fmRecommended = diagnostics.attempt(() => parseFrontmatterField("recommended", fm.recommended));
+  const fmRequired = diagnostics.attempt(() => parseFrontmatterField("required", fm.required));
+
+  const commandsFromFrontmatter = diagnostics.attempt(() => parseFrontmatterField("commands", fm.commands));
+  const commandsFromMarkdown = extractCommandsFromMarkdown(parsed.content, (issue) => diagnostics.report(issue));
+
+  const layer: AgentDefinitionLayer = {};
+  const set = <K extends keyof AgentDefinitionLayer>(key: K, value: AgentDefinitionLayer[K] | undefined) => {
+    if (value !== undefined) layer[key] = value;
   };
-  if (fm.recommended !== undefined && !isPlainObject(fm.recommended)) {
-    throw new Error(`Invalid frontmatter 'recommended': expected an object.`);
+  set("version", fmVersion);
+  set("icon", fmIcon);
+  set("title", fmTitle ?? titleFallback);
+  set("description", fmDescription ?? descriptionFallback);
+  set("avatar", fmAvatar ?? avatarFallback);
+  set("status", fmStatus);
+  set("tags", fmTags);
+  set("templateEngine", fmTemplateEngine);
+  set("input", fmInput);
+  set("inputSchema", fmInputSchema);
+  set("abilities", fmAbilities);
+  set("recommended", fmRecommended);
+  set("required", fmRequired);
+  if (commandsFromFrontmatter || commandsFromMarkdown.length) {
+    layer.commands = [...(commandsFromFrontmatter ?? []), ...commandsFromMarkdown];
+  }
+  set("mcpServers", mcpServers);
+  // Policy order: ## System, then (optional) YAML frontmatter system. Fallbacks are applied on finalize.
+  set("system", sections.system || fmSystem || undefined);
+  // Policy order: ## Rules, then (optional) YAML frontmatter rules.
+  set("rules", sections.rules || fmRules || undefined);
+  set("toolsSource", sections.tools || undefined);
+  set("defaultLocale", fmDefaultLocale);
+  set("locales", locales);
+
+  const extendsRef = fmExtends?.trim();
+  return { layer, ...(extendsRef ? { extendsRef } : {}) };
+}
+
+function assertStartupToolDeclared(required: AgentDefinition["required"], tools: AgentToolManifestEntry[]): void {
+  // Startup requirement validation: if required.startup exists, it must reference a declared tool name.
+  if (!Object.prototype.hasOwnProperty.call(required, "startup")) return;
+  const startup = (required as Record<string, unknown>).startup;
+  if (startup !== undefined && !isNonEmptyString(startup)) {
+    throw invalidFrontmatter(["required", "startup"], `expected a non-empty string.`);
+  }
+  if (!isNonEmptyString(startup)) return;
+
+  const toolNames = tools.map((t) => t.name);
+  if (toolNames.length === 0) {
+    throw new AgentTemplateIssue(
+      "REQUIRED.STARTUP",
+      `Invalid frontmatter 'required.startup': '${startup.trim()}' but no tools were found under '## Tools'.`,
+      { path: ["required", "startup"] },
+    );
   }
-  if (fm.required !== undefined && !isPlainObject(fm.required)) {
-    throw new Error(`Invalid frontmatter 'required': expected an object.`);
+  const startupLc = startup.trim().toLowerCase();
+  const available = toolNames.map((t) => t.toLowerCase());
+  if (!available.includes(startupLc)) {
+    throw new AgentTemplateIssue(
+      "REQUIRED.STARTUP",
+      `Invalid frontmatter 'required.startup': '${startup.trim()}' does not match any tool declared in '## Tools' ` +
+        `(available: ${toolNames.join(", ")}).`,
+      { path: ["required", "startup"] },
+    );
   }
+}
 
-  const commandsFromFrontmatter = getCommandsStrict(fm.commands) ?? [...AGENT_DEFINITION_DEFAULTS.commands];
-  const commandsFromMarkdown = extractCommandsFromMarkdown(parsed.content);
-  const commands = [...commandsFromFrontmatter, ...commandsFromMarkdown];
+/**
+ * Apply defaults and policy fallbacks to a (possibly merged) layer and run cross-field checks.
+ */
+function finalizeAgentDefinition(
+  layer: AgentDefinitionLayer,
+  diagnostics: AgentDiagnosticsCollector,
+  inheritance?: AgentInheritance,
+  includes?: string[],
+): AgentDefinition | undefined {
+  const version = layer.version ?? AGENT_DEFINITION_DEFAULTS.version;
+  const icon = layer.icon ?? AGENT_DEFINITION_DEFAULTS.icon;
+  const title = layer.title ?? "";
+  const description = layer.description ?? "";
+  const avatar = layer.avatar;
+  const status = layer.status ?? AGENT_DEFINITION_DEFAULTS.status;
+  const tags = layer.tags;
+  const templateEngine = layer.templateEngine ?? AGENT_DEFINITION_DEFAULTS.templateEngine;
+  const input = layer.input ?? AGENT_DEFINITION_DEFAULTS.input;
+  const inputSchema = layer.inputSchema;
+  const abilities = layer.abilities ?? AGENT_DEFINITION_DEFAULTS.abilities;
+  const recommended = layer.recommended ?? { ...AGENT_DEFINITION_DEFAULTS.recommended };
+  const required = layer.required ?? { ...AGENT_DEFINITION_DEFAULTS.required };
+  const commands = layer.commands ?? [...AGENT_DEFINITION_DEFAULTS.commands];
+  const mcpServers = layer.mcpServers;
 
   // Policy order:
   // 1) ## System
   // 2) (optional) YAML frontmatter system
   // 3) description
   // 4) title
-  const system = sections.system || fmSystem || description || title;
+  const system = layer.system || description || title;
 
   // Policy order:
   // 1) ## Rules
   // 2) (optional) YAML frontmatter rules
-  const rules = sections.rules || fmRules || AGENT_DEFINITION_DEFAULTS.rules;
+  const rules = layer.rules || AGENT_DEFINITION_DEFAULTS.rules;
+  const toolsSource = layer.toolsSource || AGENT_DEFINITION_DEFAULTS.toolsSource;
+  const tools = toolsSource ? extractToolsManifest(toolsSource) : undefined;
+  const { defaultLocale, locales } = layer;
 
   if (!isNonEmptyString(title)) {
-    throw new Error(`Missing title. Provide '# <Title>' or YAML frontmatter 'title'.`);
+    diagnostics.report(
+      new AgentTemplateIssue("TITLE.MISSING", `Missing title. Provide '# <Title>' or YAML frontmatter 'title'.`, {
+        contentSpan: { start: 0, end: 0 },
+      }),
+    );
   }
 
-  // Startup requirement validation: if required.startup exists, it must reference a declared tool name.
-  if (Object.prototype.hasOwnProperty.call(required, "startup")) {
-    const startup = (required as Record<string, unknown>).startup;
-    if (startup !== undefined && !isNonEmptyString(startup)) {
-      throw new Error(`Invalid frontmatter 'required.startup': expected a non-empty string.`);
-    }
-    if (isNonEmptyString(startup)) {
-      const toolNames = extractToolNamesFromToolsSource(sections.tools);
-      if (toolNames.length === 0) {
-        throw new Error(
-          `Invalid frontmatter 'required.startup': '${startup.trim()}' but no tools were found under '## Tools'.`,
-        );
-      }
-      const startupLc = startup.trim().toLowerCase();
-      const available = toolNames.map((t) => t.toLowerCase());
-      if (!available.includes(startupLc)) {
-        throw new Error(
-          `Invalid frontmatter 'required.startup': '${startup.trim()}' does not match any tool declared in '## Tools' ` +
-            `(available: ${toolNames.join(", ")}).`,
-        );
-      }
-    }
+  diagnostics.attempt(() => assertStartupToolDeclared(required, tools ?? []));
+  for (const [tag, { fallback }] of Object.entries(locales ?? {})) {
+    if (fallback === undefined || locales![fallback] || fallback === defaultLocale) continue;
+    diagnostics.report(
+      new AgentTemplateIssue(
+        "LOCALE.INVALID",
+        `Invalid frontmatter 'locales.${tag}.fallback': '${fallback}' is not a declared locale ` +
+          `(declared: ${Object.keys(locales!).join(", ")}).`,
+        { path: ["locales", tag, "fallback"] },
+      ),
+    );
   }
 
+  if (diagnostics.hasErrors) return undefined;
+
   // Keep the output JSON-friendly and deterministic:
   // - Do not include optional fields when they are undefined.
   //   (JSON.stringify would drop them anyway, but keeping them out also avoids Object.keys() surprises.)
@@ -1025,8 +745,10 @@ export function agentTemplateToJson(raw: string): AgentDefinition {
     description,
     ...(avatar !== undefined ? { avatar } : {}),
     status,
+    ...(tags !== undefined ? { tags } : {}),
     templateEngine,
     input,
+    ...(inputSchema !== undefined ? { inputSchema } : {}),
     ...(abilities !== undefined ? { abilities } : {}),
     recommended,
     required,
@@ -1034,12 +756,180 @@ export function agentTemplateToJson(raw: string): AgentDefinition {
     ...(mcpServers !== undefined ? { mcpServers } : {}),
     system,
     rules,
-    toolsSource: sections.tools || AGENT_DEFINITION_DEFAULTS.toolsSource,
+    ...(defaultLocale !== undefined ? { defaultLocale } : {}),
+    ...(locales !== undefined ? { locales } : {}),
+    toolsSource,
+    ...(tools !== undefined ? { tools } : {}),
+    ...(inheritance !== undefined ? { inheritance } : {}),
+    ...(includes?.length ? { includes } : {}),
   };
 }
 
-export async function parseAgentMd(filePath: string): Promise<AgentDefinition> {
-  const raw = await fs.readFile(filePath, "utf8");
-  return agentTemplateToJson(raw);
+/**
+ * Loads an `.agent.md` template and reports every problem found instead of failing on the first one.
+ *
+ * Each diagnostic carries a stable code and, when it can be determined, the line/column range of the
+ * offending YAML key (frontmatter) or Markdown heading (commands). `definition` is only returned when
+ * there are no errors.
+ *
+ * `extends:` and include directives need a file location to resolve against; use `parseAgentMdWithDiagnostics()`
+ * for those templates.
+ */
+export function agentTemplateToJsonWithDiagnostics(raw: string): AgentTemplateResult {
+  const diagnostics = new AgentDiagnosticsCollector(raw);
+  const compiled = compileTemplateLayer(raw, diagnostics);
+  if (!compiled) return { ok: false, diagnostics: diagnostics.diagnostics };
+
+  if (compiled.extendsRef) {
+    diagnostics.report(
+      new AgentTemplateIssue(
+        "EXTENDS.UNRESOLVED",
+        `Cannot resolve 'extends: ${compiled.extendsRef}' without a file location. Use parseAgentMd() instead.`,
+        { path: ["extends"] },
+      ),
+    );
+  }
+
+  const lines = raw.split("\n");
+  for (const [index, ref] of findIncludeDirectives(lines)) {
+    const offset = lines.slice(0, index).reduce((n, l) => n + l.length + 1, 0);
+    const line = index + 1;
+    diagnostics.diagnostics.push({
+      code: "INCLUDE.UNRESOLVED",
+      severity: "error",
+      message: `Cannot resolve 'include: ${ref}' without a file location. Use parseAgentMd() instead.`,
+      range: {
+        start: { line, column: 1, offset },
+        end: { line, column: lines[index]!.length + 1, offset: offset + lines[index]!.length },
+      },
+    });
+  }
+
+  const definition = finalizeAgentDefinition(compiled.layer, diagnostics);
+  if (!definition) return { ok: false, diagnostics: diagnostics.diagnostics };
+  return { ok: true, definition, diagnostics: diagnostics.diagnostics };
+}
+
+export function agentTemplateToJson(raw: string): AgentDefinition {
+  const result = agentTemplateToJsonWithDiagnostics(raw);
+  if (!result.ok) throw new AgentTemplateError(result.diagnostics);
+  return result.definition;
+}
+
+function toPosixRelative(fromDir: string, file: string): string {
+  return path.relative(fromDir, file).split(path.sep).join("/");
+}
+
+/**
+ * File-based loader. Resolves the `extends:` chain (see `mergeAgentLayers()` for merge semantics) and
+ * `<!-- include: path -->` directives (see `expandIncludes()`), and reports diagnostics for every template involved,
+ * each tagged with its `file` (the included file for lines that came from an include).
+ */
+export async function parseAgentMdWithDiagnostics(
+  filePath: string,
+  opts: ParseAgentMdOptions = {},
+): Promise<AgentTemplateResult> {
+  return await parseAgentSourceWithDiagnostics(await fs.readFile(filePath, "utf8"), filePath, opts);
 }
 
+type LoadedLayer = {
+  file: string;
+  expanded: ExpandedTemplate;
+  diagnostics: AgentDiagnosticsCollector;
+  layer?: AgentDefinitionLayer;
+};
+
+/** Diagnostics of one layer, with positions in included text mapped back to the included file. */
+function layerDiagnostics(l: LoadedLayer): AgentDiagnostic[] {
+  const own = l.diagnostics.diagnostics.map((d): AgentDiagnostic => {
+    if (!d.range || !l.expanded.includes.length) return { ...d, file: l.file };
+    const { file, range } = mapIncludedRange(l.expanded, d.range);
+    return { ...d, file, range };
+  });
+  return [...l.expanded.diagnostics, ...own];
+}
+
+/**
+ * Like `parseAgentMdWithDiagnostics()`, for template text that is not a file of its own (e.g. one agent of a
+ * bundle): `extends:` and includes resolve relative to `filePath` and the template's diagnostics carry it as `file`.
+ */
+export async function parseAgentSourceWithDiagnostics(
+  raw: string,
+  filePath: string,
+  opts: ParseAgentMdOptions = {},
+): Promise<AgentTemplateResult> {
+  const entryAbs = path.resolve(filePath);
+  const entryDir = path.dirname(entryAbs);
+  const root = opts.templatesRoot ? path.resolve(opts.templatesRoot) : defaultTemplatesRoot(entryAbs);
+  const loaded: LoadedLayer[] = [];
+
+  let current: string | undefined = entryAbs;
+  while (current) {
+    const file: string = current;
+    current = undefined;
+
+    const source = file === entryAbs ? raw : await fs.readFile(file, "utf8");
+    const expanded = await expandIncludes(source, file, { root });
+    const diagnostics = new AgentDiagnosticsCollector(expanded.text);
+    const compiled = compileTemplateLayer(expanded.text, diagnostics);
+    loaded.push({ file, expanded, diagnostics, layer: compiled?.layer });
+
+    const ref = compiled?.extendsRef;
+    if (!ref) continue;
+    const next = diagnostics.attempt(() => {
+      let target: string;
+      try {
+        target = resolveExtendsPath(ref, file);
+      } catch (e) {
+        throw new AgentTemplateIssue("EXTENDS.UNRESOLVED", e instanceof Error ? e.message : String(e), {
+          path: ["extends"],
+        });
+      }
+      if (loaded.some((l) => l.file === target)) {
+        const names = [...loaded.map((l) => l.file), target].map((f) => toPosixRelative(entryDir, f));
+        throw new AgentTemplateIssue("EXTENDS.CYCLE", `Cyclic 'extends' chain: ${names.join(" -> ")}.`, {
+          path: ["extends"],
+        });
+      }
+      return target;
+    });
+    if (next === undefined) continue;
+    if (await fileExists(next)) {
+      current = next;
+    } else {
+      diagnostics.report(
+        new AgentTemplateIssue("EXTENDS.NOT_FOUND", `Base template for 'extends: ${ref}' not found: ${next}`, {
+          path: ["extends"],
+        }),
+      );
+    }
+  }
+
+  const collectAll = (): AgentDiagnostic[] => loaded.flatMap(layerDiagnostics);
+
+  if (loaded.some((l) => l.diagnostics.hasErrors || !l.layer || l.expanded.diagnostics.length)) {
+    return { ok: false, diagnostics: collectAll() };
+  }
+
+  let layer = loaded[0]!.layer!;
+  let inheritance: AgentInheritance | undefined;
+  if (loaded.length > 1) {
+    const layers = [...loaded].reverse().map((l) => ({ source: toPosixRelative(entryDir, l.file), layer: l.layer! }));
+    const merged = mergeAgentLayers(layers);
+    layer = merged.layer;
+    inheritance = { chain: loaded.slice(1).map((l) => toPosixRelative(entryDir, l.file)), origins: merged.origins };
+  }
+
+  const includes = [...new Set(loaded.flatMap((l) => l.expanded.includes))].map((f) => toPosixRelative(entryDir, f));
+
+  // Cross-field checks run on the merged definition and are reported against the loaded template.
+  const definition = finalizeAgentDefinition(layer, loaded[0]!.diagnostics, inheritance, includes);
+  if (!definition) return { ok: false, diagnostics: collectAll() };
+  return { ok: true, definition, diagnostics: collectAll() };
+}
+
+export async function parseAgentMd(filePath: string, opts: ParseAgentMdOptions = {}): Promise<AgentDefinition> {
+  const result = await parseAgentMdWithDiagnostics(filePath, opts);
+  if (!result.ok) throw new AgentTemplateError(result.diagnostics);
+  return result.definition;
+}
@@ -0,0 +1,176 @@
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import { toString } from "mdast-util-to-string";
+import YAML from "yaml";
+import type { Root } from "mdast";
+import type { AgentCommand, AgentDefinition, AgentInlineCommand, AgentLocalization } from "./types.js";
+import { AGENT_DEFINITION_DEFAULTS } from "./types.js";
+import { formatToolPermission } from "./allowed-tools.js";
+import { AGENT_SCHEMA_VERSION } from "./migrations.js";
+
+function parseMarkdown(md: string): Root {
+  return unified().use(remarkParse).parse(md) as Root;
+}
+
+function isSingleLine(s: string): boolean {
+  return !/[\r\n]/.test(s);
+}
+
+function isTrimmedSingleLine(s: string): boolean {
+  return isSingleLine(s) && s === s.trim() && s.length > 0;
+}
+
+/** `# <title>` parses back to the same text (and is not the `# Avatar` section). */
+function titleFitsHeading(title: string): boolean {
+  if (!isTrimmedSingleLine(title) || title.toLowerCase() === "avatar") return false;
+  const nodes = parseMarkdown(`# ${title}`).children;
+  return nodes.length === 1 && nodes[0]!.type === "heading" && nodes[0]!.depth === 1 && toString(nodes[0]!) === title;
+}
+
+/** The description is a single paragraph whose plain text is the description itself. */
+function descriptionFitsParagraph(description: string): boolean {
+  if (description !== description.trim()) return false;
+  const nodes = parseMarkdown(description).children;
+  return nodes.length === 1 && nodes[0]!.type === "paragraph" && toString(nodes[0]!) === description;
+}
+
+const COMMANDS_HEADING_LINE_RE = /^\s*##\s+commands\s*$/im;
+
+/** Section content must not end the section early (a `#`/`##` heading) or open `## Commands`. */
+function textFitsSection(text: string): boolean {
+  if (!text || text !== text.trim() || COMMANDS_HEADING_LINE_RE.test(text)) return false;
+  return !parseMarkdown(text).children.some((n) => n.type === "heading" && n.depth <= 2);
+}
+
+const COMMAND_FRONTMATTER_KEY_RE = /^[^:A-Z\s]+$/;
+const COMMAND_BREAK_LINE_RE = /^\s*#{1,3}\s+\S/m;
+
+/**
+ * `### <name>` + `key: value` frontmatter can only carry single-line strings; everything else is printed
+ * as an inline command object in YAML frontmatter.
+ */
+function commandFitsMarkdown(c: AgentCommand): c is AgentInlineCommand {
+  if (typeof c === "string") return false;
+  const { name, description, body, "argument-hint": argumentHint, allowedTools, ...extras } = c;
+  if (!isTrimmedSingleLine(name) || !isTrimmedSingleLine(description)) return false;
+  if (argumentHint !== undefined && (typeof argumentHint !== "string" || !isTrimmedSingleLine(argumentHint))) {
+    return false;
+  }
+  if (allowedTools !== undefined && allowedTools.length === 0) return false;
+  if (body !== `${body.trim()}\n` || COMMAND_BREAK_LINE_RE.test(body)) return false;
+  return Object.entries(extras).every(
+    ([k, v]) => COMMAND_FRONTMATTER_KEY_RE.test(k) && typeof v === "string" && isSingleLine(v) && v === v.trim(),
+  );
+}
+
+function printMarkdownCommand(c: AgentInlineCommand): string {
+  const { name, description, body, "argument-hint": argumentHint, allowedTools, ...extras } = c;
+  const lines = [`### ${name}`, "---", `description: ${description}`];
+  if (argumentHint !== undefined) lines.push(`argument-hint: ${argumentHint as string}`);
+  if (allowedTools) lines.push(`allowed-tools: ${allowedTools.map(formatToolPermission).join(", ")}`);
+  for (const [k, v] of Object.entries(extras)) lines.push(`${k}: ${v as string}`);
+  lines.push("---", "", body.trimEnd());
+  return lines.join("\n");
+}
+
+function frontmatterCommand(c: AgentCommand): unknown {
+  if (typeof c === "string") return c;
+  const { name, description, body, "argument-hint": argumentHint, allowedTools, ...extras } = c;
+  return {
+    name,
+    description,
+    ...(argumentHint !== undefined ? { "argument-hint": argumentHint } : {}),
+    ...(allowedTools ? { "allowed-tools": allowedTools.map(formatToolPermission) } : {}),
+    ...extras,
+    body,
+  };
+}
+
+/** `## System (<locale>)` / `## Rules (<locale>)` blocks, and what has to stay in the `locales:` frontmatter map. */
+function splitLocales(locales: Record<string, AgentLocalization>): {
+  frontmatter: Record<string, AgentLocalization>;
+  sections: string[];
+} {
+  const frontmatter: Record<string, AgentLocalization> = {};
+  const sections: string[] = [];
+  for (const [tag, { system, rules, ...rest }] of Object.entries(locales)) {
+    const kept: AgentLocalization = { ...rest };
+    if (system !== undefined && textFitsSection(system)) sections.push(`## System (${tag})\n\n${system}`);
+    else if (system !== undefined) kept.system = system;
+    if (rules !== undefined && textFitsSection(rules)) sections.push(`## Rules (${tag})\n\n${rules}`);
+    else if (rules !== undefined) kept.rules = rules;
+    // A locale that only has sections needs no frontmatter entry.
+    if (Object.keys(kept).length || (system === undefined && rules === undefined)) frontmatter[tag] = kept;
+  }
+  return { frontmatter, sections };
+}
+
+function isEmptyObject(v: Record<string, unknown>): boolean {
+  return Object.values(v).every((x) => x === undefined);
+}
+
+/**
+ * Print an `AgentDefinition` as a canonical `.agent.md`:
+ * YAML frontmatter (`schemaVersion` first, fixed key order, defaults omitted), `# Title`, the description paragraph,
+ * `## System`, `## Rules`, localized `## System (<locale>)` / `## Rules (<locale>)`, `## Commands` (one `### name`
+ * block per command) and `## Tools`.
+ *
+ * Values that the Markdown form cannot carry losslessly (e.g. a multi-line title, a command with a
+ * multi-line description) fall back to frontmatter, so `agentTemplateToJson(agentJsonToTemplate(def))`
+ * equals `def` for any loader output. The derived `tools` manifest, `inheritance` and `includes` are not printed:
+ * the result is a single flattened template.
+ */
+export function agentJsonToTemplate(def: AgentDefinition): string {
+  const headingTitle = titleFitsHeading(def.title);
+  const paragraphDescription = headingTitle && def.description !== "" && descriptionFitsParagraph(def.description);
+  // `system` falls back to description, then title, when a template has no `## System`.
+  const printSystem = def.system !== (def.description || def.title);
+  const systemSection = printSystem && textFitsSection(def.system);
+  const rulesSection = textFitsSection(def.rules);
+  const locales = def.locales ? splitLocales(def.locales) : undefined;
+
+  // Markdown commands are appended after frontmatter ones: only a trailing run can move to `## Commands`.
+  let split = def.commands.length;
+  while (split > 0 && commandFitsMarkdown(def.commands[split - 1]!)) split--;
+  const fmCommands = def.commands.slice(0, split);
+  const mdCommands = def.commands.slice(split) as AgentInlineCommand[];
+
+  const fm: Record<string, unknown> = {
+    schemaVersion: AGENT_SCHEMA_VERSION,
+    version: def.version,
+    title: headingTitle ? undefined : def.title,
+    description: def.description !== "" && !paragraphDescription ? def.description : undefined,
+    icon: def.icon !== AGENT_DEFINITION_DEFAULTS.icon ? def.icon : undefined,
+    avatar: def.avatar,
+    status: def.status !== AGENT_DEFINITION_DEFAULTS.status ? def.status : undefined,
+    tags: def.tags,
+    templateEngine: def.templateEngine !== AGENT_DEFINITION_DEFAULTS.templateEngine ? def.templateEngine : undefined,
+    input: def.input !== AGENT_DEFINITION_DEFAULTS.input ? def.input : undefined,
+    inputSchema: def.inputSchema,
+    abilities: def.abilities
+      ? Object.fromEntries(Object.entries(def.abilities).filter(([, v]) => v !== undefined))
+      : undefined,
+    recommended: isEmptyObject(def.recommended) ? undefined : def.recommended,
+    required: isEmptyObject(def.required) ? undefined : def.required,
+    mcpServers: def.mcpServers,
+    commands: fmCommands.length ? fmCommands.map(frontmatterCommand) : undefined,
+    system: printSystem && !systemSection ? def.system : undefined,
+    rules: def.rules && !rulesSection ? def.rules : undefined,
+    defaultLocale: def.defaultLocale,
+    locales: locales && Object.keys(locales.frontmatter).length ? locales.frontmatter : undefined,
+  };
+  const frontmatter = YAML.stringify(
+    Object.fromEntries(Object.entries(fm).filter(([, v]) => v !== undefined)),
+    { lineWidth: 0 },
+  );
+
+  const blocks: string[] = [`---\n${frontmatter}---`];
+  if (headingTitle) blocks.push(`# ${def.title}`);
+  if (paragraphDescription) blocks.push(def.description);
+  if (systemSection) blocks.push(`## System\n\n${def.system}`);
+  if (rulesSection) blocks.push(`## Rules\n\n${def.rules}`);
+  blocks.push(...(locales?.sections ?? []));
+  if (mdCommands.length) blocks.push(["## Commands", ...mdCommands.map(printMarkdownCommand)].join("\n\n"));
+  if (def.toolsSource) blocks.push(`## Tools\n\n${def.toolsSource}`);
+  return `${blocks.join("\n\n")}\n`;
+}
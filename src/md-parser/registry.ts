@@ -0,0 +1,235 @@
+import path from "node:path";
+import { CollectionFactory, type ICollection } from "../stc/collection.js";
+import { createAbilityPolicy } from "./abilities.js";
+import { resolveAgentSources } from "./compile-agents.js";
+import { parseAgentMdWithDiagnostics } from "./parse-agent-md.js";
+import type { AgentDefinition, AgentDiagnostic, AgentStatus } from "./types.js";
+
+/** Query fields, in the order `tempybot list` documents them. */
+export const AGENT_REGISTRY_FIELDS = ["title", "status", "tag", "ability", "env", "mcp"] as const;
+
+export type AgentRegistryField = (typeof AGENT_REGISTRY_FIELDS)[number];
+
+/**
+ * Every given field must match; a list matches any of its values. Values are compared case-insensitively and `*`
+ * is a wildcard (`title: "*review*"`).
+ */
+export type AgentRegistryQuery = Partial<Record<AgentRegistryField, string | string[]>>;
+
+export type AgentRegistryEntry = {
+  /** POSIX path relative to the registry's `cwd`; the registry key. */
+  file: string;
+  title: string;
+  status: AgentStatus;
+  tags: string[];
+  /** Base abilities some `abilities.allow` entry grants (and no unscoped `deny` takes away), e.g. `network`. */
+  abilities: string[];
+  /** `required.env`. */
+  env: string[];
+  /** Names of the configured MCP servers. */
+  mcpServers: string[];
+  definition: AgentDefinition;
+};
+
+export type AgentRegistryLoadError = {
+  /** POSIX path relative to `cwd`. */
+  file: string;
+  diagnostics: AgentDiagnostic[];
+};
+
+export type AgentRegistryOptions = {
+  cwd?: string;
+  collections?: CollectionFactory;
+};
+
+const FIELD_ALIASES: Record<string, AgentRegistryField> = {
+  tags: "tag",
+  abilities: "ability",
+  mcpservers: "mcp",
+  mcpserver: "mcp",
+};
+
+function toPosixPath(p: string): string {
+  return p.split(path.sep).join("/");
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function indexValues(entry: AgentRegistryEntry, field: AgentRegistryField): string[] {
+  switch (field) {
+    case "title":
+      return [entry.title];
+    case "status":
+      return [entry.status];
+    case "tag":
+      return entry.tags;
+    case "ability":
+      return entry.abilities;
+    case "env":
+      return entry.env;
+    case "mcp":
+      return entry.mcpServers;
+  }
+}
+
+/** The indexed view of a definition (see `AgentRegistryEntry`). */
+export function toAgentRegistryEntry(file: string, definition: AgentDefinition): AgentRegistryEntry {
+  const policy = createAbilityPolicy(definition.abilities);
+  const allowed = new Set(policy.rules.filter((r) => r.effect === "allow").map((r) => r.ability));
+  return {
+    file,
+    title: definition.title,
+    status: definition.status,
+    tags: definition.tags ?? [],
+    abilities: [...allowed].filter((a) => policy.allowsAny(a)),
+    env: definition.required.env ?? [],
+    mcpServers: Object.keys(definition.mcpServers ?? {}),
+    definition,
+  };
+}
+
+/**
+ * Parse `--where` conditions (`status=active`, `ability=network`, `tag=ops,infra`) into a query. Each string may
+ * hold several whitespace-separated conditions; plural field names (`tags`, `abilities`, `mcpServers`) are accepted.
+ */
+export function parseAgentRegistryWhere(conditions: string[]): AgentRegistryQuery {
+  const query: AgentRegistryQuery = {};
+  for (const condition of conditions.flatMap((c) => c.trim().split(/\s+/)).filter(Boolean)) {
+    const eq = condition.indexOf("=");
+    const name = eq === -1 ? "" : condition.slice(0, eq).trim().toLowerCase();
+    const field = FIELD_ALIASES[name] ?? AGENT_REGISTRY_FIELDS.find((f) => f === name);
+    const values = condition
+      .slice(eq + 1)
+      .split(",")
+      .map((v) => v.trim())
+      .filter(Boolean);
+    if (!field || !values.length) {
+      throw new Error(
+        `Invalid condition '${condition}': expected <field>=<value>[,<value>...] with field one of ` +
+          `${AGENT_REGISTRY_FIELDS.join(", ")}.`,
+      );
+    }
+    if (query[field] !== undefined) {
+      throw new Error(`Invalid condition '${condition}': '${field}' is given twice (use ${field}=a,b to match any).`);
+    }
+    query[field] = values.length === 1 ? values[0]! : values;
+  }
+  return query;
+}
+
+/**
+ * Agents loaded from `*.agent.md` templates, stored in a `CollectionFactory` collection keyed by file and indexed by
+ * title, status, tags, abilities, required env and MCP servers.
+ *
+ * ```ts
+ * const registry = await AgentRegistry.load(["agents"]);
+ * registry.find({ status: "active", ability: "network" });
+ * ```
+ */
+export class AgentRegistry {
+  /** Templates that failed to parse; they are not in the registry. */
+  public readonly errors: AgentRegistryLoadError[] = [];
+
+  private readonly agents: ICollection<AgentRegistryEntry, string>;
+  private readonly indexes = new Map<AgentRegistryField, Map<string, Set<string>>>();
+
+  public constructor(options?: { collections?: CollectionFactory }) {
+    const collections = options?.collections ?? new CollectionFactory();
+    this.agents = collections.create<AgentRegistryEntry, string>({ name: "agents", keyField: "file" });
+    for (const field of AGENT_REGISTRY_FIELDS) this.indexes.set(field, new Map());
+  }
+
+  /** Load every `*.agent.md` matched by `inputs` (directories, files or globs). */
+  public static async load(inputs: string[], opts: AgentRegistryOptions = {}): Promise<AgentRegistry> {
+    const cwd = opts.cwd ?? process.cwd();
+    const files = await resolveAgentSources(inputs, cwd);
+    if (!files.length) throw new Error(`No *.agent.md files matched: ${inputs.join(", ")}`);
+
+    const registry = new AgentRegistry({ collections: opts.collections });
+    for (const abs of files) {
+      const file = toPosixPath(path.relative(cwd, abs));
+      const result = await parseAgentMdWithDiagnostics(abs);
+      if (result.ok) registry.add(file, result.definition);
+      else registry.errors.push({ file, diagnostics: result.diagnostics });
+    }
+    return registry;
+  }
+
+  public get size(): number {
+    return this.agents.size;
+  }
+
+  /** Add or replace the agent stored under `file`. */
+  public add(file: string, definition: AgentDefinition): AgentRegistryEntry {
+    this.remove(file);
+    const entry = toAgentRegistryEntry(file, definition);
+    this.agents.upsert(entry);
+    for (const field of AGENT_REGISTRY_FIELDS) {
+      const index = this.indexes.get(field)!;
+      for (const value of indexValues(entry, field)) {
+        const key = value.toLowerCase();
+        let files = index.get(key);
+        if (!files) index.set(key, (files = new Set()));
+        files.add(file);
+      }
+    }
+    return entry;
+  }
+
+  public remove(file: string): boolean {
+    const entry = this.agents.get(file);
+    if (!entry) return false;
+    for (const field of AGENT_REGISTRY_FIELDS) {
+      const index = this.indexes.get(field)!;
+      for (const value of indexValues(entry, field)) {
+        const key = value.toLowerCase();
+        index.get(key)?.delete(file);
+        if (!index.get(key)?.size) index.delete(key);
+      }
+    }
+    return this.agents.delete(file);
+  }
+
+  public get(file: string): AgentRegistryEntry | undefined {
+    return this.agents.get(file);
+  }
+
+  /** All agents, sorted by file. */
+  public list(): AgentRegistryEntry[] {
+    return this.agents.list().sort((a, b) => a.file.localeCompare(b.file));
+  }
+
+  /** Distinct indexed values of `field` (lowercased, sorted), e.g. every tag in use. */
+  public values(field: AgentRegistryField): string[] {
+    return [...this.indexes.get(field)!.keys()].sort((a, b) => a.localeCompare(b));
+  }
+
+  /** Agents matching `query`, sorted by file. An empty query matches every agent. */
+  public find(query: AgentRegistryQuery): AgentRegistryEntry[] {
+    let matches: Set<string> | undefined;
+    for (const field of AGENT_REGISTRY_FIELDS) {
+      const wanted = query[field];
+      if (wanted === undefined) continue;
+      const files = this.lookup(field, Array.isArray(wanted) ? wanted : [wanted]);
+      matches = matches ? new Set([...matches].filter((f) => files.has(f))) : files;
+    }
+    if (!matches) return this.list();
+    return [...matches].sort((a, b) => a.localeCompare(b)).map((f) => this.agents.get(f)!);
+  }
+
+  private lookup(field: AgentRegistryField, values: string[]): Set<string> {
+    const index = this.indexes.get(field)!;
+    const out = new Set<string>();
+    for (const value of values.map((v) => v.toLowerCase())) {
+      if (!value.includes("*")) {
+        for (const f of index.get(value) ?? []) out.add(f);
+        continue;
+      }
+      const re = new RegExp(`^${value.split("*").map(escapeRegExp).join(".*")}$`);
+      for (const [key, files] of index) if (re.test(key)) for (const f of files) out.add(f);
+    }
+    return out;
+  }
+}
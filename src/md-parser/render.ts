@@ -0,0 +1,148 @@
+import { Ajv2020, type ErrorObject } from "ajv/dist/2020.js";
+import { HbsSyntaxError, parseHbs, renderHbs } from "./hbs.js";
+import { resolveAgentLocale } from "./locales.js";
+import type { AgentCommand, AgentDefinition, AgentInputSchema, AgentRenderIssue } from "./types.js";
+
+export type AgentRenderVariables = Record<string, unknown>;
+
+export type RenderAgentOptions = {
+  /**
+   * Coerce variable types to the declared schema (e.g. `"3"` -> `3`). Used by the CLI,
+   * where `--var k=v` values are always strings.
+   */
+  coerceTypes?: boolean;
+  /** Render the definition resolved for this locale (or preference list); see `resolveAgentLocale()`. */
+  locale?: string | string[];
+};
+
+/**
+ * Thrown by `renderAgent()`. The message is the first issue; `issues` carries every problem found.
+ */
+export class AgentRenderError extends Error {
+  public readonly issues: AgentRenderIssue[];
+
+  public constructor(issues: AgentRenderIssue[]) {
+    super(issues[0]?.message ?? "Failed to render agent.");
+    this.name = "AgentRenderError";
+    this.issues = issues;
+  }
+}
+
+type TemplateEngine = (template: string, variables: AgentRenderVariables, onMissing: (path: string) => void) => string;
+
+const TEMPLATE_ENGINES: Record<string, TemplateEngine> = {
+  hbs: (template, variables, onMissing) => renderHbs(parseHbs(template), variables, onMissing),
+  none: (template) => template,
+};
+
+/**
+ * Effective input schema: the declared `inputSchema` plus the primary `input` variable as required.
+ */
+export function agentInputJsonSchema(def: AgentDefinition): AgentInputSchema | undefined {
+  const primary = def.input.trim();
+  if (!def.inputSchema && !primary) return undefined;
+
+  const schema: AgentInputSchema = { type: "object", ...(def.inputSchema ?? {}) };
+  if (primary && !(schema.required ?? []).includes(primary)) {
+    schema.required = [...(schema.required ?? []), primary];
+  }
+  return schema;
+}
+
+function variableIssue(e: ErrorObject): AgentRenderIssue {
+  if (e.keyword === "required") {
+    const name = (e.params as { missingProperty: string }).missingProperty;
+    const parent = e.instancePath.split("/").filter(Boolean).join(".");
+    const variable = parent ? `${parent}.${name}` : name;
+    return { code: "RENDER.MISSING_VARIABLE", message: `Missing variable '${variable}'.`, field: `variables.${variable}` };
+  }
+  const variable = e.instancePath.split("/").filter(Boolean).join(".");
+  return {
+    code: "RENDER.INVALID_VARIABLES",
+    message: variable ? `Invalid variable '${variable}': ${e.message ?? "invalid"}.` : `Invalid variables: ${e.message ?? "invalid"}.`,
+    field: variable ? `variables.${variable}` : "variables",
+  };
+}
+
+function validateVariables(
+  def: AgentDefinition,
+  variables: AgentRenderVariables,
+  opts: RenderAgentOptions,
+): AgentRenderIssue[] {
+  const schema = agentInputJsonSchema(def);
+  if (!schema) return [];
+
+  const ajv = new Ajv2020({ allErrors: true, strict: false, useDefaults: true, coerceTypes: opts.coerceTypes ?? false });
+  let validate: ReturnType<typeof ajv.compile>;
+  try {
+    validate = ajv.compile(schema);
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return [{ code: "RENDER.INVALID_SCHEMA", message: `Invalid inputSchema: ${msg}`, field: "inputSchema" }];
+  }
+  // Mutates `variables` (defaults / coercion); callers pass a copy.
+  if (validate(variables)) return [];
+  return (validate.errors ?? []).map((e) => variableIssue(e));
+}
+
+/**
+ * Render `system`, `rules` and inline command bodies through the agent's template engine.
+ *
+ * Variables are validated against `inputSchema` (declared defaults are applied), and every template
+ * variable must resolve to a value: all problems are collected into a single `AgentRenderError`.
+ */
+export function renderAgent(
+  source: AgentDefinition,
+  variables: AgentRenderVariables = {},
+  opts: RenderAgentOptions = {},
+): AgentDefinition {
+  let def = source;
+  if (opts.locale !== undefined) {
+    try {
+      def = resolveAgentLocale(source, opts.locale);
+    } catch (e) {
+      throw new AgentRenderError([
+        { code: "RENDER.INVALID_LOCALE", message: e instanceof Error ? e.message : String(e), field: "locale" },
+      ]);
+    }
+  }
+  const engineName = (def.templateEngine || "none").trim().toLowerCase();
+  const engine = TEMPLATE_ENGINES[engineName];
+  if (!engine) {
+    throw new AgentRenderError([
+      {
+        code: "RENDER.UNKNOWN_ENGINE",
+        message: `Unknown templateEngine '${def.templateEngine}'. Supported: ${Object.keys(TEMPLATE_ENGINES).join(", ")}.`,
+        field: "templateEngine",
+      },
+    ]);
+  }
+
+  const vars = structuredClone(variables);
+  const issues = validateVariables(def, vars, opts);
+  if (issues.length) throw new AgentRenderError(issues);
+
+  const renderField = (field: string, template: string): string => {
+    const missing = new Set<string>();
+    try {
+      const out = engine(template, vars, (p) => missing.add(p));
+      for (const p of missing) {
+        issues.push({ code: "RENDER.MISSING_VARIABLE", message: `Missing variable '${p}' in ${field}.`, field });
+      }
+      return out;
+    } catch (e) {
+      if (!(e instanceof HbsSyntaxError)) throw e;
+      issues.push({ code: "RENDER.SYNTAX", message: `Template syntax error in ${field}: ${e.message}`, field });
+      return template;
+    }
+  };
+
+  const system = renderField("system", def.system);
+  const rules = renderField("rules", def.rules);
+  const commands: AgentCommand[] = def.commands.map((c, i) =>
+    typeof c === "string" ? c : { ...c, body: renderField(`commands[${i}].body`, c.body) },
+  );
+
+  if (issues.length) throw new AgentRenderError(issues);
+  return { ...def, system, rules, commands };
+}
@@ -0,0 +1,455 @@
+import { z } from "zod";
+import { parseAbility } from "./abilities.js";
+import { parseAllowedTools } from "./allowed-tools.js";
+import { canonicalLocale } from "./locales.js";
+import type { AgentDefinition, AgentLocalization } from "./types.js";
+
+/**
+ * Zod schemas for `.agent.md` frontmatter and the compiled `AgentDefinition`.
+ *
+ * This module is the single source for:
+ * - runtime validation in the loader (error texts are the `detail` part of `Invalid frontmatter '<path>': <detail>`)
+ * - the published JSON Schemas (`schemas/*.schema.json`, `tempybot schema`)
+ *
+ * Frontmatter schemas accept the lenient authoring form (e.g. `Status: Active`, `abilities: [FS]`)
+ * and normalize it; the JSON Schema documents the canonical form.
+ */
+
+export const AGENT_STATUSES = ["active", "deprecated", "disabled"] as const;
+
+export const AGENT_BASE_ABILITIES = ["fs", "network", "sh", "tool", "mcp", "browser", "env"] as const;
+
+export const AGENT_FRONTMATTER_SCHEMA_ID = "https://holiber.github.io/tempybot/schemas/agent-frontmatter.schema.json";
+export const AGENT_DEFINITION_SCHEMA_ID = "https://holiber.github.io/tempybot/schemas/agent-definition.schema.json";
+
+function isHttpUrl(s: string): boolean {
+  try {
+    const u = new URL(s);
+    return u.protocol === "http:" || u.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+function isLocalPathRef(s: string): boolean {
+  // Policy examples use explicit relative paths (./...) and may also reference absolute paths.
+  return s.startsWith("./") || s.startsWith("../") || s.startsWith("/");
+}
+
+function normalizeCase(v: unknown): unknown {
+  return typeof v === "string" ? v.trim().toLowerCase() : v;
+}
+
+const NON_BLANK = /\S/;
+
+/** Any string (empty allowed). */
+const textSchema = z.string({ error: "expected a string." });
+
+/** A string with at least one non-whitespace character. */
+const nonEmptyTextSchema = z
+  .string({ error: (iss) => (iss.input === undefined ? "must be a non-empty string." : "expected a string.") })
+  .regex(NON_BLANK, { error: "must be a non-empty string." });
+
+const nonEmptyItemSchema = z
+  .string({ error: "expected a non-empty string." })
+  .regex(NON_BLANK, { error: "expected a non-empty string." });
+
+const stringListSchema = z.array(nonEmptyItemSchema, { error: "expected an array of strings." });
+
+/** Tags are matched case-insensitively: trimmed, lowercased and de-duplicated. */
+export const agentTagsSchema = z
+  .array(z.preprocess(normalizeCase, nonEmptyItemSchema), { error: "expected an array of strings." })
+  .transform((list) => Array.from(new Set(list)));
+
+// ---- status ----
+
+export const agentStatusSchema = z.preprocess(
+  normalizeCase,
+  z.enum(AGENT_STATUSES, {
+    error: (iss) =>
+      typeof iss.input === "string"
+        ? `'${iss.input}'. Expected active | deprecated | disabled.`
+        : "expected a string (active | deprecated | disabled).",
+  }),
+);
+
+// ---- abilities ----
+
+function abilityIssueDetail(input: unknown): string {
+  if (typeof input !== "string" || !input) return "expected a non-empty string.";
+  const { ability, scope } = parseAbility(input);
+  if (!(AGENT_BASE_ABILITIES as readonly string[]).includes(ability)) {
+    return `unknown ability '${input}'. Allowed: ${AGENT_BASE_ABILITIES.join(", ")} (optionally scoped: '<ability>:<glob>').`;
+  }
+  if (!scope?.trim()) return `scoped ability must be in the form '${ability}:<glob>'.`;
+  return `scope must not contain whitespace (got '${input}').`;
+}
+
+/** Lowercase the ability name; scopes (commands, paths, hosts) are kept as written. */
+function normalizeAbility(v: unknown): unknown {
+  if (typeof v !== "string") return v;
+  const { ability, scope } = parseAbility(v.trim());
+  return scope === undefined ? ability : `${ability}:${scope}`;
+}
+
+const SCOPED_ABILITY_RE = new RegExp(`^(?:${AGENT_BASE_ABILITIES.join("|")}):\\S+$`);
+
+/** Canonical ability: a base ability, optionally scoped (`sh:git*`, `fs:read:/repo/**`). */
+const abilityValueSchema = z.union([
+  z.enum(AGENT_BASE_ABILITIES, { error: (iss) => abilityIssueDetail(iss.input) }),
+  z.string({ error: (iss) => abilityIssueDetail(iss.input) }).regex(SCOPED_ABILITY_RE, {
+    error: (iss) => abilityIssueDetail(iss.input),
+  }),
+]);
+
+const EMPTY_LIST_DETAIL = "must not be an empty array (omit it or provide entries).";
+
+const abilityListSchema = z
+  .array(z.preprocess(normalizeAbility, abilityValueSchema), { error: "expected an array of strings." })
+  .min(1, { error: EMPTY_LIST_DETAIL })
+  .transform((list) => Array.from(new Set(list)));
+
+export const agentAbilitiesSchema = z.union(
+  [
+    // Shorthand list means "allow".
+    abilityListSchema.transform((allow) => ({ allow })),
+    z
+      .looseObject({ allow: abilityListSchema.optional(), deny: abilityListSchema.optional() })
+      .superRefine((v, ctx) => {
+        if (!v.allow && !v.deny) {
+          ctx.addIssue({ code: "custom", message: "must include 'allow' and/or 'deny'." });
+          return;
+        }
+        const overlap = (v.allow ?? []).filter((a) => v.deny?.includes(a));
+        if (overlap.length) {
+          ctx.addIssue({ code: "custom", message: `allow/deny overlap is not allowed (${overlap.join(", ")}).` });
+        }
+      })
+      .transform((v) => ({ allow: v.allow, deny: v.deny })),
+  ],
+  { error: "expected an object or an array of strings." },
+);
+
+// ---- commands ----
+
+export const agentArgumentHintSchema = z.union(
+  [
+    z.string().regex(NON_BLANK, { error: "must be non-empty if provided." }),
+    z.array(z.string().regex(NON_BLANK), { error: "expected string[] of non-empty strings." }),
+  ],
+  { error: "expected a string or string[]." },
+);
+
+const commandRefSchema = z
+  .string()
+  .trim()
+  .min(1, { error: "string must be non-empty." })
+  .refine((s) => isLocalPathRef(s) || isHttpUrl(s), {
+    error: "expected a local path (./, ../, /) or an http(s) URL.",
+  })
+  .meta({ description: "Reference to a command file: a local path (./, ../, /) or an http(s) URL." });
+
+export const agentAllowedToolsSchema = z
+  .union([z.string(), z.array(z.string())], { error: "expected a string or string[]." })
+  .transform((v, ctx) => {
+    try {
+      return parseAllowedTools(v);
+    } catch (e) {
+      ctx.addIssue({ code: "custom", message: e instanceof Error ? e.message : String(e) });
+      return z.NEVER;
+    }
+  })
+  .meta({ description: "Tools the command may use, e.g. `Bash(git add:*), Read`." });
+
+export const agentInlineCommandSchema = z
+  .looseObject({
+    name: nonEmptyItemSchema,
+    description: nonEmptyItemSchema,
+    body: nonEmptyItemSchema,
+    "argument-hint": agentArgumentHintSchema.optional(),
+    "allowed-tools": agentAllowedToolsSchema.optional(),
+    delegate: nonEmptyItemSchema.optional().meta({ description: "Id of the bundle agent that handles the command." }),
+  })
+  .transform(({ "allowed-tools": allowedTools, ...rest }) => (allowedTools ? { ...rest, allowedTools } : rest));
+
+export const agentCommandsSchema = z
+  .array(z.union([commandRefSchema, agentInlineCommandSchema], { error: "expected a string or an object." }), {
+    error: "expected an array of strings or inline command objects.",
+  })
+  .min(1, { error: EMPTY_LIST_DETAIL });
+
+// ---- mcpServers ----
+
+export const mcpServerConfigSchema = z.object(
+  {
+    command: nonEmptyTextSchema,
+    args: z
+      .array(nonEmptyItemSchema.trim(), { error: "expected an array of strings." })
+      .optional(),
+    env: z
+      .record(z.string().regex(NON_BLANK, { error: "keys must be non-empty strings." }), textSchema, {
+        error: "expected an object of strings.",
+      })
+      .optional(),
+    cwd: nonEmptyTextSchema.optional(),
+  },
+  { error: "expected an object." },
+);
+
+export const mcpServersConfigSchema = z.record(
+  z.string().regex(NON_BLANK, { error: "server name must be non-empty." }),
+  mcpServerConfigSchema,
+  { error: "expected an object." },
+);
+
+// ---- recommended / required ----
+
+export const agentRecommendedSchema = z.looseObject(
+  { models: stringListSchema.optional(), capabilities: stringListSchema.optional() },
+  { error: "expected an object." },
+);
+
+export const agentRequiredSchema = z.looseObject(
+  {
+    env: stringListSchema.optional(),
+    // Non-empty + "declared under ## Tools" is checked after `extends` is resolved.
+    startup: z.string({ error: "expected a non-empty string." }).optional().meta({ description: "Name of a tool declared under `## Tools`." }),
+  },
+  { error: "expected an object." },
+);
+
+// ---- locales ----
+
+const localeTagSchema = z
+  .string({ error: "expected a locale tag." })
+  .refine((s) => canonicalLocale(s) !== undefined, { error: "expected a BCP 47 language tag (e.g. de, pt-BR)." })
+  .transform((s) => canonicalLocale(s)!);
+
+export const agentLocalizationSchema = z
+  .looseObject(
+    {
+      title: nonEmptyTextSchema.optional(),
+      description: textSchema.optional(),
+      system: textSchema.optional(),
+      rules: textSchema.optional(),
+      fallback: localeTagSchema
+        .optional()
+        .meta({ description: "Locale tried next for fields this one does not set (before the parent locale)." }),
+    },
+    { error: "expected an object." },
+  )
+  .transform(
+    ({ title, description, system, rules, fallback }): AgentLocalization => ({
+      ...(title !== undefined ? { title } : {}),
+      ...(description !== undefined ? { description } : {}),
+      ...(system !== undefined ? { system } : {}),
+      ...(rules !== undefined ? { rules } : {}),
+      ...(fallback !== undefined ? { fallback } : {}),
+    }),
+  );
+
+export const agentLocalesSchema = z
+  .record(
+    z.string().refine((s) => canonicalLocale(s) !== undefined, {
+      error: "keys must be BCP 47 language tags (e.g. de, pt-BR).",
+    }),
+    agentLocalizationSchema,
+    { error: "expected an object keyed by locale." },
+  )
+  .meta({ description: "Per-locale title, description, system, rules and fallback, keyed by locale tag." });
+
+// ---- inputSchema ----
+
+export const agentInputSchemaSchema = z
+  .looseObject(
+    {
+      type: z.literal("object", { error: "'type' must be 'object'." }).optional(),
+      properties: z
+        .record(z.string(), z.record(z.string(), z.unknown(), { error: "expected a JSON Schema object." }), {
+          error: "expected an object.",
+        })
+        .optional(),
+      required: z.array(z.string(), { error: "expected an array of strings." }).optional(),
+    },
+    { error: "expected an object (JSON Schema for render variables)." },
+  )
+  .meta({ description: "JSON Schema (type: object) that render variables are validated against." });
+
+/**
+ * Per-key frontmatter schemas. Keys are canonical names; the loader matches them case-insensitively.
+ */
+export const agentFrontmatterFields = {
+  schemaVersion: z
+    .int({ error: "expected a positive integer." })
+    .min(1, { error: "expected a positive integer." })
+    .optional()
+    .meta({ description: "Version of the `.agent.md` format; older templates are upgraded by `tempybot migrate`." }),
+  version: nonEmptyTextSchema.optional(),
+  icon: nonEmptyTextSchema.optional(),
+  title: nonEmptyTextSchema.optional(),
+  description: textSchema.optional(),
+  avatar: nonEmptyTextSchema.optional(),
+  status: agentStatusSchema.optional(),
+  tags: agentTagsSchema
+    .optional()
+    .meta({ description: "Labels to search agents by (`tempybot list --where tag=...`); lowercased." }),
+  templateEngine: textSchema.optional(),
+  input: textSchema.optional(),
+  inputSchema: agentInputSchemaSchema.optional(),
+  abilities: agentAbilitiesSchema.optional(),
+  recommended: agentRecommendedSchema.optional(),
+  required: agentRequiredSchema.optional(),
+  commands: agentCommandsSchema.optional(),
+  mcpServers: mcpServersConfigSchema.optional(),
+  system: textSchema.optional(),
+  rules: textSchema.optional(),
+  defaultLocale: localeTagSchema
+    .optional()
+    .meta({ description: "Locale of the unlocalized title, description, system and rules." }),
+  locales: agentLocalesSchema.optional(),
+  extends: nonEmptyTextSchema
+    .optional()
+    .meta({ description: "Base template: a bare agent name (`base` -> `base.agent.md`) or a ./relative path." }),
+};
+
+export type AgentFrontmatterKey = keyof typeof agentFrontmatterFields;
+
+export const agentFrontmatterSchema = z.looseObject(agentFrontmatterFields).meta({
+  title: "tempybot .agent.md frontmatter",
+  description: "YAML frontmatter of a tempybot agent template. Keys are matched case-insensitively.",
+});
+
+// ---- compiled definition (*.agent.json) ----
+
+const canonicalAbilityListSchema = z.array(abilityValueSchema);
+
+export const agentDefinitionSchema = z
+  .object({
+    version: z.string(),
+    icon: z.string(),
+    title: z.string().min(1),
+    description: z.string(),
+    avatar: z.string().optional(),
+    status: z.enum(AGENT_STATUSES),
+    tags: z.array(z.string()).optional(),
+    templateEngine: z.string(),
+    input: z.string(),
+    inputSchema: z
+      .looseObject({
+        type: z.literal("object").optional(),
+        properties: z.record(z.string(), z.record(z.string(), z.unknown())).optional(),
+        required: z.array(z.string()).optional(),
+      })
+      .optional(),
+    abilities: z
+      .looseObject({ allow: canonicalAbilityListSchema.optional(), deny: canonicalAbilityListSchema.optional() })
+      .optional(),
+    recommended: z.looseObject({ models: z.array(z.string()).optional(), capabilities: z.array(z.string()).optional() }),
+    required: z.looseObject({ env: z.array(z.string()).optional(), startup: z.string().optional() }),
+    commands: z.array(
+      z.union([
+        z.string(),
+        z.looseObject({
+          name: z.string(),
+          description: z.string(),
+          body: z.string(),
+          "argument-hint": z.union([z.string(), z.array(z.string())]).optional(),
+          allowedTools: z.array(z.object({ tool: z.string(), pattern: z.string().optional() })).optional(),
+          delegate: z.string().optional(),
+        }),
+      ]),
+    ),
+    mcpServers: z
+      .record(
+        z.string(),
+        z.object({
+          command: z.string(),
+          args: z.array(z.string()).optional(),
+          env: z.record(z.string(), z.string()).optional(),
+          cwd: z.string().optional(),
+        }),
+      )
+      .optional(),
+    system: z.string(),
+    rules: z.string(),
+    defaultLocale: z.string().optional(),
+    locales: z
+      .record(
+        z.string(),
+        z.object({
+          title: z.string().optional(),
+          description: z.string().optional(),
+          system: z.string().optional(),
+          rules: z.string().optional(),
+          fallback: z.string().optional(),
+        }),
+      )
+      .optional(),
+    toolsSource: z.string(),
+    tools: z
+      .array(
+        z.object({
+          name: z.string(),
+          description: z.string().optional(),
+          params: z.array(
+            z.object({
+              name: z.string(),
+              type: z.string().optional(),
+              description: z.string().optional(),
+              optional: z.boolean().optional(),
+              rest: z.boolean().optional(),
+            }),
+          ),
+          async: z.boolean(),
+        }),
+      )
+      .optional(),
+    inheritance: z
+      .object({ chain: z.array(z.string()), origins: z.record(z.string(), z.array(z.string())) })
+      .optional(),
+    includes: z.array(z.string()).optional(),
+  })
+  .meta({
+    title: "tempybot AgentDefinition",
+    description: "Compiled agent definition (`tempybot parse` output / *.agent.json).",
+  });
+
+// Compile-time guard: the schema must accept every `AgentDefinition` the loader can produce.
+const _definitionSchemaCoversType: z.ZodType<unknown, AgentDefinition> = agentDefinitionSchema;
+void _definitionSchemaCoversType;
+
+/**
+ * Most specific issue of a failed parse. For unions, descends into the only branch that accepted
+ * the value's type (e.g. an `abilities` object with an overlap), otherwise keeps the union's own message.
+ */
+export function primarySchemaIssue(issues: readonly z.core.$ZodIssue[]): { path: Array<string | number>; message: string } {
+  const issue = issues[0]!;
+  const path = issue.path.filter((seg): seg is string | number => typeof seg !== "symbol");
+  if (issue.code === "invalid_union") {
+    const matching = issue.errors.filter(
+      (branch) => !branch.some((b) => b.code === "invalid_type" && b.path.length === 0),
+    );
+    if (matching.length === 1 && matching[0]!.length) {
+      const inner = primarySchemaIssue(matching[0]!);
+      return { path: [...path, ...inner.path], message: inner.message };
+    }
+  }
+  return { path, message: issue.message };
+}
+
+type JsonSchema = Record<string, unknown>;
+
+function withId(schema: JsonSchema, id: string): JsonSchema {
+  const { $schema, ...rest } = schema;
+  return { $schema, $id: id, ...rest };
+}
+
+/** JSON Schema (draft 2020-12) for `.agent.md` YAML frontmatter. */
+export function agentFrontmatterJsonSchema(): JsonSchema {
+  return withId(z.toJSONSchema(agentFrontmatterSchema, { io: "input" }) as JsonSchema, AGENT_FRONTMATTER_SCHEMA_ID);
+}
+
+/** JSON Schema (draft 2020-12) for the compiled `AgentDefinition`. */
+export function agentDefinitionJsonSchema(): JsonSchema {
+  return withId(z.toJSONSchema(agentDefinitionSchema) as JsonSchema, AGENT_DEFINITION_SCHEMA_ID);
+}
@@ -0,0 +1,563 @@
+import { formatToolPermission } from "./allowed-tools.js";
+import { diffJson } from "./diff.js";
+import type {
+  AgentAbilities,
+  AgentCommand,
+  AgentDefinition,
+  AgentInlineCommand,
+  AgentToolPermission,
+  McpServerConfig,
+} from "./types.js";
+
+export const AGENT_CHANGE_CATEGORIES = ["breaking", "security", "cosmetic"] as const;
+
+/**
+ * - `breaking`: callers or existing runs may stop working (removed commands, stricter input, narrowed abilities).
+ * - `security`: the agent can do more than before (widened abilities / allowed-tools, MCP servers, tools code).
+ * - `cosmetic`: everything else (texts, metadata, added commands).
+ */
+export type AgentChangeCategory = (typeof AGENT_CHANGE_CATEGORIES)[number];
+
+export type AgentDefinitionChange = {
+  category: AgentChangeCategory;
+  /** Stable change kind, e.g. `command.removed`, `ability.allowed`, `mcpServer.env.added`. */
+  kind: string;
+  /** Where in the definition: `commands.deploy`, `abilities.allow`, `mcpServers.db.env`. */
+  path: string;
+  message: string;
+  before?: unknown;
+  after?: unknown;
+  /** Line diff of text fields (`- removed`, `+ added`). */
+  lines?: string[];
+};
+
+/** Fields compared by dedicated rules below; everything else falls back to a cosmetic value diff. */
+const HANDLED_FIELDS = new Set<string>([
+  "status",
+  "templateEngine",
+  "input",
+  "inputSchema",
+  "abilities",
+  "required",
+  "commands",
+  "mcpServers",
+  "system",
+  "rules",
+  "toolsSource",
+  "tools",
+  "inheritance",
+  "includes",
+  "locales",
+]);
+
+/** Changed lines of `after` versus `before` (LCS-based, no context lines). */
+export function diffTextLines(before: string, after: string): string[] {
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] = a[i] === b[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+  const out: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1]![j]! >= lcs[i]![j + 1]!)) {
+      out.push(`- ${a[i++]}`);
+    } else {
+      out.push(`+ ${b[j++]}`);
+    }
+  }
+  return out;
+}
+
+function commandName(c: AgentCommand): string {
+  return typeof c === "string" ? c : c.name;
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return diffJson(a, b).length === 0;
+}
+
+function added<T>(before: readonly T[], after: readonly T[]): T[] {
+  return after.filter((x) => !before.includes(x));
+}
+
+function quoteList(items: string[]): string {
+  return items.map((x) => `'${x}'`).join(", ");
+}
+
+function diffStatus(out: AgentDefinitionChange[], before: AgentDefinition, after: AgentDefinition): void {
+  if (before.status === after.status) return;
+  out.push({
+    category: after.status === "active" ? "cosmetic" : "breaking",
+    kind: "status.changed",
+    path: "status",
+    message: `Status changed from '${before.status}' to '${after.status}'.`,
+    before: before.status,
+    after: after.status,
+  });
+}
+
+function diffInput(out: AgentDefinitionChange[], before: AgentDefinition, after: AgentDefinition): void {
+  if (before.templateEngine !== after.templateEngine) {
+    out.push({
+      category: "breaking",
+      kind: "templateEngine.changed",
+      path: "templateEngine",
+      message: `Template engine changed from '${before.templateEngine}' to '${after.templateEngine}'.`,
+      before: before.templateEngine,
+      after: after.templateEngine,
+    });
+  }
+  if (before.input !== after.input) {
+    out.push({
+      category: after.input ? "breaking" : "cosmetic",
+      kind: "input.changed",
+      path: "input",
+      message: after.input
+        ? `Required input changed from '${before.input}' to '${after.input}'.`
+        : `Input '${before.input}' is no longer required.`,
+      before: before.input,
+      after: after.input,
+    });
+  }
+  if (sameJson(before.inputSchema, after.inputSchema)) return;
+  const props = (s: AgentDefinition["inputSchema"]) => Object.keys(s?.properties ?? {});
+  const removedProps = added(props(after.inputSchema), props(before.inputSchema));
+  const newlyRequired = added(before.inputSchema?.required ?? [], after.inputSchema?.required ?? []);
+  const changedTypes = props(before.inputSchema).filter(
+    (p) =>
+      after.inputSchema?.properties?.[p] !== undefined &&
+      !sameJson(before.inputSchema?.properties?.[p]?.type, after.inputSchema.properties[p]!.type),
+  );
+  const reasons = [
+    removedProps.length ? `removed ${quoteList(removedProps)}` : "",
+    newlyRequired.length ? `now requires ${quoteList(newlyRequired)}` : "",
+    changedTypes.length ? `changed the type of ${quoteList(changedTypes)}` : "",
+  ].filter(Boolean);
+  out.push({
+    category: reasons.length ? "breaking" : "cosmetic",
+    kind: "inputSchema.changed",
+    path: "inputSchema",
+    message: reasons.length ? `Input schema ${reasons.join(", ")}.` : "Input schema changed.",
+    before: before.inputSchema,
+    after: after.inputSchema,
+  });
+}
+
+function diffAbilities(out: AgentDefinitionChange[], before?: AgentAbilities, after?: AgentAbilities): void {
+  const list = (a: AgentAbilities | undefined, key: "allow" | "deny") => a?.[key] ?? [];
+  const allowed = added(list(before, "allow"), list(after, "allow"));
+  const revoked = added(list(after, "allow"), list(before, "allow"));
+  const denied = added(list(before, "deny"), list(after, "deny"));
+  const undenied = added(list(after, "deny"), list(before, "deny"));
+
+  if (allowed.length) {
+    out.push({
+      category: "security",
+      kind: "ability.allowed",
+      path: "abilities.allow",
+      message: `Abilities widened: now allows ${quoteList(allowed)}.`,
+      after: allowed,
+    });
+  }
+  if (undenied.length) {
+    out.push({
+      category: "security",
+      kind: "ability.undenied",
+      path: "abilities.deny",
+      message: `Abilities widened: no longer denies ${quoteList(undenied)}.`,
+      before: undenied,
+    });
+  }
+  if (revoked.length) {
+    out.push({
+      category: "breaking",
+      kind: "ability.revoked",
+      path: "abilities.allow",
+      message: `Abilities narrowed: no longer allows ${quoteList(revoked)}.`,
+      before: revoked,
+    });
+  }
+  if (denied.length) {
+    out.push({
+      category: "breaking",
+      kind: "ability.denied",
+      path: "abilities.deny",
+      message: `Abilities narrowed: now denies ${quoteList(denied)}.`,
+      after: denied,
+    });
+  }
+}
+
+function diffRequired(out: AgentDefinitionChange[], before: AgentDefinition, after: AgentDefinition): void {
+  const newEnv = added(before.required.env ?? [], after.required.env ?? []);
+  const droppedEnv = added(after.required.env ?? [], before.required.env ?? []);
+  if (newEnv.length) {
+    out.push({
+      category: "breaking",
+      kind: "required.env.added",
+      path: "required.env",
+      message: `Now requires environment variables ${quoteList(newEnv)}.`,
+      after: newEnv,
+    });
+  }
+  if (droppedEnv.length) {
+    out.push({
+      category: "cosmetic",
+      kind: "required.env.removed",
+      path: "required.env",
+      message: `No longer requires environment variables ${quoteList(droppedEnv)}.`,
+      before: droppedEnv,
+    });
+  }
+  if (before.required.startup !== after.required.startup) {
+    out.push({
+      category: "security",
+      kind: "required.startup.changed",
+      path: "required.startup",
+      message:
+        after.required.startup === undefined
+          ? `Startup tool '${before.required.startup}' removed.`
+          : `Startup tool set to '${after.required.startup}'.`,
+      before: before.required.startup,
+      after: after.required.startup,
+    });
+  }
+  const rest = (r: AgentDefinition["required"]) => ({ ...r, env: undefined, startup: undefined });
+  if (!sameJson(rest(before.required), rest(after.required))) {
+    out.push({
+      category: "cosmetic",
+      kind: "field.changed",
+      path: "required",
+      message: "Other 'required' entries changed.",
+      before: before.required,
+      after: after.required,
+    });
+  }
+}
+
+function diffAllowedTools(
+  out: AgentDefinitionChange[],
+  path: string,
+  name: string,
+  before?: AgentToolPermission[],
+  after?: AgentToolPermission[],
+): void {
+  if (sameJson(before, after)) return;
+  if (!after) {
+    out.push({
+      category: "security",
+      kind: "command.allowedTools.widened",
+      path,
+      message: `Command '${name}' no longer restricts tools.`,
+      before: before!.map(formatToolPermission),
+    });
+    return;
+  }
+  if (!before) {
+    out.push({
+      category: "breaking",
+      kind: "command.allowedTools.narrowed",
+      path,
+      message: `Command '${name}' now restricts tools to ${quoteList(after.map(formatToolPermission))}.`,
+      after: after.map(formatToolPermission),
+    });
+    return;
+  }
+  const b = before.map(formatToolPermission);
+  const a = after.map(formatToolPermission);
+  const widened = added(b, a);
+  const narrowed = added(a, b);
+  if (widened.length) {
+    out.push({
+      category: "security",
+      kind: "command.allowedTools.widened",
+      path,
+      message: `Command '${name}' now allows tools ${quoteList(widened)}.`,
+      after: widened,
+    });
+  }
+  if (narrowed.length) {
+    out.push({
+      category: "breaking",
+      kind: "command.allowedTools.narrowed",
+      path,
+      message: `Command '${name}' no longer allows tools ${quoteList(narrowed)}.`,
+      before: narrowed,
+    });
+  }
+}
+
+function diffCommands(out: AgentDefinitionChange[], before: AgentCommand[], after: AgentCommand[]): void {
+  const byName = (list: AgentCommand[]) => new Map(list.map((c) => [commandName(c).toLowerCase(), c]));
+  const b = byName(before);
+  const a = byName(after);
+
+  for (const [key, cmd] of b) {
+    if (a.has(key)) continue;
+    out.push({
+      category: "breaking",
+      kind: "command.removed",
+      path: `commands.${commandName(cmd)}`,
+      message: `Command '${commandName(cmd)}' removed.`,
+      before: cmd,
+    });
+  }
+  for (const [key, cmd] of a) {
+    const prev = b.get(key);
+    const name = commandName(cmd);
+    const path = `commands.${name}`;
+    if (prev === undefined) {
+      out.push({ category: "cosmetic", kind: "command.added", path, message: `Command '${name}' added.`, after: cmd });
+      continue;
+    }
+    if (sameJson(prev, cmd)) continue;
+    if (typeof prev === "string" || typeof cmd === "string") {
+      out.push({
+        category: "cosmetic",
+        kind: "command.changed",
+        path,
+        message: `Command '${name}' changed.`,
+        before: prev,
+        after: cmd,
+      });
+      continue;
+    }
+    diffInlineCommand(out, path, prev, cmd);
+  }
+}
+
+function diffInlineCommand(
+  out: AgentDefinitionChange[],
+  path: string,
+  before: AgentInlineCommand,
+  after: AgentInlineCommand,
+): void {
+  diffAllowedTools(out, `${path}.allowedTools`, after.name, before.allowedTools, after.allowedTools);
+  if (!sameJson(before["argument-hint"], after["argument-hint"])) {
+    out.push({
+      category: "cosmetic",
+      kind: "command.argumentHint.changed",
+      path: `${path}.argument-hint`,
+      message: `Command '${after.name}' argument hint changed.`,
+      before: before["argument-hint"],
+      after: after["argument-hint"],
+    });
+  }
+  const rest = (c: AgentInlineCommand) => ({ ...c, allowedTools: undefined, "argument-hint": undefined, body: undefined });
+  if (before.body !== after.body || !sameJson(rest(before), rest(after))) {
+    out.push({
+      category: "cosmetic",
+      kind: "command.changed",
+      path,
+      message: `Command '${after.name}' changed.`,
+      ...(before.body !== after.body ? { lines: diffTextLines(before.body, after.body) } : {}),
+    });
+  }
+}
+
+function diffMcpServer(out: AgentDefinitionChange[], name: string, before: McpServerConfig, after: McpServerConfig): void {
+  const path = `mcpServers.${name}`;
+  const launch = (s: McpServerConfig) => [s.command, ...(s.args ?? [])].join(" ");
+  if (launch(before) !== launch(after) || before.cwd !== after.cwd) {
+    out.push({
+      category: "security",
+      kind: "mcpServer.command.changed",
+      path,
+      message: `MCP server '${name}' now runs '${launch(after)}'${after.cwd ? ` in '${after.cwd}'` : ""}.`,
+      before: { command: before.command, args: before.args, cwd: before.cwd },
+      after: { command: after.command, args: after.args, cwd: after.cwd },
+    });
+  }
+
+  // Env values may be secrets: report keys only.
+  const be = before.env ?? {};
+  const ae = after.env ?? {};
+  const newKeys = added(Object.keys(be), Object.keys(ae));
+  const droppedKeys = added(Object.keys(ae), Object.keys(be));
+  const changedKeys = Object.keys(ae).filter((k) => k in be && be[k] !== ae[k]);
+  const envChanges: Array<[string, string[], string, "before" | "after"]> = [
+    ["mcpServer.env.added", newKeys, "now sets", "after"],
+    ["mcpServer.env.removed", droppedKeys, "no longer sets", "before"],
+    ["mcpServer.env.changed", changedKeys, "changed the value of", "after"],
+  ];
+  for (const [kind, keys, verb, side] of envChanges) {
+    if (!keys.length) continue;
+    out.push({
+      category: "security",
+      kind,
+      path: `${path}.env`,
+      message: `MCP server '${name}' ${verb} env ${quoteList(keys)}.`,
+      [side]: keys,
+    });
+  }
+}
+
+function diffMcpServers(out: AgentDefinitionChange[], before: AgentDefinition, after: AgentDefinition): void {
+  const b = before.mcpServers ?? {};
+  const a = after.mcpServers ?? {};
+  for (const name of Object.keys(b)) {
+    if (name in a) continue;
+    out.push({
+      category: "breaking",
+      kind: "mcpServer.removed",
+      path: `mcpServers.${name}`,
+      message: `MCP server '${name}' removed.`,
+    });
+  }
+  for (const [name, server] of Object.entries(a)) {
+    if (!(name in b)) {
+      out.push({
+        category: "security",
+        kind: "mcpServer.added",
+        path: `mcpServers.${name}`,
+        message: `MCP server '${name}' added (runs '${[server.command, ...(server.args ?? [])].join(" ")}').`,
+        after: { command: server.command, args: server.args, cwd: server.cwd, env: Object.keys(server.env ?? {}) },
+      });
+      continue;
+    }
+    diffMcpServer(out, name, b[name]!, server);
+  }
+}
+
+function diffTools(out: AgentDefinitionChange[], before: AgentDefinition, after: AgentDefinition): void {
+  const names = (d: AgentDefinition) => (d.tools ?? []).map((t) => t.name);
+  const newTools = added(names(before), names(after));
+  const droppedTools = added(names(after), names(before));
+  for (const name of newTools) {
+    out.push({ category: "security", kind: "tool.added", path: `tools.${name}`, message: `Tool '${name}' added.` });
+  }
+  for (const name of droppedTools) {
+    out.push({ category: "breaking", kind: "tool.removed", path: `tools.${name}`, message: `Tool '${name}' removed.` });
+  }
+  if (before.toolsSource !== after.toolsSource) {
+    // The tools program is executed by the tool host, so any code change matters.
+    out.push({
+      category: "security",
+      kind: "toolsSource.changed",
+      path: "toolsSource",
+      message: "Tools code changed.",
+      lines: diffTextLines(before.toolsSource, after.toolsSource),
+    });
+  }
+}
+
+function diffText(
+  out: AgentDefinitionChange[],
+  field: "system" | "rules",
+  before: string,
+  after: string,
+  locale?: string,
+): void {
+  if (before === after) return;
+  const label = `${field === "system" ? "System prompt" : "Rules"}${locale ? ` (${locale})` : ""}`;
+  out.push({
+    category: "cosmetic",
+    kind: `${field}.changed`,
+    path: locale ? `locales.${locale}.${field}` : field,
+    message: `${label} changed.`,
+    lines: diffTextLines(before, after),
+  });
+}
+
+function diffLocales(out: AgentDefinitionChange[], before: AgentDefinition, after: AgentDefinition): void {
+  const b = before.locales ?? {};
+  const a = after.locales ?? {};
+  for (const tag of [...Object.keys(b), ...Object.keys(a).filter((t) => !(t in b))]) {
+    const path = `locales.${tag}`;
+    if (!a[tag]) {
+      out.push({
+        category: "cosmetic",
+        kind: "locale.removed",
+        path,
+        message: `Locale '${tag}' removed.`,
+        before: b[tag],
+      });
+      continue;
+    }
+    if (!b[tag]) {
+      out.push({ category: "cosmetic", kind: "locale.added", path, message: `Locale '${tag}' added.`, after: a[tag] });
+      continue;
+    }
+    for (const field of ["title", "description", "fallback"] as const) {
+      if (b[tag][field] === a[tag][field]) continue;
+      out.push({
+        category: "cosmetic",
+        kind: "field.changed",
+        path: `${path}.${field}`,
+        message: `'${path}.${field}' changed.`,
+        before: b[tag][field],
+        after: a[tag][field],
+      });
+    }
+    diffText(out, "system", b[tag].system ?? "", a[tag].system ?? "", tag);
+    diffText(out, "rules", b[tag].rules ?? "", a[tag].rules ?? "", tag);
+  }
+}
+
+/**
+ * Field-by-field comparison of two definitions, classified as breaking / security / cosmetic.
+ *
+ * Commands are matched by name (case-insensitive), MCP servers by key; abilities and `allowed-tools` compare entries
+ * as written, so replacing `sh:git*` with `sh` reports both the widening and the narrowing. MCP env values are never
+ * included, only their keys.
+ */
+export function diffAgentDefinitions(before: AgentDefinition, after: AgentDefinition): AgentDefinitionChange[] {
+  const out: AgentDefinitionChange[] = [];
+
+  const keys = [...Object.keys(before), ...Object.keys(after).filter((k) => !(k in before))];
+  for (const key of keys.filter((k) => !HANDLED_FIELDS.has(k))) {
+    const b = (before as Record<string, unknown>)[key];
+    const a = (after as Record<string, unknown>)[key];
+    if (sameJson(b, a)) continue;
+    out.push({ category: "cosmetic", kind: "field.changed", path: key, message: `'${key}' changed.`, before: b, after: a });
+  }
+
+  diffStatus(out, before, after);
+  diffInput(out, before, after);
+  diffAbilities(out, before.abilities, after.abilities);
+  diffRequired(out, before, after);
+  diffCommands(out, before.commands, after.commands);
+  diffMcpServers(out, before, after);
+  diffTools(out, before, after);
+  diffText(out, "system", before.system, after.system);
+  diffText(out, "rules", before.rules, after.rules);
+  diffLocales(out, before, after);
+  return out;
+}
+
+/** Number of changes per category. */
+export function summarizeAgentChanges(changes: AgentDefinitionChange[]): Record<AgentChangeCategory, number> {
+  const summary: Record<AgentChangeCategory, number> = { breaking: 0, security: 0, cosmetic: 0 };
+  for (const c of changes) summary[c.category]++;
+  return summary;
+}
+
+/** Plain-text report: one section per non-empty category, text diffs indented under their change. */
+export function formatAgentChanges(changes: AgentDefinitionChange[]): string {
+  if (!changes.length) return "No changes.";
+  const summary = summarizeAgentChanges(changes);
+  const lines: string[] = [];
+  for (const category of AGENT_CHANGE_CATEGORIES) {
+    const inCategory = changes.filter((c) => c.category === category);
+    if (!inCategory.length) continue;
+    lines.push(`${category[0]!.toUpperCase()}${category.slice(1)} (${inCategory.length}):`);
+    for (const c of inCategory) {
+      lines.push(`  - ${c.path}: ${c.message}`);
+      for (const l of c.lines ?? []) lines.push(`      ${l}`);
+    }
+  }
+  lines.push(
+    `${changes.length} change${changes.length === 1 ? "" : "s"}: ` +
+      AGENT_CHANGE_CATEGORIES.map((c) => `${summary[c]} ${c}`).join(", ") +
+      ".",
+  );
+  return lines.join("\n");
+}
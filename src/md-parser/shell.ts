@@ -0,0 +1,23 @@
+import { execFile } from "node:child_process";
+
+export type ShellExecResult = { stdout: string; stderr: string; exitCode: number };
+
+/**
+ * Runs a shell command (`!`-snippets, tool host `sh`). Injected so callers (and tests) control
+ * how / where commands execute.
+ */
+export type ShellExecutor = (command: string, opts: { cwd?: string }) => Promise<ShellExecResult>;
+
+/** `sh -c <command>` via `child_process.execFile`. */
+export const defaultShellExecutor: ShellExecutor = (command, opts) =>
+  new Promise((resolve) => {
+    execFile("sh", ["-c", command], { cwd: opts.cwd, maxBuffer: 10 * 1024 * 1024 }, (err, stdout, stderr) => {
+      const code = (err as { code?: unknown } | null)?.code;
+      resolve({ stdout, stderr, exitCode: err ? (typeof code === "number" ? code : 1) : 0 });
+    });
+  });
+
+/** Quote `s` as a single POSIX shell word (left bare when it is safe). */
+export function shellQuote(s: string): string {
+  return /^[\w@%+=:,./-]+$/.test(s) ? s : `'${s.replace(/'/g, `'\\''`)}'`;
+}
@@ -0,0 +1,284 @@
+import ts from "typescript";
+import type { AgentToolManifestEntry, AgentToolParameter } from "./types.js";
+
+type FunctionLike = ts.ArrowFunction | ts.FunctionExpression | ts.FunctionDeclaration | ts.MethodDeclaration;
+
+/** Descriptor members that hold the tool implementation. */
+const TOOL_RUN_MEMBERS = ["run", "execute", "handler"];
+
+/** Top-level bindings of the tools program (the body the runtime wraps into a function). */
+type Scope = {
+  sourceFile: ts.SourceFile;
+  values: Map<string, { init: ts.Expression; decl: ts.Node }>;
+  functions: Map<string, ts.FunctionDeclaration>;
+};
+
+const CODE_FENCE_RE = /^```[\w-]*[^\S\n]*\n([\s\S]*?)\n```$/;
+
+function unwrapExpression(expr: ts.Expression): ts.Expression {
+  let e = expr;
+  while (
+    ts.isParenthesizedExpression(e) ||
+    ts.isAsExpression(e) ||
+    ts.isSatisfiesExpression(e) ||
+    ts.isTypeAssertionExpression(e) ||
+    ts.isNonNullExpression(e)
+  ) {
+    e = e.expression;
+  }
+  return e;
+}
+
+function isFunctionLike(node: ts.Node): node is FunctionLike {
+  return (
+    ts.isArrowFunction(node) ||
+    ts.isFunctionExpression(node) ||
+    ts.isFunctionDeclaration(node) ||
+    ts.isMethodDeclaration(node)
+  );
+}
+
+function collectScope(sourceFile: ts.SourceFile): Scope {
+  const scope: Scope = { sourceFile, values: new Map(), functions: new Map() };
+  for (const stmt of sourceFile.statements) {
+    if (ts.isFunctionDeclaration(stmt) && stmt.name) {
+      scope.functions.set(stmt.name.text, stmt);
+    } else if (ts.isVariableStatement(stmt)) {
+      for (const decl of stmt.declarationList.declarations) {
+        if (ts.isIdentifier(decl.name) && decl.initializer) {
+          scope.values.set(decl.name.text, { init: decl.initializer, decl });
+        }
+      }
+    }
+  }
+  return scope;
+}
+
+/** Returned expressions, skipping `return`s of nested functions. */
+function collectReturnExpressions(node: ts.Node, out: ts.Expression[] = []): ts.Expression[] {
+  node.forEachChild((child) => {
+    if (isFunctionLike(child) || ts.isClassLike(child)) return;
+    if (ts.isReturnStatement(child)) {
+      if (child.expression) out.push(child.expression);
+      return;
+    }
+    collectReturnExpressions(child, out);
+  });
+  return out;
+}
+
+function jsDocDescription(node: ts.Node): string | undefined {
+  const docs = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc);
+  const text = docs.length ? ts.getTextOfJSDocComment(docs[docs.length - 1]!.comment)?.trim() : undefined;
+  return text || undefined;
+}
+
+function propertyNameText(name: ts.PropertyName, scope: Scope): string | undefined {
+  if (ts.isIdentifier(name) || ts.isStringLiteralLike(name) || ts.isNumericLiteral(name)) return name.text;
+  if (ts.isPrivateIdentifier(name)) return undefined;
+  if (ts.isComputedPropertyName(name)) {
+    const expr = unwrapExpression(name.expression);
+    if (ts.isStringLiteralLike(expr) || ts.isNumericLiteral(expr)) return expr.text;
+    if (ts.isIdentifier(expr)) {
+      const bound = scope.values.get(expr.text);
+      const init = bound && unwrapExpression(bound.init);
+      if (init && (ts.isStringLiteralLike(init) || ts.isNumericLiteral(init))) return init.text;
+    }
+  }
+  return undefined;
+}
+
+function toolParameters(fn: FunctionLike, scope: Scope): AgentToolParameter[] {
+  const out: AgentToolParameter[] = [];
+  for (const param of fn.parameters) {
+    const name = ts.isIdentifier(param.name) ? param.name.text : param.name.getText(scope.sourceFile);
+    if (name === "this") continue;
+
+    const tag = ts.getJSDocParameterTags(param)[0];
+    const type = param.type?.getText(scope.sourceFile) ?? tag?.typeExpression?.type.getText(scope.sourceFile);
+    const description = tag ? ts.getTextOfJSDocComment(tag.comment)?.replace(/^-\s*/, "").trim() : undefined;
+    const rest = param.dotDotDotToken !== undefined;
+    const optional = rest || param.questionToken !== undefined || param.initializer !== undefined || tag?.isBracketed;
+
+    out.push({
+      name,
+      ...(type ? { type } : {}),
+      ...(description ? { description } : {}),
+      ...(optional ? { optional: true } : {}),
+      ...(rest ? { rest: true } : {}),
+    });
+  }
+  return out;
+}
+
+function isAsync(fn: FunctionLike): boolean {
+  return (ts.getCombinedModifierFlags(fn) & ts.ModifierFlags.Async) !== 0;
+}
+
+/** Resolve an identifier to the function it names (directly or through `const x = () => ...`). */
+function resolveFunction(
+  expr: ts.Expression,
+  scope: Scope,
+  seen: Set<string>,
+): { fn: FunctionLike; docHost: ts.Node } | undefined {
+  const e = unwrapExpression(expr);
+  if (isFunctionLike(e)) return { fn: e, docHost: e };
+  if (!ts.isIdentifier(e) || seen.has(e.text)) return undefined;
+  const declared = scope.functions.get(e.text);
+  if (declared) return { fn: declared, docHost: declared };
+  const bound = scope.values.get(e.text);
+  if (!bound) return undefined;
+  const inner = resolveFunction(bound.init, scope, new Set(seen).add(e.text));
+  return inner && { fn: inner.fn, docHost: inner.docHost === inner.fn ? bound.decl : inner.docHost };
+}
+
+function descriptorMember(obj: ts.ObjectLiteralExpression, name: string, scope: Scope): ts.Node | undefined {
+  return obj.properties.find((p) => p.name !== undefined && propertyNameText(p.name, scope) === name);
+}
+
+function toolFromValue(
+  name: string,
+  value: ts.Node,
+  docHost: ts.Node,
+  scope: Scope,
+  seen: Set<string>,
+): AgentToolManifestEntry {
+  let fn: FunctionLike | undefined;
+  let fnDocHost: ts.Node | undefined;
+  let descriptorDescription: string | undefined;
+
+  if (isFunctionLike(value)) {
+    fn = value;
+    fnDocHost = value;
+  } else if (ts.isExpression(value)) {
+    const resolved = resolveFunction(value, scope, seen);
+    if (resolved) {
+      fn = resolved.fn;
+      fnDocHost = resolved.docHost;
+    } else {
+      const obj = resolveObjectLiteral(value, scope, seen);
+      if (obj) {
+        const description = descriptorMember(obj, "description", scope);
+        if (description && ts.isPropertyAssignment(description)) {
+          const init = unwrapExpression(description.initializer);
+          if (ts.isStringLiteralLike(init)) descriptorDescription = init.text.trim() || undefined;
+        }
+        for (const member of TOOL_RUN_MEMBERS) {
+          const m = descriptorMember(obj, member, scope);
+          const run = m && ts.isMethodDeclaration(m) ? { fn: m, docHost: m } : undefined;
+          const resolvedRun =
+            run ??
+            (m && ts.isPropertyAssignment(m) ? resolveFunction(m.initializer, scope, seen) : undefined) ??
+            (m && ts.isShorthandPropertyAssignment(m) ? resolveFunction(m.name, scope, seen) : undefined);
+          if (resolvedRun) {
+            fn = resolvedRun.fn;
+            fnDocHost = resolvedRun.docHost;
+            break;
+          }
+        }
+      }
+    }
+  }
+
+  const description =
+    jsDocDescription(docHost) ?? descriptorDescription ?? (fnDocHost ? jsDocDescription(fnDocHost) : undefined);
+  return {
+    name,
+    ...(description ? { description } : {}),
+    params: fn ? toolParameters(fn, scope) : [],
+    async: fn ? isAsync(fn) : false,
+  };
+}
+
+function resolveObjectLiteral(
+  expr: ts.Expression,
+  scope: Scope,
+  seen: Set<string>,
+): ts.ObjectLiteralExpression | undefined {
+  const e = unwrapExpression(expr);
+  if (ts.isObjectLiteralExpression(e)) return e;
+  if (ts.isIdentifier(e) && !seen.has(e.text)) {
+    const bound = scope.values.get(e.text);
+    if (bound) return resolveObjectLiteral(bound.init, scope, new Set(seen).add(e.text));
+  }
+  return undefined;
+}
+
+/**
+ * Collect the tools of an object expression into `out`. Later keys override earlier ones but keep
+ * their first position, like object spread does.
+ */
+function collectTools(
+  expr: ts.Expression,
+  scope: Scope,
+  seen: Set<string>,
+  out: Map<string, AgentToolManifestEntry>,
+): void {
+  const e = unwrapExpression(expr);
+
+  // Object.assign({}, a, b)
+  if (
+    ts.isCallExpression(e) &&
+    ts.isPropertyAccessExpression(e.expression) &&
+    ts.isIdentifier(e.expression.expression) &&
+    e.expression.expression.text === "Object" &&
+    e.expression.name.text === "assign"
+  ) {
+    for (const arg of e.arguments) collectTools(arg, scope, seen, out);
+    return;
+  }
+
+  if (ts.isIdentifier(e)) {
+    const bound = seen.has(e.text) ? undefined : scope.values.get(e.text);
+    if (bound) collectTools(bound.init, scope, new Set(seen).add(e.text), out);
+    return;
+  }
+
+  if (!ts.isObjectLiteralExpression(e)) return;
+  for (const prop of e.properties) {
+    if (ts.isSpreadAssignment(prop)) {
+      collectTools(prop.expression, scope, seen, out);
+      continue;
+    }
+    if (ts.isGetAccessor(prop) || ts.isSetAccessor(prop)) continue;
+
+    const name = propertyNameText(prop.name, scope);
+    if (name === undefined) continue;
+    const value = ts.isPropertyAssignment(prop)
+      ? prop.initializer
+      : ts.isShorthandPropertyAssignment(prop)
+        ? prop.name
+        : prop;
+    out.set(name, toolFromValue(name, value, prop, scope, seen));
+  }
+}
+
+/**
+ * The program of a `## Tools` section: the section text, without a single enclosing code fence.
+ */
+export function toolsProgramCode(toolsSource: string): string {
+  const trimmed = toolsSource.trim();
+  return CODE_FENCE_RE.exec(trimmed)?.[1] ?? trimmed;
+}
+
+/**
+ * Build the tool manifest of a `## Tools` section.
+ *
+ * The section is parsed as a TS/JS program whose top level is a function body (a top-level `return`
+ * is allowed; a single enclosing code fence is stripped). Every `return` outside nested functions
+ * contributes: object literals, `const` bindings, spreads, `Object.assign(...)`, string-valued
+ * computed keys and shorthand references to functions declared elsewhere in the section are resolved
+ * statically; nothing is executed. Values that cannot be resolved are ignored.
+ */
+export function extractToolsManifest(toolsSource: string): AgentToolManifestEntry[] {
+  const code = toolsProgramCode(toolsSource);
+  if (!code) return [];
+
+  const sourceFile = ts.createSourceFile("tools.ts", code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  const scope = collectScope(sourceFile);
+  const out = new Map<string, AgentToolManifestEntry>();
+  for (const expr of collectReturnExpressions(sourceFile)) {
+    collectTools(expr, scope, new Set(), out);
+  }
+  return Array.from(out.values());
+}
@@ -2,16 +2,17 @@ export type AgentStatus = "active" | "deprecated" | "disabled";
 
 export type AgentAbilities = {
   /**
-   * Allowed abilities. Values are case-insensitive and normalized to lowercase.
+   * Allowed abilities. Ability names are case-insensitive and normalized to lowercase.
    *
    * Supported base abilities: fs, network, sh, tool, mcp, browser, env
-   * Supported scoped abilities: sh:<command>
+   * Scoped abilities: `<ability>:<glob>` (e.g. `sh:git*`, `fs:read:/repo/**`, `network:*.github.com`);
+   * scopes are case-sensitive. See `createAbilityPolicy()` for matching.
    */
   allow?: string[];
   /**
-   * Denied abilities. Values are case-insensitive and normalized to lowercase.
+   * Denied abilities, same syntax as `allow`.
    *
-   * If both allow and deny are present, any overlap is an error and deny wins at runtime.
+   * If both allow and deny list the same entry, it is an error; otherwise deny wins at runtime.
    */
   deny?: string[];
   [k: string]: unknown;
@@ -29,16 +30,49 @@ export type AgentRequired = {
   [k: string]: unknown;
 };
 
+/**
+ * One `allowed-tools` entry: `Tool` or `Tool(pattern)` (e.g. `Bash(git add:*)`, `Read(./src/**)`).
+ */
+export type AgentToolPermission = {
+  /** Tool name as written; matched case-insensitively. */
+  tool: string;
+  /**
+   * Optional argument pattern. `prefix:*` matches the prefix followed by anything (word boundary),
+   * `*` elsewhere is a wildcard, anything else must match exactly. Absent = any use of the tool.
+   */
+  pattern?: string;
+};
+
+/** A tool use to check against `allowed-tools` (e.g. `{ tool: "Bash", input: "git add ." }`). */
+export type AgentToolCall = { tool: string; input?: string };
+
 export type AgentInlineCommand = {
   name: string;
   description: string;
   body: string;
   "argument-hint"?: string | string[];
+  /**
+   * Parsed from the command's `allowed-tools` frontmatter. When present, tool calls made while the
+   * command executes must match one of the entries.
+   */
+  allowedTools?: AgentToolPermission[];
+  /**
+   * Id of the agent that handles the command. Inside a bundle it must name another agent of the bundle
+   * (see `parseAgentBundleWithDiagnostics()`).
+   */
+  delegate?: string;
   [k: string]: unknown;
 };
 
 export type AgentCommand = string | AgentInlineCommand;
 
+export type AgentInputSchema = {
+  type?: "object";
+  properties?: Record<string, Record<string, unknown>>;
+  required?: string[];
+  [k: string]: unknown;
+};
+
 export type McpServerConfig = {
   command: string;
   args?: string[];
@@ -48,12 +82,57 @@ export type McpServerConfig = {
 
 export type McpServersConfig = Record<string, McpServerConfig>;
 
+/**
+ * Resolved `extends` chain of a template.
+ *
+ * Paths are POSIX paths relative to the directory of the template that was loaded.
+ */
+export type AgentInheritance = {
+  /** Base templates, nearest first. */
+  chain: string[];
+  /**
+   * Templates that contributed each field, base first. Overridden fields list a single template;
+   * appended/merged fields (`rules`, `commands`, `mcpServers`, `abilities`, `recommended`, `required`)
+   * list every contributor.
+   */
+  origins: Partial<Record<Exclude<keyof AgentDefinition, "inheritance" | "includes">, string[]>>;
+};
+
+/**
+ * A parameter of a `## Tools` function, as declared in source.
+ */
+export type AgentToolParameter = {
+  /** Parameter name; destructured parameters keep their binding pattern source (`{ pod, namespace }`). */
+  name: string;
+  /** TypeScript annotation or JSDoc `@param {type}`, as written. */
+  type?: string;
+  description?: string;
+  /** `?`, a default value or a rest parameter. */
+  optional?: boolean;
+  rest?: boolean;
+};
+
+/**
+ * A tool returned by the `## Tools` program.
+ *
+ * A tool is either a function (arrow, function expression, method or a reference to a function
+ * declaration) or a descriptor object with a `description` and a `run` / `execute` / `handler` member.
+ */
+export type AgentToolManifestEntry = {
+  name: string;
+  /** JSDoc on the tool, else a descriptor's `description` string, else the JSDoc of the referenced function. */
+  description?: string;
+  params: AgentToolParameter[];
+  async: boolean;
+};
+
 /**
  * Deterministic parse output for `.agent.md` files.
  *
  * Notes:
  * - The loader performs strict validation / conflict detection for known fields.
- * - `toolsSource` is raw Markdown content under the `## Tools` heading (execution is runtime responsibility).
+ * - `toolsSource` is raw Markdown content under the `## Tools` heading (executed by the agnet tool host,
+ *   `src/agnet/tool-host.ts`).
  */
 export type AgentDefinition = {
   version: string;
@@ -66,8 +145,20 @@ export type AgentDefinition = {
    */
   avatar?: string;
   status: AgentStatus;
+  /**
+   * Labels from the `tags:` frontmatter list, lowercased and de-duplicated (used by `AgentRegistry` queries).
+   */
+  tags?: string[];
   templateEngine: string;
+  /**
+   * Name of the primary input variable. When non-empty, `renderAgent()` requires it.
+   */
   input: string;
+  /**
+   * Optional JSON Schema (type: object) for render variables, declared as `inputSchema` in frontmatter.
+   * Property names are preserved as provided.
+   */
+  inputSchema?: AgentInputSchema;
   /**
    * Optional runtime extension. When present, it is validated by the loader.
    */
@@ -82,7 +173,47 @@ export type AgentDefinition = {
   mcpServers?: McpServersConfig;
   system: string;
   rules: string;
+  /**
+   * Locale the unlocalized `title` / `description` / `system` / `rules` are written in (`defaultLocale:` frontmatter).
+   */
+  defaultLocale?: string;
+  /**
+   * Per-locale overrides from `## System (<locale>)` / `## Rules (<locale>)` sections and the `locales:` frontmatter
+   * map, keyed by canonical tag (`de`, `pt-BR`). Use `resolveAgentLocale()` to apply them.
+   */
+  locales?: Record<string, AgentLocalization>;
   toolsSource: string;
+  /**
+   * Tool manifest extracted from `toolsSource` (present when the template has a `## Tools` section).
+   */
+  tools?: AgentToolManifestEntry[];
+  /**
+   * Present when the template uses `extends:` (file-based loaders only).
+   */
+  inheritance?: AgentInheritance;
+  /**
+   * Files pulled in by `<!-- include: path -->` directives (POSIX paths relative to the template directory), in
+   * inclusion order; present when the template (or its `extends` chain) includes any.
+   */
+  includes?: string[];
+};
+
+export type AgentLocalization = {
+  title?: string;
+  description?: string;
+  system?: string;
+  rules?: string;
+  /** Locale tried next for fields this one does not set (before its parent locale, e.g. `de-CH` -> `de`). */
+  fallback?: string;
+};
+
+/** Options of the file-based loaders (`parseAgentMd()` and friends). */
+export type ParseAgentMdOptions = {
+  /**
+   * Includes must resolve inside this directory. Default: the working directory when the template lives below it,
+   * else the template's directory.
+   */
+  templatesRoot?: string;
 };
 
 export const AGENT_DEFINITION_DEFAULTS: Pick<
@@ -111,3 +242,102 @@ export const AGENT_DEFINITION_DEFAULTS: Pick<
   rules: "",
   toolsSource: "",
 };
+
+export type AgentDiagnosticSeverity = "error" | "warn";
+
+/**
+ * Stable diagnostic codes emitted by the loader.
+ */
+export type AgentDiagnosticCode =
+  | "FRONTMATTER.YAML_SYNTAX"
+  | "FRONTMATTER.INVALID"
+  | "FRONTMATTER.CONFLICT"
+  | "TITLE.MISSING"
+  | "COMMAND.INVALID"
+  | "REQUIRED.STARTUP"
+  | "EXTENDS.UNRESOLVED"
+  | "EXTENDS.NOT_FOUND"
+  | "EXTENDS.CYCLE"
+  | "BUNDLE.INVALID"
+  | "BUNDLE.DUPLICATE_AGENT"
+  | "BUNDLE.UNKNOWN_DELEGATE"
+  | "INCLUDE.UNRESOLVED"
+  | "INCLUDE.NOT_FOUND"
+  | "INCLUDE.OUTSIDE_ROOT"
+  | "INCLUDE.CYCLE"
+  | "SCHEMA.MIGRATED"
+  | "SCHEMA.UNSUPPORTED_VERSION"
+  | "LOCALE.INVALID";
+
+export type AgentSourcePosition = {
+  /** 1-based line in the raw template (frontmatter included). */
+  line: number;
+  /** 1-based column. */
+  column: number;
+  /** 0-based character offset in the raw template. */
+  offset: number;
+};
+
+export type AgentSourceRange = {
+  start: AgentSourcePosition;
+  end: AgentSourcePosition;
+};
+
+export type AgentDiagnostic = {
+  code: AgentDiagnosticCode;
+  severity: AgentDiagnosticSeverity;
+  message: string;
+  /**
+   * Location of the offending YAML key / Markdown heading, when it can be determined.
+   */
+  range?: AgentSourceRange;
+  /**
+   * Frontmatter key path (e.g. `mcpServers.db.command`, `commands[0].body`) for YAML problems.
+   */
+  path?: string;
+  /** Source file, set by file-based loaders. */
+  file?: string;
+};
+
+export type AgentTemplateResult =
+  | { ok: true; definition: AgentDefinition; diagnostics: AgentDiagnostic[] }
+  | { ok: false; definition?: undefined; diagnostics: AgentDiagnostic[] };
+
+/** One agent of a multi-agent bundle. */
+export type AgentBundleMember = {
+  /**
+   * Name other agents delegate to: the file name without `.agent.md` (`bundle.yaml`) or the slugified title
+   * (`*.agents.md`, `# Release Reviewer` -> `release-reviewer`).
+   */
+  id: string;
+  /** File the agent was loaded from, POSIX path relative to the bundle directory. */
+  source: string;
+  definition: AgentDefinition;
+};
+
+/** A coordinator plus sub-agents that are deployed together. */
+export type AgentBundle = {
+  name: string;
+  description?: string;
+  /** In declaration order; the first agent is the bundle's entry point. */
+  agents: AgentBundleMember[];
+};
+
+export type AgentBundleResult =
+  | { ok: true; bundle: AgentBundle; diagnostics: AgentDiagnostic[] }
+  | { ok: false; bundle?: undefined; diagnostics: AgentDiagnostic[] };
+
+export type AgentRenderIssueCode =
+  | "RENDER.UNKNOWN_ENGINE"
+  | "RENDER.SYNTAX"
+  | "RENDER.INVALID_SCHEMA"
+  | "RENDER.INVALID_VARIABLES"
+  | "RENDER.MISSING_VARIABLE"
+  | "RENDER.INVALID_LOCALE";
+
+export type AgentRenderIssue = {
+  code: AgentRenderIssueCode;
+  message: string;
+  /** Rendered field (`system`, `rules`, `commands[0].body`) or variable path (`variables.limit`). */
+  field?: string;
+};
@@ -0,0 +1,126 @@
+import { watch, type FSWatcher } from "node:fs";
+import path from "node:path";
+import type { AgentDefinition } from "./types.js";
+
+export type WatchAgentTemplatesOptions = {
+  /**
+   * Rebuild one template (absolute path). Resolves to its definition, or `undefined` when it failed; reporting
+   * the failure is up to the callback. A thrown error counts as a failed build.
+   */
+  build: (file: string, info: { initial: boolean }) => Promise<AgentDefinition | undefined>;
+  /** Called after every batch of builds (including the initial one) with the templates that were rebuilt. */
+  onBatch?: (files: string[], info: { initial: boolean }) => Promise<void> | void;
+  /**
+   * Called when a rebuild after a change fails outside `build` (e.g. `onBatch` throws); watching continues.
+   * Default: print the error to stderr.
+   */
+  onError?: (error: unknown) => void;
+  /**
+   * Re-resolve the watched templates when a new `*.agent.md` appears in a watched directory
+   * (e.g. `compile` inputs). Without it, only the initial templates are watched.
+   */
+  resolve?: () => Promise<string[]>;
+  /** Quiet period before a batch of changes is rebuilt. Default: 50ms. */
+  debounceMs?: number;
+  /** Stops watching; the returned promise resolves once the running batch (if any) has finished. */
+  signal?: AbortSignal;
+};
+
+/**
+ * Files a template was compiled from: the template itself, its `extends` chain and included files (absolute paths).
+ */
+export function agentTemplateDependencies(file: string, definition: AgentDefinition | undefined): string[] {
+  const deps = [...(definition?.inheritance?.chain ?? []), ...(definition?.includes ?? [])];
+  return [file, ...deps.map((f) => path.resolve(path.dirname(file), f))];
+}
+
+/**
+ * Build `files`, then rebuild every template whose source, `extends` chain or includes change, until `signal` aborts.
+ *
+ * Directories (not files) are watched so editors that save by renaming keep being tracked. A failed build keeps
+ * the template's previous dependencies, so fixing the error triggers a rebuild.
+ */
+export async function watchAgentTemplates(files: string[], opts: WatchAgentTemplatesOptions): Promise<void> {
+  const debounceMs = opts.debounceMs ?? 50;
+  const deps = new Map<string, string[]>();
+  const watchers = new Map<string, FSWatcher>();
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let running: Promise<void> = Promise.resolve();
+
+  async function buildAll(targets: string[], initial: boolean): Promise<void> {
+    for (const file of targets) {
+      let definition: AgentDefinition | undefined;
+      try {
+        definition = await opts.build(file, { initial });
+      } catch {
+        definition = undefined;
+      }
+      if (definition || !deps.has(file)) deps.set(file, agentTemplateDependencies(file, definition));
+    }
+    try {
+      await opts.onBatch?.(targets, { initial });
+    } finally {
+      syncWatchers();
+    }
+  }
+
+  function syncWatchers(): void {
+    if (opts.signal?.aborted) return;
+    const dirs = new Set([...deps.values()].flat().map((f) => path.dirname(f)));
+    for (const dir of dirs) {
+      if (watchers.has(dir)) continue;
+      try {
+        const w = watch(dir, (_event, name) => {
+          if (name) schedule(path.join(dir, name.toString()));
+        });
+        w.on("error", () => undefined);
+        watchers.set(dir, w);
+      } catch {
+        // Directory vanished; its templates fail on the next build.
+      }
+    }
+  }
+
+  function schedule(changed: string): void {
+    pending.add(changed);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = undefined;
+      running = running.then(flush).catch(reportError);
+    }, debounceMs);
+  }
+
+  function reportError(error: unknown): void {
+    if (opts.onError) {
+      opts.onError(error);
+      return;
+    }
+    // eslint-disable-next-line no-console
+    console.error(`Rebuild failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  async function flush(): Promise<void> {
+    if (opts.signal?.aborted) return;
+    const changed = [...pending];
+    pending.clear();
+
+    const affected = new Set([...deps.keys()].filter((f) => deps.get(f)!.some((d) => changed.includes(d))));
+    if (opts.resolve && changed.some((f) => f.endsWith(".agent.md") && !deps.has(f))) {
+      const resolved = await opts.resolve().catch(() => [] as string[]);
+      for (const f of resolved) if (!deps.has(f)) affected.add(f);
+    }
+    const targets = [...affected].sort((a, b) => a.localeCompare(b));
+    if (targets.length) await buildAll(targets, false);
+  }
+
+  await buildAll(files, true);
+  if (!opts.signal?.aborted) {
+    await new Promise<void>((resolve) => {
+      opts.signal?.addEventListener("abort", () => resolve(), { once: true });
+    });
+  }
+  if (timer) clearTimeout(timer);
+  for (const w of watchers.values()) w.close();
+  await running;
+}
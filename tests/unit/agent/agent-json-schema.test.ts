@@ -0,0 +1,80 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { Ajv2020 } from "ajv/dist/2020.js";
+import matter from "gray-matter";
+import YAML from "yaml";
+import { describe, expect, it } from "vitest";
+import { agentTemplateToJsonWithDiagnostics } from "../../../src/md-parser/parse-agent-md.js";
+import { agentDefinitionJsonSchema, agentFrontmatterJsonSchema } from "../../../src/md-parser/schema.js";
+
+const ROOT = process.cwd();
+
+function compile(schema: Record<string, unknown>) {
+  const ajv = new Ajv2020({ allErrors: true, strict: false });
+  return ajv.compile(schema);
+}
+
+describe("published JSON Schemas (schemas/*.schema.json)", () => {
+  it("matches the committed schema files", async () => {
+    for (const [kind, file, schema] of [
+      ["frontmatter", "agent-frontmatter.schema.json", agentFrontmatterJsonSchema()],
+      ["definition", "agent-definition.schema.json", agentDefinitionJsonSchema()],
+    ] as const) {
+      const committed = await fs.readFile(path.join(ROOT, "schemas", file), "utf8");
+      expect(committed, `schemas/${file} is stale: run 'tempybot schema ${kind} --out schemas/${file}'`).toBe(
+        `${JSON.stringify(schema, null, 2)}\n`,
+      );
+    }
+  });
+
+  it("accepts the frontmatter of every example agent", async () => {
+    const validate = compile(agentFrontmatterJsonSchema());
+    const examplesDir = path.join(ROOT, "docs", "agent-examples");
+    const mdFiles = (await fs.readdir(examplesDir)).filter((f) => f.endsWith(".agent.md"));
+
+    for (const f of mdFiles) {
+      const raw = await fs.readFile(path.join(examplesDir, f), "utf8");
+      const { data } = matter(raw, { engines: { yaml: (s) => YAML.parse(s) } });
+      expect({ file: f, ok: validate(data ?? {}), errors: validate.errors }).toMatchObject({ file: f, ok: true });
+    }
+  });
+
+  it("rejects invalid frontmatter the loader rejects", () => {
+    const validate = compile(agentFrontmatterJsonSchema());
+    expect(validate({ status: "archived" })).toBe(false);
+    expect(validate({ abilities: { allow: ["teleport"] } })).toBe(false);
+    expect(validate({ mcpServers: { db: { args: ["--x"] } } })).toBe(false);
+    expect(validate({ commands: [] })).toBe(false);
+    expect(validate({ abilities: ["fs", "sh:git"], commands: ["./commands/review.md"] })).toBe(true);
+  });
+
+  it("drives loader diagnostics with the schema's paths and messages", () => {
+    const res = agentTemplateToJsonWithDiagnostics(`---
+abilities:
+  allow: [fs, Teleport]
+commands:
+  - name: review
+    description: Review
+---
+
+# Title
+`);
+    expect(res.diagnostics.map((d) => [d.path, d.message])).toEqual([
+      ["abilities.allow[1]", expect.stringMatching(/unknown ability 'teleport'/)],
+      ["commands[0].body", "Invalid frontmatter 'commands[0].body': expected a non-empty string."],
+    ]);
+  });
+
+  it("accepts every compiled example definition", async () => {
+    const validate = compile(agentDefinitionJsonSchema());
+    const outDir = path.join(ROOT, "docs", "generated", "agent-examples");
+    const jsonFiles = (await fs.readdir(outDir)).filter((f) => f.endsWith(".json") && f !== "manifest.json");
+    expect(jsonFiles.length).toBeGreaterThan(0);
+
+    for (const f of jsonFiles) {
+      const def = JSON.parse(await fs.readFile(path.join(outDir, f), "utf8")) as unknown;
+      expect({ file: f, ok: validate(def), errors: validate.errors }).toMatchObject({ file: f, ok: true });
+    }
+    expect(validate({ title: "x" })).toBe(false);
+  });
+});
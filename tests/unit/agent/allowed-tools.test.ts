@@ -0,0 +1,80 @@
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { isToolCallAllowed, parseAllowedTools } from "../../../src/md-parser/allowed-tools.js";
+import {
+  agentTemplateToJson,
+  agentTemplateToJsonWithDiagnostics,
+  parseAgentMd,
+} from "../../../src/md-parser/parse-agent-md.js";
+import type { AgentInlineCommand } from "../../../src/md-parser/types.js";
+
+describe("allowed-tools", () => {
+  it("parses per-command frontmatter into a structured permission list", async () => {
+    const def = await parseAgentMd(path.join(process.cwd(), "docs", "agent-examples", "claude-style-commands.agent.md"));
+    const commit = def.commands.find((c) => typeof c !== "string" && c.name === "Commit") as AgentInlineCommand;
+    expect(commit.allowedTools).toEqual([
+      { tool: "Bash", pattern: "git add:*" },
+      { tool: "Bash", pattern: "git commit:*" },
+    ]);
+    expect(commit).not.toHaveProperty("allowed-tools");
+  });
+
+  it("accepts a list in frontmatter inline commands", () => {
+    const def = agentTemplateToJson(`---
+commands:
+  - name: docs
+    description: Docs
+    body: Update docs.
+    allowed-tools: [Read, "Edit(./docs/**)"]
+---
+
+# T
+`);
+    expect((def.commands[0] as AgentInlineCommand).allowedTools).toEqual([
+      { tool: "Read" },
+      { tool: "Edit", pattern: "./docs/**" },
+    ]);
+  });
+
+  it("fails on bad patterns at parse time", () => {
+    for (const bad of ["Bash(", "Bash()", "Bash(git:* add)", "9lives", "Bash(a), ,Read"]) {
+      expect(() => parseAllowedTools(bad), bad).toThrow();
+    }
+
+    const res = agentTemplateToJsonWithDiagnostics(`# T
+
+## Commands
+
+### Commit
+---
+allowed-tools: Bash(git commit:*
+description: Commit
+---
+Commit.
+`);
+    expect(res.diagnostics).toMatchObject([
+      {
+        code: "COMMAND.INVALID",
+        message: expect.stringMatching(/Invalid command 'Commit': frontmatter 'allowed-tools' .*must end with '\)'/),
+      },
+    ]);
+
+    const inline = agentTemplateToJsonWithDiagnostics(
+      `---\ncommands:\n  - { name: a, description: b, body: c, allowed-tools: "Bash()" }\n---\n\n# T\n`,
+    );
+    expect(inline.diagnostics[0]).toMatchObject({ path: "commands[0].allowed-tools" });
+  });
+
+  it("matches prefix (:*), wildcard and exact patterns", () => {
+    const perms = parseAllowedTools("Bash(git add:*), Bash(npm run test), Read(./src/*), WebSearch");
+    expect(isToolCallAllowed(perms, { tool: "bash", input: "git add ." })).toBe(true);
+    expect(isToolCallAllowed(perms, { tool: "Bash", input: "git add" })).toBe(true);
+    expect(isToolCallAllowed(perms, { tool: "Bash", input: "git addx" })).toBe(false);
+    expect(isToolCallAllowed(perms, { tool: "Bash", input: "npm run test" })).toBe(true);
+    expect(isToolCallAllowed(perms, { tool: "Bash", input: "npm run test -- --watch" })).toBe(false);
+    expect(isToolCallAllowed(perms, { tool: "Read", input: "./src/a.ts" })).toBe(true);
+    expect(isToolCallAllowed(perms, { tool: "Read", input: "./docs/a.md" })).toBe(false);
+    expect(isToolCallAllowed(perms, { tool: "WebSearch", input: "anything" })).toBe(true);
+    expect(isToolCallAllowed(perms, { tool: "Write", input: "./src/a.ts" })).toBe(false);
+  });
+});
@@ -0,0 +1,124 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { agentBundleId, parseAgentBundle, parseAgentBundleWithDiagnostics } from "../../../src/md-parser/bundle.js";
+import { AgentTemplateError } from "../../../src/md-parser/diagnostics.js";
+
+async function makeTempDir(): Promise<string> {
+  return await fs.mkdtemp(path.join(os.tmpdir(), "tempybot-bundle-"));
+}
+
+const crew = `---
+name: release-crew
+description: Ships releases.
+---
+
+# Release Coordinator
+---
+icon: "🧭"
+commands:
+  - name: review
+    description: Review the diff
+    body: Review it.
+    delegate: release-reviewer
+---
+
+Plans the release and hands work to the sub-agents.
+
+## Rules
+
+- Never skip review.
+
+# Release Reviewer
+
+Reviews diffs.
+
+\`\`\`md
+# Not an agent
+\`\`\`
+`;
+
+describe("parseAgentBundleWithDiagnostics", () => {
+  it("splits *.agents.md into agents with ids, frontmatter and validated delegates", async () => {
+    const dir = await makeTempDir();
+    const file = path.join(dir, "crew.agents.md");
+    await fs.writeFile(file, crew, "utf8");
+
+    const bundle = await parseAgentBundle(file);
+    expect(bundle.name).toBe("release-crew");
+    expect(bundle.description).toBe("Ships releases.");
+    expect(bundle.agents.map((a) => [a.id, a.source, a.definition.title])).toEqual([
+      ["release-coordinator", "crew.agents.md", "Release Coordinator"],
+      ["release-reviewer", "crew.agents.md", "Release Reviewer"],
+    ]);
+    const [coordinator, reviewer] = bundle.agents;
+    expect(coordinator!.definition.icon).toBe("🧭");
+    expect(coordinator!.definition.rules).toBe("- Never skip review.");
+    expect(coordinator!.definition.commands).toMatchObject([{ name: "review", delegate: "release-reviewer" }]);
+    expect(reviewer!.definition.description).toBe("Reviews diffs.");
+  });
+
+  it("reports unknown delegates and maps agent diagnostics to bundle lines", async () => {
+    const dir = await makeTempDir();
+    const file = path.join(dir, "crew.agents.md");
+    const broken = crew
+      .replace("delegate: release-reviewer", "delegate: qa")
+      .replace("# Release Reviewer", "# Release Reviewer\n---\nstatus: sleeping\n---");
+    await fs.writeFile(file, broken, "utf8");
+
+    const res = await parseAgentBundleWithDiagnostics(file);
+    expect(res.ok).toBe(false);
+    expect(res.diagnostics.map((d) => [d.code, d.range?.start.line, d.path])).toEqual([
+      ["FRONTMATTER.INVALID", 24, "status"],
+      ["BUNDLE.UNKNOWN_DELEGATE", undefined, "commands[0].delegate"],
+    ]);
+    expect(res.diagnostics[1]!.message).toBe(
+      "Command 'review' of 'release-coordinator' delegates to unknown agent 'qa'. " +
+        "Agents in this bundle: release-coordinator.",
+    );
+    await expect(parseAgentBundle(file)).rejects.toBeInstanceOf(AgentTemplateError);
+  });
+
+  it("loads a directory with bundle.yaml and rejects duplicate ids and missing files", async () => {
+    const dir = await makeTempDir();
+    await fs.mkdir(path.join(dir, "agents"));
+    await fs.writeFile(
+      path.join(dir, "agents", "lead.agent.md"),
+      `---\ncommands:\n  - name: fix\n    description: Fix\n    body: Fix it.\n    delegate: Fixer\n---\n\n# Lead\n`,
+      "utf8",
+    );
+    await fs.writeFile(path.join(dir, "agents", "fixer.agent.md"), `# Fixer\n`, "utf8");
+    const manifest = `agents:\n  - agents/lead.agent.md\n  - ./agents/fixer.agent.md\n`;
+    await fs.writeFile(path.join(dir, "bundle.yaml"), manifest, "utf8");
+
+    const bundle = await parseAgentBundle(dir);
+    expect(bundle.name).toBe(path.basename(dir));
+    expect(bundle.agents.map((a) => [a.id, a.source])).toEqual([
+      ["lead", "agents/lead.agent.md"],
+      ["fixer", "agents/fixer.agent.md"],
+    ]);
+
+    await fs.writeFile(
+      path.join(dir, "bundle.yaml"),
+      `agents: [agents/lead.agent.md, agents/fixer.agent.md, agents/fixer.agent.md, agents/gone.agent.md]\n`,
+      "utf8",
+    );
+    const res = await parseAgentBundleWithDiagnostics(path.join(dir, "bundle.yaml"));
+    expect(res.diagnostics.map((d) => [d.code, d.message])).toEqual([
+      ["BUNDLE.INVALID", "Agent file not found: agents/gone.agent.md"],
+      ["BUNDLE.DUPLICATE_AGENT", "Agent id 'fixer' is already used by 'Fixer' (agents/fixer.agent.md)."],
+    ]);
+
+    await fs.writeFile(path.join(dir, "bundle.yaml"), `agents: []\n`, "utf8");
+    expect((await parseAgentBundleWithDiagnostics(dir)).diagnostics).toMatchObject([
+      { code: "BUNDLE.INVALID", message: "Invalid bundle 'agents': expected at least one agent.", path: "agents" },
+    ]);
+    await expect(parseAgentBundleWithDiagnostics(path.join(dir, "agents"))).rejects.toThrow(/^Not an agent bundle/);
+  });
+
+  it("derives ids from titles", () => {
+    expect(agentBundleId("Release Reviewer")).toBe("release-reviewer");
+    expect(agentBundleId("  QA / Ops (v2) ")).toBe("qa-ops-v2");
+  });
+});
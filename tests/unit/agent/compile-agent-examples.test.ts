@@ -1,34 +1,10 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import { describe, expect, it } from "vitest";
+import { stableStringifyJson } from "../../../src/md-parser/compile-agents.js";
 import { parseAgentMd } from "../../../src/md-parser/parse-agent-md.js";
 import type { AgentDefinition } from "../../../src/md-parser/types.js";
 
-type StableJson = null | boolean | number | string | StableJson[] | { [k: string]: StableJson };
-
-function isPlainObject(v: unknown): v is Record<string, unknown> {
-  return typeof v === "object" && v !== null && !Array.isArray(v);
-}
-
-function toStableJson(v: unknown): StableJson {
-  if (v === null) return null;
-  if (typeof v === "string" || typeof v === "number" || typeof v === "boolean") return v;
-  if (Array.isArray(v)) return v.map((x) => toStableJson(x));
-  if (isPlainObject(v)) {
-    const out: Record<string, StableJson> = {};
-    for (const k of Object.keys(v).sort((a, b) => a.localeCompare(b))) {
-      out[k] = toStableJson(v[k]);
-    }
-    return out;
-  }
-  // AgentDefinition should be fully JSON-serializable; fail fast if not.
-  throw new Error(`Non-JSON value encountered while serializing: ${String(v)}`);
-}
-
-function stableStringifyJson(v: unknown): string {
-  return JSON.stringify(toStableJson(v), null, 2) + "\n";
-}
-
 function baseNameNoExt(fileName: string): string {
   return fileName.replace(/\.agent\.md$/i, "");
 }
@@ -45,6 +21,7 @@ const EXPECTED_AGENT_DEFINITION_KEYS = [
   "system",
   "templateEngine",
   "title",
+  "tools",
   "toolsSource",
   "version",
 ].sort();
@@ -92,7 +69,10 @@ describe("agent examples compile (docs/agent-examples -> docs/generated/agent-ex
       const parsed = await parseAgentMd(sourcePath);
 
       // Guardrail: ensure compiled JSON is a full AgentDefinition (no missing keys).
-      const parsedKeys = Object.keys(parsed).sort();
+      // Localization keys and tags are optional (only some examples set them).
+      const parsedKeys = Object.keys(parsed)
+        .filter((k) => k !== "defaultLocale" && k !== "locales" && k !== "tags")
+        .sort();
       expect(parsedKeys).toEqual(EXPECTED_AGENT_DEFINITION_KEYS);
 
       const outFile = `${baseNameNoExt(mdFile)}.json`;
@@ -0,0 +1,77 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { compileAgents, resolveAgentSources } from "../../../src/md-parser/compile-agents.js";
+
+async function makeAgentsDir(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "tempybot-compile-"));
+  await fs.mkdir(path.join(dir, "agents", "ops"), { recursive: true });
+  await fs.writeFile(path.join(dir, "agents", "reviewer.agent.md"), `---\nstatus: active\n---\n\n# Reviewer\n`, "utf8");
+  await fs.writeFile(path.join(dir, "agents", "ops", "oncall.agent.md"), `# On-call\n\nPages people.\n`, "utf8");
+  await fs.writeFile(path.join(dir, "agents", "ops", "broken.agent.md"), `---\nstatus: sleeping\n---\n\n# Broken\n`, "utf8");
+  await fs.writeFile(path.join(dir, "agents", "notes.md"), `# Not an agent\n`, "utf8");
+  return dir;
+}
+
+describe("compileAgents", () => {
+  it("resolves directories, files and globs to sorted *.agent.md paths", async () => {
+    const dir = await makeAgentsDir();
+    const rel = async (inputs: string[]) =>
+      (await resolveAgentSources(inputs, dir)).map((f) => path.relative(dir, f).split(path.sep).join("/"));
+
+    expect(await rel(["agents"])).toEqual([
+      "agents/ops/broken.agent.md",
+      "agents/ops/oncall.agent.md",
+      "agents/reviewer.agent.md",
+    ]);
+    expect(await rel(["agents/*.agent.md", "agents/reviewer.agent.md"])).toEqual(["agents/reviewer.agent.md"]);
+    await expect(rel(["missing"])).rejects.toThrow("Input not found: missing");
+  });
+
+  it("writes deterministic JSON, a hashed manifest and a failure report", async () => {
+    const dir = await makeAgentsDir();
+    const result = await compileAgents(["agents"], { cwd: dir, outDir: "out" });
+
+    expect(result.errors).toBe(1);
+    expect(result.warnings).toBe(0);
+    expect(result.entries.map((e) => [e.source, e.ok])).toEqual([
+      ["agents/ops/broken.agent.md", false],
+      ["agents/ops/oncall.agent.md", true],
+      ["agents/reviewer.agent.md", true],
+    ]);
+
+    const json = await fs.readFile(path.join(dir, "out", "ops", "oncall.json"), "utf8");
+    const keys = Object.keys(JSON.parse(json) as object);
+    expect(keys).toEqual([...keys].sort((a, b) => a.localeCompare(b)));
+
+    const manifest = JSON.parse(await fs.readFile(path.join(dir, "out", "manifest.json"), "utf8")) as unknown[];
+    expect(manifest).toEqual([
+      {
+        output: "out/ops/oncall.json",
+        outputSha256: createHash("sha256").update(json).digest("hex"),
+        source: "agents/ops/oncall.agent.md",
+        sourceSha256: createHash("sha256").update(`# On-call\n\nPages people.\n`).digest("hex"),
+        status: "active",
+        title: "On-call",
+      },
+      expect.objectContaining({ source: "agents/reviewer.agent.md", output: "out/reviewer.json" }),
+    ]);
+
+    const report = await fs.readFile(path.join(dir, "out", "report.md"), "utf8");
+    expect(report).toContain("- Failed: 1");
+    expect(report).toContain("### agents/ops/broken.agent.md (failed)");
+    expect(report).toContain("agents/ops/broken.agent.md:2:1: error FRONTMATTER.INVALID");
+    const reportJson = JSON.parse(await fs.readFile(path.join(dir, "out", "report.json"), "utf8")) as {
+      failed: number;
+      files: Array<{ source: string; ok: boolean }>;
+    };
+    expect(reportJson.failed).toBe(1);
+    expect(reportJson.files.map((f) => [f.source, f.ok])).toEqual([["agents/ops/broken.agent.md", false]]);
+
+    // Re-running produces byte-identical output.
+    await compileAgents(["agents"], { cwd: dir, outDir: "out" });
+    expect(await fs.readFile(path.join(dir, "out", "ops", "oncall.json"), "utf8")).toBe(json);
+  });
+});
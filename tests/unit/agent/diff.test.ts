@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { diffJson, formatJsonChange } from "../../../src/md-parser/diff.js";
+
+describe("diffJson", () => {
+  it("reports added, removed and changed paths", () => {
+    const before = { title: "A", rules: ["x", "y"], abilities: { allow: ["sh"] }, icon: "🤖" };
+    const after = { title: "B", rules: ["x"], abilities: { allow: ["sh", "fs"] }, status: "stable" };
+
+    expect(diffJson(before, after)).toEqual([
+      { kind: "changed", path: "title", before: "A", after: "B" },
+      { kind: "removed", path: "rules[1]", before: "y" },
+      { kind: "added", path: "abilities.allow[1]", after: "fs" },
+      { kind: "removed", path: "icon", before: "🤖" },
+      { kind: "added", path: "status", after: "stable" },
+    ]);
+    expect(diffJson(after, structuredClone(after))).toEqual([]);
+  });
+
+  it("formats one short line per change", () => {
+    const [changed, added] = diffJson({ system: "a".repeat(100) }, { system: "b", rules: [] });
+    expect(formatJsonChange(changed!)).toBe(`~ system: "${"a".repeat(58)}… -> "b"`);
+    expect(formatJsonChange(added!)).toBe("+ rules: []");
+    expect(formatJsonChange({ kind: "changed", path: "", before: 1, after: 2 })).toBe("~ (root): 1 -> 2");
+  });
+});
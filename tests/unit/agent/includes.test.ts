@@ -0,0 +1,99 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { defaultTemplatesRoot, expandIncludes } from "../../../src/md-parser/includes.js";
+import {
+  agentTemplateToJsonWithDiagnostics,
+  parseAgentMd,
+  parseAgentMdWithDiagnostics,
+} from "../../../src/md-parser/parse-agent-md.js";
+
+async function makeTempDir(): Promise<string> {
+  return await fs.mkdtemp(path.join(os.tmpdir(), "tempybot-includes-"));
+}
+
+async function write(dir: string, rel: string, content: string): Promise<string> {
+  const file = path.join(dir, rel);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, content, "utf8");
+  return file;
+}
+
+describe("include directives", () => {
+  it("expands nested includes in sections and records them on the definition", async () => {
+    const dir = await makeTempDir();
+    await write(dir, "shared/rules.md", "- Be careful.\n<!-- include: more.md -->\n");
+    await write(dir, "shared/more.md", "- Cite sources.\n");
+    const file = await write(
+      dir,
+      "agents/ops.agent.md",
+      [
+        "# Ops",
+        "",
+        "## Rules",
+        "",
+        "<!-- include: ../shared/rules.md -->",
+        "- Be brief.",
+        "",
+        "```md",
+        "<!-- include: ignored.md -->",
+        "```",
+        "",
+      ].join("\n"),
+    );
+
+    const def = await parseAgentMd(file, { templatesRoot: dir });
+    expect(def.rules).toBe(
+      ["- Be careful.", "- Cite sources.", "- Be brief.", "", "```md", "<!-- include: ignored.md -->", "```"].join(
+        "\n",
+      ),
+    );
+    expect(def.includes).toEqual(["../shared/rules.md", "../shared/more.md"]);
+  });
+
+  it("rejects cycles and paths outside the templates root", async () => {
+    const dir = await makeTempDir();
+    await write(dir, "secret.md", "top secret\n");
+    await write(dir, "agents/a.md", "<!-- include: b.md -->\n");
+    await write(dir, "agents/b.md", "<!-- include: a.md -->\n");
+    const file = await write(
+      dir,
+      "agents/x.agent.md",
+      "# X\n\n## Rules\n\n<!-- include: a.md -->\n<!-- include: ../secret.md -->\n<!-- include: nope.md -->\n",
+    );
+
+    const res = await parseAgentMdWithDiagnostics(file, { templatesRoot: path.join(dir, "agents") });
+    expect(res.ok).toBe(false);
+    expect(res.diagnostics.map((d) => [d.code, path.basename(d.file ?? ""), d.range?.start.line])).toEqual([
+      ["INCLUDE.CYCLE", "b.md", 1],
+      ["INCLUDE.OUTSIDE_ROOT", "x.agent.md", 6],
+      ["INCLUDE.NOT_FOUND", "x.agent.md", 7],
+    ]);
+    expect(res.diagnostics[0]!.message).toBe("Cyclic include: x.agent.md -> a.md -> b.md -> a.md.");
+  });
+
+  it("points diagnostics in included text at the included file", async () => {
+    const dir = await makeTempDir();
+    await write(dir, "shared/commands.md", "## Commands\n\n### deploy\n\nDeploy it.\n");
+    const file = await write(dir, "ops.agent.md", "# Ops\n\n<!-- include: shared/commands.md -->\n");
+
+    const res = await parseAgentMdWithDiagnostics(file, { templatesRoot: dir });
+    expect(res.ok).toBe(false);
+    const [d] = res.diagnostics;
+    expect(d).toMatchObject({ file: path.join(dir, "shared", "commands.md"), range: { start: { line: 3 } } });
+  });
+
+  it("needs a file location", () => {
+    const res = agentTemplateToJsonWithDiagnostics("# Ops\n\n<!-- include: rules.md -->\n");
+    expect(res.diagnostics).toMatchObject([{ code: "INCLUDE.UNRESOLVED", range: { start: { line: 3, column: 1 } } }]);
+  });
+
+  it("sandboxes to the working directory by default", async () => {
+    const dir = await makeTempDir();
+    expect(defaultTemplatesRoot(path.join(dir, "a", "x.agent.md"), dir)).toBe(dir);
+    expect(defaultTemplatesRoot("/elsewhere/x.agent.md", dir)).toBe("/elsewhere");
+    const expanded = await expandIncludes("# T\n", path.join(dir, "t.agent.md"), { root: dir });
+    expect(expanded).toMatchObject({ text: "# T\n", includes: [], diagnostics: [] });
+  });
+});
@@ -0,0 +1,71 @@
+import path from "node:path";
+import { describe, expect, it, vi } from "vitest";
+import {
+  AgentCommandError,
+  invokeAgentCommand,
+  splitCommandArguments,
+  type ShellExecutor,
+} from "../../../src/md-parser/invoke-command.js";
+import { parseAgentMd } from "../../../src/md-parser/parse-agent-md.js";
+import type { AgentInlineCommand } from "../../../src/md-parser/types.js";
+
+async function exampleCommand(name: string): Promise<AgentInlineCommand> {
+  const def = await parseAgentMd(path.join(process.cwd(), "docs", "agent-examples", "claude-style-commands.agent.md"));
+  const cmd = def.commands.find((c) => typeof c !== "string" && c.name === name);
+  if (!cmd || typeof cmd === "string") throw new Error(`missing command ${name}`);
+  return cmd;
+}
+
+describe("invokeAgentCommand()", () => {
+  it("substitutes $1..$n from a raw argument string (missing positions become empty)", async () => {
+    const review = await exampleCommand("Review");
+    const prompt = await invokeAgentCommand(review, `123 "high priority"`);
+    expect(prompt).toBe(
+      "Review PR #123 with priority high priority and assign to .\nFocus on security, performance, and code style.\n",
+    );
+  });
+
+  it("substitutes $ARGUMENTS", async () => {
+    const cmd: AgentInlineCommand = { name: "fix", description: "Fix", body: "Fix issue $ARGUMENTS now ($0 stays)." };
+    expect(await invokeAgentCommand(cmd, ["#7", "and", "#8"])).toBe("Fix issue #7 and #8 now ($0 stays).");
+    expect(splitCommandArguments(`a 'b c' "d \\"e\\""`)).toEqual(["a", "b c", 'd "e"']);
+  });
+
+  it("resolves !`cmd` through the injected executor when abilities allow it", async () => {
+    const commit = await exampleCommand("Commit");
+    const exec = vi.fn<ShellExecutor>(async () => ({ stdout: "On branch main\n", stderr: "", exitCode: 0 }));
+
+    const prompt = await invokeAgentCommand(commit, [], { shell: { exec, abilities: { allow: ["sh:git"] }, cwd: "/repo" } });
+    expect(prompt).toBe("- Current git status: On branch main\n");
+    expect(exec).toHaveBeenCalledWith("git status", { cwd: "/repo" });
+  });
+
+  it("shell-quotes arguments inside snippets", async () => {
+    const cmd: AgentInlineCommand = { name: "show", description: "Show", body: "Diff: !`git show $1`" };
+    const exec = vi.fn<ShellExecutor>(async () => ({ stdout: "ok", stderr: "", exitCode: 0 }));
+    await invokeAgentCommand(cmd, ["HEAD; rm -rf /"], { shell: { exec, abilities: { allow: ["sh"] } } });
+    expect(exec).toHaveBeenCalledWith("git show 'HEAD; rm -rf /'", { cwd: undefined });
+  });
+
+  it("refuses snippets the abilities do not allow (deny wins) and surfaces failures", async () => {
+    const commit = await exampleCommand("Commit");
+    const exec = vi.fn<ShellExecutor>(async () => ({ stdout: "", stderr: "fatal: not a git repository", exitCode: 128 }));
+
+    for (const abilities of [undefined, { allow: ["sh:ls"] }, { allow: ["sh"], deny: ["sh:git"] }]) {
+      await expect(invokeAgentCommand(commit, [], { shell: { exec, abilities } })).rejects.toMatchObject({
+        code: "COMMAND.SHELL_DENIED",
+      });
+    }
+    expect(exec).not.toHaveBeenCalled();
+
+    const err = await invokeAgentCommand(commit, [], { shell: { exec, abilities: { allow: ["sh"] } } }).catch((e) => e);
+    expect(err).toBeInstanceOf(AgentCommandError);
+    expect(err).toMatchObject({ code: "COMMAND.SHELL_FAILED", command: "git status" });
+    expect((err as Error).message).toMatch(/exited with 128: fatal: not a git repository/);
+  });
+
+  it("leaves snippets in place without a shell executor", async () => {
+    const commit = await exampleCommand("Commit");
+    expect(await invokeAgentCommand(commit, "")).toBe("- Current git status: !`git status`\n");
+  });
+});
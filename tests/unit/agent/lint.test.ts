@@ -0,0 +1,174 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { loadTempybotConfig } from "../../../src/md-parser/config.js";
+import {
+  fixAgentDefinition,
+  lintAgentDefinition,
+  lintAgentFiles,
+  lintResultsToSarif,
+  resolveLintRules,
+} from "../../../src/md-parser/lint.js";
+import { agentTemplateToJson } from "../../../src/md-parser/parse-agent-md.js";
+import { agentJsonToTemplate } from "../../../src/md-parser/print-agent-md.js";
+
+const template = `---
+abilities:
+  allow: [sh, "sh:git*", "network:*.github.com"]
+mcpServers:
+  db:
+    command: db-mcp
+    env:
+      DB_PASSWORD: hunter2
+      DB_TOKEN: "\${DB_TOKEN}"
+commands:
+  - name: deploy
+    description: deploy
+    body: Deploy it.
+---
+
+# Ops
+`;
+
+async function makeTempDir(): Promise<string> {
+  return await fs.mkdtemp(path.join(os.tmpdir(), "tempybot-lint-"));
+}
+
+describe("lint", () => {
+  it("reports rule ids with default severities and frontmatter ranges", () => {
+    const def = agentTemplateToJson(template);
+    const issues = lintAgentDefinition({ definition: def, raw: template });
+
+    expect(issues.map((i) => [i.rule, i.severity, i.path])).toEqual([
+      ["rules-empty", "warn", undefined],
+      ["system-fallback", "warn", undefined],
+      ["command-description", "warn", "commands[0]"],
+      ["mcp-inline-secret", "error", "mcpServers.db.env.DB_PASSWORD"],
+      ["broad-ability", "warn", "abilities.allow[0]"],
+      ["redundant-ability", "warn", "abilities.allow[1]"],
+    ]);
+    expect(issues.find((i) => i.rule === "mcp-inline-secret")).toMatchObject({
+      message: "'mcpServers.db.env.DB_PASSWORD' looks like an inline secret; reference it as '${DB_PASSWORD}' instead.",
+      range: { start: { line: 8, column: 7 } },
+    });
+    expect(issues.find((i) => i.rule === "redundant-ability")?.fixable).toBe(true);
+  });
+
+  it("applies severities from tempybot.config and rejects unknown rules", async () => {
+    const dir = await makeTempDir();
+    await fs.writeFile(
+      path.join(dir, "tempybot.config"),
+      `lint:\n  rules:\n    rules-empty: off\n    system-fallback: off\n    broad-ability: error\n    unused-tool: warn\n`,
+      "utf8",
+    );
+    const { config } = await loadTempybotConfig(dir);
+    const def = agentTemplateToJson(`---\nabilities: [sh]\n---\n\n# T\n\nDoes things.\n\n## Rules\n- r\n\n## Tools\nreturn { ping: () => 1 };\n`);
+
+    expect(lintAgentDefinition({ definition: def }, resolveLintRules(config)).map((i) => [i.rule, i.severity])).toEqual([
+      ["unused-tool", "warn"],
+      ["broad-ability", "error"],
+    ]);
+    expect(() => resolveLintRules({ lint: { rules: { "no-such-rule": "warn" } } })).toThrow(
+      "Unknown lint rule 'no-such-rule'.",
+    );
+
+    await fs.writeFile(path.join(dir, "tempybot.config"), `lint:\n  rules:\n    rules-empty: loud\n`, "utf8");
+    await expect(loadTempybotConfig(dir)).rejects.toThrow(
+      "Invalid config 'lint.rules.rules-empty' (tempybot.config): expected off | warn | error (got 'loud').",
+    );
+  });
+
+  it("only treats values made of env references as non-secret", () => {
+    const secrets = (env: Record<string, string>) => {
+      const definition = { ...agentTemplateToJson(`# T\n`), mcpServers: { db: { command: "db-mcp", env } } };
+      return lintAgentDefinition({ definition })
+        .filter((i) => i.rule === "mcp-inline-secret")
+        .map((i) => i.path);
+    };
+
+    expect(secrets({ DB_TOKEN: "${DB_TOKEN}", DB_AUTH: " $USER${PASS} ", REGION: "eu" })).toEqual([]);
+    expect(secrets({ DB_TOKEN: "hunter2-$SUFFIX", OPENAI: "sk-live123$X" })).toEqual([
+      "mcpServers.db.env.DB_TOKEN",
+      "mcpServers.db.env.OPENAI",
+    ]);
+  });
+
+  it("only flags env names whose last words name a secret", () => {
+    const flagged = (keys: string[]) => {
+      const env = Object.fromEntries(keys.map((k) => [k, "x"]));
+      const definition = { ...agentTemplateToJson(`# T\n`), mcpServers: { db: { command: "db-mcp", env } } };
+      return lintAgentDefinition({ definition })
+        .filter((i) => i.rule === "mcp-inline-secret")
+        .map((i) => i.path!.split(".").at(-1));
+    };
+
+    expect(flagged(["GIT_AUTHOR_NAME", "OAUTH_REDIRECT_URL", "AUTH_URL", "MAX_TOKENS", "TOKEN_URL"])).toEqual([]);
+    const secrets = ["GITHUB_TOKEN", "db-password", "AWS_SECRET_ACCESS_KEY", "apiKey", "AUTHORIZATION", "SECRET"];
+    expect(flagged(secrets)).toEqual(secrets);
+  });
+
+  it("fixes safe issues in the frontmatter only and reports parse errors as issues", async () => {
+    const dir = await makeTempDir();
+    await fs.writeFile(path.join(dir, "ops.agent.md"), template, "utf8");
+    await fs.writeFile(path.join(dir, "bad.agent.md"), `---\nstatus: sleeping\n---\n\n# Bad\n`, "utf8");
+
+    expect(fixAgentDefinition(agentTemplateToJson(template)).abilities?.allow).toEqual(["sh", "network:*.github.com"]);
+
+    const results = await lintAgentFiles(["."], { cwd: dir, fix: true });
+    expect(results.map((r) => [r.file, r.fixed ?? false])).toEqual([
+      ["bad.agent.md", false],
+      ["ops.agent.md", true],
+    ]);
+    expect(results[0]!.issues[0]).toMatchObject({ rule: "FRONTMATTER.INVALID", severity: "error", file: "bad.agent.md" });
+    expect(results[1]!.issues.map((i) => i.rule)).not.toContain("redundant-ability");
+    expect(await fs.readFile(path.join(dir, "ops.agent.md"), "utf8")).toBe(
+      template.replace(`[sh, "sh:git*", "network:*.github.com"]`, `[sh, "network:*.github.com"]`),
+    );
+
+    const sarif = lintResultsToSarif(results) as {
+      version: string;
+      runs: Array<{ results: Array<{ ruleId: string; level: string; locations: unknown[] }> }>;
+    };
+    expect(sarif.version).toBe("2.1.0");
+    expect(sarif.runs[0]!.results[0]).toMatchObject({
+      ruleId: "FRONTMATTER.INVALID",
+      level: "error",
+      locations: [{ physicalLocation: { artifactLocation: { uri: "bad.agent.md" }, region: { startLine: 2 } } }],
+    });
+  });
+
+  it("rewrites the whole file only when canonical-format is enabled", async () => {
+    const dir = await makeTempDir();
+    const raw = `---\n# scoped later\nabilities:\n  deny:\n    - fs\n    - fs:write:/tmp/** # covered\n---\n# Ops\n`;
+    const file = path.join(dir, "ops.agent.md");
+    await fs.writeFile(file, raw, "utf8");
+
+    await lintAgentFiles(["."], { cwd: dir, fix: true });
+    expect(await fs.readFile(file, "utf8")).toBe(`---\n# scoped later\nabilities:\n  deny:\n    - fs\n---\n# Ops\n`);
+
+    await fs.writeFile(file, raw, "utf8");
+    const config = { lint: { rules: { "canonical-format": "warn" as const } } };
+    const [before] = await lintAgentFiles(["."], { cwd: dir, config });
+    expect(before!.issues.find((i) => i.rule === "canonical-format")?.fixable).toBe(true);
+
+    const [after] = await lintAgentFiles(["."], { cwd: dir, config, fix: true });
+    expect(after!.fixed).toBe(true);
+    expect(after!.issues.map((i) => i.rule)).not.toContain("canonical-format");
+    expect(await fs.readFile(file, "utf8")).toBe(
+      agentJsonToTemplate(fixAgentDefinition(agentTemplateToJson(raw), resolveLintRules(config))),
+    );
+  });
+
+  it("flags templates extending a deprecated base", async () => {
+    const dir = await makeTempDir();
+    await fs.writeFile(path.join(dir, "base.agent.md"), `---\nstatus: deprecated\n---\n\n# Base\n`, "utf8");
+    await fs.writeFile(path.join(dir, "child.agent.md"), `---\nextends: base\nstatus: active\n---\n\n# Child\n`, "utf8");
+
+    const [child] = await lintAgentFiles(["child.agent.md"], { cwd: dir });
+    expect(child!.issues.find((i) => i.rule === "deprecated-extends")).toMatchObject({
+      message: "Extends 'base.agent.md', which is deprecated.",
+      range: { start: { line: 2, column: 1 } },
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { mergeAgentLayers } from "../../../src/md-parser/extends.js";
+import { agentLocaleChain, resolveAgentLocale } from "../../../src/md-parser/locales.js";
+import { agentTemplateToJson, agentTemplateToJsonWithDiagnostics } from "../../../src/md-parser/parse-agent-md.js";
+import { agentJsonToTemplate } from "../../../src/md-parser/print-agent-md.js";
+import { renderAgent } from "../../../src/md-parser/render.js";
+
+const triage = `---
+defaultLocale: en
+locales:
+  DE-ch:
+    fallback: de
+  ja:
+    title: サポート
+---
+
+# Support
+
+Triages tickets.
+
+## System
+You triage tickets.
+
+## Rules
+- Be polite.
+
+## System (de)
+Du sortierst Tickets.
+
+## Rules (de)
+- Sei höflich.
+
+## Rules (de-CH)
+- Kein ß.
+
+## Rules (ja)
+- 丁寧に。
+`;
+
+describe("localized sections", () => {
+  it("parses sections and the locales map into a canonical locale map", () => {
+    const def = agentTemplateToJson(triage);
+    expect(def.system).toBe("You triage tickets.");
+    expect(def.rules).toBe("- Be polite.");
+    expect(def.defaultLocale).toBe("en");
+    expect(def.locales).toEqual({
+      "de-CH": { fallback: "de", rules: "- Kein ß." },
+      ja: { title: "サポート", rules: "- 丁寧に。" },
+      de: { system: "Du sortierst Tickets.", rules: "- Sei höflich." },
+    });
+    expect(agentTemplateToJson(agentJsonToTemplate(def))).toEqual(def);
+  });
+
+  it("reports conflicts, invalid tags and unknown fallbacks", () => {
+    const res = agentTemplateToJsonWithDiagnostics(
+      [
+        "---",
+        "locales:",
+        "  de:",
+        "    system: Hallo.",
+        "    fallback: fr",
+        "---",
+        "",
+        "# Support",
+        "",
+        "## System (de)",
+        "Servus.",
+        "",
+        "## Rules (de_DE)",
+        "- x",
+        "",
+      ].join("\n"),
+    );
+    expect(res.diagnostics.map((d) => [d.code, d.path, d.range?.start.line])).toEqual([
+      ["FRONTMATTER.CONFLICT", "locales.de.system", 4],
+      ["LOCALE.INVALID", undefined, 13],
+      ["LOCALE.INVALID", "locales.de.fallback", 5],
+    ]);
+    expect(res.diagnostics[2]!.message).toBe(
+      "Invalid frontmatter 'locales.de.fallback': 'fr' is not a declared locale (declared: de).",
+    );
+    expect(agentTemplateToJsonWithDiagnostics(`---\nlocales:\n  de_DE: {}\n---\n\n# S\n`).diagnostics).toMatchObject([
+      { code: "FRONTMATTER.INVALID", path: "locales.de_de" },
+    ]);
+  });
+});
+
+describe("resolveAgentLocale", () => {
+  const def = agentTemplateToJson(triage);
+
+  it("follows fallback chains and adds up rules along the chain", () => {
+    expect(agentLocaleChain(def, "de-ch")).toEqual(["de-CH", "de"]);
+    const de = resolveAgentLocale(def, "de-CH");
+    expect([de.title, de.system]).toEqual(["Support", "Du sortierst Tickets."]);
+    expect(de.rules).toBe("- Sei höflich.\n\n- Kein ß.");
+    expect(de.locales).toBeUndefined();
+
+    const ja = resolveAgentLocale(def, "ja-JP");
+    expect([ja.title, ja.system, ja.rules]).toEqual(["サポート", "You triage tickets.", "- 丁寧に。"]);
+  });
+
+  it("uses the unlocalized fields for the default locale and unknown locales", () => {
+    expect(resolveAgentLocale(def, "fr").rules).toBe("- Be polite.");
+    expect(agentLocaleChain(def, ["fr", "en", "de"])).toEqual([]);
+    expect(resolveAgentLocale(def, ["fr", "ja", "de"]).rules).toBe("- 丁寧に。");
+    expect(() => resolveAgentLocale(def, "de_DE")).toThrow("Invalid locale 'de_DE'");
+  });
+
+  it("localizes a system prompt that falls back to the description", () => {
+    const short = agentTemplateToJson(
+      `---\nlocales:\n  de:\n    description: Sortiert Tickets.\n---\n\n# S\n\nSorts tickets.\n`,
+    );
+    expect(resolveAgentLocale(short, "de").system).toBe("Sortiert Tickets.");
+    expect(renderAgent(short, {}, { locale: "de" }).system).toBe("Sortiert Tickets.");
+  });
+
+  it("merges locales across extends layers", () => {
+    const { layer } = mergeAgentLayers([
+      { source: "base", layer: { locales: { de: { system: "Basis.", rules: "- a" } } } },
+      { source: "child", layer: { locales: { de: { rules: "- b" }, ja: { system: "子" } } } },
+    ]);
+    expect(layer.locales).toEqual({ de: { system: "Basis.", rules: "- a\n\n- b" }, ja: { system: "子" } });
+  });
+});
@@ -0,0 +1,161 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { migrateAgentFiles } from "../../../src/md-parser/migrate-agents.js";
+import {
+  AGENT_SCHEMA_VERSION,
+  migrateAgentFrontmatter,
+  migrateAgentTemplate,
+  type AgentTemplateMigration,
+} from "../../../src/md-parser/migrations.js";
+import { agentTemplateToJsonWithDiagnostics } from "../../../src/md-parser/parse-agent-md.js";
+
+const legacy = `---
+# Deploy helper
+mcp_servers:
+  db:
+    command: db-mcp
+commands:
+  - name: deploy
+    description: Deploy
+    body: Deploy it.
+    allowedTools: Bash(git push:*)
+---
+
+# Ops
+`;
+
+describe("template migrations", () => {
+  it("upgrades legacy keys at parse time with warnings", () => {
+    const res = agentTemplateToJsonWithDiagnostics(legacy);
+    expect(res.ok).toBe(true);
+    if (!res.ok) return;
+    expect(res.definition.mcpServers).toEqual({ db: { command: "db-mcp" } });
+    expect(res.definition.commands).toMatchObject([{ name: "deploy", allowedTools: [{ tool: "Bash" }] }]);
+    expect(res.diagnostics.map((d) => [d.code, d.severity, d.path, d.range?.start.line])).toEqual([
+      ["SCHEMA.MIGRATED", "warn", "mcp_servers", 3],
+      ["SCHEMA.MIGRATED", "warn", "commands[0].allowedTools", 10],
+    ]);
+    expect(res.diagnostics[0]!.message).toBe(
+      `'mcp_servers' was renamed to 'mcpServers'. Run 'tempybot migrate --write' to upgrade to schemaVersion ${AGENT_SCHEMA_VERSION}.`,
+    );
+  });
+
+  it("rejects unsupported versions", () => {
+    const newer = agentTemplateToJsonWithDiagnostics(`---\nschemaVersion: 99\n---\n\n# Ops\n`);
+    expect(newer.diagnostics).toMatchObject([{ code: "SCHEMA.UNSUPPORTED_VERSION", range: { start: { line: 2 } } }]);
+    const invalid = agentTemplateToJsonWithDiagnostics(`---\nschemaVersion: "2"\n---\n\n# Ops\n`);
+    expect(invalid.diagnostics).toMatchObject([
+      { code: "FRONTMATTER.INVALID", message: "Invalid frontmatter 'schemaVersion': expected a positive integer." },
+    ]);
+  });
+
+  it("rewrites templates, keeping the body and untouched frontmatter as written", () => {
+    const migrated = migrateAgentTemplate(legacy);
+    expect(migrated).toMatchObject({ from: 1, to: AGENT_SCHEMA_VERSION });
+    expect(migrated.text).toContain("schemaVersion: 2\n# Deploy helper\nmcpServers:\n");
+    expect(migrated.text).toContain("    allowed-tools: Bash(git push:*)\n");
+    expect(migrated.text.endsWith("---\n\n# Ops\n")).toBe(true);
+    expect(agentTemplateToJsonWithDiagnostics(migrated.text).diagnostics).toEqual([]);
+
+    expect(migrateAgentTemplate(migrated.text).text).toBe(migrated.text);
+    expect(migrateAgentTemplate(`---\n# keep me\nschemaVersion: 1\nicon: "🧭"\n---\n\n# T\n`).text).toBe(
+      `---\nschemaVersion: 2\n# keep me\nicon: "🧭"\n---\n\n# T\n`,
+    );
+  });
+
+  it("keeps frontmatter comments when a migration renames keys", () => {
+    const commented = `---
+# Owner: platform team
+status: active  # keep active
+mcp_servers:  # local only
+  db:
+    command: db-mcp
+commands:
+  # Shipping
+  - name: deploy
+    description: Deploy
+    body: Deploy it.
+    allowedTools: Bash(git push:*) # no force
+---
+
+# Ops
+`;
+    expect(migrateAgentTemplate(commented).text).toBe(`---
+schemaVersion: 2
+# Owner: platform team
+status: active # keep active
+mcpServers:
+  # local only
+  db:
+    command: db-mcp
+commands:
+  # Shipping
+  - name: deploy
+    description: Deploy
+    body: Deploy it.
+    allowed-tools: Bash(git push:*) # no force
+---
+
+# Ops
+`);
+  });
+
+  it("treats templates without schemaVersion that need no change as current in migrate and parse", () => {
+    for (const raw of [`---\nicon: "🧭"\n---\n\n# T\n`, `# T\n`]) {
+      expect(migrateAgentTemplate(raw).text).toBe(raw);
+      expect(agentTemplateToJsonWithDiagnostics(raw).diagnostics).toEqual([]);
+    }
+
+    const pinned = agentTemplateToJsonWithDiagnostics(`---\nschemaVersion: 1\n---\n\n# T\n`);
+    expect(pinned.diagnostics.map((d) => [d.code, d.severity, d.path, d.message])).toEqual([
+      [
+        "SCHEMA.MIGRATED",
+        "warn",
+        "schemaVersion",
+        "schemaVersion 1 is outdated. Run 'tempybot migrate --write' to upgrade to schemaVersion 2.",
+      ],
+    ]);
+  });
+
+  it("runs registered migrations in order", () => {
+    const migrations: AgentTemplateMigration[] = [
+      { from: 1, description: "a", up: (fm) => ((fm.a = 1), [{ path: ["a"], message: "a" }]) },
+      { from: 2, description: "b", up: (fm) => ((fm.b = fm.a), [{ path: ["b"], message: "b" }]) },
+    ];
+    const input = { title: "T" };
+    expect(migrateAgentFrontmatter(input, { migrations, to: 3 })).toEqual({
+      frontmatter: { schemaVersion: 3, title: "T", a: 1, b: 1 },
+      from: 1,
+      to: 3,
+      changes: [
+        { path: ["a"], message: "a" },
+        { path: ["b"], message: "b" },
+      ],
+    });
+    expect(input).toEqual({ title: "T" });
+    expect(() => migrateAgentFrontmatter({ schemaVersion: 2 }, { migrations: [], to: 3 })).toThrow(
+      "No migration from schemaVersion 2 to 3.",
+    );
+  });
+
+  it("migrates files in place with write", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "tempybot-migrate-"));
+    await fs.writeFile(path.join(dir, "ops.agent.md"), legacy, "utf8");
+    await fs.writeFile(path.join(dir, "new.agent.md"), `---\nschemaVersion: 2\n---\n\n# New\n`, "utf8");
+    await fs.writeFile(path.join(dir, "bad.agent.md"), `---\nschemaVersion: 3\n---\n\n# Bad\n`, "utf8");
+
+    const dry = await migrateAgentFiles(["."], { cwd: dir });
+    expect(dry.map((r) => [r.file, r.outdated, r.changes.length, r.error])).toEqual([
+      ["bad.agent.md", false, 0, "Template schemaVersion 3 is newer than this version of tempybot supports (2)."],
+      ["new.agent.md", false, 0, undefined],
+      ["ops.agent.md", true, 2, undefined],
+    ]);
+    expect(await fs.readFile(path.join(dir, "ops.agent.md"), "utf8")).toBe(legacy);
+
+    const written = await migrateAgentFiles(["."], { cwd: dir, write: true });
+    expect(written.filter((r) => r.written).map((r) => r.file)).toEqual(["ops.agent.md"]);
+    expect(await fs.readFile(path.join(dir, "ops.agent.md"), "utf8")).toBe(migrateAgentTemplate(legacy).text);
+  });
+});
@@ -0,0 +1,157 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  agentTemplateToJsonWithDiagnostics,
+  parseAgentMd,
+  parseAgentMdWithDiagnostics,
+} from "../../../src/md-parser/parse-agent-md.js";
+
+async function writeTemplates(files: Record<string, string>): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "tempybot-extends-"));
+  for (const [name, content] of Object.entries(files)) {
+    const abs = path.join(dir, name);
+    await fs.mkdir(path.dirname(abs), { recursive: true });
+    await fs.writeFile(abs, content, "utf8");
+  }
+  return dir;
+}
+
+const BASE = `---
+status: deprecated
+abilities:
+  allow: [fs, network]
+mcpServers:
+  db:
+    command: db-server
+  api:
+    command: api-server
+required:
+  env: [BASE_TOKEN]
+---
+
+# Base Agent
+
+## System
+Base system.
+
+## Rules
+- Be deterministic.
+
+## Commands
+
+### Review
+---
+description: Base review
+---
+Base review body.
+
+### Lint
+---
+description: Lint
+---
+Run lint.
+
+## Tools
+return { init: {} };
+`;
+
+describe("parseAgentMd() with extends", () => {
+  it("merges a bare-name base from the same directory with documented semantics", async () => {
+    const dir = await writeTemplates({
+      "base.agent.md": BASE,
+      "child.agent.md": `---
+extends: base
+status: active
+abilities:
+  deny: [network]
+mcpServers:
+  api:
+    command: api-server-v2
+required:
+  startup: init
+---
+
+# Child Agent
+
+## Rules
+- Be concise.
+
+## Commands
+
+### Review
+---
+description: Child review
+---
+Child review body.
+`,
+    });
+
+    const def = await parseAgentMd(path.join(dir, "child.agent.md"));
+
+    expect(def.title).toBe("Child Agent");
+    expect(def.status).toBe("active");
+    expect(def.system).toBe("Base system.");
+    expect(def.rules).toBe("- Be deterministic.\n\n- Be concise.");
+    expect(def.abilities).toEqual({ allow: ["fs"], deny: ["network"] });
+    expect(def.mcpServers).toEqual({ db: { command: "db-server" }, api: { command: "api-server-v2" } });
+    expect(def.required).toEqual({ env: ["BASE_TOKEN"], startup: "init" });
+    expect(def.commands.map((c) => (typeof c === "string" ? c : `${c.name}:${c.description}`))).toEqual([
+      "Review:Child review",
+      "Lint:Lint",
+    ]);
+    expect(def.toolsSource).toContain("init");
+
+    expect(def.inheritance).toEqual({
+      chain: ["base.agent.md"],
+      origins: expect.objectContaining({
+        title: ["child.agent.md"],
+        status: ["child.agent.md"],
+        system: ["base.agent.md"],
+        rules: ["base.agent.md", "child.agent.md"],
+        toolsSource: ["base.agent.md"],
+      }),
+    });
+  });
+
+  it("resolves relative paths through multiple levels (nearest first in chain)", async () => {
+    const dir = await writeTemplates({
+      "shared/root.agent.md": `---\nicon: "🌳"\n---\n\n# Root\n`,
+      "shared/mid.agent.md": `---\nextends: ./root.agent.md\nversion: "2.0.0"\n---\n`,
+      "agents/leaf.agent.md": `---\nextends: ../shared/mid.agent.md\n---\n\n# Leaf\n`,
+    });
+
+    const def = await parseAgentMd(path.join(dir, "agents", "leaf.agent.md"));
+    expect(def).toMatchObject({ title: "Leaf", icon: "🌳", version: "2.0.0" });
+    expect(def.inheritance?.chain).toEqual(["../shared/mid.agent.md", "../shared/root.agent.md"]);
+  });
+
+  it("detects cycles", async () => {
+    const dir = await writeTemplates({
+      "a.agent.md": `---\nextends: b\n---\n\n# A\n`,
+      "b.agent.md": `---\nextends: a\n---\n\n# B\n`,
+    });
+
+    const res = await parseAgentMdWithDiagnostics(path.join(dir, "a.agent.md"));
+    expect(res.ok).toBe(false);
+    const cycle = res.diagnostics.find((d) => d.code === "EXTENDS.CYCLE");
+    expect(cycle?.message).toContain("a.agent.md -> b.agent.md -> a.agent.md");
+    expect(cycle?.file).toBe(path.join(dir, "b.agent.md"));
+  });
+
+  it("reports a missing base template against the extends key", async () => {
+    const dir = await writeTemplates({ "child.agent.md": `---\nextends: nope\n---\n\n# Child\n` });
+
+    const res = await parseAgentMdWithDiagnostics(path.join(dir, "child.agent.md"));
+    expect(res.diagnostics).toMatchObject([
+      { code: "EXTENDS.NOT_FOUND", path: "extends", range: { start: { line: 2, column: 1 } } },
+    ]);
+  });
+
+  it("rejects extends when parsing a raw string (no file location)", () => {
+    const res = agentTemplateToJsonWithDiagnostics(`---\nextends: base\n---\n\n# Child\n`);
+    expect(res.ok).toBe(false);
+    expect(res.diagnostics.map((d) => d.code)).toEqual(["EXTENDS.UNRESOLVED"]);
+  });
+});
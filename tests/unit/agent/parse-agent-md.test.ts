@@ -386,8 +386,11 @@ description: Commit changes
         name: "Commit",
         description: "Commit changes",
         body: "- Current git status: !`git status`\n",
-        "allowed-tools": "Bash(git add:*), Bash(git commit:*)",
         "argument-hint": "[message]",
+        allowedTools: [
+          { tool: "Bash", pattern: "git add:*" },
+          { tool: "Bash", pattern: "git commit:*" },
+        ],
       },
     ]);
   });
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { AgentTemplateError } from "../../../src/md-parser/diagnostics.js";
+import { agentTemplateToJson, agentTemplateToJsonWithDiagnostics } from "../../../src/md-parser/parse-agent-md.js";
+
+describe("agentTemplateToJsonWithDiagnostics()", () => {
+  it("returns the definition and no diagnostics for a valid template", () => {
+    const res = agentTemplateToJsonWithDiagnostics(`# Title\n`);
+    expect(res.ok).toBe(true);
+    expect(res.definition?.title).toBe("Title");
+    expect(res.diagnostics).toEqual([]);
+  });
+
+  it("reports every frontmatter problem at once with YAML key ranges", () => {
+    const raw = `---
+status: nope
+title: 123
+mcpServers:
+  db:
+    args: [--x]
+---
+
+# Title
+`;
+    const res = agentTemplateToJsonWithDiagnostics(raw);
+    expect(res.ok).toBe(false);
+    expect(res.definition).toBeUndefined();
+
+    const byPath = Object.fromEntries(res.diagnostics.map((d) => [d.path, d]));
+    expect(Object.keys(byPath).sort()).toEqual(["mcpServers.db.command", "status", "title"]);
+
+    expect(byPath["status"]).toMatchObject({
+      code: "FRONTMATTER.INVALID",
+      severity: "error",
+      range: { start: { line: 2, column: 1 }, end: { line: 2, column: 7 } },
+    });
+    expect(byPath["title"]!.range?.start).toMatchObject({ line: 3, column: 1 });
+    // Missing key: points at the deepest existing key (`db`).
+    expect(byPath["mcpServers.db.command"]!.range?.start).toMatchObject({ line: 5, column: 3 });
+  });
+
+  it("points command problems at the ### heading and keeps parsing other commands", () => {
+    const raw = `---
+version: "1.0.0"
+---
+
+# Title
+
+## Commands
+
+### Broken
+---
+argument-hint: [x]
+---
+
+Body.
+
+### Also broken
+---
+description: ok
+---
+`;
+    const res = agentTemplateToJsonWithDiagnostics(raw);
+    expect(res.ok).toBe(false);
+    expect(res.diagnostics.map((d) => [d.code, d.range?.start.line])).toEqual([
+      ["COMMAND.INVALID", 9],
+      ["COMMAND.INVALID", 16],
+    ]);
+    expect(res.diagnostics[0]!.message).toMatch(/Invalid command 'Broken': missing required frontmatter 'description'/);
+    expect(res.diagnostics[1]!.message).toMatch(/Invalid command 'Also broken': body must be non-empty/);
+  });
+
+  it("maps YAML syntax errors into the frontmatter", () => {
+    const raw = `---
+title: [unclosed
+---
+
+# Title
+`;
+    const res = agentTemplateToJsonWithDiagnostics(raw);
+    expect(res.ok).toBe(false);
+    expect(res.diagnostics).toHaveLength(1);
+    expect(res.diagnostics[0]!.code).toBe("FRONTMATTER.YAML_SYNTAX");
+    expect(res.diagnostics[0]!.range?.start.line).toBeGreaterThanOrEqual(2);
+  });
+
+  it("reports conflicts and unknown startup tools with their codes", () => {
+    const raw = `---
+title: From YAML
+required:
+  startup: nope
+---
+
+# From Heading
+
+## Tools
+return { ping: {} };
+`;
+    const res = agentTemplateToJsonWithDiagnostics(raw);
+    expect(res.diagnostics.map((d) => ({ code: d.code, path: d.path, line: d.range?.start.line }))).toEqual([
+      { code: "FRONTMATTER.CONFLICT", path: "title", line: 2 },
+      { code: "REQUIRED.STARTUP", path: "required.startup", line: 4 },
+    ]);
+  });
+});
+
+describe("agentTemplateToJson() strict mode", () => {
+  it("throws AgentTemplateError with the first message and all diagnostics", () => {
+    const raw = `---
+status: nope
+icon: 5
+---
+`;
+    let caught: unknown;
+    try {
+      agentTemplateToJson(raw);
+    } catch (e) {
+      caught = e;
+    }
+    expect(caught).toBeInstanceOf(AgentTemplateError);
+    const err = caught as AgentTemplateError;
+    expect(err.message).toMatch(/Invalid frontmatter 'icon'/);
+    expect(err.diagnostics.map((d) => d.code)).toEqual(["FRONTMATTER.INVALID", "FRONTMATTER.INVALID", "TITLE.MISSING"]);
+  });
+});
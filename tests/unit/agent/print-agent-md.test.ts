@@ -0,0 +1,126 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { AGENT_SCHEMA_VERSION, migrateAgentTemplate } from "../../../src/md-parser/migrations.js";
+import { agentTemplateToJson, parseAgentMd } from "../../../src/md-parser/parse-agent-md.js";
+import { agentJsonToTemplate } from "../../../src/md-parser/print-agent-md.js";
+
+const EXAMPLES_DIR = path.join(process.cwd(), "docs", "agent-examples");
+const FIXTURES_DIR = path.join(process.cwd(), "tests", "unit", "agent", "fixtures");
+
+async function agentFiles(dir: string): Promise<string[]> {
+  return (await fs.readdir(dir)).filter((f) => f.endsWith(".agent.md")).map((f) => path.join(dir, f));
+}
+
+describe("agentJsonToTemplate", () => {
+  it("round-trips every example and fixture (parse -> print -> parse)", async () => {
+    const files = [...(await agentFiles(EXAMPLES_DIR)), ...(await agentFiles(FIXTURES_DIR))];
+    expect(files.length).toBeGreaterThan(0);
+
+    for (const file of files) {
+      const def = await parseAgentMd(file);
+      const printed = agentJsonToTemplate(def);
+      expect(agentTemplateToJson(printed), path.basename(file)).toEqual(def);
+      // Formatting pins the current format, so the output never needs migrating.
+      expect(printed.startsWith(`---\nschemaVersion: ${AGENT_SCHEMA_VERSION}\n`), path.basename(file)).toBe(true);
+      expect(migrateAgentTemplate(printed).text, path.basename(file)).toBe(printed);
+      // Canonical: printing is idempotent.
+      expect(agentJsonToTemplate(agentTemplateToJson(printed)), path.basename(file)).toBe(printed);
+    }
+  });
+
+  it("prints the canonical layout", () => {
+    const def = agentTemplateToJson(`---
+Status: Deprecated
+icon: "🧩"
+version: "1.0"
+abilities: [SH]
+required: { env: [TOKEN] }
+---
+
+# Reviewer
+
+Reviews pull requests.
+
+## Rules
+- Be concise.
+
+## System
+You review code.
+
+## Commands
+
+### Commit
+---
+description: Commit changes
+allowed-tools: Bash(git add:*),Read
+---
+Commit: $ARGUMENTS
+
+## Tools
+return {};
+`);
+
+    expect(agentJsonToTemplate(def)).toBe(`---
+schemaVersion: 2
+version: "1.0"
+icon: 🧩
+status: deprecated
+abilities:
+  allow:
+    - sh
+required:
+  env:
+    - TOKEN
+---
+
+# Reviewer
+
+Reviews pull requests.
+
+## System
+
+You review code.
+
+## Rules
+
+- Be concise.
+
+## Commands
+
+### Commit
+---
+description: Commit changes
+allowed-tools: Bash(git add:*), Read
+---
+
+Commit: $ARGUMENTS
+
+## Tools
+
+return {};
+`);
+  });
+
+  it("falls back to frontmatter for values Markdown cannot carry", () => {
+    const def = agentTemplateToJson(`---
+title: "Multi\\nline"
+system: "Intro\\n\\n## Not a section"
+commands:
+  - name: review
+    description: "Review\\nthoroughly"
+    argument-hint: [pr, priority]
+    body: Review $1.
+  - name: ship
+    description: Ship it
+    body: "Ship.\\n"
+---
+`);
+    const printed = agentJsonToTemplate(def);
+
+    expect(printed).not.toContain("## System");
+    expect(printed).toContain("### ship\n");
+    expect(printed).not.toContain("### review");
+    expect(agentTemplateToJson(printed)).toEqual(def);
+  });
+});
@@ -0,0 +1,102 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { mergeAgentLayers } from "../../../src/md-parser/extends.js";
+import { agentTemplateToJson, agentTemplateToJsonWithDiagnostics } from "../../../src/md-parser/parse-agent-md.js";
+import { AgentRegistry, parseAgentRegistryWhere } from "../../../src/md-parser/registry.js";
+
+async function write(dir: string, rel: string, content: string): Promise<void> {
+  const file = path.join(dir, rel);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, content, "utf8");
+}
+
+describe("tags", () => {
+  it("normalizes tags and unions them across extends layers", () => {
+    expect(agentTemplateToJson(`---\ntags: [Ops, " ops ", infra]\n---\n\n# T\n`).tags).toEqual(["ops", "infra"]);
+    expect(agentTemplateToJsonWithDiagnostics(`---\ntags: ops\n---\n\n# T\n`).diagnostics).toMatchObject([
+      { code: "FRONTMATTER.INVALID", message: "Invalid frontmatter 'tags': expected an array of strings." },
+    ]);
+    const { layer } = mergeAgentLayers([
+      { source: "base", layer: { tags: ["ops", "infra"] } },
+      { source: "child", layer: { tags: ["db", "ops"] } },
+    ]);
+    expect(layer.tags).toEqual(["ops", "infra", "db"]);
+  });
+});
+
+describe("AgentRegistry", () => {
+  async function loadFixture(): Promise<AgentRegistry> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "tempybot-registry-"));
+    await write(
+      dir,
+      "agents/fetcher.agent.md",
+      `---\ntags: [web]\nabilities: [network:*.github.com, fs]\nrequired:\n  env: [GITHUB_TOKEN]\n---\n\n# Fetcher\n`,
+    );
+    await write(
+      dir,
+      "agents/legacy.agent.md",
+      `---\nstatus: deprecated\ntags: [web]\nabilities: [network]\n---\n\n# Legacy Fetcher\n`,
+    );
+    await write(
+      dir,
+      "agents/db/analyst.agent.md",
+      "---\nabilities:\n  allow: [network:*.corp, mcp]\n  deny: [network]\n" +
+        "mcpServers:\n  db:\n    command: db-mcp\n---\n\n# Analyst\n",
+    );
+    await write(dir, "agents/broken.agent.md", `---\nstatus: gone\n---\n\n# Broken\n`);
+    return await AgentRegistry.load(["agents"], { cwd: dir });
+  }
+
+  it("loads templates and indexes them", async () => {
+    const registry = await loadFixture();
+    expect(registry.list().map((e) => e.file)).toEqual([
+      "agents/db/analyst.agent.md",
+      "agents/fetcher.agent.md",
+      "agents/legacy.agent.md",
+    ]);
+    expect(registry.errors.map((e) => [e.file, e.diagnostics[0]?.code])).toEqual([
+      ["agents/broken.agent.md", "FRONTMATTER.INVALID"],
+    ]);
+    expect(registry.get("agents/fetcher.agent.md")).toMatchObject({
+      abilities: ["network", "fs"],
+      env: ["GITHUB_TOKEN"],
+      mcpServers: [],
+    });
+    expect(registry.values("ability")).toEqual(["fs", "mcp", "network"]);
+  });
+
+  it("finds agents by every condition, any value per condition", async () => {
+    const registry = await loadFixture();
+    const files = (q: Parameters<AgentRegistry["find"]>[0]) => registry.find(q).map((e) => e.file);
+
+    expect(files({ status: "active", ability: "network" })).toEqual(["agents/fetcher.agent.md"]);
+    expect(files({ ability: "network" })).toEqual(["agents/fetcher.agent.md", "agents/legacy.agent.md"]);
+    expect(files({ status: ["active", "deprecated"], tag: "WEB" })).toEqual([
+      "agents/fetcher.agent.md",
+      "agents/legacy.agent.md",
+    ]);
+    expect(files({ title: "*fetcher", env: "github_token" })).toEqual(["agents/fetcher.agent.md"]);
+    expect(files({ mcp: "db" })).toEqual(["agents/db/analyst.agent.md"]);
+    expect(files({ tag: "nope" })).toEqual([]);
+    expect(files({})).toHaveLength(3);
+
+    registry.remove("agents/fetcher.agent.md");
+    expect(files({ env: "GITHUB_TOKEN" })).toEqual([]);
+    expect(registry.values("env")).toEqual([]);
+  });
+
+  it("parses --where conditions", () => {
+    expect(parseAgentRegistryWhere(["status=active ability=network", "Tags=ops,infra"])).toEqual({
+      status: "active",
+      ability: "network",
+      tag: ["ops", "infra"],
+    });
+    expect(() => parseAgentRegistryWhere(["owner=me"])).toThrow(
+      "Invalid condition 'owner=me': expected <field>=<value>[,<value>...] with field one of " +
+        "title, status, tag, ability, env, mcp.",
+    );
+    expect(() => parseAgentRegistryWhere(["tag=a", "tag=b"])).toThrow("'tag' is given twice");
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { agentTemplateToJson } from "../../../src/md-parser/parse-agent-md.js";
+import { AgentRenderError, renderAgent } from "../../../src/md-parser/render.js";
+
+function renderError(fn: () => unknown): AgentRenderError {
+  try {
+    fn();
+  } catch (e) {
+    expect(e).toBeInstanceOf(AgentRenderError);
+    return e as AgentRenderError;
+  }
+  throw new Error("expected renderAgent() to throw");
+}
+
+const TEMPLATE = `---
+input: repo
+inputSchema:
+  properties:
+    repo: { type: string }
+    maxFiles: { type: integer, default: 10 }
+    reviewers: { type: array, items: { type: string } }
+---
+
+# Reviewer
+
+## System
+Review {{repo}} (up to {{maxFiles}} files).
+{{#if reviewers}}Reviewers:{{#each reviewers}} {{@index}}={{this}}{{/each}}{{else}}No reviewers.{{/if}}
+
+## Rules
+- Never push to {{repo}} directly. \\{{literal}}
+
+## Commands
+
+### Summarize
+---
+description: Summarize a file
+---
+Summarize {{file}} in {{repo}}.
+`;
+
+describe("renderAgent()", () => {
+  it("renders system, rules and inline command bodies with handlebars (hbs)", () => {
+    const def = agentTemplateToJson(TEMPLATE.replace("{{file}}", "{{{repo}}}"));
+    const out = renderAgent(def, { repo: "acme/api", reviewers: ["ann", "bob"] });
+
+    expect(out.system).toBe("Review acme/api (up to 10 files).\nReviewers: 0=ann 1=bob");
+    expect(out.rules).toBe("- Never push to acme/api directly. {{literal}}");
+    expect(out.commands[0]).toMatchObject({ name: "Summarize", body: "Summarize acme/api in acme/api.\n" });
+    // The source definition is not mutated.
+    expect(def.system).toContain("{{repo}}");
+  });
+
+  it("validates variables against inputSchema and the primary input", () => {
+    const def = agentTemplateToJson(TEMPLATE);
+    const err = renderError(() => renderAgent(def, { maxFiles: "many" }));
+    expect(err.issues.map((i) => [i.code, i.field])).toEqual([
+      ["RENDER.MISSING_VARIABLE", "variables.repo"],
+      ["RENDER.INVALID_VARIABLES", "variables.maxFiles"],
+    ]);
+  });
+
+  it("fails on template variables that are not provided, listing every field", () => {
+    const def = agentTemplateToJson(TEMPLATE);
+    const err = renderError(() => renderAgent(def, { repo: "acme/api" }));
+    expect(err.issues).toEqual([
+      {
+        code: "RENDER.MISSING_VARIABLE",
+        message: "Missing variable 'file' in commands[0].body.",
+        field: "commands[0].body",
+      },
+    ]);
+  });
+
+  it("coerces string variables when asked (CLI --var)", () => {
+    const def = agentTemplateToJson(TEMPLATE.replace("{{file}}", "x"));
+    expect(renderAgent(def, { repo: "r", maxFiles: "3" }, { coerceTypes: true }).system).toContain("up to 3 files");
+  });
+
+  it("reports syntax errors and unknown engines", () => {
+    const broken = agentTemplateToJson(`# T\n\n## System\n{{#each items}}open\n`);
+    expect(renderError(() => renderAgent(broken, {})).issues[0]).toMatchObject({ code: "RENDER.SYNTAX", field: "system" });
+
+    const unknown = agentTemplateToJson(`---\ntemplateEngine: ejs\n---\n\n# T\n`);
+    expect(renderError(() => renderAgent(unknown, {})).issues[0]!.code).toBe("RENDER.UNKNOWN_ENGINE");
+  });
+
+  it("passes text through unchanged with templateEngine: none", () => {
+    const def = agentTemplateToJson(`---\ntemplateEngine: none\n---\n\n# T\n\n## System\nKeep {{this}}.\n`);
+    expect(renderAgent(def).system).toBe("Keep {{this}}.");
+  });
+});
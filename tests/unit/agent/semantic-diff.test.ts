@@ -0,0 +1,175 @@
+import { execFileSync } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { loadAgentDefinition } from "../../../src/md-parser/definition-source.js";
+import { agentTemplateToJson } from "../../../src/md-parser/parse-agent-md.js";
+import {
+  diffAgentDefinitions,
+  diffTextLines,
+  formatAgentChanges,
+  summarizeAgentChanges,
+} from "../../../src/md-parser/semantic-diff.js";
+
+const before = `---
+abilities:
+  allow: ["sh:git*", fs]
+inputSchema:
+  properties:
+    query: { type: string }
+mcpServers:
+  db:
+    command: db-mcp
+    env:
+      DB_URL: "\${DB_URL}"
+  old:
+    command: old-mcp
+commands:
+  - name: deploy
+    description: Deploy
+    body: Deploy it.
+    allowed-tools: Bash(git push:*)
+  - name: cleanup
+    description: Clean up
+    body: Clean.
+---
+
+# Ops
+
+## Rules
+
+- Be careful.
+- Be brief.
+`;
+
+const after = `---
+status: deprecated
+abilities:
+  allow: [sh, fs]
+inputSchema:
+  properties:
+    query: { type: string }
+  required: [query]
+mcpServers:
+  db:
+    command: db-mcp
+    args: [--write]
+    env:
+      DB_URL: "\${DB_URL_RW}"
+      DB_TOKEN: "\${DB_TOKEN}"
+commands:
+  - name: deploy
+    description: Deploy
+    body: Deploy it now.
+    allowed-tools: Bash(git push:*), Bash(kubectl:*)
+  - name: status
+    description: Status
+    body: Report.
+---
+
+# Ops v2
+
+## Rules
+
+- Be careful.
+- Cite sources.
+`;
+
+describe("diffAgentDefinitions", () => {
+  it("classifies command, ability, mcp and text changes", () => {
+    const changes = diffAgentDefinitions(agentTemplateToJson(before), agentTemplateToJson(after));
+    const byKind = (kind: string) => changes.filter((c) => c.kind === kind).map((c) => [c.category, c.path, c.message]);
+
+    expect(byKind("field.changed")).toEqual([["cosmetic", "title", "'title' changed."]]);
+    expect(byKind("status.changed")).toEqual([["breaking", "status", "Status changed from 'active' to 'deprecated'."]]);
+    expect(byKind("inputSchema.changed")).toEqual([["breaking", "inputSchema", "Input schema now requires 'query'."]]);
+    expect(byKind("ability.allowed")).toEqual([["security", "abilities.allow", "Abilities widened: now allows 'sh'."]]);
+    expect(byKind("ability.revoked")).toEqual([
+      ["breaking", "abilities.allow", "Abilities narrowed: no longer allows 'sh:git*'."],
+    ]);
+    expect(byKind("command.removed")).toEqual([["breaking", "commands.cleanup", "Command 'cleanup' removed."]]);
+    expect(byKind("command.added")).toEqual([["cosmetic", "commands.status", "Command 'status' added."]]);
+    expect(byKind("command.allowedTools.widened")).toEqual([
+      ["security", "commands.deploy.allowedTools", "Command 'deploy' now allows tools 'Bash(kubectl:*)'."],
+    ]);
+    expect(byKind("mcpServer.removed")).toEqual([["breaking", "mcpServers.old", "MCP server 'old' removed."]]);
+    expect(byKind("mcpServer.command.changed")).toEqual([
+      ["security", "mcpServers.db", "MCP server 'db' now runs 'db-mcp --write'."],
+    ]);
+    expect(byKind("mcpServer.env.added")).toEqual([
+      ["security", "mcpServers.db.env", "MCP server 'db' now sets env 'DB_TOKEN'."],
+    ]);
+    expect(byKind("mcpServer.env.changed")).toEqual([
+      ["security", "mcpServers.db.env", "MCP server 'db' changed the value of env 'DB_URL'."],
+    ]);
+    // Env values never leak into the report.
+    expect(JSON.stringify(changes)).not.toContain("DB_URL_RW");
+
+    expect(changes.find((c) => c.kind === "command.changed")?.lines).toEqual(["- Deploy it.", "+ Deploy it now."]);
+    expect(changes.find((c) => c.kind === "rules.changed")?.lines).toEqual(["- - Be brief.", "+ - Cite sources."]);
+    // `system` falls back to the title, so it changes too.
+    expect(summarizeAgentChanges(changes)).toEqual({ breaking: 5, security: 5, cosmetic: 5 });
+  });
+
+  it("reports nothing for identical definitions and formats by category", () => {
+    const def = agentTemplateToJson(before);
+    expect(diffAgentDefinitions(def, structuredClone(def))).toEqual([]);
+    expect(formatAgentChanges([])).toBe("No changes.");
+
+    const text = formatAgentChanges(diffAgentDefinitions(def, { ...def, rules: "- Be careful." }));
+    expect(text).toBe(
+      [
+        "Cosmetic (1):",
+        "  - rules: Rules changed.",
+        "      - - Be brief.",
+        "1 change: 0 breaking, 0 security, 1 cosmetic.",
+      ].join("\n"),
+    );
+  });
+
+  it("diffs localized texts per locale", () => {
+    const def = agentTemplateToJson(`# Ops\n\n## System (de)\nHallo.\n\n## Rules (ja)\n- a\n`);
+    const next = agentTemplateToJson(`# Ops\n\n## System (de)\nServus.\n\n## Rules (fr)\n- b\n`);
+    expect(diffAgentDefinitions(def, next).map((c) => [c.kind, c.path, c.message])).toEqual([
+      ["system.changed", "locales.de.system", "System prompt (de) changed."],
+      ["locale.removed", "locales.ja", "Locale 'ja' removed."],
+      ["locale.added", "locales.fr", "Locale 'fr' added."],
+    ]);
+  });
+
+  it("diffs text by lines", () => {
+    expect(diffTextLines("a\nb\nc", "a\nc\nd")).toEqual(["- b", "+ d"]);
+    expect(diffTextLines("", "x")).toEqual(["+ x"]);
+  });
+});
+
+describe("loadAgentDefinition", () => {
+  it("loads templates, compiled JSON and git revisions (with their extends chain)", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "tempybot-diff-"));
+    const run = (...args: string[]) =>
+      execFileSync("git", ["-c", "user.name=t", "-c", "user.email=t@example.com", ...args], { cwd: dir, stdio: "pipe" });
+    await fs.mkdir(path.join(dir, "agents"));
+    await fs.writeFile(path.join(dir, "agents", "base.agent.md"), `# Base\n\n## Rules\n\n- Old rule.\n`, "utf8");
+    await fs.writeFile(path.join(dir, "agents", "one.agent.md"), `---\nextends: base\n---\n\n# One\n`, "utf8");
+    run("init", "-q");
+    run("add", "-A");
+    run("commit", "-qm", "init");
+    await fs.writeFile(path.join(dir, "agents", "base.agent.md"), `# Base\n\n## Rules\n\n- New rule.\n`, "utf8");
+
+    const old = await loadAgentDefinition("HEAD:agents/one.agent.md", dir);
+    const current = await loadAgentDefinition("agents/one.agent.md", dir);
+    expect(old.rules).toBe("- Old rule.");
+    expect(current.rules).toBe("- New rule.");
+
+    await fs.writeFile(path.join(dir, "one.json"), JSON.stringify(current), "utf8");
+    expect(await loadAgentDefinition("one.json", dir)).toEqual(current);
+
+    await fs.writeFile(path.join(dir, "bad.json"), `{"title": ""}`, "utf8");
+    await expect(loadAgentDefinition("bad.json", dir)).rejects.toThrow(/^Invalid AgentDefinition '.+' in 'bad\.json'/);
+    await expect(loadAgentDefinition("HEAD:agents/missing.agent.md", dir)).rejects.toThrow(
+      "'agents/missing.agent.md' does not exist at 'HEAD'.",
+    );
+    await expect(loadAgentDefinition("nope.agent.md", dir)).rejects.toThrow("Input not found: nope.agent.md");
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { agentTemplateToJson, agentTemplateToJsonWithDiagnostics } from "../../../src/md-parser/parse-agent-md.js";
+import { extractToolsManifest } from "../../../src/md-parser/tools-manifest.js";
+
+describe("extractToolsManifest()", () => {
+  it("reads descriptor objects returned through a const binding", () => {
+    const src = `const tools = {
+  listNamespaces: {
+    description: "List namespaces in the cluster",
+    run: "kubectl get ns",
+  },
+  tail: { description: "Tail logs", run: async (pod, since = "10m") => pod },
+};
+
+return tools;`;
+
+    expect(extractToolsManifest(src)).toEqual([
+      { name: "listNamespaces", description: "List namespaces in the cluster", params: [], async: false },
+      {
+        name: "tail",
+        description: "Tail logs",
+        params: [{ name: "pod" }, { name: "since", optional: true }],
+        async: true,
+      },
+    ]);
+  });
+
+  it("resolves spreads, computed keys, shorthand and functions declared elsewhere", () => {
+    const src = `
+/**
+ * Restart a deployment.
+ * @param {string} name - Deployment name
+ */
+async function restart(name, ...flags) {
+  const nested = () => { return { ignored: 1 }; };
+  return nested;
+}
+
+const base = { ping: () => "pong" };
+const KEY = "scale";
+
+return {
+  ...base,
+  restart,
+  [KEY]: (replicas: number, opts?: { dryRun: boolean }) => replicas,
+  ["status"]() {
+    return "ok";
+  },
+};`;
+
+    expect(extractToolsManifest(src)).toEqual([
+      { name: "ping", params: [], async: false },
+      {
+        name: "restart",
+        description: "Restart a deployment.",
+        params: [
+          { name: "name", type: "string", description: "Deployment name" },
+          { name: "flags", optional: true, rest: true },
+        ],
+        async: true,
+      },
+      {
+        name: "scale",
+        params: [
+          { name: "replicas", type: "number" },
+          { name: "opts", type: "{ dryRun: boolean }", optional: true },
+        ],
+        async: false,
+      },
+      { name: "status", params: [], async: false },
+    ]);
+  });
+
+  it("collects every return outside nested functions and prefers JSDoc on the property", () => {
+    const src = "```ts\n" +
+      `if (process.env.CI) {
+  return { lint: { description: "Lint", run() {} } };
+}
+return {
+  /** Run the test suite. */
+  test: { description: "ignored", run: ({ watch }) => watch },
+};
+` +
+      "```";
+
+    expect(extractToolsManifest(src)).toEqual([
+      { name: "lint", description: "Lint", params: [], async: false },
+      { name: "test", description: "Run the test suite.", params: [{ name: "{ watch }" }], async: false },
+    ]);
+  });
+
+  it("returns an empty manifest for unresolvable or empty programs", () => {
+    expect(extractToolsManifest("")).toEqual([]);
+    expect(extractToolsManifest("return {};")).toEqual([]);
+    expect(extractToolsManifest("return makeTools();")).toEqual([]);
+  });
+});
+
+describe("AgentDefinition.tools", () => {
+  it("is attached when the template has a ## Tools section", () => {
+    const def = agentTemplateToJson(`# T\n\n## Tools\nconst KEY = "init";\nreturn { [KEY]: async () => {} };\n`);
+    expect(def.tools).toEqual([{ name: "init", params: [], async: true }]);
+
+    expect(agentTemplateToJson(`# T\n`)).not.toHaveProperty("tools");
+  });
+
+  it("validates required.startup against the manifest (spreads included)", () => {
+    const ok = agentTemplateToJson(
+      `---\nrequired:\n  startup: boot\n---\n\n# T\n\n## Tools\nconst base = { boot() {} };\nreturn { ...base };\n`,
+    );
+    expect(ok.tools?.map((t) => t.name)).toEqual(["boot"]);
+
+    const res = agentTemplateToJsonWithDiagnostics(
+      `---\nrequired:\n  startup: boot\n---\n\n# T\n\n## Tools\nreturn { init() {} };\n`,
+    );
+    expect(res.diagnostics.map((d) => [d.code, d.message])).toEqual([
+      [
+        "REQUIRED.STARTUP",
+        "Invalid frontmatter 'required.startup': 'boot' does not match any tool declared in '## Tools' (available: init).",
+      ],
+    ]);
+  });
+});
@@ -0,0 +1,44 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it, vi } from "vitest";
+import { agentTemplateToJson } from "../../../src/md-parser/parse-agent-md.js";
+import { watchAgentTemplates } from "../../../src/md-parser/watch.js";
+
+describe("watchAgentTemplates", () => {
+  it("reports a throwing onBatch and keeps watching", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "tempybot-watch-"));
+    const file = path.join(dir, "one.agent.md");
+    await fs.writeFile(file, `# One\n`, "utf8");
+
+    const titles: string[] = [];
+    const errors: unknown[] = [];
+    const controller = new AbortController();
+    const watching = watchAgentTemplates([file], {
+      signal: controller.signal,
+      debounceMs: 10,
+      build: async (abs) => {
+        const def = agentTemplateToJson(await fs.readFile(abs, "utf8"));
+        titles.push(def.title);
+        return def;
+      },
+      onBatch: (_files, { initial }) => {
+        if (!initial && titles.length === 2) throw new Error("listener broke");
+      },
+      onError: (error) => errors.push(error),
+    });
+
+    try {
+      await vi.waitFor(() => expect(titles).toEqual(["One"]));
+      await fs.writeFile(file, `# Two\n`, "utf8");
+      await vi.waitFor(() => expect(errors).toMatchObject([{ message: "listener broke" }]));
+
+      await fs.writeFile(file, `# Three\n`, "utf8");
+      await vi.waitFor(() => expect(titles.at(-1)).toBe("Three"));
+      expect(errors).toHaveLength(1);
+    } finally {
+      controller.abort();
+      await watching;
+    }
+  });
+});
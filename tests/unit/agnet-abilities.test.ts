@@ -0,0 +1,73 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createAbilitiesHook } from "../../src/agnet/abilities.ts";
+import { Cerebellum } from "../../src/agnet/cerebellum.ts";
+import type { AgentAbilities } from "../../src/md-parser/types.ts";
+
+type Ctx = { abilities?: AgentAbilities; denied: string[] };
+
+describe("agnet: abilities tool.request hook", () => {
+  const prevFixture = process.env.AGNET_GH_FIXTURE_CMD;
+
+  beforeEach(async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "agnet-abilities-"));
+    const fixture = path.join(dir, "gh.txt");
+    await fs.writeFile(fixture, "ok\n", "utf8");
+    process.env.AGNET_GH_FIXTURE_CMD = fixture;
+  });
+
+  afterEach(() => {
+    if (prevFixture === undefined) delete process.env.AGNET_GH_FIXTURE_CMD;
+    else process.env.AGNET_GH_FIXTURE_CMD = prevFixture;
+  });
+
+  function setup(abilities?: AgentAbilities): { cerebellum: Cerebellum<Ctx>; ctx: Ctx } {
+    const cerebellum = new Cerebellum<Ctx>();
+    cerebellum.on(
+      "tool.request",
+      createAbilitiesHook<Ctx>((ctx) => ctx.abilities, {
+        onDeny: ({ decision }, ctx) => ctx.denied.push(decision.reason),
+      }),
+    );
+    return { cerebellum, ctx: { abilities, denied: [] } };
+  }
+
+  it("blocks requests the agent's abilities do not allow", async () => {
+    const { cerebellum, ctx } = setup({ allow: ["sh:gh pr *"], deny: ["sh:gh pr merge*"] });
+
+    const allowed = await cerebellum.executeTool({ tool: "gh", args: ["pr", "view", "1"] }, { ctx });
+    expect(allowed.result).toEqual({ ok: true, stdout: "ok\n" });
+
+    const merge = await cerebellum.executeTool({ tool: "gh", args: ["pr", "merge", "1"] }, { ctx });
+    expect(merge.result).toMatchObject({ ok: false, blocked: true });
+
+    const mcp = await cerebellum.executeTool({ tool: "mcp", method: "tools/list", args: {}, specPath: "x" }, { ctx });
+    expect(mcp.result).toMatchObject({ ok: false, blocked: true });
+
+    expect(ctx.denied).toEqual([
+      "'sh:gh pr merge 1' is denied by 'sh:gh pr merge*' (abilities.deny).",
+      "'mcp:tools/list' is not allowed: no entry in abilities.allow matches.",
+    ]);
+  });
+
+  it("matches gh argv against the glob without shell checks", async () => {
+    const { cerebellum, ctx } = setup({ allow: ["sh:gh*"], deny: ["sh:gh pr merge*"] });
+    const body = "Done.\nSee `npm test` && logs; $(not a shell)";
+
+    const args = ["issue", "comment", "46", "--body", body];
+    const comment = await cerebellum.executeTool({ tool: "gh", args }, { ctx });
+    expect(comment.result).toEqual({ ok: true, stdout: "ok\n" });
+
+    const merge = await cerebellum.executeTool({ tool: "gh", args: ["pr", "merge", "1", "--body", body] }, { ctx });
+    expect(merge.result).toMatchObject({ ok: false, blocked: true });
+    expect(ctx.denied).toEqual([`'sh:gh pr merge 1 --body ${body}' is denied by 'sh:gh pr merge*' (abilities.deny).`]);
+  });
+
+  it("does not restrict agents without abilities", async () => {
+    const { cerebellum, ctx } = setup();
+    expect((await cerebellum.executeTool({ tool: "gh", args: ["pr", "merge", "1"] }, { ctx })).result.ok).toBe(true);
+    expect(ctx.denied).toEqual([]);
+  });
+});
@@ -0,0 +1,63 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createAllowedToolsHook } from "../../src/agnet/allowed-tools.ts";
+import { Cerebellum } from "../../src/agnet/cerebellum.ts";
+import { parseAllowedTools } from "../../src/md-parser/allowed-tools.ts";
+import type { AgentInlineCommand } from "../../src/md-parser/types.ts";
+
+type Ctx = { activeCommand?: AgentInlineCommand; denied: string[] };
+
+describe("agnet: allowed-tools tool.request hook", () => {
+  const prevFixture = process.env.AGNET_GH_FIXTURE_CMD;
+
+  beforeEach(async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "agnet-allowed-tools-"));
+    const fixture = path.join(dir, "gh.txt");
+    await fs.writeFile(fixture, "ok\n", "utf8");
+    process.env.AGNET_GH_FIXTURE_CMD = fixture;
+  });
+
+  afterEach(() => {
+    if (prevFixture === undefined) delete process.env.AGNET_GH_FIXTURE_CMD;
+    else process.env.AGNET_GH_FIXTURE_CMD = prevFixture;
+  });
+
+  function setup(): { cerebellum: Cerebellum<Ctx>; ctx: Ctx } {
+    const cerebellum = new Cerebellum<Ctx>();
+    cerebellum.on(
+      "tool.request",
+      createAllowedToolsHook<Ctx>((ctx) => ctx.activeCommand, {
+        onDeny: ({ request }, ctx) => ctx.denied.push(request.tool),
+      }),
+    );
+    return { cerebellum, ctx: { denied: [] } };
+  }
+
+  it("allows and blocks gh calls according to the active command", async () => {
+    const { cerebellum, ctx } = setup();
+    ctx.activeCommand = {
+      name: "Comment",
+      description: "Comment on PRs",
+      body: "…",
+      allowedTools: parseAllowedTools("Bash(gh pr comment:*)"),
+    };
+
+    const allowed = await cerebellum.executeTool({ tool: "gh", args: ["pr", "comment", "1", "--body", "hi"] }, { ctx });
+    expect(allowed.result).toEqual({ ok: true, stdout: "ok\n" });
+
+    const blocked = await cerebellum.executeTool({ tool: "gh", args: ["pr", "merge", "1"] }, { ctx });
+    expect(blocked.result).toMatchObject({ ok: false, blocked: true });
+    expect(ctx.denied).toEqual(["gh"]);
+  });
+
+  it("does not restrict when no command is active or it declares no allowed-tools", async () => {
+    const { cerebellum, ctx } = setup();
+    expect((await cerebellum.executeTool({ tool: "gh", args: ["pr", "merge", "1"] }, { ctx })).result.ok).toBe(true);
+
+    ctx.activeCommand = { name: "Free", description: "No restrictions", body: "…" };
+    expect((await cerebellum.executeTool({ tool: "gh", args: ["pr", "merge", "1"] }, { ctx })).result.ok).toBe(true);
+    expect(ctx.denied).toEqual([]);
+  });
+});
@@ -0,0 +1,86 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { ToolCassette, recordToolCassette } from "../../src/agnet/cassette.ts";
+import { Cerebellum, type CerebellumToolResult } from "../../src/agnet/cerebellum.ts";
+import { CerebellumToolRegistry } from "../../src/agnet/tool-registry.ts";
+
+function makeTools(): CerebellumToolRegistry {
+  let calls = 0;
+  return new CerebellumToolRegistry([
+    {
+      name: "gh",
+      input: z.object({ args: z.array(z.string()) }),
+      execute: async ({ args }) => ({ ok: true, stdout: `call ${++calls}: ${args.join(" ")}` }),
+    },
+  ]);
+}
+
+function ok(stdout: string): CerebellumToolResult {
+  return { ok: true, stdout };
+}
+
+function tempFile(name: string): string {
+  return path.join(fs.mkdtempSync(path.join(os.tmpdir(), "agnet-cassette-")), name);
+}
+
+describe("agnet: tool cassettes", () => {
+  it("records executed calls and replays them in place of the tools", async () => {
+    const file = tempFile("run.jsonl");
+    const live = new Cerebellum({ tools: makeTools() });
+    live.on("tool.request", (evt) => ((evt.payload as any).request.args[0] === "blocked" ? null : undefined));
+    const recorder = recordToolCassette(live, file);
+    for (const args of [["issue", "comment", "1"], ["blocked"], ["issue", "comment", "1"]]) {
+      await live.executeTool({ tool: "gh", args }, { ctx: {} });
+    }
+    recorder.stop();
+    expect(recorder.entries.map((e) => e.result)).toEqual([
+      { ok: true, stdout: "call 1: issue comment 1" },
+      { ok: true, stdout: "call 2: issue comment 1" },
+    ]);
+
+    // Identical requests get their answers in recorded order.
+    const cassette = await ToolCassette.load(file);
+    const replay = new Cerebellum({ tools: cassette.replay(makeTools()) });
+    const request = { tool: "gh", args: ["issue", "comment", "1"] };
+    const first = await replay.executeTool(request, { ctx: {} });
+    const second = await replay.executeTool(request, { ctx: {} });
+    expect([first.result, second.result]).toEqual(recorder.entries.map((e) => e.result));
+    await expect(replay.executeTool(request, { ctx: {} })).rejects.toMatchObject({
+      code: "CASSETTE.UNMATCHED",
+      message:
+        `Cassette ${file}: no unused entry matches request {"args":["issue","comment","1"],"tool":"gh"} ` +
+        "(strict matching; all entries used).",
+    });
+  });
+
+  it("matches fuzzily by tool, method and leading args", () => {
+    const entries = [
+      { request: { tool: "gh", args: ["issue", "comment", "46", "--body", "Ack"] }, result: ok("a") },
+      { request: { tool: "mcp", method: "jobs.create", args: { n: 1 } }, result: ok("j") },
+    ];
+    const strict = new ToolCassette(entries);
+    expect(() => strict.play({ tool: "gh", args: ["issue", "comment", "46", "--body", "Ack!"] })).toThrow(
+      "(strict matching; unused: gh issue comment 46, mcp jobs.create)"
+    );
+
+    const fuzzy = new ToolCassette(entries, { match: "fuzzy" });
+    expect(fuzzy.play({ tool: "mcp", method: "jobs.create", args: { n: 2 } })).toEqual(ok("j"));
+    expect(() => fuzzy.play({ tool: "gh", args: ["issue", "comment", "47", "--body", "Ack"] })).toThrow(
+      "unused: gh issue comment 46"
+    );
+    expect(fuzzy.play({ tool: "gh", args: ["issue", "comment", "46", "--body", "Ack!"] })).toEqual(ok("a"));
+    expect(fuzzy.unused()).toEqual([]);
+  });
+
+  it("rejects invalid cassette lines", async () => {
+    const file = tempFile("bad.jsonl");
+    fs.writeFileSync(file, `${JSON.stringify({ request: { tool: "gh" }, result: ok("") })}\n{"request":{}}\n`);
+    await expect(ToolCassette.load(file)).rejects.toMatchObject({
+      code: "CASSETTE.INVALID",
+      message: `Invalid cassette line ${file}:2: expected { request: { tool, ... }, result: { ok, ... } }.`,
+    });
+  });
+});
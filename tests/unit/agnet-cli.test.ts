@@ -10,11 +10,14 @@ type RunResult = {
   stderr: string;
 };
 
+// Keep run journals out of the repo's .agnet/runs.
+const runsDir = fs.mkdtempSync(path.join(os.tmpdir(), "agnet-runs-"));
+
 function runAgnet(args: string[], env?: Record<string, string | undefined>): RunResult {
   const script = path.join(process.cwd(), "scripts", "agnet.ts");
   const r = spawnSync(process.execPath, [script, ...args], {
     cwd: process.cwd(),
-    env: { ...process.env, FORCE_COLOR: "0", ...(env ?? {}) },
+    env: { ...process.env, FORCE_COLOR: "0", AGNET_RUNS_DIR: runsDir, ...(env ?? {}) },
     encoding: "utf8",
   });
 
@@ -63,6 +66,27 @@ describe("agnet.ts CLI (unit)", () => {
     expect(json.templates).toEqual(["agents/repoboss.agent.md"]);
   });
 
+  it("doctor fails when required.env is missing", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "agnet-cli-"));
+    const template = path.join(dir, "needs-env.agent.md");
+    fs.writeFileSync(template, "---\nrequired:\n  env: [AGNET_DOCTOR_TOKEN]\n---\n\n# Needs env\n", "utf8");
+
+    const missing = runAgnet(["--json", "--templates", template, "doctor"], { AGNET_DOCTOR_TOKEN: undefined });
+    expect(missing.code, combinedOutput(missing)).toBe(1);
+    const json = parseJsonStdout<{
+      ok: boolean;
+      requirements: Array<{ ok: boolean; checks: Array<{ name: string; ok: boolean }> }>;
+    }>(missing);
+    expect(json.ok).toBe(false);
+    expect(json.requirements[0]!.checks).toEqual([
+      expect.objectContaining({ name: "required.env.AGNET_DOCTOR_TOKEN", ok: false }),
+    ]);
+
+    const present = runAgnet(["--templates", template, "doctor"], { AGNET_DOCTOR_TOKEN: "x" });
+    expect(present.code, combinedOutput(present)).toBe(0);
+    expect(present.stdout).toContain("- ok: required.env.AGNET_DOCTOR_TOKEN");
+  });
+
   it("run --world prints Nothing to do when no /myagent commands (fixture)", () => {
     const template = path.join(process.cwd(), "agents", "repoboss.agent.md");
     const idemPath = makeTempFilePath("idempotency");
@@ -250,5 +274,200 @@ describe("agnet.ts CLI (unit)", () => {
       true
     );
   });
-});
 
+  it("run --world replays /myagent resolve from a cassette with a distinct response per call", () => {
+    const template = path.join(process.cwd(), "agents", "repoboss.agent.md");
+    const env = {
+      AGNET_GH_FIXTURE_PATH: "fixtures/gh_issue_comments_myagent_resolve.json",
+      AGNET_CASSETTE_REPLAY: "fixtures/cassette_myagent_resolve.jsonl",
+    };
+    const res = runAgnet(["--json", "--templates", template, "run", "--world"], {
+      ...env,
+      AGNET_IDEMPOTENCY_PATH: makeTempFilePath("idempotency"),
+    });
+    expect(res.code, combinedOutput(res)).toBe(0);
+    const json = parseJsonStdout<{ logs: string[]; toolEvents: Array<{ type: string; ok?: boolean }> }>(res);
+    expect(json.logs).toContain("Cursor job started: job-789");
+    expect(json.toolEvents.filter((e) => e.type === "tool.result").map((e) => e.ok)).toEqual([true, true, true]);
+
+    // Only the ack is recorded: the job start has no matching entry.
+    const partial = path.join(path.dirname(makeTempFilePath("cassette")), "partial.jsonl");
+    fs.writeFileSync(partial, `${fs.readFileSync(env.AGNET_CASSETTE_REPLAY, "utf8").split("\n")[0]}\n`, "utf8");
+    const unmatched = runAgnet(["--json", "--templates", template, "run", "--world"], {
+      ...env,
+      AGNET_CASSETTE_REPLAY: partial,
+      AGNET_IDEMPOTENCY_PATH: makeTempFilePath("idempotency"),
+    });
+    expect(unmatched.code, combinedOutput(unmatched)).toBe(1);
+    expect(unmatched.stdout).toContain("no unused entry matches request");
+    expect(unmatched.stdout).toContain("all entries used");
+  });
+
+  it("run --world records executed tool calls to a cassette", () => {
+    const template = path.join(process.cwd(), "agents", "repoboss.agent.md");
+    const cassettePath = path.join(path.dirname(makeTempFilePath("cassette")), "resolve.jsonl");
+    const res = runAgnet(["--json", "--templates", template, "run", "--world"], {
+      AGNET_GH_FIXTURE_PATH: "fixtures/gh_issue_comments_myagent_resolve.json",
+      AGNET_IDEMPOTENCY_PATH: makeTempFilePath("idempotency"),
+      AGNET_GH_FIXTURE_CMD: "fixtures/gh_cmd_output.txt",
+      AGNET_MCP_FIXTURE_PATH: "fixtures/mcp_cursor_start_ok.json",
+      AGNET_CASSETTE_RECORD: cassettePath,
+    });
+    expect(res.code, combinedOutput(res)).toBe(0);
+    const entries = fs
+      .readFileSync(cassettePath, "utf8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line) as { request: { tool: string; method?: string }; result: { ok: boolean } });
+    expect(entries.map((e) => [e.request.tool, e.request.method, e.result.ok])).toEqual([
+      ["gh", undefined, true],
+      ["mcp", "cursor.jobs.create", true],
+      ["gh", undefined, true],
+    ]);
+  });
+
+  it("run --world journals the run and runs list/show read it back", () => {
+    const template = path.join(process.cwd(), "agents", "repoboss.agent.md");
+    const env = { AGNET_RUNS_DIR: fs.mkdtempSync(path.join(os.tmpdir(), "agnet-runs-")) };
+    const res = runAgnet(["--json", "--templates", template, "run", "--world"], {
+      ...env,
+      AGNET_GH_FIXTURE_PATH: "fixtures/gh_issue_comments_myagent_resolve.json",
+      AGNET_IDEMPOTENCY_PATH: makeTempFilePath("idempotency"),
+      AGNET_CASSETTE_REPLAY: "fixtures/cassette_myagent_resolve.jsonl",
+    });
+    expect(res.code, combinedOutput(res)).toBe(0);
+    const { runId } = parseJsonStdout<{ runId: string }>(res);
+
+    const list = runAgnet(["--json", "runs", "list"], env);
+    expect(list.code, combinedOutput(list)).toBe(0);
+    expect(parseJsonStdout<{ runs: unknown[] }>(list).runs).toEqual([
+      expect.objectContaining({ runId, exitCode: 0, toolCalls: 3, templates: ["agents/repoboss.agent.md"] }),
+    ]);
+
+    const show = runAgnet(["--json", "runs", "show", runId.slice(0, 12)], env);
+    expect(show.code, combinedOutput(show)).toBe(0);
+    const { records } = parseJsonStdout<{ records: Array<{ type: string; payload: any }> }>(show);
+    expect(records.map((r) => r.type).filter((t, i, all) => all.indexOf(t) === i)).toEqual([
+      "run.start",
+      "world.snapshot",
+      "hook.decision",
+      "event.dispatched",
+      "log",
+      "tool.request",
+      "tool.result",
+      "workflow.step",
+      "run.end",
+    ]);
+    expect(records.find((r) => r.type === "hook.decision")?.payload).toEqual({
+      event: "wake",
+      hook: "detect-slash-command",
+      decision: "rewrite",
+    });
+    expect(records.at(-1)?.payload).toEqual({ exitCode: 0 });
+
+    const text = runAgnet(["runs", "show", runId], env);
+    expect(text.stdout).toContain("tool.result mcp ok");
+    const missing = runAgnet(["runs", "show", "nope"], env);
+    expect(missing.code).toBe(1);
+    expect(missing.stderr).toContain("No run 'nope'");
+  });
+
+  it("run --world resumes /myagent resolve at the failed step on rerun", () => {
+    const template = path.join(process.cwd(), "agents", "repoboss.agent.md");
+    const idemPath = makeTempFilePath("idempotency");
+    const env = {
+      AGNET_GH_FIXTURE_PATH: "fixtures/gh_issue_comments_myagent_resolve.json",
+      AGNET_IDEMPOTENCY_PATH: idemPath,
+    };
+
+    const failed = runAgnet(["--json", "--templates", template, "run", "--world"], {
+      ...env,
+      AGNET_CASSETTE_REPLAY: "fixtures/cassette_myagent_resolve_job_failed.jsonl",
+    });
+    expect(failed.code, combinedOutput(failed)).toBe(1);
+    expect(parseJsonStdout<{ logs: string[] }>(failed).logs).toContain(
+      "Failed to start Cursor job: Cursor API rate limited"
+    );
+    type Store = { seen: Array<{ id: string }>; checkpoints: Array<{ step: string; status: string }> };
+    const store = JSON.parse(fs.readFileSync(idemPath, "utf8")) as Store;
+    expect(store.seen).toEqual([]);
+    expect(store.checkpoints.map((c) => `${c.step}:${c.status}`)).toEqual(["ack:done", "start-job:failed"]);
+
+    // The rerun must not acknowledge again: the cassette only has the job start and the summary.
+    const rest = path.join(path.dirname(makeTempFilePath("cassette")), "rest.jsonl");
+    const lines = fs.readFileSync("fixtures/cassette_myagent_resolve.jsonl", "utf8").split("\n");
+    fs.writeFileSync(rest, `${lines.slice(1).join("\n")}`, "utf8");
+    const resumed = runAgnet(["--json", "--templates", template, "run", "--world"], {
+      ...env,
+      AGNET_CASSETTE_REPLAY: rest,
+    });
+    expect(resumed.code, combinedOutput(resumed)).toBe(0);
+    const json = parseJsonStdout<{ logs: string[] }>(resumed);
+    expect(json.logs).toContain("Resuming workflow resolve at 'start-job' (done: ack)");
+    expect(json.logs).toContain("Posted final summary");
+    const done = JSON.parse(fs.readFileSync(idemPath, "utf8")) as Store;
+    expect(done.seen.map((r) => r.id)).toEqual(["holiber/tempybot#46/comment/201"]);
+    expect(done.checkpoints.map((c) => `${c.step}:${c.status}`)).toEqual([
+      "ack:done",
+      "start-job:done",
+      "summary:done",
+    ]);
+
+    const again = runAgnet(["--json", "--templates", template, "run", "--world"], env);
+    expect(parseJsonStdout<{ result: string }>(again).result).toBe("nothing");
+  });
+
+  it("run --world gives up on a command that keeps failing so the next one runs", () => {
+    const template = path.join(process.cwd(), "agents", "repoboss.agent.md");
+    const idemPath = makeTempFilePath("idempotency");
+    const env = {
+      AGNET_GH_FIXTURE_PATH: "fixtures/gh_issue_comments_myagent_resolve_two.json",
+      AGNET_IDEMPOTENCY_PATH: idemPath,
+      AGNET_CASSETTE_REPLAY: "fixtures/cassette_myagent_resolve_two.jsonl",
+    };
+    type Run = { foundCommand?: { itemId: string }; logs: string[]; toolEvents: Array<{ type: string; request: any }> };
+    const requested = (json: Run) =>
+      json.toolEvents
+        .filter((e) => e.type === "tool.request")
+        .map((e) => {
+          const { tool, args } = e.request;
+          return tool === "gh" ? `gh ${args[2]} ${args[6]}` : `mcp ${args.issueNumber}`;
+        });
+
+    const runs: Run[] = [];
+    for (let i = 0; i < 3; i++) {
+      const res = runAgnet(["--json", "--templates", template, "run", "--world"], env);
+      expect(res.code, combinedOutput(res)).toBe(1);
+      runs.push(parseJsonStdout<Run>(res));
+    }
+    expect(runs.map((r) => r.foundCommand?.itemId)).toEqual(Array(3).fill("holiber/tempybot#46/comment/201"));
+    // The failure is reported once; reruns only retry the job.
+    expect(runs.map(requested)).toEqual([
+      ["gh 46 Acknowledged, working…", "mcp 46", "gh 46 Failed: Cursor API rate limited"],
+      ["mcp 46"],
+      ["mcp 46"],
+    ]);
+    expect(runs[2]!.logs).toContain(
+      "Giving up on holiber/tempybot#46/comment/201 after 3 failed attempts at 'start-job'"
+    );
+    const store = JSON.parse(fs.readFileSync(idemPath, "utf8")) as {
+      seen: Array<{ id: string }>;
+      checkpoints: Array<{ id: string; status: string; attempts: number }>;
+    };
+    expect(store.seen.map((r) => r.id)).toEqual(["holiber/tempybot#46/comment/201"]);
+    expect(store.checkpoints.find((c) => c.id.endsWith("201:start-job"))).toMatchObject({
+      status: "failed",
+      attempts: 3,
+    });
+
+    const next = runAgnet(["--json", "--templates", template, "run", "--world"], env);
+    expect(next.code, combinedOutput(next)).toBe(0);
+    const json = parseJsonStdout<Run>(next);
+    expect(json.foundCommand?.itemId).toBe("holiber/tempybot#47/comment/202");
+    expect(requested(json)).toEqual([
+      "gh 47 Acknowledged, working…",
+      "mcp 47",
+      expect.stringContaining("gh 47 Final summary"),
+    ]);
+  });
+});
@@ -0,0 +1,93 @@
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { Cerebellum, createCerebellumToolRegistry, executeMcpCall } from "../../src/agnet/cerebellum.ts";
+import type { McpServersConfig } from "../../src/md-parser/types.ts";
+
+const stubServer = path.join(process.cwd(), "fixtures", "mcp_stub_server.mjs");
+
+const mcpServers: McpServersConfig = {
+  stub: { command: process.execPath, args: [stubServer], env: { MCP_STUB_PREFIX: "stub: " } },
+  broken: { command: path.join(process.cwd(), "fixtures", "no-such-server") },
+};
+
+describe("agnet: MCP calls over stdio", () => {
+  const prevFixture = process.env.AGNET_MCP_FIXTURE_PATH;
+
+  beforeEach(() => {
+    delete process.env.AGNET_MCP_FIXTURE_PATH;
+  });
+
+  afterEach(() => {
+    if (prevFixture !== undefined) process.env.AGNET_MCP_FIXTURE_PATH = prevFixture;
+  });
+
+  it("calls a tool of an mcpServers entry and maps the result", async () => {
+    const ok = await executeMcpCall({ method: "echo", args: { text: "hi" }, server: "stub" }, { mcpServers });
+    expect(ok).toEqual({ ok: true, stdout: "stub: hi" });
+
+    const failed = await executeMcpCall({ method: "fail", args: { text: "x" }, server: "stub" }, { mcpServers });
+    expect(failed).toEqual({ ok: false, error: { message: "failed: x" } });
+
+    const unknown = await executeMcpCall({ method: "nope", args: {}, server: "stub" }, { mcpServers });
+    expect(unknown).toEqual({ ok: false, error: { message: "MCP server has no tool 'nope' (available: echo, fail)." } });
+  });
+
+  it("sends protocol methods as is", async () => {
+    const res = await executeMcpCall({ method: "tools/list", args: { cursor: "2" }, server: "stub" }, { mcpServers });
+    expect(res.ok && JSON.parse(res.stdout)).toMatchObject({ tools: [{ name: "fail" }] });
+
+    const missing = await executeMcpCall({ method: "prompts/list", args: {}, server: "stub" }, { mcpServers });
+    expect(missing).toEqual({
+      ok: false,
+      error: { message: "MCP prompts/list failed: Method not found: prompts/list (code -32601)." },
+    });
+  });
+
+  it("reports servers that cannot be resolved or started", async () => {
+    expect(await executeMcpCall({ method: "echo", args: {}, server: "db" }, { mcpServers })).toEqual({
+      ok: false,
+      error: { message: "Unknown MCP server 'db' (configured: stub, broken)." },
+    });
+    const broken = await executeMcpCall({ method: "echo", args: {}, server: "broken" }, { mcpServers });
+    expect(broken).toMatchObject({ ok: false, error: { message: expect.stringMatching(/^Failed to start MCP server/) } });
+  });
+
+  it("expands ${VAR} and $VAR in server env and fails on unset variables", async () => {
+    const mcpServers: McpServersConfig = {
+      fromEnv: {
+        command: process.execPath,
+        args: [stubServer],
+        env: { MCP_STUB_PREFIX: "${AGNET_TEST_PREFIX}$AGNET_TEST_SEP" },
+      },
+    };
+    process.env.AGNET_TEST_PREFIX = "env";
+    process.env.AGNET_TEST_SEP = ": ";
+    try {
+      const ok = await executeMcpCall({ method: "echo", args: { text: "hi" }, server: "fromEnv" }, { mcpServers });
+      expect(ok).toEqual({ ok: true, stdout: "env: hi" });
+
+      delete process.env.AGNET_TEST_SEP;
+      const unset = await executeMcpCall({ method: "echo", args: { text: "hi" }, server: "fromEnv" }, { mcpServers });
+      expect(unset).toEqual({
+        ok: false,
+        error: { message: "MCP server 'fromEnv': env MCP_STUB_PREFIX references AGNET_TEST_SEP, which is not set." },
+      });
+    } finally {
+      delete process.env.AGNET_TEST_PREFIX;
+      delete process.env.AGNET_TEST_SEP;
+    }
+  });
+
+  it("runs through Cerebellum with the agent's mcpServers", async () => {
+    const cerebellum = new Cerebellum({ tools: createCerebellumToolRegistry({ mcpServers }) });
+    const { result } = await cerebellum.executeTool(
+      { tool: "mcp", method: "echo", args: { text: "from cerebellum" }, server: "stub" },
+      { ctx: {} },
+    );
+    expect(result).toEqual({ ok: true, stdout: "stub: from cerebellum" });
+    await expect(cerebellum.executeTool({ tool: "mcp", method: "echo", args: {} }, { ctx: {} })).rejects.toMatchObject({
+      code: "TOOL.INVALID_INPUT",
+      message: "Invalid input for tool 'mcp': expected 'specPath' or 'server'.",
+    });
+  });
+});
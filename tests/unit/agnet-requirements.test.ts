@@ -0,0 +1,139 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { checkAgentRequirements, createStartupDryRunExecutor } from "../../src/agnet/requirements.ts";
+import { agentTemplateToJson } from "../../src/md-parser/parse-agent-md.js";
+
+const template = `---
+required:
+  env: [API_TOKEN, REGION]
+  startup: warmup
+abilities:
+  allow: ["sh:kubectl*"]
+---
+
+# Ops
+
+## Tools
+
+\`\`\`ts
+return {
+  warmup: async ({ dryRun }: { dryRun: boolean }) => sh(dryRun ? "kubectl version --client" : "kubectl apply -f ."),
+  broken: () => { throw new Error("no cluster"); },
+};
+\`\`\`
+`;
+
+describe("agnet: required.env / required.startup preflight", () => {
+  it("reports missing env vars and dry-runs the startup tool without executing shell commands", async () => {
+    const def = agentTemplateToJson(template);
+    const report = await checkAgentRequirements(def, { API_TOKEN: "t", REGION: " " });
+
+    expect(report.ok).toBe(false);
+    expect(report.checks).toEqual([
+      { name: "required.env.API_TOKEN", ok: true, required: true },
+      {
+        name: "required.env.REGION",
+        ok: false,
+        required: true,
+        error: { message: "Environment variable 'REGION' is not set." },
+      },
+      {
+        name: "required.startup",
+        ok: true,
+        required: true,
+        details: { tool: "warmup", dryRun: true, commands: ["kubectl version --client"], effects: [] },
+      },
+    ]);
+  });
+
+  it("uses the injected executor and fails for undeclared or failing startup tools", async () => {
+    const def = agentTemplateToJson(template);
+    const calls: string[] = [];
+    const ok = await checkAgentRequirements(
+      def,
+      { API_TOKEN: "t", REGION: "eu" },
+      {
+        startup: async (tool) => {
+          calls.push(tool);
+          return { ok: true };
+        },
+      },
+    );
+    expect(ok.ok).toBe(true);
+    expect(calls).toEqual(["warmup"]);
+
+    const failing = await checkAgentRequirements(
+      { ...def, required: { startup: "broken" } },
+      {},
+      { startup: createStartupDryRunExecutor() },
+    );
+    expect(failing.checks).toEqual([
+      {
+        name: "required.startup",
+        ok: false,
+        required: true,
+        error: { message: "Tool 'broken' failed: no cluster" },
+        details: { tool: "broken", dryRun: true, commands: [], effects: [] },
+      },
+    ]);
+
+    const missing = await checkAgentRequirements({ ...def, required: { startup: "nope" } }, {});
+    expect(missing.checks[0]).toMatchObject({
+      ok: false,
+      error: { message: "Startup tool 'nope' is not declared in '## Tools'." },
+    });
+  });
+
+  it("records fs writes and fetches of the startup tool without performing them", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "agnet-dry-run-"));
+    fs.writeFileSync(path.join(dir, "keep.txt"), "keep", "utf8");
+    const def = agentTemplateToJson(`---
+required:
+  startup: setup
+abilities:
+  allow: [fs, "network:example.com"]
+---
+
+# Setup
+
+## Tools
+
+\`\`\`ts
+return {
+  setup: async () => {
+    await fs.mkdir("cache");
+    await fs.writeFile("cache/state.json", "{}");
+    await fs.rm("keep.txt");
+    const res = await fetch("https://example.com/hook", { method: "post" });
+    return (await fs.readFile("keep.txt")) + res.status;
+  },
+};
+\`\`\`
+`);
+    const report = await checkAgentRequirements(def, {}, { startup: createStartupDryRunExecutor({ cwd: dir }) });
+
+    expect(report.checks[0]).toMatchObject({ ok: true });
+    expect(report.checks[0]!.details).toEqual({
+      tool: "setup",
+      dryRun: true,
+      commands: [],
+      effects: [
+        { kind: "fs.mkdir", path: path.join(dir, "cache") },
+        { kind: "fs.writeFile", path: path.join(dir, "cache", "state.json") },
+        { kind: "fs.rm", path: path.join(dir, "keep.txt") },
+        { kind: "fetch", method: "POST", url: "https://example.com/hook" },
+      ],
+    });
+    expect(fs.readdirSync(dir)).toEqual(["keep.txt"]);
+
+    // Abilities are still enforced in a dry run.
+    const denied = await checkAgentRequirements(
+      { ...def, abilities: { allow: ["fs:read:**"] } },
+      {},
+      { startup: createStartupDryRunExecutor({ cwd: dir }) },
+    );
+    expect(denied.checks[0]).toMatchObject({ ok: false, error: { message: expect.stringContaining("is not allowed") } });
+  });
+});
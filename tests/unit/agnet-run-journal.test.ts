@@ -0,0 +1,64 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { Cerebellum } from "../../src/agnet/cerebellum.ts";
+import {
+  RunJournal,
+  findRunJournal,
+  listRunJournals,
+  readRunJournal,
+  summarizeRunJournal,
+} from "../../src/agnet/run-journal.ts";
+
+describe("agnet: run journal", () => {
+  it("journals dispatched events with a decision per hook", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "agnet-runs-"));
+    const cerebellum = new Cerebellum();
+    cerebellum.use(() => undefined, { name: "observe" });
+    cerebellum.on("wake", (evt) => ({ ...evt, meta: { seen: true } }));
+    cerebellum.on("wake", function dropAll() {
+      return null;
+    });
+
+    const journal = RunJournal.create({ dir, runId: "20261019T000000Z-000001", templates: ["a.agent.md"] });
+    journal.attach(cerebellum);
+    cerebellum.worldSnapshot({ items: [] });
+    expect(await cerebellum.dispatch({ type: "wake" }, {})).toBeNull();
+    journal.end(0);
+    cerebellum.log("after the end");
+
+    const records = await readRunJournal(journal.file);
+    expect(records.map((r) => r.seq)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(records.filter((r) => r.type === "hook.decision").map((r) => r.payload)).toEqual([
+      { event: "wake", hook: "observe", decision: "pass" },
+      { event: "wake", hook: "wake#0", decision: "rewrite" },
+      { event: "wake", hook: "dropAll", decision: "drop" },
+    ]);
+    expect(records[5]).toMatchObject({ type: "event.dispatched", payload: { event: { type: "wake" }, result: null } });
+    expect(summarizeRunJournal(journal.file, records)).toMatchObject({
+      runId: "20261019T000000Z-000001",
+      exitCode: 0,
+      templates: ["a.agent.md"],
+      toolCalls: 0,
+    });
+  });
+
+  it("lists runs newest first and finds them by id prefix", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "agnet-runs-"));
+    expect(await listRunJournals(path.join(dir, "missing"))).toEqual([]);
+    RunJournal.create({ dir, runId: "20261019T000000Z-aaaaaa" }).end(0);
+    RunJournal.create({ dir, runId: "20261019T000100Z-bbbbbb" }).end(1, "boom");
+    RunJournal.create({ dir, runId: "20261019T000200Z-cccccc" });
+
+    const runs = await listRunJournals(dir);
+    expect(runs.map((r) => [r.runId, r.exitCode, r.error])).toEqual([
+      ["20261019T000200Z-cccccc", undefined, undefined],
+      ["20261019T000100Z-bbbbbb", 1, "boom"],
+      ["20261019T000000Z-aaaaaa", 0, undefined],
+    ]);
+    expect(await findRunJournal(dir, "20261019T0001")).toBe(path.join(dir, "20261019T000100Z-bbbbbb.jsonl"));
+    await expect(findRunJournal(dir, "20261019")).rejects.toThrow("Run id '20261019' is ambiguous");
+    await expect(findRunJournal(dir, "x")).rejects.toThrow(`No run 'x' in ${dir}.`);
+  });
+});
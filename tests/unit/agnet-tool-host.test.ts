@@ -0,0 +1,158 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { AgentToolHost, ToolHostError, createAgentToolHost, toolHostCapabilities } from "../../src/agnet/tool-host.ts";
+import type { ShellExecutor } from "../../src/md-parser/invoke-command.ts";
+import type { AgentAbilities } from "../../src/md-parser/types.ts";
+
+async function toolError(p: Promise<unknown>): Promise<ToolHostError> {
+  try {
+    await p;
+  } catch (e) {
+    expect(e).toBeInstanceOf(ToolHostError);
+    return e as ToolHostError;
+  }
+  throw new Error("expected the tool call to fail");
+}
+
+describe("agnet: sandboxed tool host", () => {
+  const hosts: AgentToolHost[] = [];
+
+  async function host(toolsSource: string, abilities?: AgentAbilities, opts?: ConstructorParameters<typeof AgentToolHost>[1]) {
+    const h = await createAgentToolHost({ toolsSource, abilities }, opts);
+    hosts.push(h);
+    return h;
+  }
+
+  afterEach(async () => {
+    await Promise.all(hosts.splice(0).map((h) => h.close()));
+  });
+
+  it("evaluates TS tools in a worker and returns a callable tool map", async () => {
+    const h = await host(
+      "```ts\n" +
+        `const base = { add: (a: number, b: number) => a + b };
+return {
+  ...base,
+  greet: { description: "Say hi", run: async ({ name }: { name: string }) => "hi " + name },
+};
+` +
+        "```",
+    );
+
+    expect(h.info).toEqual([
+      { name: "add", kind: "function" },
+      { name: "greet", description: "Say hi", kind: "function" },
+    ]);
+    await expect(h.tools.add!(2, 3)).resolves.toBe(5);
+    await expect(h.call("greet", { name: "ann" })).resolves.toBe("hi ann");
+    expect((await toolError(h.call("nope"))).code).toBe("TOOL.UNKNOWN");
+  });
+
+  it("exposes only the capabilities granted by abilities.allow", async () => {
+    expect(toolHostCapabilities({ allow: ["fs", "sh:git", "network"], deny: ["network"] })).toEqual(["fs", "sh"]);
+
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "agnet-tool-host-"));
+    await fs.writeFile(path.join(root, "a.txt"), "hello", "utf8");
+    const src = `return {
+  read: (p) => fs.readFile(p),
+  home: () => env.HOME,
+  fetchIt: () => fetch("http://127.0.0.1:1"),
+  evil: () => eval("1 + 1"),
+};`;
+
+    const h = await host(src, { allow: ["fs"] }, { cwd: root });
+    await expect(h.tools.read!("a.txt")).resolves.toBe("hello");
+
+    const outside = await toolError(h.tools.read!("../etc/passwd"));
+    expect(outside.code).toBe("TOOL.CAPABILITY_DENIED");
+    const env = await toolError(h.tools.home!());
+    expect([env.code, env.message]).toEqual([
+      "TOOL.CAPABILITY_DENIED",
+      "Tool 'home' failed: 'env' requires the 'env' ability (abilities.allow).",
+    ]);
+    expect((await toolError(h.tools.fetchIt!())).code).toBe("TOOL.CAPABILITY_DENIED");
+    expect((await toolError(h.tools.evil!())).code).toBe("TOOL.FAILED");
+  });
+
+  it("checks ability scopes for fs and env with the shared policy", async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "agnet-tool-host-"));
+    const data = await fs.mkdtemp(path.join(os.tmpdir(), "agnet-tool-host-data-"));
+    await fs.writeFile(path.join(data, "a.txt"), "data", "utf8");
+    const src = `return {
+  read: (p) => fs.readFile(p),
+  write: (p) => fs.writeFile(p, "x"),
+  vars: () => Object.keys(env),
+};`;
+
+    const h = await host(src, { allow: [`fs:read:${data}/**`, "env:TOOL_*"] }, {
+      cwd: root,
+      env: { TOOL_TOKEN: "t", HOME: "/root" },
+    });
+    await expect(h.tools.read!(path.join(data, "a.txt"))).resolves.toBe("data");
+    const write = await toolError(h.tools.write!(path.join(data, "a.txt")));
+    expect([write.code, write.message]).toEqual([
+      "TOOL.CAPABILITY_DENIED",
+      `Tool 'write' failed: 'fs:write:${path.join(data, "a.txt")}' is not allowed: no entry in abilities.allow matches.`,
+    ]);
+    await expect(h.tools.vars!()).resolves.toEqual(["TOOL_TOKEN"]);
+  });
+
+  it("runs sh() and string `run` tools through the host executor, checking scoped sh abilities", async () => {
+    const commands: string[] = [];
+    const exec: ShellExecutor = async (command) => {
+      commands.push(command);
+      return { stdout: `out:${command}\n`, stderr: "", exitCode: 0 };
+    };
+    const src = `return {
+  status: () => sh("git status"),
+  wipe: () => sh("rm -rf /"),
+  describePod: { description: "Describe a pod", run: "kubectl describe pod -n {{namespace}} {{pod}}" },
+};`;
+
+    const h = await host(src, { allow: ["sh:git", "sh:kubectl"] }, { exec });
+    expect(h.info.find((t) => t.name === "describePod")).toEqual({
+      name: "describePod",
+      description: "Describe a pod",
+      kind: "command",
+    });
+
+    await expect(h.tools.status!()).resolves.toBe("out:git status");
+    await expect(h.tools.describePod!({ namespace: "prod", pod: "api 1" })).resolves.toBe(
+      "out:kubectl describe pod -n prod 'api 1'",
+    );
+    expect((await toolError(h.tools.wipe!())).code).toBe("TOOL.CAPABILITY_DENIED");
+    expect((await toolError(h.tools.describePod!({ namespace: "prod" }))).message).toBe(
+      "Tool 'describePod': missing input 'pod'.",
+    );
+    expect(commands).toEqual(["git status", "kubectl describe pod -n prod 'api 1'"]);
+  });
+
+  it("terminates runaway tools and restarts the worker for later calls", async () => {
+    const h = await host(`let calls = 0;\nreturn { spin: () => { for (;;) {} }, count: () => ++calls };`, undefined, {
+      timeoutMs: 500,
+    });
+
+    await expect(h.tools.count!()).resolves.toBe(1);
+    const err = await toolError(h.tools.spin!());
+    expect([err.code, err.message]).toEqual(["TOOL.TIMEOUT", "Tool 'spin' timed out after 500ms."]);
+    // Fresh worker: module state was re-evaluated.
+    await expect(h.tools.count!()).resolves.toBe(1);
+  });
+
+  it("enforces the memory limit", async () => {
+    const h = await host(
+      `return { hog: () => { const a = []; for (;;) a.push(new Array(1e5).fill(Math.random())); } };`,
+      undefined,
+      { memoryLimitMb: 16, timeoutMs: 20_000 },
+    );
+    expect((await toolError(h.tools.hog!())).code).toBe("TOOL.MEMORY_LIMIT");
+  });
+
+  it("reports evaluation failures", async () => {
+    const err = await toolError(createAgentToolHost({ toolsSource: `throw new Error("boom");` }));
+    expect([err.code, err.message]).toEqual(["TOOL.EVAL_FAILED", "Failed to evaluate '## Tools': boom"]);
+    expect((await toolError(createAgentToolHost({ toolsSource: `return 1;` }))).code).toBe("TOOL.EVAL_FAILED");
+  });
+});
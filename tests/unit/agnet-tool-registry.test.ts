@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { createAbilitiesHook } from "../../src/agnet/abilities.ts";
+import { toolCallsForRequest } from "../../src/agnet/allowed-tools.ts";
+import { Cerebellum, createCerebellumToolRegistry } from "../../src/agnet/cerebellum.ts";
+import { CerebellumToolError, type CerebellumToolDefinition } from "../../src/agnet/tool-registry.ts";
+import type { AgentAbilities } from "../../src/md-parser/types.ts";
+
+type Ctx = { abilities?: AgentAbilities; denied: string[] };
+
+const echoTool: CerebellumToolDefinition<{ text: string; fail?: boolean }> = {
+  name: "echo",
+  input: z.object({ text: z.string(), fail: z.boolean().optional() }),
+  execute: async (input) => (input.fail ? { ok: false, error: { message: "boom" } } : { ok: true, stdout: input.text }),
+  fixture: async (input) => (input.text === "fixture" ? { ok: true, stdout: "from fixture" } : undefined),
+};
+
+describe("agnet: Cerebellum tool registry", () => {
+  it("executes registered tools, preferring their fixture behavior", async () => {
+    const cerebellum = new Cerebellum<Ctx>();
+    cerebellum.tools.register(echoTool);
+    const events: string[] = [];
+    cerebellum.channel.subscribe((evt: any) => {
+      if (evt?.kind === "data" && String(evt.data?.type).startsWith("tool.")) events.push(evt.data.type);
+    });
+
+    const ctx: Ctx = { denied: [] };
+    expect((await cerebellum.executeTool({ tool: "echo", text: "hi" }, { ctx })).result).toEqual({
+      ok: true,
+      stdout: "hi",
+    });
+    expect((await cerebellum.executeTool({ tool: "echo", text: "fixture" }, { ctx })).result).toEqual({
+      ok: true,
+      stdout: "from fixture",
+    });
+    expect((await cerebellum.executeTool({ tool: "echo", text: "x", fail: true }, { ctx })).result).toEqual({
+      ok: false,
+      error: { message: "boom" },
+    });
+    expect(events).toEqual(Array.from({ length: 3 }, () => ["tool.request", "tool.result"]).flat());
+  });
+
+  it("rejects unknown tools and invalid input with a typed error", async () => {
+    const cerebellum = new Cerebellum<Ctx>();
+    const ctx: Ctx = { denied: [] };
+    const unknown = await cerebellum.executeTool({ tool: "git", args: ["status"] }, { ctx }).catch((e: unknown) => e);
+    expect(unknown).toBeInstanceOf(CerebellumToolError);
+    expect(unknown).toMatchObject({
+      code: "TOOL.UNKNOWN",
+      tool: "git",
+      message: "Unknown tool 'git' (registered: gh, mcp).",
+    });
+
+    await expect(cerebellum.executeTool({ tool: "gh", args: "pr list" } as any, { ctx })).rejects.toMatchObject({
+      code: "TOOL.INVALID_INPUT",
+      message: expect.stringMatching(/^Invalid input for tool 'gh': args: /),
+    });
+
+    const rewritten = new Cerebellum<Ctx>();
+    rewritten.on("tool.request", (evt) => ({ ...evt, payload: { request: { tool: "nope" } } }));
+    await expect(rewritten.executeTool({ tool: "gh", args: [] }, { ctx })).rejects.toMatchObject({
+      code: "TOOL.UNKNOWN",
+    });
+
+    expect(() => createCerebellumToolRegistry().register({ ...echoTool, name: "gh" })).toThrow(
+      "Tool 'gh' is already registered.",
+    );
+  });
+
+  it("maps registered tools to abilities and allowed-tools names", async () => {
+    const tools = createCerebellumToolRegistry();
+    tools.register(echoTool);
+    tools.register({ ...echoTool, name: "fetch", ability: (input) => ({ ability: "network", scope: input.text }) });
+    expect(toolCallsForRequest({ tool: "echo", text: "hi" }, tools)).toEqual([{ tool: "echo" }]);
+
+    const cerebellum = new Cerebellum<Ctx>({ tools });
+    cerebellum.on(
+      "tool.request",
+      createAbilitiesHook<Ctx>((ctx) => ctx.abilities, {
+        tools,
+        onDeny: ({ decision }, ctx) => ctx.denied.push(decision.reason),
+      }),
+    );
+    const ctx: Ctx = { abilities: { allow: ["tool:echo", "network:*.example.com"] }, denied: [] };
+    expect((await cerebellum.executeTool({ tool: "echo", text: "hi" }, { ctx })).result.ok).toBe(true);
+    expect((await cerebellum.executeTool({ tool: "fetch", text: "api.example.com" }, { ctx })).result.ok).toBe(true);
+    expect((await cerebellum.executeTool({ tool: "fetch", text: "evil.test" }, { ctx })).result).toMatchObject({
+      blocked: true,
+    });
+    expect(ctx.denied).toEqual(["'network:evil.test' is not allowed: no entry in abilities.allow matches."]);
+  });
+});
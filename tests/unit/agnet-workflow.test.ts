@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { Cerebellum } from "../../src/agnet/cerebellum.ts";
+import { Workflow, type WorkflowCheckpoint } from "../../src/agnet/workflow.ts";
+import { CollectionFactory } from "../../src/stc/light/collection.ts";
+
+describe("agnet: workflows", () => {
+  it("checkpoints completed steps and resumes at the first incomplete one", async () => {
+    const store = new CollectionFactory().create<WorkflowCheckpoint, string>({ name: "checkpoints", keyField: "id" });
+    const calls: string[] = [];
+    let jobFails = true;
+    const workflow = new Workflow<{ issue: number }>({
+      name: "resolve",
+      steps: [
+        { name: "ack", run: async () => (calls.push("ack"), { ok: true }) },
+        {
+          name: "start-job",
+          run: async ({ issue }) => {
+            calls.push("start-job");
+            return jobFails ? { ok: false, error: "rate limited" } : { ok: true, value: { jobId: `job-${issue}` } };
+          },
+        },
+        {
+          name: "summary",
+          run: async (_ctx, results) => (calls.push(`summary ${JSON.stringify(results)}`), { ok: true }),
+        },
+      ],
+    });
+
+    const cerebellum = new Cerebellum();
+    const steps: string[] = [];
+    cerebellum.channel.subscribe((evt: any) => {
+      if (evt.data?.type === "workflow.step") steps.push(`${evt.data.payload.step}:${evt.data.payload.status}`);
+      if (evt.data?.type === "log") steps.push(evt.data.payload.message);
+    });
+    let persisted = 0;
+    const opts = { runId: "42", ctx: { issue: 42 }, cerebellum, store, persist: async () => void persisted++ };
+
+    expect(await workflow.run(opts)).toEqual({
+      ok: false,
+      step: "start-job",
+      error: "rate limited",
+      attempts: 1,
+      exhausted: false,
+      results: { ack: undefined },
+      restored: [],
+    });
+    expect(store.list().map((c) => `${c.id}:${c.status}`)).toEqual([
+      "resolve:42:ack:done",
+      "resolve:42:start-job:failed",
+    ]);
+
+    jobFails = false;
+    const resumed = await workflow.run(opts);
+    expect(resumed).toMatchObject({ ok: true, restored: ["ack"], results: { "start-job": { jobId: "job-42" } } });
+    expect(calls).toEqual(["ack", "start-job", "start-job", 'summary {"start-job":{"jobId":"job-42"}}']);
+    expect(persisted).toBe(4);
+    expect(store.get("resolve:42:start-job")).toMatchObject({
+      status: "done",
+      attempts: 2,
+      value: { jobId: "job-42" },
+    });
+    expect(steps).toEqual([
+      "ack:done",
+      "start-job:failed",
+      "ack:restored",
+      "Resuming workflow resolve at 'start-job' (done: ack)",
+      "start-job:done",
+      "summary:done",
+    ]);
+
+    // Every step is checkpointed now: nothing runs again.
+    expect((await workflow.run(opts)).restored).toEqual(["ack", "start-job", "summary"]);
+    expect(calls).toHaveLength(4);
+  });
+
+  it("counts failed attempts per step and reports when they are exhausted", async () => {
+    const store = new CollectionFactory().create<WorkflowCheckpoint, string>({ name: "checkpoints", keyField: "id" });
+    const workflow = new Workflow<null>({
+      name: "resolve",
+      steps: [{ name: "start-job", run: async () => ({ ok: false, error: "rate limited" }) }],
+    });
+    const opts = { runId: "42", ctx: null, cerebellum: new Cerebellum(), store, maxAttempts: 2 };
+
+    expect(await workflow.run(opts)).toMatchObject({ ok: false, attempts: 1, exhausted: false });
+    expect(await workflow.run(opts)).toMatchObject({ ok: false, attempts: 2, exhausted: true });
+    expect(store.get("resolve:42:start-job")).toMatchObject({ status: "failed", error: "rate limited", attempts: 2 });
+  });
+
+  it("rejects duplicate step names", () => {
+    const step = { name: "ack", run: async () => ({ ok: true as const }) };
+    expect(() => new Workflow({ name: "resolve", steps: [step, step] })).toThrow(
+      "Workflow 'resolve' declares step 'ack' twice."
+    );
+  });
+});
@@ -109,3 +109,459 @@ describe("cli: tempybot parse", () => {
   });
 });
 
+
+describe("cli: tempybot parse (bundles)", () => {
+  it("prints the agents of a *.agents.md bundle and reports unknown delegates", async () => {
+    const dir = await makeTempDir();
+    const file = path.join(dir, "crew.agents.md");
+    const bundle = (delegate: string) =>
+      `# Lead\n---\ncommands:\n  - name: fix\n    description: Fix\n    body: Fix it.\n` +
+      `    delegate: ${delegate}\n---\n\n# Fixer\n`;
+    await fs.writeFile(file, bundle("fixer"), "utf8");
+
+    const cwdSpy = vi.spyOn(process, "cwd").mockReturnValue(dir);
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    try {
+      expect(await main(["parse", "crew.agents.md"])).toBe(0);
+      const printed = JSON.parse(String(logSpy.mock.calls[0]?.[0])) as { name: string; agents: Array<{ id: string }> };
+      expect(printed.name).toBe("crew");
+      expect(printed.agents.map((a) => a.id)).toEqual(["lead", "fixer"]);
+
+      await fs.writeFile(file, bundle("nobody"), "utf8");
+      expect(await main(["parse", "crew.agents.md"])).toBe(1);
+      expect(String(errSpy.mock.calls[0]?.[0])).toMatch(/^crew\.agents\.md: error BUNDLE\.UNKNOWN_DELEGATE: /);
+      expect(await main(["parse", "crew.agents.md", "--watch"])).toBe(2);
+    } finally {
+      cwdSpy.mockRestore();
+      logSpy.mockRestore();
+      errSpy.mockRestore();
+    }
+  });
+});
+
+describe("cli: tempybot parse --watch", () => {
+  it("recompiles on changes to the template and its base, prints diffs and survives errors", async () => {
+    const dir = await makeTempDir();
+    const base = path.join(dir, "base.agent.md");
+    const file = path.join(dir, "one.agent.md");
+    const out = path.join(dir, "out", "one.agent.json");
+    await fs.writeFile(base, `# Base\n\n## Rules\n\n- Be brief.\n`, "utf8");
+    await fs.writeFile(file, `---\nextends: ./base.agent.md\n---\n\n# My Agent\n`, "utf8");
+
+    const cwdSpy = vi.spyOn(process, "cwd").mockReturnValue(dir);
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const controller = new AbortController();
+    const logged = () => logSpy.mock.calls.map((c) => String(c[0]));
+
+    try {
+      const running = main(["parse", file, "--out", out, "--watch"], { signal: controller.signal });
+      await vi.waitFor(() => expect(errSpy).toHaveBeenCalledWith("Watching one.agent.md for changes (Ctrl+C to stop)."));
+      expect((JSON.parse(logged()[0]!) as { title: string }).title).toBe("My Agent");
+
+      await fs.writeFile(base, `# Base\n\n## Rules\n\n- Be brief.\n- Cite sources.\n`, "utf8");
+      await vi.waitFor(() =>
+        expect(logged()).toContain('one.agent.md: 1 change\n  ~ rules: "- Be brief." -> "- Be brief.\\n- Cite sources."'),
+      );
+      const written = JSON.parse(await fs.readFile(out, "utf8")) as { rules: string };
+      expect(written.rules).toBe("- Be brief.\n- Cite sources.");
+
+      await fs.writeFile(file, ``, "utf8");
+      await vi.waitFor(() => expect(errSpy).toHaveBeenCalledWith("one.agent.md: failed (keeping the previous output)"));
+
+      await fs.writeFile(file, `---\nextends: ./base.agent.md\n---\n\n# Renamed\n`, "utf8");
+      await vi.waitFor(() =>
+        expect(logged().at(-1)).toMatch(/^one\.agent\.md: \d+ changes\n  ~ title: "My Agent" -> "Renamed"/),
+      );
+
+      controller.abort();
+      expect(await running).toBe(0);
+    } finally {
+      controller.abort();
+      cwdSpy.mockRestore();
+      logSpy.mockRestore();
+      errSpy.mockRestore();
+    }
+  });
+});
+
+describe("cli: tempybot schema", () => {
+  it("writes the requested JSON Schema to --out", async () => {
+    const dir = await makeTempDir();
+    const out = path.join(dir, "agent-frontmatter.schema.json");
+
+    const cwdSpy = vi.spyOn(process, "cwd").mockReturnValue(dir);
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    try {
+      const code = await main(["schema", "frontmatter", "--out", out]);
+      expect(code).toBe(0);
+      expect(errSpy).not.toHaveBeenCalled();
+
+      const written = JSON.parse(await fs.readFile(out, "utf8")) as { $id: string; properties: Record<string, unknown> };
+      expect(written.$id).toMatch(/agent-frontmatter\.schema\.json$/);
+      expect(Object.keys(written.properties)).toEqual(expect.arrayContaining(["title", "abilities", "mcpServers"]));
+    } finally {
+      cwdSpy.mockRestore();
+      logSpy.mockRestore();
+      errSpy.mockRestore();
+    }
+  });
+
+  it("returns exit code 2 for an unknown schema kind", async () => {
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    try {
+      expect(await main(["schema", "nope"])).toBe(2);
+    } finally {
+      errSpy.mockRestore();
+    }
+  });
+});
+
+describe("cli: tempybot render", () => {
+  it("renders with --vars and --var (which wins) and writes --out", async () => {
+    const dir = await makeTempDir();
+    const file = path.join(dir, "one.agent.md");
+    const varsFile = path.join(dir, "vars.json");
+    const out = path.join(dir, "one.rendered.json");
+    await fs.writeFile(file, `---\ninput: repo\n---\n\n# My Agent\n\n## System\nWork on {{repo}} as {{role}}.\n`, "utf8");
+    await fs.writeFile(varsFile, JSON.stringify({ repo: "from-file", role: "reviewer" }), "utf8");
+
+    const cwdSpy = vi.spyOn(process, "cwd").mockReturnValue(dir);
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    try {
+      const code = await main(["render", file, "--vars", varsFile, "--var", "repo=acme/api", "--out", out]);
+      expect(code).toBe(0);
+      expect(errSpy).not.toHaveBeenCalled();
+      const written = JSON.parse(await fs.readFile(out, "utf8")) as { system: string };
+      expect(written.system).toBe("Work on acme/api as reviewer.");
+    } finally {
+      cwdSpy.mockRestore();
+      logSpy.mockRestore();
+      errSpy.mockRestore();
+    }
+  });
+
+  it("returns exit code 1 when a variable is missing", async () => {
+    const dir = await makeTempDir();
+    const file = path.join(dir, "one.agent.md");
+    await fs.writeFile(file, `# My Agent\n\n## System\nWork on {{repo}}.\n`, "utf8");
+
+    const cwdSpy = vi.spyOn(process, "cwd").mockReturnValue(dir);
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    try {
+      const code = await main(["render", file]);
+      expect(code).toBe(1);
+      expect(logSpy).not.toHaveBeenCalled();
+      expect(String(errSpy.mock.calls[0]?.[0] ?? "")).toMatch(/RENDER\.MISSING_VARIABLE/);
+    } finally {
+      cwdSpy.mockRestore();
+      logSpy.mockRestore();
+      errSpy.mockRestore();
+    }
+  });
+});
+
+describe("cli: diagnostics of included and base templates", () => {
+  it("point at the file the problem is in", async () => {
+    const dir = await makeTempDir();
+    await fs.mkdir(path.join(dir, "shared"));
+    await fs.writeFile(path.join(dir, "shared", "commands.md"), `## Commands\n\n### deploy\n\nDeploy it.\n`, "utf8");
+    await fs.writeFile(path.join(dir, "ops.agent.md"), `# Ops\n\n<!-- include: shared/commands.md -->\n`, "utf8");
+    await fs.writeFile(path.join(dir, "base.agent.md"), `---\nstatus: sleeping\n---\n\n# Base\n`, "utf8");
+    await fs.writeFile(path.join(dir, "child.agent.md"), `---\nextends: ./base.agent.md\n---\n\n# Child\n`, "utf8");
+
+    const cwdSpy = vi.spyOn(process, "cwd").mockReturnValue(dir);
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const errors = () => errSpy.mock.calls.map((c) => String(c[0]).split(":").slice(0, 2).join(":"));
+
+    try {
+      for (const command of ["parse", "render", "format"]) {
+        errSpy.mockClear();
+        expect(await main([command, "ops.agent.md"])).toBe(1);
+        expect(errors(), command).toEqual(["shared/commands.md:3"]);
+
+        errSpy.mockClear();
+        expect(await main([command, "child.agent.md"])).toBe(1);
+        expect(errors(), command).toEqual(["base.agent.md:2"]);
+      }
+
+      errSpy.mockClear();
+      expect(await main(["list", "."])).toBe(1);
+      expect(errors()).toEqual(["base.agent.md:2", "base.agent.md:2", "shared/commands.md:3"]);
+    } finally {
+      cwdSpy.mockRestore();
+      logSpy.mockRestore();
+      errSpy.mockRestore();
+    }
+  });
+});
+
+describe("cli: tempybot format", () => {
+  it("prints the canonical template and rewrites the file with --write", async () => {
+    const dir = await makeTempDir();
+    const file = path.join(dir, "one.agent.md");
+    await fs.writeFile(file, `---\nStatus: Active\n---\n# My Agent\n## System\nBe helpful.\n`, "utf8");
+    const expected = `---\nschemaVersion: 2\nversion: 0.1.0\n---\n\n# My Agent\n\n## System\n\nBe helpful.\n`;
+
+    const cwdSpy = vi.spyOn(process, "cwd").mockReturnValue(dir);
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    try {
+      expect(await main(["format", file])).toBe(0);
+      expect(errSpy).not.toHaveBeenCalled();
+      expect(`${String(logSpy.mock.calls[0]?.[0] ?? "")}\n`).toBe(expected);
+
+      expect(await main(["format", file, "--write"])).toBe(0);
+      expect(await fs.readFile(file, "utf8")).toBe(expected);
+    } finally {
+      cwdSpy.mockRestore();
+      logSpy.mockRestore();
+      errSpy.mockRestore();
+    }
+  });
+
+  it("refuses templates that use extends", async () => {
+    const dir = await makeTempDir();
+    await fs.writeFile(path.join(dir, "base.agent.md"), `# Base\n`, "utf8");
+    const file = path.join(dir, "child.agent.md");
+    await fs.writeFile(file, `---\nextends: base\n---\n\n# Child\n`, "utf8");
+
+    const cwdSpy = vi.spyOn(process, "cwd").mockReturnValue(dir);
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    try {
+      expect(await main(["format", file, "--write"])).toBe(1);
+      expect(String(errSpy.mock.calls[0]?.[0] ?? "")).toBe("child.agent.md: cannot format a template that uses 'extends'.");
+      expect(await fs.readFile(file, "utf8")).toBe(`---\nextends: base\n---\n\n# Child\n`);
+    } finally {
+      cwdSpy.mockRestore();
+      logSpy.mockRestore();
+      errSpy.mockRestore();
+    }
+  });
+});
+
+describe("cli: tempybot compile", () => {
+  it("exits non-zero only with --fail-on", async () => {
+    const dir = await makeTempDir();
+    await fs.writeFile(path.join(dir, "good.agent.md"), `# Good\n`, "utf8");
+    await fs.writeFile(path.join(dir, "bad.agent.md"), `---\nstatus: sleeping\n---\n\n# Bad\n`, "utf8");
+
+    const cwdSpy = vi.spyOn(process, "cwd").mockReturnValue(dir);
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    try {
+      expect(await main(["compile", ".", "--out-dir", "out"])).toBe(0);
+      expect(String(logSpy.mock.calls[0]?.[0] ?? "")).toBe("Compiled 1/2 agents to out (1 errors, 0 warnings, 1 failed).");
+      expect(String(errSpy.mock.calls[0]?.[0] ?? "")).toMatch(/^bad\.agent\.md:2:1: error FRONTMATTER\.INVALID/);
+      await expect(fs.stat(path.join(dir, "out", "good.json"))).resolves.toBeTruthy();
+
+      expect(await main(["compile", "*.agent.md", "--out-dir", "out", "--fail-on", "error"])).toBe(1);
+      expect(await main(["compile", "good.agent.md", "--out-dir", "out", "--fail-on", "warn"])).toBe(0);
+      expect(await main(["compile", ".", "--out-dir", "out", "--fail-on", "never"])).toBe(2);
+    } finally {
+      cwdSpy.mockRestore();
+      logSpy.mockRestore();
+      errSpy.mockRestore();
+    }
+  });
+
+  it("--watch recompiles changed and added templates and rewrites the manifest", async () => {
+    const dir = await makeTempDir();
+    await fs.writeFile(path.join(dir, "a.agent.md"), `# A\n`, "utf8");
+
+    const cwdSpy = vi.spyOn(process, "cwd").mockReturnValue(dir);
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const controller = new AbortController();
+    const logged = () => logSpy.mock.calls.map((c) => String(c[0]));
+    const manifest = async () =>
+      (JSON.parse(await fs.readFile(path.join(dir, "out", "manifest.json"), "utf8")) as Array<{ title: string }>).map(
+        (e) => e.title,
+      );
+
+    try {
+      const running = main(["compile", ".", "--out-dir", "out", "--watch"], { signal: controller.signal });
+      await vi.waitFor(() => expect(logged()).toEqual(["Compiled 1/1 agents to out (0 errors, 0 warnings)."]));
+
+      await fs.writeFile(path.join(dir, "b.agent.md"), `# B\n`, "utf8");
+      await vi.waitFor(() => expect(logged()).toContain("b.agent.md: compiled"));
+      await vi.waitFor(async () => expect(await manifest()).toEqual(["A", "B"]));
+
+      await fs.writeFile(path.join(dir, "a.agent.md"), `# A2\n`, "utf8");
+      await vi.waitFor(() => expect(logged().some((l) => l.startsWith("a.agent.md: "))).toBe(true));
+      await vi.waitFor(async () => expect(await manifest()).toEqual(["A2", "B"]));
+
+      controller.abort();
+      expect(await running).toBe(0);
+    } finally {
+      controller.abort();
+      cwdSpy.mockRestore();
+      logSpy.mockRestore();
+      errSpy.mockRestore();
+    }
+  });
+});
+
+describe("cli: tempybot diff", () => {
+  it("prints classified changes as text or --json", async () => {
+    const dir = await makeTempDir();
+    await fs.writeFile(path.join(dir, "old.agent.md"), `---\nabilities: [fs]\n---\n\n# Agent\n`, "utf8");
+    await fs.writeFile(path.join(dir, "new.agent.md"), `---\nabilities: [fs, sh]\n---\n\n# Agent\n`, "utf8");
+
+    const cwdSpy = vi.spyOn(process, "cwd").mockReturnValue(dir);
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    try {
+      expect(await main(["diff", "old.agent.md", "new.agent.md"])).toBe(0);
+      expect(String(logSpy.mock.calls[0]?.[0])).toBe(
+        [
+          "Security (1):",
+          "  - abilities.allow: Abilities widened: now allows 'sh'.",
+          "1 change: 0 breaking, 1 security, 0 cosmetic.",
+        ].join("\n"),
+      );
+
+      expect(await main(["diff", "old.agent.md", "new.agent.md", "--json"])).toBe(0);
+      const report = JSON.parse(String(logSpy.mock.calls[1]?.[0])) as {
+        summary: Record<string, number>;
+        changes: Array<{ kind: string }>;
+      };
+      expect(report.summary).toEqual({ breaking: 0, security: 1, cosmetic: 0 });
+      expect(report.changes.map((c) => c.kind)).toEqual(["ability.allowed"]);
+
+      expect(await main(["diff", "old.agent.md"])).toBe(2);
+      expect(await main(["diff", "old.agent.md", "gone.agent.md"])).toBe(1);
+      expect(errSpy).toHaveBeenLastCalledWith("Input not found: gone.agent.md");
+    } finally {
+      cwdSpy.mockRestore();
+      logSpy.mockRestore();
+      errSpy.mockRestore();
+    }
+  });
+});
+
+describe("cli: tempybot lint", () => {
+  it("prints JSON findings and exits 1 when a rule reports an error", async () => {
+    const dir = await makeTempDir();
+    await fs.writeFile(path.join(dir, "one.agent.md"), `---\nabilities: [sh]\n---\n\n# One\n\nDoes one thing.\n`, "utf8");
+    await fs.writeFile(path.join(dir, "tempybot.config.json"), JSON.stringify({ lint: { rules: { "broad-ability": "error" } } }));
+
+    const cwdSpy = vi.spyOn(process, "cwd").mockReturnValue(dir);
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    try {
+      expect(await main(["lint", ".", "--format", "json"])).toBe(1);
+      const json = JSON.parse(String(logSpy.mock.calls[0]?.[0] ?? "")) as {
+        ok: boolean;
+        errors: number;
+        files: Array<{ file: string; issues: Array<{ rule: string; severity: string }> }>;
+      };
+      expect(json.ok).toBe(false);
+      expect(json.errors).toBe(1);
+      expect(json.files[0]!.issues.map((i) => [i.rule, i.severity])).toEqual([
+        ["rules-empty", "warn"],
+        ["broad-ability", "error"],
+      ]);
+
+      expect(await main(["lint", ".", "--format", "xml"])).toBe(2);
+    } finally {
+      cwdSpy.mockRestore();
+      logSpy.mockRestore();
+      errSpy.mockRestore();
+    }
+  });
+});
+
+describe("cli: tempybot migrate", () => {
+  it("lists outdated templates, exits 1 without --write and rewrites them with --write", async () => {
+    const dir = await makeTempDir();
+    const file = path.join(dir, "ops.agent.md");
+    await fs.writeFile(file, `---\nmcp_servers:\n  db:\n    command: db-mcp\n---\n\n# Ops\n`, "utf8");
+
+    const cwdSpy = vi.spyOn(process, "cwd").mockReturnValue(dir);
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    try {
+      expect(await main(["parse", "ops.agent.md"])).toBe(0);
+      expect(String(errSpy.mock.calls[0]?.[0])).toMatch(/^ops\.agent\.md:2:1: warn SCHEMA\.MIGRATED: 'mcp_servers'/);
+
+      logSpy.mockClear();
+      expect(await main(["migrate", "."])).toBe(1);
+      expect(logSpy.mock.calls.map((c) => c[0])).toEqual([
+        "ops.agent.md: schemaVersion 1 -> 2",
+        "  - mcp_servers: 'mcp_servers' was renamed to 'mcpServers'.",
+        "1 of 1 templates need migration to schemaVersion 2.",
+      ]);
+
+      logSpy.mockClear();
+      expect(await main(["migrate", ".", "--write"])).toBe(0);
+      expect(logSpy.mock.calls.at(-1)?.[0]).toBe("1 of 1 templates migrated to schemaVersion 2.");
+      expect(await fs.readFile(file, "utf8")).toBe(
+        `---\nschemaVersion: 2\nmcpServers:\n  db:\n    command: db-mcp\n---\n\n# Ops\n`,
+      );
+      expect(await main(["migrate", "."])).toBe(0);
+      expect(await main(["migrate"])).toBe(2);
+    } finally {
+      cwdSpy.mockRestore();
+      logSpy.mockRestore();
+      errSpy.mockRestore();
+    }
+  });
+});
+
+describe("cli: tempybot list", () => {
+  it("lists agents matching --where conditions", async () => {
+    const dir = await makeTempDir();
+    await fs.mkdir(path.join(dir, "agents"));
+    await fs.writeFile(
+      path.join(dir, "agents", "fetcher.agent.md"),
+      `---\ntags: [Web]\nabilities: [network]\n---\n\n# Fetcher\n`,
+      "utf8",
+    );
+    await fs.writeFile(path.join(dir, "agents", "writer.agent.md"), `---\ntags: [docs]\n---\n\n# Writer\n`, "utf8");
+
+    const cwdSpy = vi.spyOn(process, "cwd").mockReturnValue(dir);
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    try {
+      expect(await main(["list", "agents", "--where", "status=active ability=network"])).toBe(0);
+      expect(logSpy.mock.calls.map((c) => c[0])).toEqual([
+        "agents/fetcher.agent.md: Fetcher [active] #web",
+        "1 of 2 agents match.",
+      ]);
+
+      logSpy.mockClear();
+      expect(await main(["list", "agents", "--where", "tag=web,docs", "--json"])).toBe(0);
+      const printed = JSON.parse(String(logSpy.mock.calls[0]?.[0])) as Array<{ file: string; abilities: string[] }>;
+      expect(printed.map((e) => [e.file, e.abilities])).toEqual([
+        ["agents/fetcher.agent.md", ["network"]],
+        ["agents/writer.agent.md", []],
+      ]);
+
+      expect(await main(["list", "agents", "--where", "colour=red"])).toBe(1);
+      expect(String(errSpy.mock.calls.at(-1)?.[0])).toMatch(/^Invalid condition 'colour=red'/);
+      expect(await main(["list"])).toBe(2);
+    } finally {
+      cwdSpy.mockRestore();
+      logSpy.mockRestore();
+      errSpy.mockRestore();
+    }
+  });
+});